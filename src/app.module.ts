@@ -1,11 +1,20 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { UsersModule } from './users/users.module';
 import { AuthModule } from './auth/auth.module';
 import { CategoriesModule } from './categories/categories.module';
 import { TaskModule } from './task/task.module';
 import { CommentsModule } from './comments/comments.module';
+import { SearchModule } from './search/search.module';
+import { TrashModule } from './trash/trash.module';
+import { LabelsModule } from './labels/labels.module';
+import { AttachmentsModule } from './attachments/attachments.module';
+import { TimeEntriesModule } from './time-entries/time-entries.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { ReactionsModule } from './reactions/reactions.module';
+import { WorkspacesModule } from './workspaces/workspaces.module';
 
 @Module({
   imports: [
@@ -30,11 +39,21 @@ import { CommentsModule } from './comments/comments.module';
       }),
       inject: [ConfigService],
     }),
+    // Habilitar las tareas programadas (generación de tareas recurrentes)
+    ScheduleModule.forRoot(),
     UsersModule,
     AuthModule,
     CategoriesModule,
+    LabelsModule,
     TaskModule,
     CommentsModule,
+    SearchModule,
+    TrashModule,
+    AttachmentsModule,
+    TimeEntriesModule,
+    NotificationsModule,
+    ReactionsModule,
+    WorkspacesModule,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,25 @@
+/**
+ * Tamaño máximo de un archivo adjunto (10 MB)
+ */
+export const ATTACHMENT_MAX_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Tipos MIME que se aceptan como adjuntos: capturas de pantalla, logs y documentos
+ */
+export const ATTACHMENT_ALLOWED_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'text/plain',
+  'text/csv',
+  'application/json',
+  'application/pdf',
+  'application/zip',
+  'application/gzip',
+];
+
+/**
+ * Directorio donde el almacenamiento local guarda los archivos si no se configura ATTACHMENTS_DIR
+ */
+export const DEFAULT_ATTACHMENTS_DIR = 'uploads';
@@ -0,0 +1,181 @@
+// Importa decoradores y tipos de NestJS para el controlador
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+
+// Importa el interceptor que procesa las peticiones multipart/form-data
+import { FileInterceptor } from '@nestjs/platform-express';
+
+// Importa el servicio de adjuntos
+import { AttachmentsService } from './attachments.service';
+
+// Importa el tamaño máximo de los adjuntos
+import { ATTACHMENT_MAX_SIZE } from './attachments.constants';
+
+// Importa los guards de autenticación, de pertenencia al espacio de trabajo y de roles
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { WorkspaceMemberGuard } from '../workspaces/guards/workspace-member.guard';
+import { RolesGuard } from '../auth/roles/roles.guard';
+
+// Importa el decorador de roles y el enum de roles
+import { Roles } from '../auth/roles/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+
+// Importa el tipo de la petición autenticada (req.user y req.workspaceRole)
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+
+/**
+ * Opciones de multer para los adjuntos
+ * El archivo se recibe en memoria y un archivo mayor que el límite se rechaza con 413
+ */
+const UPLOAD_OPTIONS = { limits: { fileSize: ATTACHMENT_MAX_SIZE, files: 1 } };
+
+/**
+ * Decorador que marca esta clase como un controlador de NestJS
+ * Define la ruta base para todos los endpoints: /workspaces/:wid/tasks/:taskId
+ * Los adjuntos son un recurso anidado dentro de las tareas y de sus comentarios
+ */
+@Controller('workspaces/:wid/tasks/:taskId')
+/**
+ * Decorador que protege todas las rutas de este controlador con autenticación JWT
+ * Incluida la descarga: los archivos solo se sirven a usuarios autenticados
+ * WorkspaceMemberGuard exige ser miembro del espacio de trabajo y que la tarea pertenezca a él
+ */
+@UseGuards(JwtAuthGuard, WorkspaceMemberGuard, RolesGuard)
+
+/**
+ * AttachmentsController - Controlador que gestiona los archivos adjuntos
+ * Los archivos se suben como multipart/form-data en el campo "file"
+ */
+export class AttachmentsController {
+  /**
+   * Constructor que recibe el servicio de adjuntos mediante inyección de dependencias
+   * @param attachmentsService - Servicio con la lógica de los adjuntos
+   */
+  constructor(private readonly attachmentsService: AttachmentsService) {}
+
+  /**
+   * Endpoint POST /workspaces/:wid/tasks/:taskId/attachments
+   * Adjunta un archivo a la tarea
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param file - Archivo enviado en el campo "file"
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @returns Promise<Attachment> - Metadatos del adjunto creado
+   * @throws NotFoundException - Si la tarea no existe
+   * @throws PayloadTooLargeException - Si el archivo supera el tamaño máximo
+   * @throws UnsupportedMediaTypeException - Si el tipo de archivo no está permitido
+   */
+  @Post('attachments')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UseInterceptors(FileInterceptor('file', UPLOAD_OPTIONS))
+  uploadToTask(
+    @Param('taskId') taskId: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.attachmentsService.uploadToTask(taskId, file, userId);
+  }
+
+  /**
+   * Endpoint GET /workspaces/:wid/tasks/:taskId/attachments
+   * Obtiene los adjuntos de la tarea
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @returns Promise<Attachment[]> - Adjuntos de la tarea
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  @Get('attachments')
+  findByTask(@Param('taskId') taskId: string) {
+    return this.attachmentsService.findByTask(taskId);
+  }
+
+  /**
+   * Endpoint GET /workspaces/:wid/tasks/:taskId/attachments/:id/download
+   * Descarga el contenido de un adjunto de la tarea o de uno de sus comentarios
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param id - ID del adjunto (parámetro de la URL)
+   * @returns StreamableFile - Contenido del archivo con su tipo y nombre original
+   * @throws NotFoundException - Si el adjunto no existe
+   */
+  @Get('attachments/:id/download')
+  download(@Param('taskId') taskId: string, @Param('id') id: string) {
+    return this.attachmentsService.download(taskId, id);
+  }
+
+  /**
+   * Endpoint DELETE /workspaces/:wid/tasks/:taskId/attachments/:id
+   * Elimina un adjunto de la tarea o de uno de sus comentarios
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param id - ID del adjunto (parámetro de la URL)
+   * @throws NotFoundException - Si el adjunto no existe
+   */
+  @Delete('attachments/:id')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  remove(@Param('taskId') taskId: string, @Param('id') id: string) {
+    return this.attachmentsService.remove(taskId, id);
+  }
+
+  /**
+   * Endpoint POST /workspaces/:wid/tasks/:taskId/comments/:commentId/attachments
+   * Adjunta un archivo a un comentario de la tarea
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param commentId - ID del comentario (parámetro de la URL)
+   * @param file - Archivo enviado en el campo "file"
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @returns Promise<Attachment> - Metadatos del adjunto creado
+   * @throws NotFoundException - Si el comentario no existe
+   * @throws PayloadTooLargeException - Si el archivo supera el tamaño máximo
+   * @throws UnsupportedMediaTypeException - Si el tipo de archivo no está permitido
+   */
+  @Post('comments/:commentId/attachments')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UseInterceptors(FileInterceptor('file', UPLOAD_OPTIONS))
+  uploadToComment(
+    @Param('taskId') taskId: string,
+    @Param('commentId') commentId: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.attachmentsService.uploadToComment(
+      taskId,
+      commentId,
+      file,
+      userId,
+    );
+  }
+
+  /**
+   * Endpoint GET /workspaces/:wid/tasks/:taskId/comments/:commentId/attachments
+   * Obtiene los adjuntos de un comentario de la tarea
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param commentId - ID del comentario (parámetro de la URL)
+   * @returns Promise<Attachment[]> - Adjuntos del comentario
+   * @throws NotFoundException - Si el comentario no existe
+   */
+  @Get('comments/:commentId/attachments')
+  findByComment(
+    @Param('taskId') taskId: string,
+    @Param('commentId') commentId: string,
+  ) {
+    return this.attachmentsService.findByComment(taskId, commentId);
+  }
+}
@@ -0,0 +1,56 @@
+// Importa decoradores de NestJS
+import { Module } from '@nestjs/common';
+
+// Importa TypeOrmModule para registrar las entidades
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+// Importa los componentes del módulo de adjuntos
+import { AttachmentsService } from './attachments.service';
+import { AttachmentsController } from './attachments.controller';
+
+// Importa el almacenamiento de adjuntos y su token de inyección
+import { ATTACHMENT_STORAGE } from './storage/attachment-storage.interface';
+import { LocalAttachmentStorage } from './storage/local-attachment.storage';
+
+// Importa las entidades necesarias
+import { Attachment } from './entities/attachment.entity';
+import { Task } from '../task/entities/task.entity';
+import { Comment } from '../comments/entities/comment.entity';
+
+// Importa WorkspacesModule para proteger las rutas con WorkspaceMemberGuard
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+
+/**
+ * AttachmentsModule: Módulo de archivos adjuntos de tareas y comentarios
+ */
+@Module({
+  /**
+   * Registra Attachment, y Task y Comment para validar a quién se adjunta cada archivo
+   * WorkspacesModule: Provee el guard que resuelve el espacio de trabajo de la ruta
+   */
+  imports: [
+    TypeOrmModule.forFeature([Attachment, Task, Comment]),
+    WorkspacesModule,
+  ],
+
+  /**
+   * Controlador que expone los endpoints de subida, listado, descarga y eliminación
+   */
+  controllers: [AttachmentsController],
+
+  /**
+   * AttachmentsService: Lógica de los adjuntos
+   * ATTACHMENT_STORAGE: Almacenamiento de los archivos (por ahora, el disco local)
+   *   Para usar otro almacenamiento (ej: S3) basta con cambiar useClass
+   */
+  providers: [
+    AttachmentsService,
+    { provide: ATTACHMENT_STORAGE, useClass: LocalAttachmentStorage },
+  ],
+
+  /**
+   * Exporta AttachmentsService para que la papelera elimine los archivos al purgar
+   */
+  exports: [AttachmentsService],
+})
+export class AttachmentsModule {}
@@ -0,0 +1,335 @@
+// Importa decoradores y excepciones de NestJS
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  StreamableFile,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+
+// Importa decoradores y tipos de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, In, Repository } from 'typeorm';
+
+// Importa randomUUID para generar las claves de almacenamiento
+import { randomUUID } from 'crypto';
+
+// Importa las entidades necesarias
+import { Attachment } from './entities/attachment.entity';
+import { Task } from '../task/entities/task.entity';
+import { Comment } from '../comments/entities/comment.entity';
+
+// Importa el almacenamiento de adjuntos y su token de inyección
+import { ATTACHMENT_STORAGE } from './storage/attachment-storage.interface';
+import type { AttachmentStorage } from './storage/attachment-storage.interface';
+
+// Importa los límites de los adjuntos
+import { ATTACHMENT_ALLOWED_MIME_TYPES } from './attachments.constants';
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * AttachmentsService - Servicio que gestiona los archivos adjuntos de tareas y comentarios
+ * Guarda los metadatos en la tabla attachments y el contenido en el almacenamiento configurado
+ * Los adjuntos se conservan mientras su tarea o comentario está en la papelera
+ * y se eliminan (con sus archivos) cuando se purgan definitivamente
+ */
+export class AttachmentsService {
+  /**
+   * Constructor que recibe los repositorios y el almacenamiento mediante inyección de dependencias
+   * @param attachmentsRepository - Repositorio de TypeORM para la tabla attachments
+   * @param tasksRepository - Repositorio de Task para validar que la tarea existe
+   * @param commentsRepository - Repositorio de Comment para validar que el comentario existe
+   * @param storage - Almacenamiento donde se guarda el contenido de los archivos
+   */
+  constructor(
+    @InjectRepository(Attachment)
+    private attachmentsRepository: Repository<Attachment>,
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+    @InjectRepository(Comment)
+    private commentsRepository: Repository<Comment>,
+    @Inject(ATTACHMENT_STORAGE)
+    private storage: AttachmentStorage,
+  ) {}
+
+  /**
+   * Adjunta un archivo a una tarea
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @param file - Archivo recibido en la petición multipart
+   * @param userId - ID del usuario que sube el archivo (extraído del token JWT)
+   * @returns Promise<Attachment> - Metadatos del adjunto creado
+   * @throws NotFoundException - Si la tarea no existe
+   * @throws BadRequestException - Si no se envió ningún archivo
+   * @throws UnsupportedMediaTypeException - Si el tipo de archivo no está permitido
+   */
+  async uploadToTask(
+    taskId: string,
+    file: Express.Multer.File | undefined,
+    userId: string,
+  ): Promise<Attachment> {
+    await this.assertTaskExists(taskId);
+
+    return this.store(file, userId, { task_id: taskId });
+  }
+
+  /**
+   * Adjunta un archivo a un comentario de una tarea
+   *
+   * @param taskId - ID de la tarea del comentario (UUID)
+   * @param commentId - ID del comentario (UUID)
+   * @param file - Archivo recibido en la petición multipart
+   * @param userId - ID del usuario que sube el archivo (extraído del token JWT)
+   * @returns Promise<Attachment> - Metadatos del adjunto creado
+   * @throws NotFoundException - Si el comentario no existe o no pertenece a la tarea
+   * @throws BadRequestException - Si no se envió ningún archivo
+   * @throws UnsupportedMediaTypeException - Si el tipo de archivo no está permitido
+   */
+  async uploadToComment(
+    taskId: string,
+    commentId: string,
+    file: Express.Multer.File | undefined,
+    userId: string,
+  ): Promise<Attachment> {
+    await this.assertCommentExists(taskId, commentId);
+
+    return this.store(file, userId, { comment_id: commentId });
+  }
+
+  /**
+   * Obtiene los adjuntos de una tarea (sin incluir los de sus comentarios)
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @returns Promise<Attachment[]> - Adjuntos de la tarea, del más antiguo al más reciente
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  async findByTask(taskId: string): Promise<Attachment[]> {
+    await this.assertTaskExists(taskId);
+
+    return await this.attachmentsRepository.find({
+      where: { task_id: taskId },
+      relations: ['uploadedBy'],
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Obtiene los adjuntos de un comentario
+   *
+   * @param taskId - ID de la tarea del comentario (UUID)
+   * @param commentId - ID del comentario (UUID)
+   * @returns Promise<Attachment[]> - Adjuntos del comentario, del más antiguo al más reciente
+   * @throws NotFoundException - Si el comentario no existe o no pertenece a la tarea
+   */
+  async findByComment(
+    taskId: string,
+    commentId: string,
+  ): Promise<Attachment[]> {
+    await this.assertCommentExists(taskId, commentId);
+
+    return await this.attachmentsRepository.find({
+      where: { comment_id: commentId },
+      relations: ['uploadedBy'],
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Obtiene el contenido de un adjunto para descargarlo
+   *
+   * @param taskId - ID de la tarea a la que pertenece el adjunto (directamente o por un comentario)
+   * @param id - ID del adjunto (UUID)
+   * @returns Promise<StreamableFile> - Contenido del archivo con su tipo y nombre
+   * @throws NotFoundException - Si el adjunto no existe, no pertenece a la tarea o falta el archivo
+   */
+  async download(taskId: string, id: string): Promise<StreamableFile> {
+    const attachment = await this.findInTask(taskId, id);
+    const stream = await this.storage.read(attachment.storageKey);
+
+    return new StreamableFile(stream, {
+      type: attachment.mimeType,
+      length: attachment.size,
+      disposition: `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+    });
+  }
+
+  /**
+   * Elimina un adjunto y su archivo
+   *
+   * @param taskId - ID de la tarea a la que pertenece el adjunto (directamente o por un comentario)
+   * @param id - ID del adjunto (UUID)
+   * @throws NotFoundException - Si el adjunto no existe o no pertenece a la tarea
+   */
+  async remove(taskId: string, id: string): Promise<void> {
+    const attachment = await this.findInTask(taskId, id);
+
+    await this.attachmentsRepository.delete({ id: attachment.id });
+    await this.storage.delete(attachment.storageKey);
+  }
+
+  /**
+   * Elimina los adjuntos de varias tareas (incluidos los de sus comentarios) y sus archivos
+   * Se usa al purgar definitivamente las tareas de la papelera
+   *
+   * @param taskIds - IDs de las tareas (UUID)
+   */
+  async removeForTasks(taskIds: string[]): Promise<void> {
+    if (taskIds.length === 0) {
+      return;
+    }
+
+    // withDeleted: los comentarios de las tareas purgadas también están en la papelera
+    const attachments = await this.attachmentsRepository
+      .createQueryBuilder('attachment')
+      .withDeleted()
+      .addSelect('attachment.storageKey')
+      .leftJoin('attachment.comment', 'comment')
+      .where('attachment.task_id IN (:...taskIds)', { taskIds })
+      .orWhere('comment.which_todo IN (:...taskIds)', { taskIds })
+      .getMany();
+
+    await this.removeAll(attachments);
+  }
+
+  /**
+   * Elimina los adjuntos de varios comentarios y sus archivos
+   * Se usa al purgar definitivamente los comentarios de la papelera
+   *
+   * @param commentIds - IDs de los comentarios (UUID)
+   */
+  async removeForComments(commentIds: string[]): Promise<void> {
+    if (commentIds.length === 0) {
+      return;
+    }
+
+    const attachments = await this.attachmentsRepository.find({
+      select: { id: true, storageKey: true },
+      where: { comment_id: In(commentIds) },
+    });
+
+    await this.removeAll(attachments);
+  }
+
+  /**
+   * Valida el archivo, guarda su contenido y registra sus metadatos
+   * Si falla el registro en la base de datos, se elimina el archivo guardado
+   */
+  private async store(
+    file: Express.Multer.File | undefined,
+    userId: string,
+    owner: { task_id?: string; comment_id?: string },
+  ): Promise<Attachment> {
+    if (!file) {
+      throw new BadRequestException(
+        'Se debe enviar un archivo en el campo "file"',
+      );
+    }
+
+    if (!ATTACHMENT_ALLOWED_MIME_TYPES.includes(file.mimetype)) {
+      throw new UnsupportedMediaTypeException(
+        `El tipo de archivo ${file.mimetype} no está permitido`,
+      );
+    }
+
+    // La clave no depende del nombre original para evitar rutas y colisiones
+    const storageKey = randomUUID();
+    await this.storage.save(storageKey, file.buffer);
+
+    try {
+      const attachment = this.attachmentsRepository.create({
+        ...owner,
+        fileName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+        storageKey,
+        uploaded_by: userId,
+      });
+      const saved = await this.attachmentsRepository.save(attachment);
+
+      // La clave de almacenamiento no se expone en la API
+      delete (saved as Partial<Attachment>).storageKey;
+      return saved;
+    } catch (error) {
+      await this.storage.delete(storageKey);
+      throw error;
+    }
+  }
+
+  /**
+   * Busca un adjunto de la tarea o de uno de sus comentarios (incluye la clave de almacenamiento)
+   * @throws NotFoundException - Si el adjunto no existe o no pertenece a la tarea
+   */
+  private async findInTask(taskId: string, id: string): Promise<Attachment> {
+    // Los joins excluyen las tareas y comentarios de la papelera, cuyos adjuntos no son accesibles
+    const attachment = await this.attachmentsRepository
+      .createQueryBuilder('attachment')
+      .addSelect('attachment.storageKey')
+      .leftJoin('attachment.task', 'task')
+      .leftJoin('attachment.comment', 'comment')
+      .leftJoin('comment.task', 'commentTask')
+      .where('attachment.id = :id', { id })
+      .andWhere(
+        new Brackets((owner) => {
+          owner
+            .where('task.id = :taskId', { taskId })
+            .orWhere('commentTask.id = :taskId', { taskId });
+        }),
+      )
+      .getOne();
+
+    if (!attachment) {
+      throw new NotFoundException('Adjunto no encontrado');
+    }
+
+    return attachment;
+  }
+
+  /**
+   * Elimina los registros de los adjuntos y después sus archivos
+   */
+  private async removeAll(attachments: Attachment[]): Promise<void> {
+    if (attachments.length === 0) {
+      return;
+    }
+
+    await this.attachmentsRepository.delete({
+      id: In(attachments.map((attachment) => attachment.id)),
+    });
+
+    for (const attachment of attachments) {
+      await this.storage.delete(attachment.storageKey);
+    }
+  }
+
+  /**
+   * Verifica que una tarea exista
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  private async assertTaskExists(taskId: string): Promise<void> {
+    const exists = await this.tasksRepository.exists({ where: { id: taskId } });
+    if (!exists) {
+      throw new NotFoundException('Tarea no encontrada');
+    }
+  }
+
+  /**
+   * Verifica que un comentario exista y pertenezca a la tarea
+   * @throws NotFoundException - Si el comentario no existe o no pertenece a la tarea
+   */
+  private async assertCommentExists(
+    taskId: string,
+    commentId: string,
+  ): Promise<void> {
+    const exists = await this.commentsRepository.exists({
+      where: { id: commentId, which_todo: taskId },
+    });
+    if (!exists) {
+      throw new NotFoundException('Comentario no encontrado');
+    }
+  }
+}
@@ -0,0 +1,113 @@
+// Importa decoradores y tipos de TypeORM para definir la entidad
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Check,
+} from 'typeorm';
+
+// Importa las entidades a las que puede pertenecer un adjunto
+import { Task } from '../../task/entities/task.entity';
+import { Comment } from '../../comments/entities/comment.entity';
+
+// Importa la entidad User para la relación ManyToOne (uploaded_by)
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad Attachment - Representa un archivo adjunto a una tarea o a un comentario
+ * - id (PK) - Identificador único (UUID)
+ * - task_id (FK) - Tarea a la que se adjuntó el archivo
+ * - comment_id (FK) - Comentario al que se adjuntó el archivo
+ * - fileName, mimeType, size - Metadatos del archivo subido
+ * - storageKey - Clave con la que se localiza el contenido en el almacenamiento
+ * - uploaded_by (FK) - Usuario que subió el archivo
+ * Cada adjunto pertenece exactamente a una tarea o a un comentario (nunca a ambos)
+ */
+@Entity('attachments')
+@Check(`("task_id" IS NULL) <> ("comment_id" IS NULL)`)
+export class Attachment {
+  /**
+   * id - ID único del adjunto (UUID)
+   * Se genera automáticamente por la base de datos
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Relación ManyToOne con Task (adjuntos de la tarea)
+   * onDelete: 'CASCADE' - Si se elimina la tarea, se eliminan sus adjuntos
+   */
+  @ManyToOne(() => Task, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task;
+
+  /**
+   * task_id - Clave foránea que referencia a la tabla tasks
+   * null si el adjunto pertenece a un comentario
+   */
+  @Column({ nullable: true, name: 'task_id' })
+  task_id: string | null;
+
+  /**
+   * Relación ManyToOne con Comment (adjuntos del comentario)
+   * onDelete: 'CASCADE' - Si se elimina el comentario, se eliminan sus adjuntos
+   */
+  @ManyToOne(() => Comment, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'comment_id' })
+  comment: Comment;
+
+  /**
+   * comment_id - Clave foránea que referencia a la tabla comments
+   * null si el adjunto pertenece a una tarea
+   */
+  @Column({ nullable: true, name: 'comment_id' })
+  comment_id: string | null;
+
+  /**
+   * file_name - Nombre original del archivo subido
+   */
+  @Column({ type: 'varchar', length: 255, name: 'file_name' })
+  fileName: string;
+
+  /**
+   * mime_type - Tipo MIME del archivo
+   */
+  @Column({ type: 'varchar', length: 100, name: 'mime_type' })
+  mimeType: string;
+
+  /**
+   * size - Tamaño del archivo en bytes
+   */
+  @Column({ type: 'int' })
+  size: number;
+
+  /**
+   * storage_key - Clave del archivo en el almacenamiento (no se expone en la API)
+   */
+  @Column({ type: 'varchar', length: 255, name: 'storage_key', select: false })
+  storageKey: string;
+
+  /**
+   * Relación ManyToOne con User (usuario que subió el archivo)
+   */
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'uploaded_by' })
+  uploadedBy: User;
+
+  /**
+   * uploaded_by - Clave foránea que referencia a la tabla users
+   * Campo obligatorio
+   */
+  @Column({ name: 'uploaded_by' })
+  uploaded_by: string;
+
+  /**
+   * Fecha de subida del archivo
+   * Se establece automáticamente al crear el registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,29 @@
+// Importa el tipo Readable para devolver el contenido de los archivos como stream
+import { Readable } from 'stream';
+
+/**
+ * Token de inyección del almacenamiento de adjuntos
+ * Permite cambiar la implementación (disco local, S3, ...) sin tocar AttachmentsService
+ */
+export const ATTACHMENT_STORAGE = 'ATTACHMENT_STORAGE';
+
+/**
+ * AttachmentStorage - Almacenamiento donde se guarda el contenido de los adjuntos
+ * La base de datos solo guarda los metadatos y la clave con la que se localiza cada archivo
+ */
+export interface AttachmentStorage {
+  /**
+   * Guarda el contenido de un archivo con la clave indicada
+   */
+  save(key: string, content: Buffer): Promise<void>;
+
+  /**
+   * Devuelve el contenido de un archivo como stream
+   */
+  read(key: string): Promise<Readable>;
+
+  /**
+   * Elimina un archivo (no falla si ya no existe)
+   */
+  delete(key: string): Promise<void>;
+}
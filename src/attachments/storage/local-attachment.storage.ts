@@ -0,0 +1,78 @@
+// Importa decoradores de NestJS
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+// Importa ConfigService para leer el directorio de almacenamiento
+import { ConfigService } from '@nestjs/config';
+
+// Importa utilidades de Node.js para trabajar con el sistema de archivos
+import { createReadStream } from 'fs';
+import { access, mkdir, rm, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { Readable } from 'stream';
+
+// Importa la interfaz del almacenamiento de adjuntos
+import { AttachmentStorage } from './attachment-storage.interface';
+
+// Importa el directorio por defecto
+import { DEFAULT_ATTACHMENTS_DIR } from '../attachments.constants';
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * LocalAttachmentStorage - Guarda los adjuntos en el sistema de archivos local
+ * Cada archivo se guarda en ATTACHMENTS_DIR (por defecto ./uploads) con su clave como ruta
+ */
+export class LocalAttachmentStorage implements AttachmentStorage {
+  /**
+   * Directorio raíz donde se guardan los archivos
+   */
+  private readonly root: string;
+
+  /**
+   * Constructor que recibe la configuración mediante inyección de dependencias
+   * @param configService - Configuración de la aplicación (ATTACHMENTS_DIR)
+   */
+  constructor(configService: ConfigService) {
+    this.root = resolve(
+      configService.get<string>('ATTACHMENTS_DIR') || DEFAULT_ATTACHMENTS_DIR,
+    );
+  }
+
+  async save(key: string, content: Buffer): Promise<void> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, content);
+  }
+
+  async read(key: string): Promise<Readable> {
+    const path = this.pathFor(key);
+
+    // Comprobar que el archivo existe antes de abrir el stream
+    try {
+      await access(path);
+    } catch {
+      throw new NotFoundException('El archivo adjunto no está disponible');
+    }
+
+    return createReadStream(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  /**
+   * Ruta absoluta de un archivo a partir de su clave
+   * Las claves las genera AttachmentsService, pero se verifica que no salgan del directorio raíz
+   */
+  private pathFor(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + '/')) {
+      throw new Error(`Clave de adjunto no válida: ${key}`);
+    }
+    return path;
+  }
+}
@@ -1,42 +1,144 @@
 // Importa decoradores y clases de NestJS para crear endpoints
-import { Controller, Post, UseGuards, Request, Body } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  UseGuards,
+  Request,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
 
-// Importa el servicio de autenticación que contiene la lógica de negocio
+// Importa los servicios de autenticación y de contraseñas que contienen la lógica de negocio
 import { AuthService } from './auth.service';
+import type { SessionUser } from './auth.service';
+import { PasswordsService } from './passwords.service';
 
 // Importa el guard Local para proteger el endpoint de login
 import { LocalAuthGuard } from './guards/local-auth.guard';
 
-// Importa el DTO para validar los datos de entrada del login
-import { LoginDto } from './dto/login.dto';
+// Importa el guard JWT para proteger los endpoints de cierre de sesión
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+
+// Importa los DTOs para validar los datos de entrada de la renovación y el restablecimiento
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+
+// Importa el tipo de la petición autenticada (req.user y req.workspaceRole)
+import type { AuthenticatedRequest } from './interfaces/authenticated-request.interface';
 
 /**
  * AuthController: Controlador que maneja las rutas relacionadas con autenticación
- * Expone endpoints para login y otros procesos de autenticación
+ * Expone endpoints para login, renovación de tokens, cierre de sesión y restablecimiento de contraseña
  */
 @Controller('auth')
 export class AuthController {
   /**
-   * Constructor que recibe el servicio de autenticación mediante inyección de dependencias
+   * Constructor que recibe los servicios mediante inyección de dependencias
    * @param authService - Servicio que contiene los métodos de autenticación
+   * @param passwordsService - Servicio que restablece las contraseñas
    */
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private passwordsService: PasswordsService,
+  ) {}
 
   /**
    * Endpoint POST /auth/login
    * Permite a los usuarios autenticarse con email y password
-   * 
+   *
    * @UseGuards(LocalAuthGuard) - Aplica el guard Local que valida las credenciales
    *                               usando la LocalStrategy antes de ejecutar este método
    * @Request() req - Objeto de petición que contiene req.user (establecido por LocalStrategy)
-   * @Body() loginDto - Datos del login (email y password) validados por el DTO
+   * El body (email y password, ver LoginDto) lo lee LocalStrategy antes de ejecutar este método
    * @returns Token JWT y datos del usuario autenticado
    */
   @UseGuards(LocalAuthGuard)
   @Post('login')
-  async login(@Request() req, @Body() loginDto: LoginDto) {
+  async login(@Request() req: { user: SessionUser }) {
     // req.user contiene el objeto usuario devuelto por LocalStrategy después de validar
     // Se pasa al método login del servicio para generar el token JWT
     return this.authService.login(req.user);
   }
+
+  /**
+   * Endpoint POST /auth/refresh
+   * Renueva el token de acceso con un token de actualización
+   * Devuelve también un nuevo token de actualización: el usado deja de ser válido
+   *
+   * @Body() refreshTokenDto - Token de actualización (validado por RefreshTokenDto)
+   * @returns Nuevos tokens y datos del usuario
+   * @throws UnauthorizedException - Si el token no es válido, está revocado o ha caducado
+   */
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(new ValidationPipe())
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto) {
+    return this.authService.refresh(refreshTokenDto.refresh_token);
+  }
+
+  /**
+   * Endpoint POST /auth/logout
+   * Cierra la sesión del token de acceso usado en la petición
+   *
+   * @Request() req - Objeto de petición que contiene req.user (establecido por JwtStrategy)
+   * @returns Sin contenido (status 204)
+   */
+  @UseGuards(JwtAuthGuard)
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@Request() req: AuthenticatedRequest) {
+    return this.authService.logout(req.user.sessionId);
+  }
+
+  /**
+   * Endpoint POST /auth/logout-all
+   * Cierra todas las sesiones del usuario autenticado (en todos los dispositivos)
+   *
+   * @Request() req - Objeto de petición que contiene req.user (establecido por JwtStrategy)
+   * @returns Sin contenido (status 204)
+   */
+  @UseGuards(JwtAuthGuard)
+  @Post('logout-all')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logoutAll(@Request() req: AuthenticatedRequest) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.authService.logoutAll(userId);
+  }
+
+  /**
+   * Endpoint POST /auth/forgot-password
+   * Envía por email un token para restablecer la contraseña
+   * Responde igual exista o no la cuenta, para no revelar qué emails están registrados
+   *
+   * @Body() forgotPasswordDto - Email de la cuenta (validado por ForgotPasswordDto)
+   * @returns Sin contenido (status 204)
+   */
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UsePipes(new ValidationPipe())
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    return this.passwordsService.requestReset(forgotPasswordDto.email);
+  }
+
+  /**
+   * Endpoint POST /auth/reset-password
+   * Elige una nueva contraseña con el token recibido por email
+   * El token solo se puede usar una vez y se cierran todas las sesiones de la cuenta
+   *
+   * @Body() resetPasswordDto - Token y nueva contraseña (validados por ResetPasswordDto)
+   * @returns Sin contenido (status 204)
+   * @throws BadRequestException - Si el token no es válido, ya se usó o ha caducado
+   */
+  @Post('reset-password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UsePipes(new ValidationPipe())
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    return this.passwordsService.resetPassword(resetPasswordDto);
+  }
 }
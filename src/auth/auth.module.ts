@@ -10,13 +10,29 @@ import { PassportModule } from '@nestjs/passport';
 // Importa ConfigModule y ConfigService para leer variables de entorno
 import { ConfigModule, ConfigService } from '@nestjs/config';
 
+// Importa TypeOrmModule para registrar la entidad de tokens de actualización
+import { TypeOrmModule } from '@nestjs/typeorm';
+
 // Importa los componentes del módulo de autenticación
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
+import { ChangePasswordController } from './change-password.controller';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { PasswordsService } from './passwords.service';
+
+// Importa las entidades de tokens de actualización (sesiones) y de restablecimiento de contraseña
+import { RefreshToken } from './entities/refresh-token.entity';
+import { PasswordResetToken } from './entities/password-reset-token.entity';
+
+// Importa MailModule para enviar los emails de restablecimiento de contraseña
+import { MailModule } from '../mail/mail.module';
 
 // Importa UsersModule para acceder al servicio de usuarios
 import { UsersModule } from '../users/users.module';
 
+// Importa WorkspacesModule para incluir los roles de los espacios de trabajo en el token
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+
 // Importa las estrategias de autenticación
 import { LocalStrategy } from './strategies/local.strategy';
 import { JwtStrategy } from './strategies/jwt.strategy';
@@ -27,43 +43,60 @@ import { JwtStrategy } from './strategies/jwt.strategy';
  */
 @Module({
   imports: [
+    // TypeOrmModule.forFeature: Registra los repositorios de RefreshToken y PasswordResetToken
+    TypeOrmModule.forFeature([RefreshToken, PasswordResetToken]),
+
+    // MailModule: Proporciona el servicio de envío de emails (MAILER)
+    MailModule,
+
     // UsersModule: Necesario para que AuthService pueda usar UsersService
     UsersModule,
-    
+
+    // WorkspacesModule: Necesario para que AuthService pueda usar WorkspacesService
+    WorkspacesModule,
+
     // PassportModule: Habilita el uso de estrategias de Passport
     PassportModule,
-    
+
     // JwtModule.registerAsync: Configura el módulo JWT de forma asíncrona
     // registerAsync permite usar ConfigService para leer variables de entorno
     JwtModule.registerAsync({
       // Importa ConfigModule para que ConfigService esté disponible
       imports: [ConfigModule],
-      
+
       // useFactory: Función que retorna la configuración del módulo JWT
       useFactory: (configService: ConfigService) => ({
         // secret: Clave secreta para firmar y verificar tokens JWT
         // Se obtiene de la variable de entorno JWT_SECRET
         secret: configService.get('JWT_SECRET'),
-        
+
         // signOptions: Opciones para firmar tokens
         // expiresIn: Tiempo de expiración del token (ej: '24h', '7d')
         // Se obtiene de la variable de entorno JWT_EXPIRES_IN
         signOptions: { expiresIn: configService.get('JWT_EXPIRES_IN') },
       }),
-      
+
       // inject: Especifica las dependencias a inyectar en useFactory
       inject: [ConfigService],
     }),
   ],
-  
+
   // controllers: Lista de controladores que pertenecen a este módulo
-  controllers: [AuthController],
-  
+  // ChangePasswordController: POST /users/me/password
+  controllers: [AuthController, ChangePasswordController],
+
   // providers: Lista de servicios y estrategias que pueden ser inyectados
   // AuthService: Servicio principal de autenticación
   // LocalStrategy: Estrategia para validar email/password
   // JwtStrategy: Estrategia para validar tokens JWT
-  providers: [AuthService, LocalStrategy, JwtStrategy],
+  // RefreshTokensService: Emite, renueva y revoca los tokens de actualización (sesiones)
+  // PasswordsService: Restablece y cambia las contraseñas
+  providers: [
+    AuthService,
+    LocalStrategy,
+    JwtStrategy,
+    RefreshTokensService,
+    PasswordsService,
+  ],
 })
 export class AuthModule {}
-
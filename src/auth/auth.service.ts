@@ -1,15 +1,34 @@
-// Importa decoradores y excepciones de NestJS
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+// Importa decoradores de NestJS
+import { Injectable } from '@nestjs/common';
 
 // Importa JwtService para generar y firmar tokens JWT
 import { JwtService } from '@nestjs/jwt';
 
-// Importa el servicio de usuarios para acceder a los métodos de búsqueda
+// Importa el servicio de usuarios para acceder a los métodos de búsqueda y la entidad User
 import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+
+// Importa el servicio de espacios de trabajo para incluir los roles del usuario en el token
+import { WorkspacesService } from '../workspaces/workspaces.service';
+
+// Importa el servicio de tokens de actualización (sesiones)
+import {
+  IssuedRefreshToken,
+  RefreshTokensService,
+} from './refresh-tokens.service';
+
+// Importa el enum de roles y el tipo de los datos firmados en el token
+import { Role } from './enums/role.enum';
+import { JwtPayload } from './interfaces/jwt-payload.interface';
 
 // Importa bcrypt para comparar passwords hasheados
 import * as bcrypt from 'bcrypt';
 
+/**
+ * SessionUser - Datos del usuario con los que se inicia o renueva una sesión (sin el password)
+ */
+export type SessionUser = Pick<User, 'id' | 'email' | 'fullName' | 'role'>;
+
 /**
  * Decorador que marca esta clase como un proveedor inyectable de NestJS
  */
@@ -24,36 +43,44 @@ export class AuthService {
    * Constructor que recibe las dependencias necesarias mediante inyección
    * @param usersService - Servicio para buscar usuarios en la base de datos
    * @param jwtService - Servicio para generar y firmar tokens JWT
+   * @param workspacesService - Servicio para obtener el rol del usuario en cada espacio de trabajo
+   * @param refreshTokensService - Servicio para emitir, renovar y revocar los tokens de actualización
    */
   constructor(
     private usersService: UsersService,
     private jwtService: JwtService,
+    private workspacesService: WorkspacesService,
+    private refreshTokensService: RefreshTokensService,
   ) {}
 
   /**
    * validateUser: Valida las credenciales de un usuario (email y password)
    * Compara el password proporcionado con el hash almacenado en la base de datos
-   * 
+   *
    * @param email - Email del usuario que intenta autenticarse
    * @param password - Contraseña en texto plano a validar
-   * @returns Promise<any> - Retorna el objeto usuario sin el password si es válido, null si no
+   * @returns Promise<SessionUser | null> - Retorna los datos del usuario sin el password si es válido, null si no
    */
-  async validateUser(email: string, password: string): Promise<any> {
+  async validateUser(
+    email: string,
+    password: string,
+  ): Promise<SessionUser | null> {
     // Busca el usuario en la base de datos por su email
     // findByEmail incluye el password hasheado que necesitamos para comparar
     const user = await this.usersService.findByEmail(email);
-    
+
     // Verifica que el usuario existe Y que el password coincide con el hash almacenado
     // bcrypt.compare() compara el password en texto plano con el hash de forma segura
     if (user && (await bcrypt.compare(password, user.password))) {
-      // Si las credenciales son válidas, elimina el password del objeto antes de retornarlo
-      // Usa destructuring para separar password del resto de propiedades
-      const { password, ...result } = user;
-      
-      // Retorna el objeto usuario sin el password por seguridad
-      return result;
+      // Si las credenciales son válidas, retorna los datos de la sesión sin el password por seguridad
+      return {
+        id: user.id,
+        email: user.email,
+        fullName: user.fullName,
+        role: user.role,
+      };
     }
-    
+
     // Si el usuario no existe o el password no coincide, retorna null
     // Esto indica que la autenticación falló
     return null;
@@ -61,25 +88,90 @@ export class AuthService {
 
   /**
    * login: Genera un token JWT para un usuario autenticado
-   * Crea el payload del token con información del usuario y lo firma
-   * 
+   * Inicia una nueva sesión con su primer token de actualización
+   *
    * @param user - Objeto usuario obtenido después de una validación exitosa
-   * @returns Objeto con el access_token y datos del usuario
+   * @returns Objeto con el access_token, el refresh_token y datos del usuario
+   */
+  async login(user: SessionUser) {
+    const refreshToken = await this.refreshTokensService.issue(user.id);
+
+    return await this.createSessionTokens(user, refreshToken);
+  }
+
+  /**
+   * refresh: Renueva los tokens de una sesión a partir de su token de actualización
+   * El token usado queda revocado (rotación); si ya se había usado, se cierra toda la sesión
+   *
+   * @param refreshToken - Token de actualización en claro
+   * @returns Objeto con el nuevo access_token, el nuevo refresh_token y datos del usuario
+   * @throws UnauthorizedException - Si el token no es válido, está revocado o ha caducado
    */
-  async login(user: any) {
+  async refresh(refreshToken: string) {
+    const issued = await this.refreshTokensService.rotate(refreshToken);
+
+    // Se vuelve a leer el usuario para que el token refleje su email y su rol actuales
+    const user = await this.usersService.findOne(issued.userId);
+
+    return await this.createSessionTokens(user, issued);
+  }
+
+  /**
+   * logout: Cierra la sesión del token de acceso usado en la petición
+   * Sus tokens de acceso dejan de aceptarse y sus tokens de actualización no se pueden renovar
+   *
+   * @param sessionId - ID de la sesión (claim 'sid' del token de acceso)
+   */
+  async logout(sessionId: string): Promise<void> {
+    await this.refreshTokensService.revokeSession(sessionId);
+  }
+
+  /**
+   * logoutAll: Cierra todas las sesiones del usuario (en todos los dispositivos)
+   *
+   * @param userId - ID del usuario autenticado
+   */
+  async logoutAll(userId: string): Promise<void> {
+    await this.refreshTokensService.revokeAllForUser(userId);
+  }
+
+  /**
+   * Firma el token de acceso de una sesión y lo devuelve junto con su token de actualización
+   *
+   * @param user - Usuario de la sesión
+   * @param refreshToken - Token de actualización emitido para la sesión
+   * @returns Objeto con el access_token, el refresh_token y datos del usuario
+   */
+  private async createSessionTokens(
+    user: SessionUser,
+    refreshToken: IssuedRefreshToken,
+  ) {
     // Crea el payload del token JWT con información del usuario
     // sub (subject) es el estándar JWT para el ID del usuario
-    const payload = { email: user.email, sub: user.id };
-    
-    // Retorna un objeto con el token JWT y la información del usuario
+    // sid es la sesión: JwtStrategy rechaza el token si la sesión se ha cerrado
+    // role es el rol global (ADMIN se salta las políticas de propiedad y los roles)
+    // workspaceRoles es el rol en cada espacio de trabajo ({ [workspaceId]: rol }) para el frontend;
+    // RolesGuard comprueba siempre el rol actual del miembro en la base de datos
+    const payload: JwtPayload = {
+      email: user.email,
+      sub: user.id,
+      sid: refreshToken.sessionId,
+      role: user.role ?? Role.MEMBER,
+      workspaceRoles: await this.workspacesService.findRoles(user.id),
+    };
+
+    // Retorna un objeto con los tokens y la información del usuario
     return {
       // Genera y firma el token JWT usando el secret configurado en el módulo
       access_token: this.jwtService.sign(payload),
+      // Token opaco para obtener un nuevo access_token en POST /auth/refresh
+      refresh_token: refreshToken.token,
       // Incluye información del usuario (sin password) para el frontend
       user: {
         id: user.id,
         email: user.email,
         fullName: user.fullName,
+        role: payload.role,
       },
     };
   }
@@ -0,0 +1,65 @@
+// Importa decoradores y tipos de NestJS para el controlador
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+
+// Importa el servicio de contraseñas
+import { PasswordsService } from './passwords.service';
+
+// Importa el DTO para cambiar la contraseña
+import { ChangePasswordDto } from './dto/change-password.dto';
+
+// Importa el guard JWT para proteger las rutas
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+
+// Importa el tipo de la petición autenticada (req.user y req.workspaceRole)
+import type { AuthenticatedRequest } from './interfaces/authenticated-request.interface';
+
+/**
+ * Decorador que marca esta clase como un controlador de NestJS
+ * Define la ruta base para todos los endpoints: /users/me/password
+ */
+@Controller('users/me/password')
+/**
+ * Decorador que protege todas las rutas de este controlador con autenticación JWT
+ */
+@UseGuards(JwtAuthGuard)
+
+/**
+ * ChangePasswordController - Controlador que permite al usuario autenticado cambiar su contraseña
+ */
+export class ChangePasswordController {
+  /**
+   * Constructor que recibe el servicio de contraseñas mediante inyección de dependencias
+   * @param passwordsService - Servicio con la lógica de las contraseñas
+   */
+  constructor(private readonly passwordsService: PasswordsService) {}
+
+  /**
+   * Endpoint POST /users/me/password
+   * Cambia la contraseña del usuario autenticado tras comprobar la actual
+   * Cierra sus demás sesiones; la sesión usada en la petición sigue abierta
+   *
+   * @param changePasswordDto - Contraseña actual y nueva contraseña
+   * @param req - Request con la información del usuario autenticado
+   * @returns Sin contenido (status 204)
+   * @throws BadRequestException - Si la contraseña actual no es correcta
+   */
+  @Post()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UsePipes(new ValidationPipe()) // Valida los datos del DTO antes de procesarlos
+  changePassword(
+    @Body() changePasswordDto: ChangePasswordDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    return this.passwordsService.changePassword(req.user, changePasswordDto);
+  }
+}
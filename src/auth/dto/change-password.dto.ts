@@ -0,0 +1,26 @@
+// Importa validadores de class-validator para validar los datos de entrada
+import { IsNotEmpty, IsString, MinLength } from 'class-validator';
+
+/**
+ * ChangePasswordDto: Data Transfer Object para cambiar la contraseña del usuario autenticado
+ * Se usa en POST /users/me/password
+ */
+export class ChangePasswordDto {
+  /**
+   * current_password - Contraseña actual, para confirmar que el cambio lo hace el titular
+   * @IsString() - Valida que sea una cadena de texto
+   * @IsNotEmpty() - Valida que el campo no esté vacío
+   */
+  @IsString()
+  @IsNotEmpty({ message: 'La contraseña actual es requerida' })
+  current_password: string;
+
+  /**
+   * new_password - Nueva contraseña (mismas reglas que al registrarse)
+   * @MinLength(6) - Debe tener al menos 6 caracteres por seguridad
+   */
+  @IsNotEmpty({ message: 'La nueva contraseña es requerida' })
+  @IsString({ message: 'La contraseña debe ser un texto' })
+  @MinLength(6, { message: 'La contraseña debe tener al menos 6 caracteres' })
+  new_password: string;
+}
@@ -0,0 +1,17 @@
+// Importa validadores de class-validator para validar los datos de entrada
+import { IsEmail, IsNotEmpty } from 'class-validator';
+
+/**
+ * ForgotPasswordDto: Data Transfer Object para solicitar el restablecimiento de la contraseña
+ * Se usa en POST /auth/forgot-password
+ */
+export class ForgotPasswordDto {
+  /**
+   * Email de la cuenta cuya contraseña se quiere restablecer
+   * @IsEmail() - Valida que sea un formato de email válido
+   * @IsNotEmpty() - Valida que el campo no esté vacío
+   */
+  @IsEmail({}, { message: 'El email no es válido' })
+  @IsNotEmpty({ message: 'El email es requerido' })
+  email: string;
+}
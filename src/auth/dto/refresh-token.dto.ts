@@ -0,0 +1,17 @@
+// Importa validadores de class-validator para validar los datos de entrada
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * RefreshTokenDto: Data Transfer Object para el endpoint de renovación de tokens
+ * Se usa en POST /auth/refresh
+ */
+export class RefreshTokenDto {
+  /**
+   * refresh_token - Token de actualización recibido al iniciar sesión o en la última renovación
+   * @IsString() - Valida que sea una cadena de texto
+   * @IsNotEmpty() - Valida que el campo no esté vacío
+   */
+  @IsString()
+  @IsNotEmpty()
+  refresh_token: string;
+}
@@ -0,0 +1,26 @@
+// Importa validadores de class-validator para validar los datos de entrada
+import { IsNotEmpty, IsString, MinLength } from 'class-validator';
+
+/**
+ * ResetPasswordDto: Data Transfer Object para restablecer la contraseña con el token recibido por email
+ * Se usa en POST /auth/reset-password
+ */
+export class ResetPasswordDto {
+  /**
+   * token - Token recibido por email
+   * @IsString() - Valida que sea una cadena de texto
+   * @IsNotEmpty() - Valida que el campo no esté vacío
+   */
+  @IsString()
+  @IsNotEmpty({ message: 'El token es requerido' })
+  token: string;
+
+  /**
+   * password - Nueva contraseña (mismas reglas que al registrarse)
+   * @MinLength(6) - Debe tener al menos 6 caracteres por seguridad
+   */
+  @IsNotEmpty({ message: 'La contraseña es requerida' })
+  @IsString({ message: 'La contraseña debe ser un texto' })
+  @MinLength(6, { message: 'La contraseña debe tener al menos 6 caracteres' })
+  password: string;
+}
@@ -0,0 +1,74 @@
+// Importa decoradores y tipos de TypeORM para definir la entidad
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+
+// Importa la entidad User para la relación ManyToOne (user_id)
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad PasswordResetToken - Representa un token para restablecer la contraseña de un usuario
+ * Se envía por email en POST /auth/forgot-password y se usa una sola vez en POST /auth/reset-password
+ * - id (PK) - Identificador único (UUID)
+ * - user_id (FK) - Usuario que puede restablecer su contraseña con el token
+ * - token_hash - Hash SHA-256 del token (el token en claro solo se envía por email)
+ * - expires_at - Fecha de caducidad
+ * - used_at - Fecha en la que se usó (null mientras se puede usar)
+ */
+@Entity('password_reset_tokens')
+@Index(['user_id'])
+export class PasswordResetToken {
+  /**
+   * id - ID único del token (UUID)
+   * Se genera automáticamente por la base de datos
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Relación ManyToOne con User
+   * onDelete: 'CASCADE' - Si se elimina el usuario, se eliminan sus tokens
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /**
+   * user_id - Clave foránea que referencia al usuario
+   * Campo obligatorio
+   */
+  @Column({ name: 'user_id' })
+  user_id: string;
+
+  /**
+   * token_hash - Hash SHA-256 (hexadecimal) del token
+   * Tipo: varchar(64) con restricción UNIQUE
+   */
+  @Column({ type: 'varchar', length: 64, unique: true, name: 'token_hash' })
+  token_hash: string;
+
+  /**
+   * expires_at - Fecha a partir de la cual el token ya no se puede usar
+   */
+  @Column({ type: 'timestamp', name: 'expires_at' })
+  expires_at: Date;
+
+  /**
+   * used_at - Fecha en la que se restableció la contraseña con el token
+   * null mientras el token se puede usar
+   */
+  @Column({ type: 'timestamp', nullable: true, name: 'used_at' })
+  used_at: Date | null;
+
+  /**
+   * Fecha de emisión del token
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+}
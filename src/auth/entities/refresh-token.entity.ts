@@ -0,0 +1,92 @@
+// Importa decoradores y tipos de TypeORM para definir la entidad
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+
+// Importa la entidad User para la relación ManyToOne (user_id)
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad RefreshToken - Representa un token de actualización emitido a un usuario
+ * Los tokens de una misma sesión forman una familia: cada renovación revoca el token usado
+ * y emite uno nuevo de la misma familia
+ * - id (PK) - Identificador único (UUID)
+ * - user_id (FK) - Usuario al que pertenece el token
+ * - family_id - Sesión a la que pertenece el token (se incluye como 'sid' en el token de acceso)
+ * - token_hash - Hash SHA-256 del token (el token en claro nunca se guarda)
+ * - expires_at - Fecha de caducidad
+ * - revoked_at - Fecha de revocación (al renovarlo, cerrar sesión o detectar su reutilización)
+ * - replaced_by - Token que lo sustituyó al renovarlo
+ */
+@Entity('refresh_tokens')
+@Index(['family_id'])
+@Index(['user_id'])
+export class RefreshToken {
+  /**
+   * id - ID único del token (UUID)
+   * Se genera automáticamente por la base de datos
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Relación ManyToOne con User
+   * onDelete: 'CASCADE' - Si se elimina el usuario, se eliminan sus tokens
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /**
+   * user_id - Clave foránea que referencia al usuario
+   * Campo obligatorio
+   */
+  @Column({ name: 'user_id' })
+  user_id: string;
+
+  /**
+   * family_id - Identificador de la sesión (familia de tokens)
+   * Se genera al iniciar sesión y lo heredan todos los tokens renovados
+   */
+  @Column({ type: 'uuid', name: 'family_id' })
+  family_id: string;
+
+  /**
+   * token_hash - Hash SHA-256 (hexadecimal) del token
+   * Tipo: varchar(64) con restricción UNIQUE
+   */
+  @Column({ type: 'varchar', length: 64, unique: true, name: 'token_hash' })
+  token_hash: string;
+
+  /**
+   * expires_at - Fecha a partir de la cual el token ya no se puede usar
+   */
+  @Column({ type: 'timestamp', name: 'expires_at' })
+  expires_at: Date;
+
+  /**
+   * revoked_at - Fecha en la que se revocó el token
+   * null mientras el token se puede usar
+   */
+  @Column({ type: 'timestamp', nullable: true, name: 'revoked_at' })
+  revoked_at: Date | null;
+
+  /**
+   * replaced_by - ID del token emitido al renovar este
+   * Si un token revocado con sucesor se vuelve a usar, se ha filtrado: se revoca toda la familia
+   */
+  @Column({ type: 'uuid', nullable: true, name: 'replaced_by' })
+  replaced_by: string | null;
+
+  /**
+   * Fecha de emisión del token
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,24 @@
+/**
+ * Enum Role - Define los roles de los usuarios
+ * Se usa como rol global (User.role) y como rol dentro de un espacio de trabajo (WorkspaceMember.role)
+ * En las rutas de un espacio de trabajo cuenta el rol del usuario en ese espacio
+ */
+export enum Role {
+  /**
+   * ADMIN - Puede realizar cualquier acción, incluidas las destructivas
+   * (eliminar categorías o etiquetas, gestionar los miembros de un espacio de trabajo)
+   * Un administrador global puede hacerlo en cualquier espacio de trabajo
+   */
+  ADMIN = 'ADMIN',
+
+  /**
+   * MEMBER - Puede crear y modificar tareas, comentarios y categorías
+   * Es el rol por defecto de los usuarios y de los nuevos miembros
+   */
+  MEMBER = 'MEMBER',
+
+  /**
+   * VIEWER - Acceso de solo lectura
+   */
+  VIEWER = 'VIEWER',
+}
@@ -0,0 +1,15 @@
+// Importa el tipo del usuario autenticado
+import { AuthenticatedUser } from './authenticated-user.interface';
+
+// Importa el enum de roles
+import { Role } from '../enums/role.enum';
+
+/**
+ * AuthenticatedRequest - Petición de un endpoint protegido con JwtAuthGuard
+ * - user: Usuario autenticado que deja JwtStrategy
+ * - workspaceRole: Rol del usuario en el espacio de trabajo de la ruta (lo deja WorkspaceMemberGuard)
+ */
+export interface AuthenticatedRequest {
+  user: AuthenticatedUser;
+  workspaceRole?: Role;
+}
@@ -0,0 +1,16 @@
+// Importa el enum de roles
+import { Role } from '../enums/role.enum';
+
+/**
+ * AuthenticatedUser - Usuario autenticado que JwtStrategy deja en req.user
+ * - userId: ID del usuario (claim 'sub' del token)
+ * - email: Email del usuario
+ * - role: Rol global del usuario (ADMIN se salta las políticas de propiedad y los roles)
+ * - sessionId: Sesión del token de acceso (claim 'sid'); se usa para cerrarla
+ */
+export interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  role: Role;
+  sessionId: string;
+}
@@ -0,0 +1,18 @@
+// Importa el enum de roles
+import { Role } from '../enums/role.enum';
+
+/**
+ * JwtPayload - Datos que AuthService firma en el token de acceso
+ * - sub: ID del usuario (estándar JWT para "subject")
+ * - email: Email del usuario
+ * - sid: Sesión (familia de tokens de actualización) a la que pertenece el token
+ * - role: Rol global del usuario
+ * - workspaceRoles: Rol del usuario en cada espacio de trabajo ({ [workspaceId]: rol })
+ */
+export interface JwtPayload {
+  sub: string;
+  email: string;
+  sid: string;
+  role: Role;
+  workspaceRoles: Record<string, Role>;
+}
@@ -0,0 +1,177 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOptionsWhere } from 'typeorm';
+import { PasswordsService } from './passwords.service';
+import { PasswordResetToken } from './entities/password-reset-token.entity';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { UsersService } from '../users/users.service';
+import { MAILER } from '../mail/mailer.interface';
+import type { MailMessage } from '../mail/mailer.interface';
+
+describe('PasswordsService', () => {
+  let passwordsService: PasswordsService;
+  let rows: PasswordResetToken[];
+  let usersService: { findByEmail: jest.Mock; updatePassword: jest.Mock };
+  let refreshTokensService: { revokeAllForUser: jest.Mock };
+  let mailer: { send: jest.Mock };
+
+  const user = { id: 'user-1', email: 'ana@example.com', fullName: 'Ana' };
+
+  // El código llega en la línea siguiente a las instrucciones del email
+  const sentToken = (): string => {
+    const [message] = mailer.send.mock.calls.at(-1) as [MailMessage];
+    const lines = message.text.split('\n');
+    return lines[
+      lines.findIndex((line) => line.startsWith('Usa este código')) + 1
+    ];
+  };
+
+  beforeEach(async () => {
+    rows = [];
+    usersService = {
+      findByEmail: jest.fn((email: string) =>
+        Promise.resolve(email === user.email ? user : null),
+      ),
+      updatePassword: jest.fn(),
+    };
+    refreshTokensService = { revokeAllForUser: jest.fn() };
+    mailer = { send: jest.fn() };
+
+    const manager = {
+      findOne: jest.fn(
+        (
+          _: unknown,
+          { where }: { where: FindOptionsWhere<PasswordResetToken> },
+        ) =>
+          Promise.resolve(
+            rows.find((row) => row.token_hash === where.token_hash) ?? null,
+          ),
+      ),
+      update: jest.fn(
+        (_: unknown, id: string, changes: Partial<PasswordResetToken>) => {
+          Object.assign(rows.find((row) => row.id === id)!, changes);
+          return Promise.resolve();
+        },
+      ),
+    };
+
+    const resetTokensRepository = {
+      delete: jest.fn(({ user_id }: Partial<PasswordResetToken>) => {
+        rows = rows.filter(
+          (row) => row.user_id !== user_id || row.used_at !== null,
+        );
+        return Promise.resolve();
+      }),
+      insert: jest.fn((data: Partial<PasswordResetToken>) => {
+        rows.push({
+          id: `reset-${rows.length + 1}`,
+          used_at: null,
+          ...data,
+        } as PasswordResetToken);
+        return Promise.resolve();
+      }),
+      manager: {
+        transaction: (work: (m: typeof manager) => Promise<unknown>) =>
+          work(manager),
+      },
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordsService,
+        {
+          provide: getRepositoryToken(PasswordResetToken),
+          useValue: resetTokensRepository,
+        },
+        { provide: UsersService, useValue: usersService },
+        { provide: RefreshTokensService, useValue: refreshTokensService },
+        { provide: MAILER, useValue: mailer },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    passwordsService = app.get<PasswordsService>(PasswordsService);
+  });
+
+  describe('requestReset', () => {
+    it('should do nothing for an unknown email', async () => {
+      await passwordsService.requestReset('nobody@example.com');
+
+      expect(rows).toHaveLength(0);
+      expect(mailer.send).not.toHaveBeenCalled();
+    });
+
+    it('should store only the hash of the emailed token', async () => {
+      await passwordsService.requestReset(user.email);
+
+      const token = sentToken();
+      expect(token).toBeTruthy();
+      expect(rows).toHaveLength(1);
+      expect(rows[0].token_hash).not.toBe(token);
+    });
+
+    it('should invalidate the previous unused token', async () => {
+      await passwordsService.requestReset(user.email);
+      const previous = sentToken();
+      await passwordsService.requestReset(user.email);
+
+      await expect(
+        passwordsService.resetPassword({
+          token: previous,
+          password: 'nueva-clave-1',
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should change the password and close every session', async () => {
+      await passwordsService.requestReset(user.email);
+
+      await passwordsService.resetPassword({
+        token: sentToken(),
+        password: 'nueva-clave-1',
+      });
+
+      const [userId, password] = usersService.updatePassword.mock.calls[0] as [
+        string,
+        string,
+      ];
+      expect(userId).toBe(user.id);
+      expect(password).toBe('nueva-clave-1');
+      expect(refreshTokensService.revokeAllForUser).toHaveBeenCalledWith(
+        user.id,
+      );
+    });
+
+    it('should accept each token only once', async () => {
+      await passwordsService.requestReset(user.email);
+      const token = sentToken();
+      await passwordsService.resetPassword({
+        token,
+        password: 'nueva-clave-1',
+      });
+
+      await expect(
+        passwordsService.resetPassword({ token, password: 'nueva-clave-2' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(usersService.updatePassword).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject an expired token', async () => {
+      await passwordsService.requestReset(user.email);
+      rows[0].expires_at = new Date(Date.now() - 1000);
+
+      await expect(
+        passwordsService.resetPassword({
+          token: sentToken(),
+          password: 'nueva-clave-1',
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(usersService.updatePassword).not.toHaveBeenCalled();
+      expect(refreshTokensService.revokeAllForUser).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,213 @@
+// Importa decoradores y excepciones de NestJS
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+
+// Importa ConfigService para leer variables de entorno
+import { ConfigService } from '@nestjs/config';
+
+// Importa decoradores y tipos de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+
+// Importa bcrypt para comparar la contraseña actual con el hash almacenado
+import * as bcrypt from 'bcrypt';
+
+// Importa la entidad de tokens de restablecimiento de contraseña
+import { PasswordResetToken } from './entities/password-reset-token.entity';
+
+// Importa los servicios de usuarios y de tokens de actualización (sesiones)
+import { UsersService } from '../users/users.service';
+import { RefreshTokensService } from './refresh-tokens.service';
+
+// Importa el servicio de envío de emails
+import { MAILER } from '../mail/mailer.interface';
+import type { Mailer } from '../mail/mailer.interface';
+
+// Importa los DTOs de restablecimiento y cambio de contraseña
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+
+// Importa el tipo del usuario autenticado
+import { AuthenticatedUser } from './interfaces/authenticated-user.interface';
+
+// Importa las utilidades para generar tokens opacos y calcular su hash
+import { generateToken, hashToken } from './token.utils';
+
+/**
+ * Minutos de validez de un token de restablecimiento si no se configura PASSWORD_RESET_TTL_MINUTES
+ */
+const DEFAULT_PASSWORD_RESET_TTL_MINUTES = 60;
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * PasswordsService - Servicio que gestiona el restablecimiento y el cambio de contraseña
+ * - El restablecimiento envía por email un token de un solo uso que caduca
+ * - Al cambiar la contraseña se cierran las demás sesiones del usuario
+ */
+export class PasswordsService {
+  /**
+   * Constructor que recibe las dependencias mediante inyección
+   * @param resetTokensRepository - Repositorio de TypeORM para los tokens de restablecimiento
+   * @param usersService - Servicio para buscar usuarios y cambiar su contraseña
+   * @param refreshTokensService - Servicio para cerrar las sesiones del usuario
+   * @param mailer - Servicio de envío de emails
+   * @param configService - Servicio para leer la configuración (PASSWORD_RESET_TTL_MINUTES, PASSWORD_RESET_URL)
+   */
+  constructor(
+    @InjectRepository(PasswordResetToken)
+    private resetTokensRepository: Repository<PasswordResetToken>,
+    private usersService: UsersService,
+    private refreshTokensService: RefreshTokensService,
+    @Inject(MAILER)
+    private mailer: Mailer,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Envía por email un token para restablecer la contraseña
+   * Si el email no está registrado no se hace nada, para no revelar qué cuentas existen
+   * Solo vale el último token enviado: los anteriores sin usar se eliminan
+   *
+   * @param email - Email de la cuenta
+   */
+  async requestReset(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    const token = generateToken(32);
+    const ttlMinutes = this.getTtlMinutes();
+
+    await this.resetTokensRepository.delete({
+      user_id: user.id,
+      used_at: IsNull(),
+    });
+    await this.resetTokensRepository.insert({
+      user_id: user.id,
+      token_hash: hashToken(token),
+      expires_at: new Date(Date.now() + ttlMinutes * 60 * 1000),
+    });
+
+    // Si se configura PASSWORD_RESET_URL (ej: la página del frontend), se envía un enlace
+    const resetUrl = this.configService.get<string>('PASSWORD_RESET_URL');
+    const instructions = resetUrl
+      ? `Abre este enlace para elegir una nueva contraseña:\n${resetUrl}?token=${encodeURIComponent(token)}`
+      : `Usa este código para elegir una nueva contraseña:\n${token}`;
+
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Restablecer tu contraseña',
+      text: [
+        `Hola ${user.fullName},`,
+        '',
+        'Hemos recibido una solicitud para restablecer la contraseña de tu cuenta.',
+        instructions,
+        '',
+        `Caduca en ${ttlMinutes} minutos y solo se puede usar una vez.`,
+        'Si no lo has solicitado, ignora este mensaje.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Restablece la contraseña con el token recibido por email
+   * El token queda usado y se cierran todas las sesiones del usuario
+   *
+   * @param resetPasswordDto - Token recibido por email y nueva contraseña
+   * @throws BadRequestException - Si el token no existe, ya se usó o ha caducado
+   */
+  async resetPassword(resetPasswordDto: ResetPasswordDto): Promise<void> {
+    const userId = await this.resetTokensRepository.manager.transaction(
+      async (manager) => {
+        // Bloquea el token para que dos peticiones simultáneas no lo usen a la vez
+        const resetToken = await manager.findOne(PasswordResetToken, {
+          where: { token_hash: hashToken(resetPasswordDto.token) },
+          lock: { mode: 'pessimistic_write' },
+        });
+
+        if (
+          !resetToken ||
+          resetToken.used_at ||
+          resetToken.expires_at <= new Date()
+        ) {
+          throw new BadRequestException(
+            'El token para restablecer la contraseña no es válido o ha caducado',
+          );
+        }
+
+        await manager.update(PasswordResetToken, resetToken.id, {
+          used_at: new Date(),
+        });
+        await this.usersService.updatePassword(
+          resetToken.user_id,
+          resetPasswordDto.password,
+          manager,
+        );
+
+        return resetToken.user_id;
+      },
+    );
+
+    // Quien tuviera la contraseña anterior pierde el acceso
+    await this.refreshTokensService.revokeAllForUser(userId);
+  }
+
+  /**
+   * Cambia la contraseña del usuario autenticado
+   * Se cierran sus demás sesiones; la sesión que hace el cambio sigue abierta
+   *
+   * @param user - Usuario autenticado
+   * @param changePasswordDto - Contraseña actual y nueva contraseña
+   * @throws NotFoundException - Si el usuario ya no existe
+   * @throws BadRequestException - Si la contraseña actual no es correcta
+   */
+  async changePassword(
+    user: AuthenticatedUser,
+    changePasswordDto: ChangePasswordDto,
+  ): Promise<void> {
+    const account = await this.usersService.findByIdWithPassword(user.userId);
+    if (!account) {
+      throw new NotFoundException('Usuario no encontrado');
+    }
+
+    // bcrypt.compare() compara la contraseña en texto plano con el hash almacenado
+    if (
+      !(await bcrypt.compare(
+        changePasswordDto.current_password,
+        account.password,
+      ))
+    ) {
+      throw new BadRequestException('La contraseña actual no es correcta');
+    }
+
+    await this.usersService.updatePassword(
+      user.userId,
+      changePasswordDto.new_password,
+    );
+    await this.refreshTokensService.revokeAllForUser(
+      user.userId,
+      user.sessionId,
+    );
+  }
+
+  /**
+   * Minutos de validez de un token de restablecimiento (variable PASSWORD_RESET_TTL_MINUTES)
+   */
+  private getTtlMinutes(): number {
+    const minutes = Number(
+      this.configService.get('PASSWORD_RESET_TTL_MINUTES'),
+    );
+    return Number.isInteger(minutes) && minutes > 0
+      ? minutes
+      : DEFAULT_PASSWORD_RESET_TTL_MINUTES;
+  }
+}
@@ -0,0 +1,20 @@
+// Importa SetMetadata y Type de NestJS para declarar metadatos en los endpoints
+import { SetMetadata, Type } from '@nestjs/common';
+
+// Importa el contrato de las políticas
+import { PolicyHandler } from './policy-handler.interface';
+
+/**
+ * Clave de los metadatos con las políticas de un endpoint
+ */
+export const CHECK_POLICIES_KEY = 'check_policies';
+
+/**
+ * Decorador @CheckPolicies - Declara las políticas que debe cumplir el usuario para usar un endpoint
+ * Se combina con PoliciesGuard, que las comprueba (todas deben cumplirse)
+ * Ejemplo: @CheckPolicies(TaskEditorPolicy)
+ *
+ * @param handlers - Clases de las políticas (registradas como proveedores en su módulo)
+ */
+export const CheckPolicies = (...handlers: Type<PolicyHandler>[]) =>
+  SetMetadata(CHECK_POLICIES_KEY, handlers);
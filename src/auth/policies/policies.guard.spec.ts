@@ -0,0 +1,67 @@
+import { ExecutionContext, ForbiddenException, Type } from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { Repository } from 'typeorm';
+import { PoliciesGuard } from './policies.guard';
+import { PolicyHandler } from './policy-handler.interface';
+import { Role } from '../enums/role.enum';
+import { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+import { CommentsController } from '../../comments/comments.controller';
+import { CommentAuthorPolicy } from '../../comments/policies/comment-author.policy';
+import { CommentEditorPolicy } from '../../comments/policies/comment-editor.policy';
+import { Comment } from '../../comments/entities/comment.entity';
+
+describe('PoliciesGuard', () => {
+  let guard: PoliciesGuard;
+
+  // Comentario escrito por otro usuario
+  const commentsRepository = {
+    findOne: jest
+      .fn()
+      .mockResolvedValue({ id: 'comment-1', created_by: 'user-2' }),
+  } as unknown as Repository<Comment>;
+
+  const policies = new Map<Type<PolicyHandler>, PolicyHandler>([
+    [CommentAuthorPolicy, new CommentAuthorPolicy(commentsRepository)],
+    [CommentEditorPolicy, new CommentEditorPolicy(commentsRepository)],
+  ]);
+
+  const user = {
+    userId: 'user-1',
+    email: 'admin@example.com',
+    role: Role.MEMBER,
+    sessionId: 'session-1',
+  } as AuthenticatedUser;
+
+  // Contexto de una petición de un administrador del espacio de trabajo al endpoint indicado
+  const contextFor = (method: keyof CommentsController) =>
+    ({
+      getHandler: (): unknown =>
+        Reflect.get(CommentsController.prototype, method),
+      switchToHttp: () => ({
+        getRequest: () => ({
+          user,
+          params: { commentId: 'comment-1' },
+          workspaceRole: Role.ADMIN,
+        }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    const moduleRef = {
+      get: (handler: Type<PolicyHandler>) => policies.get(handler),
+    } as unknown as ModuleRef;
+
+    guard = new PoliciesGuard(new Reflector(), moduleRef);
+  });
+
+  it('should forbid an admin from editing a comment written by someone else', async () => {
+    await expect(guard.canActivate(contextFor('update'))).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('should let an admin delete or restore a comment written by someone else', async () => {
+    await expect(guard.canActivate(contextFor('remove'))).resolves.toBe(true);
+    await expect(guard.canActivate(contextFor('restore'))).resolves.toBe(true);
+  });
+});
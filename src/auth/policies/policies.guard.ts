@@ -0,0 +1,81 @@
+// Importa decoradores, interfaces y excepciones de NestJS
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Type,
+} from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+
+// Importa la clave de metadatos y el contrato de las políticas
+import { CHECK_POLICIES_KEY } from './check-policies.decorator';
+import { PolicyHandler } from './policy-handler.interface';
+
+// Importa el tipo del usuario autenticado
+import { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+
+// Importa el enum de roles
+import { Role } from '../enums/role.enum';
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * PoliciesGuard: Guard que comprueba las políticas declaradas con @CheckPolicies
+ * Debe ejecutarse después de JwtAuthGuard (necesita req.user)
+ * Los administradores se saltan las políticas salvo las que declaran adminOverride = false
+ * Si alguna política no se cumple, rechaza la petición con 403 Forbidden
+ */
+export class PoliciesGuard implements CanActivate {
+  /**
+   * Constructor que recibe el Reflector y el ModuleRef mediante inyección de dependencias
+   * @param reflector - Lee las políticas declaradas en el endpoint
+   * @param moduleRef - Obtiene las instancias de las políticas registradas en los módulos
+   */
+  constructor(
+    private reflector: Reflector,
+    private moduleRef: ModuleRef,
+  ) {}
+
+  /**
+   * Comprueba todas las políticas del endpoint con el usuario autenticado
+   *
+   * @param context - Contexto de ejecución de la petición
+   * @returns Promise<boolean> - true si se cumplen todas las políticas
+   * @throws ForbiddenException - Si alguna política no se cumple
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const handlers =
+      this.reflector.get<Type<PolicyHandler>[]>(
+        CHECK_POLICIES_KEY,
+        context.getHandler(),
+      ) ?? [];
+
+    const request = context.switchToHttp().getRequest<{
+      user: AuthenticatedUser;
+      params: Record<string, string>;
+      workspaceRole?: Role;
+    }>();
+
+    const isAdmin =
+      request.user.role === Role.ADMIN || request.workspaceRole === Role.ADMIN;
+
+    for (const handler of handlers) {
+      const policy = this.moduleRef.get(handler, { strict: false });
+
+      // Los administradores (globales o del espacio de trabajo) se saltan las políticas de propiedad
+      if (isAdmin && policy.adminOverride !== false) {
+        continue;
+      }
+
+      if (!(await policy.handle(request.user, request.params))) {
+        throw new ForbiddenException(policy.message);
+      }
+    }
+
+    return true;
+  }
+}
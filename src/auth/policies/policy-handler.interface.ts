@@ -0,0 +1,32 @@
+// Importa el tipo del usuario autenticado
+import { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+
+/**
+ * PolicyHandler - Regla de autorización que se comprueba antes de ejecutar un endpoint
+ * Las políticas son proveedores de NestJS (pueden inyectar repositorios) y se declaran
+ * en los endpoints con @CheckPolicies
+ */
+export interface PolicyHandler {
+  /**
+   * Mensaje de la respuesta 403 cuando la política no se cumple
+   */
+  readonly message: string;
+
+  /**
+   * Indica si los administradores se saltan la política (por defecto true)
+   * Con false la política se comprueba también para los administradores
+   */
+  readonly adminOverride?: boolean;
+
+  /**
+   * Comprueba si el usuario puede realizar la acción
+   *
+   * @param user - Usuario autenticado (req.user)
+   * @param params - Parámetros de la URL del endpoint
+   * @returns Promise<boolean> - true si la acción está permitida
+   */
+  handle(
+    user: AuthenticatedUser,
+    params: Record<string, string>,
+  ): Promise<boolean>;
+}
@@ -0,0 +1,186 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator, FindOptionsWhere } from 'typeorm';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { hashToken } from './token.utils';
+
+/**
+ * Comprueba una condición where sencilla (igualdad, IsNull() y Not()) sobre una fila en memoria
+ */
+function matches(
+  row: RefreshToken,
+  where: FindOptionsWhere<RefreshToken>,
+): boolean {
+  return Object.entries(where).every(([key, expected]) => {
+    const value = row[key as keyof RefreshToken];
+    if (expected instanceof FindOperator) {
+      if (expected.type === 'isNull') {
+        return value === null;
+      }
+      if (expected.type === 'not') {
+        return value !== expected.value;
+      }
+      throw new Error(`Operador no soportado: ${expected.type}`);
+    }
+    return value === expected;
+  });
+}
+
+describe('RefreshTokensService', () => {
+  let refreshTokensService: RefreshTokensService;
+  let rows: RefreshToken[];
+
+  const update = (
+    criteria: string | FindOptionsWhere<RefreshToken>,
+    changes: Partial<RefreshToken>,
+  ) => {
+    for (const row of rows) {
+      const selected =
+        typeof criteria === 'string'
+          ? row.id === criteria
+          : matches(row, criteria);
+      if (selected) {
+        Object.assign(row, changes);
+      }
+    }
+    return Promise.resolve();
+  };
+
+  beforeEach(async () => {
+    rows = [];
+
+    const insert = (data: Partial<RefreshToken>) => {
+      const row = {
+        id: `token-${rows.length + 1}`,
+        revoked_at: null,
+        replaced_by: null,
+        ...data,
+      } as RefreshToken;
+      rows.push(row);
+      return row;
+    };
+
+    const repository = {
+      insert: jest.fn((data: Partial<RefreshToken>) => {
+        insert(data);
+        return Promise.resolve();
+      }),
+      update: jest.fn(update),
+      existsBy: jest.fn(),
+    };
+
+    const manager = {
+      findOne: jest.fn(
+        (_: unknown, { where }: { where: FindOptionsWhere<RefreshToken> }) =>
+          Promise.resolve(rows.find((row) => matches(row, where)) ?? null),
+      ),
+      create: jest.fn((_: unknown, data: Partial<RefreshToken>) => data),
+      save: jest.fn((data: Partial<RefreshToken>) =>
+        Promise.resolve(insert(data)),
+      ),
+      update: jest.fn(
+        (_: unknown, id: string, changes: Partial<RefreshToken>) =>
+          update(id, changes),
+      ),
+      getRepository: () => repository,
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefreshTokensService,
+        {
+          provide: getRepositoryToken(RefreshToken),
+          useValue: {
+            ...repository,
+            manager: {
+              transaction: (work: (m: typeof manager) => Promise<unknown>) =>
+                work(manager),
+            },
+          },
+        },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    refreshTokensService = app.get<RefreshTokensService>(RefreshTokensService);
+  });
+
+  describe('rotate', () => {
+    it('should revoke the used token and issue another one in the same session', async () => {
+      const issued = await refreshTokensService.issue('user-1');
+
+      const rotated = await refreshTokensService.rotate(issued.token);
+
+      expect(rotated.userId).toBe('user-1');
+      expect(rotated.sessionId).toBe(issued.sessionId);
+      expect(rotated.token).not.toBe(issued.token);
+
+      const [used, next] = rows;
+      expect(used.revoked_at).toBeInstanceOf(Date);
+      expect(used.replaced_by).toBe(next.id);
+      expect(next.token_hash).toBe(hashToken(rotated.token));
+      expect(next.revoked_at).toBeNull();
+    });
+
+    it('should revoke the whole session when a rotated token is reused', async () => {
+      const issued = await refreshTokensService.issue('user-1');
+      const rotated = await refreshTokensService.rotate(issued.token);
+
+      await expect(
+        refreshTokensService.rotate(issued.token),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+
+      expect(rows.every((row) => row.revoked_at !== null)).toBe(true);
+      await expect(refreshTokensService.rotate(rotated.token)).rejects.toThrow(
+        'La sesión ha sido cerrada',
+      );
+    });
+
+    it('should not revoke other sessions when a token is reused', async () => {
+      const first = await refreshTokensService.issue('user-1');
+      const other = await refreshTokensService.issue('user-1');
+      await refreshTokensService.rotate(first.token);
+
+      await expect(refreshTokensService.rotate(first.token)).rejects.toThrow(
+        UnauthorizedException,
+      );
+
+      const otherSession = rows.filter(
+        (row) => row.family_id === other.sessionId,
+      );
+      expect(otherSession.every((row) => row.revoked_at === null)).toBe(true);
+    });
+
+    it('should reject an expired token', async () => {
+      const issued = await refreshTokensService.issue('user-1');
+      rows[0].expires_at = new Date(Date.now() - 1000);
+
+      await expect(refreshTokensService.rotate(issued.token)).rejects.toThrow(
+        'El token de actualización ha caducado',
+      );
+      expect(rows).toHaveLength(1);
+    });
+
+    it('should reject an unknown token', async () => {
+      await expect(
+        refreshTokensService.rotate('not-a-token'),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+  });
+
+  describe('revokeAllForUser', () => {
+    it('should keep the current session open', async () => {
+      const current = await refreshTokensService.issue('user-1');
+      await refreshTokensService.issue('user-1');
+
+      await refreshTokensService.revokeAllForUser('user-1', current.sessionId);
+
+      const [kept, revoked] = rows;
+      expect(kept.revoked_at).toBeNull();
+      expect(revoked.revoked_at).toBeInstanceOf(Date);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+// Importa decoradores y excepciones de NestJS
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+
+// Importa ConfigService para leer variables de entorno
+import { ConfigService } from '@nestjs/config';
+
+// Importa decoradores y tipos de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, IsNull, MoreThan, Not, Repository } from 'typeorm';
+
+// Importa randomUUID de Node para generar los identificadores de sesión
+import { randomUUID } from 'crypto';
+
+// Importa las utilidades para generar tokens opacos y calcular su hash
+import { generateToken, hashToken } from './token.utils';
+
+// Importa la entidad de tokens de actualización
+import { RefreshToken } from './entities/refresh-token.entity';
+
+/**
+ * Días de validez de un token de actualización si no se configura REFRESH_TOKEN_TTL_DAYS
+ */
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+
+/**
+ * IssuedRefreshToken - Token de actualización recién emitido
+ * - token: Token en claro (solo se entrega al cliente, no se guarda)
+ * - userId: Usuario al que pertenece
+ * - sessionId: Sesión (familia de tokens) a la que pertenece
+ */
+export interface IssuedRefreshToken {
+  token: string;
+  userId: string;
+  sessionId: string;
+}
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * RefreshTokensService - Servicio que gestiona los tokens de actualización y las sesiones
+ * - Cada inicio de sesión crea una familia de tokens (la sesión)
+ * - Cada renovación revoca el token usado y emite otro de la misma familia (rotación)
+ * - Si se usa un token ya renovado, se revoca toda la familia (detección de reutilización)
+ */
+export class RefreshTokensService {
+  /**
+   * Constructor que recibe las dependencias mediante inyección
+   * @param refreshTokensRepository - Repositorio de TypeORM para los tokens de actualización
+   * @param configService - Servicio para leer la validez de los tokens (REFRESH_TOKEN_TTL_DAYS)
+   */
+  constructor(
+    @InjectRepository(RefreshToken)
+    private refreshTokensRepository: Repository<RefreshToken>,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Emite el primer token de actualización de una nueva sesión
+   *
+   * @param userId - ID del usuario que inicia sesión
+   * @returns Promise<IssuedRefreshToken> - Token emitido y sesión creada
+   */
+  async issue(userId: string): Promise<IssuedRefreshToken> {
+    const sessionId = randomUUID();
+    const token = generateToken();
+
+    await this.refreshTokensRepository.insert({
+      user_id: userId,
+      family_id: sessionId,
+      token_hash: hashToken(token),
+      expires_at: this.getExpirationDate(),
+    });
+
+    return { token, userId, sessionId };
+  }
+
+  /**
+   * Renueva un token de actualización: lo revoca y emite otro de la misma sesión
+   * Si el token ya se había renovado, se ha filtrado: se revoca toda la sesión
+   *
+   * @param token - Token de actualización en claro
+   * @returns Promise<IssuedRefreshToken> - Nuevo token de la sesión
+   * @throws UnauthorizedException - Si el token no existe, está revocado o ha caducado
+   */
+  async rotate(token: string): Promise<IssuedRefreshToken> {
+    const result = await this.refreshTokensRepository.manager.transaction(
+      async (manager) => {
+        // Bloquea el token para que dos renovaciones simultáneas no lo usen a la vez
+        const current = await manager.findOne(RefreshToken, {
+          where: { token_hash: hashToken(token) },
+          lock: { mode: 'pessimistic_write' },
+        });
+
+        if (!current) {
+          return { error: 'Token de actualización no válido' };
+        }
+        if (current.revoked_at) {
+          // Un token renovado no se vuelve a usar: alguien tiene una copia
+          if (current.replaced_by) {
+            await this.revokeFamilyWith(
+              manager.getRepository(RefreshToken),
+              current.family_id,
+            );
+            return {
+              error:
+                'Token de actualización reutilizado: se ha cerrado la sesión',
+            };
+          }
+          return { error: 'La sesión ha sido cerrada' };
+        }
+        if (current.expires_at <= new Date()) {
+          return { error: 'El token de actualización ha caducado' };
+        }
+
+        const next = generateToken();
+        const saved = await manager.save(
+          manager.create(RefreshToken, {
+            user_id: current.user_id,
+            family_id: current.family_id,
+            token_hash: hashToken(next),
+            expires_at: this.getExpirationDate(),
+          }),
+        );
+        await manager.update(RefreshToken, current.id, {
+          revoked_at: new Date(),
+          replaced_by: saved.id,
+        });
+
+        return {
+          issued: {
+            token: next,
+            userId: current.user_id,
+            sessionId: current.family_id,
+          },
+        };
+      },
+    );
+
+    // Se lanza fuera de la transacción para no deshacer la revocación de la sesión
+    if (!result.issued) {
+      throw new UnauthorizedException(result.error);
+    }
+
+    return result.issued;
+  }
+
+  /**
+   * Revoca todos los tokens de una sesión (cerrar sesión)
+   *
+   * @param sessionId - ID de la sesión (familia de tokens)
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.revokeFamilyWith(this.refreshTokensRepository, sessionId);
+  }
+
+  /**
+   * Revoca todas las sesiones de un usuario (cerrar sesión en todos los dispositivos)
+   *
+   * @param userId - ID del usuario
+   * @param exceptSessionId - Sesión que se mantiene abierta (ej: la que cambia la contraseña)
+   */
+  async revokeAllForUser(
+    userId: string,
+    exceptSessionId?: string,
+  ): Promise<void> {
+    const where: FindOptionsWhere<RefreshToken> = {
+      user_id: userId,
+      revoked_at: IsNull(),
+    };
+    if (exceptSessionId) {
+      where.family_id = Not(exceptSessionId);
+    }
+
+    await this.refreshTokensRepository.update(where, {
+      revoked_at: new Date(),
+    });
+  }
+
+  /**
+   * Indica si una sesión sigue activa: tiene algún token sin revocar ni caducar
+   * JwtStrategy lo comprueba en cada petición para rechazar los tokens de acceso de sesiones cerradas
+   *
+   * @param sessionId - ID de la sesión (claim 'sid' del token de acceso)
+   * @returns Promise<boolean> - true si la sesión está activa
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    return await this.refreshTokensRepository.existsBy({
+      family_id: sessionId,
+      revoked_at: IsNull(),
+      expires_at: MoreThan(new Date()),
+    });
+  }
+
+  /**
+   * Revoca los tokens pendientes de una familia
+   *
+   * @param repository - Repositorio con el que se actualiza (el de la transacción si la hay)
+   * @param familyId - ID de la familia de tokens
+   */
+  private async revokeFamilyWith(
+    repository: Repository<RefreshToken>,
+    familyId: string,
+  ): Promise<void> {
+    await repository.update(
+      { family_id: familyId, revoked_at: IsNull() },
+      { revoked_at: new Date() },
+    );
+  }
+
+  /**
+   * Fecha de caducidad de un token emitido ahora (variable REFRESH_TOKEN_TTL_DAYS)
+   */
+  private getExpirationDate(): Date {
+    const days = Number(this.configService.get('REFRESH_TOKEN_TTL_DAYS'));
+    const ttlDays =
+      Number.isInteger(days) && days > 0
+        ? days
+        : DEFAULT_REFRESH_TOKEN_TTL_DAYS;
+
+    return new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000);
+  }
+}
@@ -0,0 +1,19 @@
+// Importa SetMetadata de NestJS para declarar metadatos en los endpoints
+import { SetMetadata } from '@nestjs/common';
+
+// Importa el enum de roles
+import { Role } from '../enums/role.enum';
+
+/**
+ * Clave de los metadatos con los roles permitidos en un endpoint
+ */
+export const ROLES_KEY = 'roles';
+
+/**
+ * Decorador @Roles - Declara los roles que pueden usar un endpoint (o todos los de un controlador)
+ * Se combina con RolesGuard, que los comprueba; sin @Roles el endpoint está permitido a todos
+ * Ejemplo: @Roles(Role.ADMIN, Role.MEMBER)
+ *
+ * @param roles - Roles permitidos
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,70 @@
+// Importa decoradores, interfaces y excepciones de NestJS
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+
+// Importa la clave de metadatos de los roles y el enum de roles
+import { ROLES_KEY } from './roles.decorator';
+import { Role } from '../enums/role.enum';
+
+// Importa el tipo del usuario autenticado
+import { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * RolesGuard: Guard que comprueba los roles declarados con @Roles
+ * Debe ejecutarse después de JwtAuthGuard (necesita req.user) y, en las rutas de un
+ * espacio de trabajo, después de WorkspaceMemberGuard (que deja el rol del usuario en ese espacio)
+ * - Los administradores globales pueden usar cualquier endpoint
+ * - En las rutas de un espacio de trabajo cuenta el rol en ese espacio; en las demás, el rol global
+ * Si el rol no está permitido, rechaza la petición con 403 Forbidden
+ */
+export class RolesGuard implements CanActivate {
+  /**
+   * Constructor que recibe el Reflector mediante inyección de dependencias
+   * @param reflector - Lee los roles declarados en el endpoint o en el controlador
+   */
+  constructor(private reflector: Reflector) {}
+
+  /**
+   * Comprueba que el rol del usuario autenticado está entre los permitidos
+   *
+   * @param context - Contexto de ejecución de la petición
+   * @returns boolean - true si el rol está permitido (o el endpoint no declara roles)
+   * @throws ForbiddenException - Si el rol no está permitido
+   */
+  canActivate(context: ExecutionContext): boolean {
+    // Los roles del endpoint tienen prioridad sobre los del controlador
+    const roles = this.reflector.getAllAndOverride<Role[] | undefined>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!roles || roles.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<{
+      user: AuthenticatedUser;
+      workspaceRole?: Role;
+    }>();
+
+    if (request.user.role === Role.ADMIN) {
+      return true;
+    }
+
+    const role = request.workspaceRole ?? request.user.role;
+    if (!roles.includes(role)) {
+      throw new ForbiddenException('Tu rol no permite realizar esta acción');
+    }
+
+    return true;
+  }
+}
@@ -5,11 +5,20 @@ import { ExtractJwt, Strategy } from 'passport-jwt';
 import { PassportStrategy } from '@nestjs/passport';
 
 // Importa decoradores de NestJS
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 
 // Importa ConfigService para leer variables de entorno
 import { ConfigService } from '@nestjs/config';
 
+// Importa el tipo del usuario autenticado que se deja en req.user
+import { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+
+// Importa el tipo de los datos firmados en el token
+import { JwtPayload } from '../interfaces/jwt-payload.interface';
+
+// Importa el servicio de tokens de actualización para comprobar que la sesión sigue activa
+import { RefreshTokensService } from '../refresh-tokens.service';
+
 /**
  * Decorador que marca esta clase como un proveedor inyectable de NestJS
  */
@@ -22,20 +31,24 @@ import { ConfigService } from '@nestjs/config';
  */
 export class JwtStrategy extends PassportStrategy(Strategy) {
   /**
-   * Constructor que recibe ConfigService mediante inyección de dependencias
+   * Constructor que recibe las dependencias mediante inyección
    * @param configService - Servicio para leer variables de entorno (.env)
+   * @param refreshTokensService - Servicio para comprobar que la sesión del token no se ha cerrado
    */
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private refreshTokensService: RefreshTokensService,
+  ) {
     // Llama al constructor de la clase padre con la configuración de JWT
     super({
       // ExtractJwt.fromAuthHeaderAsBearerToken(): Extrae el token JWT del header Authorization
       // Busca el token en el formato: Authorization: Bearer <token>
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
-      
+
       // ignoreExpiration: false - Verifica que el token no haya expirado
       // Si es true, aceptaría tokens expirados (no recomendado)
       ignoreExpiration: false,
-      
+
       // secretOrKey: La clave secreta para verificar la firma del token
       // Debe coincidir con la clave usada para firmar el token en el login
       // Usamos getOrThrow para asegurar que el valor no sea undefined
@@ -46,15 +59,31 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   /**
    * Método validate: Es llamado automáticamente por Passport después de verificar el token
    * Este método recibe el payload decodificado del token JWT
-   * 
+   *
    * @param payload - Objeto con los datos que se incluyeron en el token al firmarlo (email, sub, etc.)
    * @returns Objeto con información del usuario que estará disponible en req.user
+   * @throws UnauthorizedException - Si la sesión del token se ha cerrado (o el token no tiene sesión)
    */
-  async validate(payload: any) {
+  async validate(payload: JwtPayload): Promise<AuthenticatedUser> {
+    // payload.sid es la sesión del token: un token filtrado deja de valer al cerrar la sesión
+    // Los tokens emitidos antes de existir las sesiones no la incluyen y se rechazan
+    if (
+      !payload.sid ||
+      !(await this.refreshTokensService.isSessionActive(payload.sid))
+    ) {
+      throw new UnauthorizedException('La sesión ha sido cerrada');
+    }
+
     // Retorna un objeto con la información del usuario extraída del token
     // payload.sub es el ID del usuario (estándar JWT para "subject")
     // payload.email es el email del usuario (incluido en el payload al crear el token)
+    // payload.role es el rol global del usuario
     // Este objeto será accesible en los controladores como req.user
-    return { userId: payload.sub, email: payload.email };
+    return {
+      userId: payload.sub,
+      email: payload.email,
+      role: payload.role,
+      sessionId: payload.sid,
+    };
   }
 }
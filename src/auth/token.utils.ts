@@ -0,0 +1,24 @@
+// Importa utilidades de Node para generar tokens aleatorios y calcular su hash
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Genera un token opaco aleatorio (no es un JWT) codificado en base64url
+ *
+ * @param bytes - Número de bytes aleatorios del token
+ * @returns string - Token en claro (solo se entrega al usuario, no se guarda)
+ */
+export function generateToken(bytes = 48): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Calcula el hash SHA-256 (hexadecimal) de un token opaco
+ * Los tokens tienen suficiente entropía para no necesitar un hash lento como bcrypt,
+ * y un hash determinista permite buscarlos directamente en la base de datos
+ *
+ * @param token - Token en claro
+ * @returns string - Hash que se guarda en la base de datos
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -19,16 +19,23 @@ import { CategoriesService } from './categories.service';
 import { CreateCategoryDto } from './dto/create-category.dto';
 import { UpdateCategoryDto } from './dto/update-category.dto';
 
-// Importa el guard JWT para proteger las rutas
+// Importa los guards de autenticación, de pertenencia al espacio de trabajo y de roles
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { WorkspaceMemberGuard } from '../workspaces/guards/workspace-member.guard';
+import { RolesGuard } from '../auth/roles/roles.guard';
+
+// Importa el decorador de roles y el enum de roles
+import { Roles } from '../auth/roles/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
 
 /**
  * CategoriesController: Controlador que maneja las rutas relacionadas con categorías
  * Expone endpoints para realizar operaciones CRUD sobre categorías
  * Todas las rutas están protegidas con JwtAuthGuard (requieren autenticación)
+ * Las categorías pertenecen a un espacio de trabajo (:wid) y solo sus miembros acceden a ellas
  */
-@Controller('categories')
-@UseGuards(JwtAuthGuard) // Proteger todas las rutas con autenticación JWT
+@Controller('workspaces/:wid/categories')
+@UseGuards(JwtAuthGuard, WorkspaceMemberGuard, RolesGuard) // Autenticación JWT, pertenencia al espacio de trabajo y roles
 export class CategoriesController {
   /**
    * Constructor que recibe el servicio de categorías mediante inyección de dependencias
@@ -37,66 +44,96 @@ export class CategoriesController {
   constructor(private readonly categoriesService: CategoriesService) {}
 
   /**
-   * Endpoint POST /categories
+   * Endpoint POST /workspaces/:wid/categories
    * Crea una nueva categoría
-   * 
-   * @UsePipes(new ValidationPipe()) - Valida automáticamente los datos del body usando el DTO
+   *
+   * @UsePipes(new ValidationPipe({ whitelist: true })) - Valida los datos del body con el DTO y descarta los demás campos
+   * @Param('wid') workspaceId - UUID del espacio de trabajo
    * @Body() createCategoryDto - Datos de la categoría a crear (validados por CreateCategoryDto)
    * @returns Categoría creada
    */
   @Post()
-  @UsePipes(new ValidationPipe())
-  create(@Body() createCategoryDto: CreateCategoryDto) {
-    return this.categoriesService.create(createCategoryDto);
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UsePipes(new ValidationPipe({ whitelist: true })) // Valida el DTO y descarta los campos que no declara (ej: workspace_id)
+  create(
+    @Param('wid') workspaceId: string,
+    @Body() createCategoryDto: CreateCategoryDto,
+  ) {
+    return this.categoriesService.create(createCategoryDto, workspaceId);
   }
 
   /**
-   * Endpoint GET /categories
-   * Obtiene todas las categorías del sistema
-   * 
-   * @returns Array de todas las categorías
+   * Endpoint GET /workspaces/:wid/categories
+   * Obtiene todas las categorías del espacio de trabajo
+   *
+   * @Param('wid') workspaceId - UUID del espacio de trabajo
+   * @returns Array de las categorías del espacio de trabajo
    */
   @Get()
-  findAll() {
-    return this.categoriesService.findAll();
+  findAll(@Param('wid') workspaceId: string) {
+    return this.categoriesService.findAll(workspaceId);
   }
 
   /**
-   * Endpoint GET /categories/:id
+   * Endpoint GET /workspaces/:wid/categories/:id
    * Obtiene una categoría específica por su ID
-   * 
+   *
+   * @Param('wid') workspaceId - UUID del espacio de trabajo
    * @Param('id') id - UUID de la categoría a buscar
    * @returns Categoría encontrada
    */
   @Get(':id')
-  findOne(@Param('id') id: string) {
-    return this.categoriesService.findOne(id);
+  findOne(@Param('wid') workspaceId: string, @Param('id') id: string) {
+    return this.categoriesService.findOne(id, workspaceId);
   }
 
   /**
-   * Endpoint PATCH /categories/:id
+   * Endpoint PATCH /workspaces/:wid/categories/:id
    * Actualiza una categoría existente
-   * 
-   * @UsePipes(new ValidationPipe()) - Valida automáticamente los datos del body
+   *
+   * @UsePipes(new ValidationPipe({ whitelist: true })) - Valida los datos del body y descarta los demás campos
+   * @Param('wid') workspaceId - UUID del espacio de trabajo
    * @Param('id') id - UUID de la categoría a actualizar
    * @Body() updateCategoryDto - Datos a actualizar (todos opcionales, validados por UpdateCategoryDto)
    * @returns Categoría actualizada
    */
   @Patch(':id')
-  @UsePipes(new ValidationPipe())
-  update(@Param('id') id: string, @Body() updateCategoryDto: UpdateCategoryDto) {
-    return this.categoriesService.update(id, updateCategoryDto);
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UsePipes(new ValidationPipe({ whitelist: true })) // Valida el DTO y descarta los campos que no declara (ej: workspace_id)
+  update(
+    @Param('wid') workspaceId: string,
+    @Param('id') id: string,
+    @Body() updateCategoryDto: UpdateCategoryDto,
+  ) {
+    return this.categoriesService.update(id, updateCategoryDto, workspaceId);
   }
 
   /**
-   * Endpoint DELETE /categories/:id
-   * Elimina una categoría del sistema
-   * 
+   * Endpoint DELETE /workspaces/:wid/categories/:id
+   * Envía una categoría a la papelera (se puede restaurar)
+   * Solo los administradores del espacio de trabajo pueden eliminar categorías
+   *
+   * @Param('wid') workspaceId - UUID del espacio de trabajo
    * @Param('id') id - UUID de la categoría a eliminar
    * @returns Sin contenido (status 204)
    */
   @Delete(':id')
-  remove(@Param('id') id: string) {
-    return this.categoriesService.remove(id);
+  @Roles(Role.ADMIN)
+  remove(@Param('wid') workspaceId: string, @Param('id') id: string) {
+    return this.categoriesService.remove(id, workspaceId);
+  }
+
+  /**
+   * Endpoint POST /workspaces/:wid/categories/:id/restore
+   * Restaura una categoría de la papelera
+   *
+   * @Param('wid') workspaceId - UUID del espacio de trabajo
+   * @Param('id') id - UUID de la categoría a restaurar
+   * @returns Categoría restaurada
+   */
+  @Post(':id/restore')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  restore(@Param('wid') workspaceId: string, @Param('id') id: string) {
+    return this.categoriesService.restore(id, workspaceId);
   }
 }
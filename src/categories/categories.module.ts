@@ -11,6 +11,9 @@ import { CategoriesController } from './categories.controller';
 // Importa la entidad Category para registrarla en TypeORM
 import { Category } from './entities/category.entity';
 
+// Importa WorkspacesModule para proteger las rutas con WorkspaceMemberGuard
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+
 /**
  * CategoriesModule: Módulo que centraliza toda la configuración de categorías
  * Registra la entidad, servicio y controlador para operaciones CRUD de categorías
@@ -20,21 +23,22 @@ import { Category } from './entities/category.entity';
    * TypeOrmModule.forFeature([Category])
    * Registra la entidad Category en TypeORM, permitiendo inyectar el repositorio
    * en el CategoriesService para realizar operaciones CRUD en la base de datos
+   * WorkspacesModule proporciona el guard que resuelve el espacio de trabajo de la ruta
    */
-  imports: [TypeOrmModule.forFeature([Category])],
-  
+  imports: [TypeOrmModule.forFeature([Category]), WorkspacesModule],
+
   /**
    * Controlador que maneja las rutas HTTP relacionadas con categorías
-   * Define endpoints como POST /categories, GET /categories, etc.
+   * Define endpoints como POST /workspaces/:wid/categories, GET /workspaces/:wid/categories, etc.
    */
   controllers: [CategoriesController],
-  
+
   /**
    * Servicio que contiene la lógica de negocio para categorías
    * Maneja operaciones como crear, buscar, actualizar y eliminar categorías
    */
   providers: [CategoriesService],
-  
+
   /**
    * Exporta CategoriesService para que otros módulos puedan utilizarlo
    * Importante: Necesario para el módulo de tareas (TasksModule)
@@ -0,0 +1,83 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CategoriesService } from './categories.service';
+import { Category } from './entities/category.entity';
+import { CreateCategoryDto } from './dto/create-category.dto';
+import { UpdateCategoryDto } from './dto/update-category.dto';
+
+describe('CategoriesService', () => {
+  let categoriesService: CategoriesService;
+  let categoriesRepository: {
+    findOne: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    categoriesRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn((data: Partial<Category>) => data),
+      save: jest.fn((category: Partial<Category>) => Promise.resolve(category)),
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        CategoriesService,
+        {
+          provide: getRepositoryToken(Category),
+          useValue: categoriesRepository,
+        },
+      ],
+    }).compile();
+
+    categoriesService = app.get<CategoriesService>(CategoriesService);
+  });
+
+  describe('create', () => {
+    it('should ignore an id or workspace sent in the body', async () => {
+      const body = {
+        name: 'Backend',
+        id: 'category-of-another-workspace',
+        workspace_id: 'workspace-2',
+      } as CreateCategoryDto;
+
+      const category = await categoriesService.create(body, 'workspace-1');
+
+      expect(category).toEqual({
+        name: 'Backend',
+        description: undefined,
+        workspace_id: 'workspace-1',
+        color: '#000000',
+      });
+    });
+  });
+
+  describe('update', () => {
+    it('should keep the category in the route workspace', async () => {
+      categoriesRepository.findOne.mockResolvedValueOnce({
+        id: 'category-1',
+        name: 'Backend',
+        color: '#000000',
+        workspace_id: 'workspace-1',
+      });
+      const body = {
+        color: '#FF5733',
+        id: 'category-2',
+        workspace_id: 'workspace-2',
+      } as UpdateCategoryDto;
+
+      const category = await categoriesService.update(
+        'category-1',
+        body,
+        'workspace-1',
+      );
+
+      expect(category).toEqual({
+        id: 'category-1',
+        name: 'Backend',
+        color: '#FF5733',
+        workspace_id: 'workspace-1',
+      });
+    });
+  });
+});
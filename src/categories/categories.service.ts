@@ -1,5 +1,9 @@
 // Importa decoradores y excepciones de NestJS
-import { Injectable, ConflictException, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
 
 // Importa decoradores y clases de TypeORM para trabajar con repositorios
 import { InjectRepository } from '@nestjs/typeorm';
@@ -15,6 +19,7 @@ import { UpdateCategoryDto } from './dto/update-category.dto';
 /**
  * CategoriesService: Servicio que maneja toda la lógica de negocio para categorías
  * Se encarga de las operaciones CRUD y validaciones de categorías
+ * Todas las operaciones se limitan al espacio de trabajo activo (workspaceId)
  */
 @Injectable()
 export class CategoriesService {
@@ -28,32 +33,41 @@ export class CategoriesService {
   ) {}
 
   /**
-   * Crea una nueva categoría en el sistema
+   * Crea una nueva categoría en el espacio de trabajo
    * Proceso:
-   * 1. Verifica que el nombre no esté ya registrado (según validación del ERD)
+   * 1. Verifica que el nombre no esté ya registrado en el espacio de trabajo
    * 2. Si el color no se proporciona, usa el valor por defecto #000000
    * 3. Guarda la categoría en la base de datos
-   * 
+   *
    * @param createCategoryDto - Datos de la categoría a crear (nombre, descripción, color)
+   * @param workspaceId - ID del espacio de trabajo activo
    * @returns Categoría creada
-   * @throws ConflictException si el nombre ya está registrado
+   * @throws ConflictException si el nombre ya está registrado en el espacio de trabajo
    */
-  async create(createCategoryDto: CreateCategoryDto): Promise<Category> {
-    // Verificar si el nombre ya existe en la base de datos
-    // Esto previene duplicados y mantiene la integridad según el ERD (nombre único)
+  async create(
+    createCategoryDto: CreateCategoryDto,
+    workspaceId: string,
+  ): Promise<Category> {
+    // Verificar si el nombre ya existe en el espacio de trabajo
+    // Otros espacios de trabajo pueden tener categorías con el mismo nombre
+    // withDeleted: las categorías de la papelera también ocupan su nombre
     const existing = await this.categoriesRepository.findOne({
-      where: { name: createCategoryDto.name },
+      where: { name: createCategoryDto.name, workspace_id: workspaceId },
+      withDeleted: true,
     });
 
     // Si el nombre ya existe, lanzar excepción de conflicto
     if (existing) {
-      throw new ConflictException('Ya existe una categoría con ese nombre');
+      throw new ConflictException(this.nameConflictMessage(existing));
     }
 
     // Crear la categoría con los datos proporcionados
+    // Los campos se copian uno a uno: con un id del body, save() sobrescribiría otra categoría
     // Si no se proporciona color, usar el valor por defecto #000000
     const category = this.categoriesRepository.create({
-      ...createCategoryDto,
+      name: createCategoryDto.name,
+      description: createCategoryDto.description,
+      workspace_id: workspaceId,
       color: createCategoryDto.color || '#000000',
     });
 
@@ -62,29 +76,32 @@ export class CategoriesService {
   }
 
   /**
-   * Obtiene todas las categorías del sistema
+   * Obtiene todas las categorías del espacio de trabajo
    * Retorna las categorías ordenadas por fecha de creación (más recientes primero)
-   * 
-   * @returns Array de todas las categorías
+   *
+   * @param workspaceId - ID del espacio de trabajo activo
+   * @returns Array de las categorías del espacio de trabajo
    */
-  async findAll(): Promise<Category[]> {
+  async findAll(workspaceId: string): Promise<Category[]> {
     return await this.categoriesRepository.find({
+      where: { workspace_id: workspaceId },
       order: { createdAt: 'DESC' },
     });
   }
 
   /**
-   * Busca una categoría por su ID
-   * 
+   * Busca una categoría por su ID dentro del espacio de trabajo
+   *
    * @param id - UUID de la categoría a buscar
+   * @param workspaceId - ID del espacio de trabajo activo
    * @returns Categoría encontrada con sus tareas relacionadas
-   * @throws NotFoundException si la categoría no existe
+   * @throws NotFoundException si la categoría no existe en el espacio de trabajo
    */
-  async findOne(id: string): Promise<Category> {
+  async findOne(id: string, workspaceId: string): Promise<Category> {
     // Buscar la categoría incluyendo la relación con tareas
     // La relación tasks se descomentará cuando se cree la entidad Task
     const category = await this.categoriesRepository.findOne({
-      where: { id },
+      where: { id, workspace_id: workspaceId },
       // relations: ['tasks'], // Se habilitará cuando se cree la entidad Task
     });
 
@@ -102,47 +119,101 @@ export class CategoriesService {
    * 1. Verifica que la categoría exista
    * 2. Si se actualiza el nombre, verifica que no esté duplicado
    * 3. Aplica los cambios y guarda
-   * 
+   *
    * @param id - UUID de la categoría a actualizar
    * @param updateCategoryDto - Datos a actualizar (todos opcionales)
+   * @param workspaceId - ID del espacio de trabajo activo
    * @returns Categoría actualizada
    * @throws NotFoundException si la categoría no existe
-   * @throws ConflictException si el nuevo nombre ya está en uso
+   * @throws ConflictException si el nuevo nombre ya está en uso en el espacio de trabajo
    */
-  async update(id: string, updateCategoryDto: UpdateCategoryDto): Promise<Category> {
+  async update(
+    id: string,
+    updateCategoryDto: UpdateCategoryDto,
+    workspaceId: string,
+  ): Promise<Category> {
     // Obtener la categoría existente (lanza NotFoundException si no existe)
-    const category = await this.findOne(id);
+    const category = await this.findOne(id, workspaceId);
 
-    // Si se actualiza el nombre, verificar que no esté duplicado
+    // Si se actualiza el nombre, verificar que no esté duplicado en el espacio de trabajo
     if (updateCategoryDto.name && updateCategoryDto.name !== category.name) {
       const existing = await this.categoriesRepository.findOne({
-        where: { name: updateCategoryDto.name },
+        where: { name: updateCategoryDto.name, workspace_id: workspaceId },
+        withDeleted: true,
       });
 
       // Si el nuevo nombre ya existe, lanzar excepción de conflicto
       if (existing) {
-        throw new ConflictException('Ya existe una categoría con ese nombre');
+        throw new ConflictException(this.nameConflictMessage(existing));
       }
     }
 
-    // Aplicar los cambios proporcionados a la categoría existente
-    Object.assign(category, updateCategoryDto);
-    
+    // Aplicar solo los campos editables proporcionados
+    // La categoría sigue en el espacio de trabajo de la ruta aunque el body incluya workspace_id
+    if (updateCategoryDto.name !== undefined) {
+      category.name = updateCategoryDto.name;
+    }
+    if (updateCategoryDto.description !== undefined) {
+      category.description = updateCategoryDto.description;
+    }
+    if (updateCategoryDto.color !== undefined) {
+      category.color = updateCategoryDto.color;
+    }
+    category.workspace_id = workspaceId;
+
     // Guardar y retornar la categoría actualizada
     return await this.categoriesRepository.save(category);
   }
 
   /**
-   * Elimina una categoría del sistema
-   * 
+   * Envía una categoría a la papelera (borrado lógico)
+   * La categoría deja de aparecer en las consultas y se puede restaurar
+   * hasta que se purgue al terminar el periodo de retención
+   *
    * @param id - UUID de la categoría a eliminar
+   * @param workspaceId - ID del espacio de trabajo activo
    * @throws NotFoundException si la categoría no existe
    */
-  async remove(id: string): Promise<void> {
+  async remove(id: string, workspaceId: string): Promise<void> {
     // Obtener la categoría existente (lanza NotFoundException si no existe)
-    const category = await this.findOne(id);
-    
-    // Eliminar la categoría de la base de datos
-    await this.categoriesRepository.remove(category);
+    const category = await this.findOne(id, workspaceId);
+
+    // Marcar la categoría como eliminada (rellena deletedAt)
+    await this.categoriesRepository.softRemove(category);
+  }
+
+  /**
+   * Restaura una categoría de la papelera
+   *
+   * @param id - UUID de la categoría a restaurar
+   * @param workspaceId - ID del espacio de trabajo activo
+   * @returns Categoría restaurada
+   * @throws NotFoundException si la categoría no está en la papelera
+   */
+  async restore(id: string, workspaceId: string): Promise<Category> {
+    // Buscar la categoría incluyendo las eliminadas
+    const category = await this.categoriesRepository.findOne({
+      where: { id, workspace_id: workspaceId },
+      withDeleted: true,
+    });
+
+    // Solo se pueden restaurar las categorías que están en la papelera
+    if (!category || !category.deletedAt) {
+      throw new NotFoundException('Categoría no encontrada en la papelera');
+    }
+
+    // Quitar la marca de eliminación y retornar la categoría restaurada
+    await this.categoriesRepository.restore(id);
+    return await this.findOne(id, workspaceId);
+  }
+
+  /**
+   * Mensaje de conflicto cuando el nombre de una categoría ya está en uso
+   * Indica si la categoría que lo usa está en la papelera (se puede restaurar)
+   */
+  private nameConflictMessage(existing: Category): string {
+    return existing.deletedAt
+      ? 'Ya existe una categoría con ese nombre en la papelera'
+      : 'Ya existe una categoría con ese nombre';
   }
 }
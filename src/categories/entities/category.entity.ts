@@ -4,10 +4,16 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
+  DeleteDateColumn,
   OneToMany,
+  ManyToOne,
+  JoinColumn,
+  Unique,
 } from 'typeorm';
 // Importa la entidad Task para la relación OneToMany
 import { Task } from '../../task/entities/task.entity';
+// Importa la entidad Workspace para la relación ManyToOne (workspace_id)
+import { Workspace } from '../../workspaces/entities/workspace.entity';
 
 /**
  * Entidad Category - Representa una categoría en la base de datos
@@ -16,10 +22,13 @@ import { Task } from '../../task/entities/task.entity';
  * - name - Nombre de la categoría
  * - description - Descripción de la categoría
  * - color - Color en formato HEX
- * 
+ * - workspace_id (FK) - Espacio de trabajo al que pertenece la categoría
+ *
  * Relación: Una CATEGORY tiene muchas TO-DO (1:N)
+ * El nombre es único dentro de cada espacio de trabajo
  */
 @Entity('categories')
+@Unique(['workspace_id', 'name'])
 export class Category {
   /**
    * category_id según ERD - ID único de la categoría (UUID)
@@ -29,10 +38,10 @@ export class Category {
   id: string;
 
   /**
-   * name según ERD - Nombre de la categoría (debe ser único)
+   * name según ERD - Nombre de la categoría (único dentro del espacio de trabajo)
    * Se valida que no existan nombres duplicados en el servicio
    */
-  @Column({ type: 'varchar', length: 100, unique: true })
+  @Column({ type: 'varchar', length: 100 })
   name: string;
 
   /**
@@ -50,6 +59,22 @@ export class Category {
   @Column({ type: 'varchar', length: 7, default: '#000000' })
   color: string;
 
+  /**
+   * Relación ManyToOne con Workspace
+   * onDelete: 'CASCADE' - Si se elimina el espacio de trabajo, se eliminan sus categorías
+   */
+  @ManyToOne(() => Workspace, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'workspace_id' })
+  workspace: Workspace;
+
+  /**
+   * workspace_id - Clave foránea que referencia a la tabla workspaces
+   * nullable en la base de datos solo para poder añadir la columna a tablas con datos:
+   * WorkspacesService asigna las categorías existentes a un espacio de trabajo al iniciar
+   */
+  @Column({ nullable: true, name: 'workspace_id' })
+  workspace_id: string;
+
   /**
    * Relación OneToMany con Task según ERD
    * Una categoría puede tener muchas tareas (1:N)
@@ -74,4 +99,12 @@ export class Category {
    */
   @UpdateDateColumn()
   updatedAt: Date;
+
+  /**
+   * Fecha de eliminación del registro (borrado lógico)
+   * null mientras la categoría no esté en la papelera
+   * TypeORM excluye automáticamente los registros eliminados de las consultas
+   */
+  @DeleteDateColumn()
+  deletedAt: Date | null;
 }
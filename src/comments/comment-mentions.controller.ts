@@ -0,0 +1,66 @@
+// Importa decoradores y tipos de NestJS para el controlador
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  Request,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+
+// Importa el servicio de menciones
+import { CommentMentionsService } from './comment-mentions.service';
+
+// Importa el DTO para listar las menciones
+import { GetMentionsDto } from './dto/get-mentions.dto';
+
+// Importa el guard JWT para proteger las rutas
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+// Importa el tipo de la petición autenticada (req.user y req.workspaceRole)
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+
+/**
+ * Decorador que marca esta clase como un controlador de NestJS
+ * Define la ruta base para todos los endpoints: /users/me/mentions
+ */
+@Controller('users/me/mentions')
+/**
+ * Decorador que protege todas las rutas de este controlador con autenticación JWT
+ */
+@UseGuards(JwtAuthGuard)
+
+/**
+ * CommentMentionsController - Controlador que lista dónde se ha mencionado al usuario autenticado
+ */
+export class CommentMentionsController {
+  /**
+   * Constructor que recibe el servicio de menciones mediante inyección de dependencias
+   * @param commentMentionsService - Servicio con la lógica de las menciones
+   */
+  constructor(
+    private readonly commentMentionsService: CommentMentionsService,
+  ) {}
+
+  /**
+   * Endpoint GET /users/me/mentions
+   * Obtiene las menciones al usuario autenticado, de la más reciente a la más antigua
+   * Cada mención incluye el comentario, su autor y la tarea
+   *
+   * @param getMentionsDto - Parámetros de paginación (query parameters)
+   * @param req - Request con la información del usuario autenticado
+   * @returns Promise<{ mentions, total }> - Página de menciones y total
+   */
+  @Get()
+  @UsePipes(new ValidationPipe({ transform: true })) // Valida y convierte los query parameters
+  findMine(
+    @Query() getMentionsDto: GetMentionsDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.commentMentionsService.findForUser(userId, getMentionsDto);
+  }
+}
@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CommentMentionsService } from './comment-mentions.service';
+import { Comment } from './entities/comment.entity';
+import { CommentMention } from './entities/comment-mention.entity';
+import { User } from '../users/entities/user.entity';
+import { Task } from '../task/entities/task.entity';
+import { WorkspaceMember } from '../workspaces/entities/workspace-member.entity';
+
+describe('CommentMentionsService', () => {
+  let mentionsService: CommentMentionsService;
+  let mentionsRepository: { create: jest.Mock; save: jest.Mock };
+  let queryBuilder: {
+    innerJoin: jest.Mock;
+    where: jest.Mock;
+    getMany: jest.Mock;
+  };
+
+  const member = {
+    id: 'user-1',
+    email: 'ana@example.com',
+    handle: 'ana',
+  } as User;
+
+  const comment = {
+    id: 'comment-1',
+    which_todo: 'task-1',
+    content: 'Revisar con @ana y @outsider@example.com',
+  } as Comment;
+
+  beforeEach(async () => {
+    mentionsRepository = {
+      create: jest.fn((data: Partial<CommentMention>) => data),
+      save: jest.fn(),
+    };
+
+    // La consulta solo devuelve a los miembros del espacio de trabajo de la tarea
+    queryBuilder = {
+      innerJoin: jest.fn(),
+      where: jest.fn(),
+      getMany: jest.fn().mockResolvedValue([member]),
+    };
+    queryBuilder.innerJoin.mockReturnValue(queryBuilder);
+    queryBuilder.where.mockReturnValue(queryBuilder);
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommentMentionsService,
+        {
+          provide: getRepositoryToken(CommentMention),
+          useValue: mentionsRepository,
+        },
+        {
+          provide: getRepositoryToken(User),
+          useValue: { createQueryBuilder: () => queryBuilder },
+        },
+      ],
+    }).compile();
+
+    mentionsService = app.get<CommentMentionsService>(CommentMentionsService);
+  });
+
+  describe('saveMentions', () => {
+    it('should resolve mentions only among the members of the task workspace', async () => {
+      await mentionsService.saveMentions(comment);
+
+      const joins = queryBuilder.innerJoin.mock.calls as unknown[][];
+      expect(joins[0][0]).toBe(WorkspaceMember);
+      expect(joins[1][0]).toBe(Task);
+      expect(joins[1][3]).toEqual({ taskId: 'task-1' });
+    });
+
+    it('should save the member mentions and warn about the rest', async () => {
+      const { mentions, warnings } =
+        await mentionsService.saveMentions(comment);
+
+      expect(mentions).toHaveLength(1);
+      expect(mentions[0]).toMatchObject({
+        comment_id: 'comment-1',
+        user_id: 'user-1',
+        start: comment.content.indexOf('@ana'),
+        length: '@ana'.length,
+      });
+      expect(mentionsRepository.save).toHaveBeenCalledWith(mentions);
+      expect(warnings).toEqual([
+        'La mención @outsider@example.com no corresponde a ningún miembro del espacio de trabajo',
+      ]);
+    });
+
+    it('should not query users when there are no mentions', async () => {
+      const result = await mentionsService.saveMentions({
+        ...comment,
+        content: 'Sin menciones, escribir a ana@example.com',
+      } as Comment);
+
+      expect(result).toEqual({ mentions: [], warnings: [] });
+      expect(queryBuilder.getMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,248 @@
+// Importa decoradores de NestJS
+import { Injectable } from '@nestjs/common';
+
+// Importa decoradores y tipos de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, In, Repository } from 'typeorm';
+
+// Importa las entidades de comentarios, menciones y usuarios
+import { Comment } from './entities/comment.entity';
+import { CommentMention } from './entities/comment-mention.entity';
+import { User } from '../users/entities/user.entity';
+
+// Importa las entidades de tareas y miembros para limitar las menciones al espacio de trabajo
+import { Task } from '../task/entities/task.entity';
+import { WorkspaceMember } from '../workspaces/entities/workspace-member.entity';
+
+// Importa el DTO para listar las menciones del usuario
+import { GetMentionsDto } from './dto/get-mentions.dto';
+
+/**
+ * Expresión que reconoce las menciones del contenido: @email o @alias
+ * - No se reconoce la @ precedida de letras, números, '.' o '@' (ej: un email escrito sin mencionar)
+ * - El alias no puede terminar en '.' o '-', para no incluir la puntuación de la frase
+ */
+const MENTION_PATTERN =
+  /(?<![\w.@])@([A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+|[A-Za-z0-9_](?:[A-Za-z0-9_.-]*[A-Za-z0-9_])?)/g;
+
+/**
+ * MentionToken - Mención encontrada en el texto de un comentario
+ * - start: Posición de la @ dentro del contenido
+ * - length: Longitud de la mención, incluida la @
+ * - value: Email o alias mencionado (sin la @)
+ * - isEmail: true si se mencionó por email, false si por alias
+ */
+interface MentionToken {
+  start: number;
+  length: number;
+  value: string;
+  isEmail: boolean;
+}
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * CommentMentionsService - Servicio que gestiona las menciones a usuarios en los comentarios
+ * Reconoce los @email y @alias del contenido, los resuelve a usuarios y guarda su posición
+ * Solo se puede mencionar a los miembros del espacio de trabajo de la tarea comentada
+ */
+export class CommentMentionsService {
+  /**
+   * Constructor que recibe los repositorios mediante inyección de dependencias
+   * @param mentionsRepository - Repositorio de TypeORM para las menciones
+   * @param usersRepository - Repositorio de TypeORM para resolver los miembros mencionados
+   */
+  constructor(
+    @InjectRepository(CommentMention)
+    private mentionsRepository: Repository<CommentMention>,
+    @InjectRepository(User)
+    private usersRepository: Repository<User>,
+  ) {}
+
+  /**
+   * Guarda las menciones del contenido de un comentario recién creado
+   * Las menciones a usuarios que no existen o que no son miembros del espacio de trabajo
+   * no se guardan y se devuelven como avisos (con el mismo texto, para no revelar qué cuentas existen)
+   *
+   * @param comment - Comentario ya guardado
+   * @returns Promise<{ mentions, warnings }> - Menciones guardadas y avisos de validación
+   */
+  async saveMentions(
+    comment: Comment,
+  ): Promise<{ mentions: CommentMention[]; warnings: string[] }> {
+    const tokens = this.parse(comment.content);
+    if (tokens.length === 0) {
+      return { mentions: [], warnings: [] };
+    }
+
+    // Resolver los emails y alias mencionados (sin distinguir mayúsculas)
+    const users = await this.resolveUsers(tokens, comment.which_todo);
+    const byEmail = new Map(
+      users.map((user) => [user.email.toLowerCase(), user]),
+    );
+    const byHandle = new Map(
+      users
+        .filter((user) => user.handle)
+        .map((user) => [user.handle!.toLowerCase(), user]),
+    );
+
+    const mentions: CommentMention[] = [];
+    const unknown = new Set<string>();
+
+    for (const token of tokens) {
+      const key = token.value.toLowerCase();
+      const user = token.isEmail ? byEmail.get(key) : byHandle.get(key);
+
+      if (!user) {
+        unknown.add(`@${token.value}`);
+        continue;
+      }
+
+      mentions.push(
+        this.mentionsRepository.create({
+          comment_id: comment.id,
+          user_id: user.id,
+          user,
+          start: token.start,
+          length: token.length,
+        }),
+      );
+    }
+
+    if (mentions.length > 0) {
+      await this.mentionsRepository.save(mentions);
+    }
+
+    const warnings = [...unknown].map(
+      (mention) =>
+        `La mención ${mention} no corresponde a ningún miembro del espacio de trabajo`,
+    );
+
+    return { mentions, warnings };
+  }
+
+  /**
+   * Vuelve a calcular las menciones de un comentario editado
+   * Elimina las menciones anteriores y guarda las del contenido actual
+   *
+   * @param comment - Comentario con el contenido ya actualizado
+   * @returns Promise<{ mentions, warnings }> - Menciones guardadas y avisos de validación
+   */
+  async replaceMentions(
+    comment: Comment,
+  ): Promise<{ mentions: CommentMention[]; warnings: string[] }> {
+    await this.mentionsRepository.delete({ comment_id: comment.id });
+    return await this.saveMentions(comment);
+  }
+
+  /**
+   * Añade a cada comentario sus menciones (ordenadas por posición) con el usuario mencionado
+   *
+   * @param comments - Comentarios a completar
+   */
+  async loadMentions(comments: Comment[]): Promise<void> {
+    if (comments.length === 0) {
+      return;
+    }
+
+    const mentions = await this.mentionsRepository.find({
+      where: { comment_id: In(comments.map((comment) => comment.id)) },
+      relations: ['user'],
+      order: { start: 'ASC' },
+    });
+
+    for (const comment of comments) {
+      comment.mentions = mentions.filter(
+        (mention) => mention.comment_id === comment.id,
+      );
+    }
+  }
+
+  /**
+   * Obtiene las menciones a un usuario, de la más reciente a la más antigua
+   * Incluye el comentario (con su autor) y la tarea donde se le mencionó
+   * No se incluyen las menciones de comentarios o tareas que están en la papelera
+   *
+   * @param userId - ID del usuario mencionado
+   * @param getMentionsDto - Parámetros de paginación (limit, offset)
+   * @returns Promise<{ mentions, total }> - Página de menciones y total
+   */
+  async findForUser(
+    userId: string,
+    getMentionsDto: GetMentionsDto,
+  ): Promise<{ mentions: CommentMention[]; total: number }> {
+    const [mentions, total] = await this.mentionsRepository
+      .createQueryBuilder('mention')
+      .innerJoinAndSelect('mention.comment', 'comment')
+      .innerJoinAndSelect('comment.task', 'task')
+      .leftJoinAndSelect('comment.author', 'author')
+      .where('mention.user_id = :userId', { userId })
+      .orderBy('comment.commentDate', 'DESC')
+      .addOrderBy('mention.start', 'ASC')
+      .skip(getMentionsDto.offset || 0)
+      .take(getMentionsDto.limit || 20)
+      .getManyAndCount();
+
+    return { mentions, total };
+  }
+
+  /**
+   * Busca las menciones (@email o @alias) en el texto de un comentario
+   *
+   * @param content - Contenido del comentario
+   * @returns MentionToken[] - Menciones encontradas, en orden de aparición
+   */
+  private parse(content: string): MentionToken[] {
+    return [...content.matchAll(MENTION_PATTERN)].map((match) => ({
+      start: match.index,
+      length: match[0].length,
+      value: match[1],
+      isEmail: match[1].includes('@'),
+    }));
+  }
+
+  /**
+   * Busca los miembros del espacio de trabajo de la tarea cuyos email o alias coinciden con las menciones
+   *
+   * @param tokens - Menciones encontradas en el contenido
+   * @param taskId - ID de la tarea comentada
+   * @returns Promise<User[]> - Usuarios mencionados que son miembros del espacio de trabajo
+   */
+  private async resolveUsers(
+    tokens: MentionToken[],
+    taskId: string,
+  ): Promise<User[]> {
+    const emails = tokens
+      .filter((token) => token.isEmail)
+      .map((token) => token.value.toLowerCase());
+    const handles = tokens
+      .filter((token) => !token.isEmail)
+      .map((token) => token.value.toLowerCase());
+
+    return await this.usersRepository
+      .createQueryBuilder('user')
+      .innerJoin(WorkspaceMember, 'member', 'member.user_id = user.id')
+      .innerJoin(
+        Task,
+        'task',
+        'task.workspace_id = member.workspace_id AND task.id = :taskId',
+        { taskId },
+      )
+      .where(
+        new Brackets((mentioned) => {
+          if (emails.length > 0) {
+            mentioned.orWhere('LOWER(user.email) IN (:...emails)', { emails });
+          }
+          if (handles.length > 0) {
+            mentioned.orWhere('LOWER(user.handle) IN (:...handles)', {
+              handles,
+            });
+          }
+        }),
+      )
+      .getMany();
+  }
+}
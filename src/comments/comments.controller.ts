@@ -3,11 +3,13 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
   Body,
   Param,
   Delete,
   UseGuards,
   Request,
+  Query,
   UsePipes,
   ValidationPipe,
 } from '@nestjs/common';
@@ -15,24 +17,43 @@ import {
 // Importa el servicio de comentarios
 import { CommentsService } from './comments.service';
 
-// Importa el DTO para crear comentarios
+// Importa los DTOs para crear, editar y listar comentarios
 import { CreateCommentDto } from './dto/create-comment.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+import { GetCommentsDto } from './dto/get-comments.dto';
 
-// Importa el guard JWT para proteger las rutas
+// Importa los guards de autenticación, de pertenencia al espacio de trabajo y de roles
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { WorkspaceMemberGuard } from '../workspaces/guards/workspace-member.guard';
+import { RolesGuard } from '../auth/roles/roles.guard';
+
+// Importa el decorador de roles y el enum de roles
+import { Roles } from '../auth/roles/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+
+// Importa el guard y el decorador de las políticas de autorización
+import { PoliciesGuard } from '../auth/policies/policies.guard';
+import { CheckPolicies } from '../auth/policies/check-policies.decorator';
+
+// Importa las políticas que limitan la modificación al autor del comentario
+import { CommentAuthorPolicy } from './policies/comment-author.policy';
+import { CommentEditorPolicy } from './policies/comment-editor.policy';
+
+// Importa el tipo de la petición autenticada (req.user y req.workspaceRole)
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
 
 /**
  * Decorador que marca esta clase como un controlador de NestJS
- * Define la ruta base para todos los endpoints: /tasks/:taskId/comments
+ * Define la ruta base para todos los endpoints: /workspaces/:wid/tasks/:taskId/comments
  * Esta estructura RESTful indica que los comentarios son un recurso anidado dentro de las tareas
  */
-@Controller('tasks/:taskId/comments')
-
+@Controller('workspaces/:wid/tasks/:taskId/comments')
 /**
  * Decorador que protege todas las rutas de este controlador con autenticación JWT
  * Todas las peticiones deben incluir un token JWT válido en el header Authorization
+ * WorkspaceMemberGuard exige ser miembro del espacio de trabajo y que la tarea pertenezca a él
  */
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, WorkspaceMemberGuard, RolesGuard)
 
 /**
  * CommentsController - Controlador que maneja las peticiones HTTP relacionadas con comentarios
@@ -47,72 +68,155 @@ export class CommentsController {
   constructor(private readonly commentsService: CommentsService) {}
 
   /**
-   * Endpoint POST /tasks/:taskId/comments
+   * Endpoint POST /workspaces/:wid/tasks/:taskId/comments
    * Crea un nuevo comentario asociado a una tarea
    * El campo 'created_by' se extrae automáticamente del token JWT del usuario autenticado
-   * 
+   * Con 'parent_id' en el body el comentario se crea como respuesta (un solo nivel de hilo)
+   *
    * @param taskId - ID de la tarea a la que pertenece el comentario (parámetro de la URL)
    * @param createCommentDto - DTO con el contenido del comentario a crear
    * @param req - Objeto Request de Express que contiene información del usuario autenticado
    * @returns Promise<Comment> - El comentario creado
-   * @throws NotFoundException - Si la tarea no existe
+   * @throws NotFoundException - Si la tarea o el comentario principal no existen
+   * @throws BadRequestException - Si se responde a una respuesta
    */
   @Post()
-  @UsePipes(new ValidationPipe()) // Valida los datos del DTO antes de procesarlos
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UsePipes(new ValidationPipe({ whitelist: true })) // Valida el DTO y descarta los campos que no declara (ej: id, which_todo)
   create(
     @Param('taskId') taskId: string,
     @Body() createCommentDto: CreateCommentDto,
-    @Request() req,
+    @Request() req: AuthenticatedRequest,
   ) {
     // Extraer userId del token JWT para el campo 'created_by' según ERD
     // req.user se establece automáticamente por JwtAuthGuard después de validar el token
     const userId = req.user.userId;
-    
+
     // Llamar al servicio para crear el comentario
     return this.commentsService.create(taskId, createCommentDto, userId);
   }
 
   /**
-   * Endpoint GET /tasks/:taskId/comments
-   * Obtiene todos los comentarios de una tarea específica
+   * Endpoint GET /workspaces/:wid/tasks/:taskId/comments
+   * Obtiene los comentarios de una tarea específica organizados en hilos (principal + replies)
    * Los comentarios se ordenan por fecha de creación ascendente (más antiguos primero)
-   * 
+   * Sin parámetros devuelve todos; admite paginación limit/offset o por cursor
+   *
    * @param taskId - ID de la tarea de la cual se quieren obtener los comentarios (parámetro de la URL)
-   * @returns Promise<Comment[]> - Lista de comentarios de la tarea
+   * @param getCommentsDto - DTO con los parámetros de paginación (query parameters)
+   * @param req - Objeto Request de Express que contiene información del usuario autenticado
+   * @returns Lista de comentarios de la tarea (con sus reacciones), paginada o completa
    * @throws NotFoundException - Si la tarea no existe
    */
   @Get()
-  findByTask(@Param('taskId') taskId: string) {
-    // Llamar al servicio para obtener todos los comentarios de la tarea
-    return this.commentsService.findByTask(taskId);
+  @UsePipes(new ValidationPipe({ transform: true })) // Valida y convierte los query parameters
+  findByTask(
+    @Param('taskId') taskId: string,
+    @Query() getCommentsDto: GetCommentsDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado (para el resumen de reacciones)
+    const userId = req.user.userId;
+
+    // Llamar al servicio para obtener los comentarios de la tarea
+    return this.commentsService.findByTask(taskId, getCommentsDto, userId);
   }
 
   /**
-   * Endpoint GET /tasks/:taskId/comments/:id
+   * Endpoint GET /workspaces/:wid/tasks/:taskId/comments/:commentId
    * Obtiene un comentario específico por su ID
    * Incluye todas las relaciones (autor y tarea)
-   * 
+   *
    * @param id - ID único del comentario (UUID) - parámetro de la URL
-   * @returns Promise<Comment> - El comentario encontrado
+   * @param req - Objeto Request de Express que contiene información del usuario autenticado
+   * @returns Promise<Comment> - El comentario encontrado con el resumen de reacciones
    * @throws NotFoundException - Si el comentario no existe
    */
-  @Get(':id')
-  findOne(@Param('id') id: string) {
+  @Get(':commentId')
+  findOne(
+    @Param('commentId') id: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado (para el resumen de reacciones)
+    const userId = req.user.userId;
+
     // Llamar al servicio para obtener el comentario por ID
-    return this.commentsService.findOne(id);
+    return this.commentsService.findOne(id, userId);
   }
 
   /**
-   * Endpoint DELETE /tasks/:taskId/comments/:id
-   * Elimina un comentario de la base de datos
-   * 
+   * Endpoint GET /workspaces/:wid/tasks/:taskId/comments/:commentId/revisions
+   * Obtiene las versiones anteriores del contenido de un comentario editado
+   *
+   * @param id - ID único del comentario (UUID) - parámetro de la URL
+   * @returns Promise<CommentRevision[]> - Revisiones, de la más reciente a la más antigua
+   * @throws NotFoundException - Si el comentario no existe
+   */
+  @Get(':commentId/revisions')
+  findRevisions(@Param('commentId') id: string) {
+    // Llamar al servicio para obtener las revisiones del comentario
+    return this.commentsService.findRevisions(id);
+  }
+
+  /**
+   * Endpoint PATCH /workspaces/:wid/tasks/:taskId/comments/:commentId
+   * Edita el contenido de un comentario (solo su autor, también para los administradores)
+   * El contenido anterior se guarda como revisión y el comentario queda marcado como editado
+   *
+   * @param id - ID único del comentario (UUID) - parámetro de la URL
+   * @param updateCommentDto - DTO con el nuevo contenido
+   * @returns Promise<Comment> - El comentario editado
+   * @throws NotFoundException - Si el comentario no existe
+   * @throws ForbiddenException - Si el usuario no es el autor
+   */
+  @Patch(':commentId')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies(CommentEditorPolicy)
+  @UsePipes(new ValidationPipe({ whitelist: true })) // Valida el DTO y descarta los campos que no declara (ej: id, which_todo)
+  update(
+    @Param('commentId') id: string,
+    @Body() updateCommentDto: UpdateCommentDto,
+  ) {
+    // Llamar al servicio para editar el comentario (la autoría la comprueba CommentEditorPolicy)
+    return this.commentsService.update(id, updateCommentDto);
+  }
+
+  /**
+   * Endpoint DELETE /workspaces/:wid/tasks/:taskId/comments/:commentId
+   * Envía un comentario a la papelera (se puede restaurar)
+   * Un comentario principal con respuestas se mantiene en el hilo como marcador
+   * Solo pueden eliminarlo su autor o un administrador
+   *
    * @param id - ID único del comentario a eliminar (UUID) - parámetro de la URL
    * @returns Promise<void> - No retorna nada si la eliminación es exitosa
    * @throws NotFoundException - Si el comentario no existe
+   * @throws ForbiddenException - Si el usuario no es el autor
    */
-  @Delete(':id')
-  remove(@Param('id') id: string) {
+  @Delete(':commentId')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies(CommentAuthorPolicy)
+  remove(@Param('commentId') id: string) {
     // Llamar al servicio para eliminar el comentario
     return this.commentsService.remove(id);
   }
+
+  /**
+   * Endpoint POST /workspaces/:wid/tasks/:taskId/comments/:commentId/restore
+   * Restaura un comentario de la papelera
+   *
+   * @param id - ID único del comentario a restaurar (UUID) - parámetro de la URL
+   * @returns Promise<Comment> - El comentario restaurado
+   * @throws NotFoundException - Si el comentario no está en la papelera o su tarea no existe
+   * @throws ForbiddenException - Si el usuario no es el autor
+   */
+  @Post(':commentId/restore')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies(CommentAuthorPolicy)
+  restore(@Param('commentId') id: string) {
+    // Llamar al servicio para restaurar el comentario
+    return this.commentsService.restore(id);
+  }
 }
@@ -7,15 +7,37 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 // Importa el servicio de comentarios
 import { CommentsService } from './comments.service';
 
+// Importa el servicio y el controlador de menciones
+import { CommentMentionsService } from './comment-mentions.service';
+import { CommentMentionsController } from './comment-mentions.controller';
+
+// Importa las políticas de autoría de los comentarios
+import { CommentAuthorPolicy } from './policies/comment-author.policy';
+import { CommentEditorPolicy } from './policies/comment-editor.policy';
+
 // Importa el controlador de comentarios
 import { CommentsController } from './comments.controller';
 
-// Importa la entidad Comment para registrarla en TypeORM
+// Importa las entidades de comentarios, menciones y revisiones para registrarlas en TypeORM
 import { Comment } from './entities/comment.entity';
+import { CommentMention } from './entities/comment-mention.entity';
+import { CommentRevision } from './entities/comment-revision.entity';
+
+// Importa la entidad User para resolver los usuarios mencionados
+import { User } from '../users/entities/user.entity';
 
 // Importa TaskModule para poder usar TaskService
 import { TaskModule } from '../task/task.module';
 
+// Importa NotificationsModule para avisar de los nuevos comentarios
+import { NotificationsModule } from '../notifications/notifications.module';
+
+// Importa ReactionsModule para incluir los resúmenes de reacciones en los comentarios
+import { ReactionsModule } from '../reactions/reactions.module';
+
+// Importa WorkspacesModule para proteger las rutas con WorkspaceMemberGuard
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+
 /**
  * Decorador que marca esta clase como un módulo de NestJS
  * Los módulos organizan la aplicación en unidades funcionales
@@ -23,26 +45,41 @@ import { TaskModule } from '../task/task.module';
 @Module({
   /**
    * imports - Módulos y dependencias que este módulo necesita
-   * TypeOrmModule.forFeature([Comment]): Registra la entidad Comment en TypeORM
-   *   Permite inyectar el repositorio de Comment en el servicio
+   * TypeOrmModule.forFeature([Comment, CommentMention, CommentRevision, User]): Registra las entidades en TypeORM
+   *   Permite inyectar los repositorios de comentarios, menciones, revisiones y usuarios
    * TaskModule: Importa el módulo de tareas para poder usar TaskService
    *   TaskService se usa para validar que las tareas existan antes de crear comentarios
+   * NotificationsModule: Provee NotificationsService para avisar de los nuevos comentarios
+   * ReactionsModule: Provee ReactionsService para resumir las reacciones de los comentarios
+   * WorkspacesModule: Provee el guard que resuelve el espacio de trabajo de la ruta
    */
   imports: [
-    TypeOrmModule.forFeature([Comment]), // Registra la entidad Comment para usar su repositorio
+    TypeOrmModule.forFeature([Comment, CommentMention, CommentRevision, User]), // Registra las entidades para usar sus repositorios
     TaskModule, // Importa el módulo de tareas para usar TaskService
+    NotificationsModule, // Importa el módulo de notificaciones
+    ReactionsModule, // Importa el módulo de reacciones
+    WorkspacesModule, // Importa el módulo de espacios de trabajo
   ],
-  
+
   /**
    * controllers - Controladores que manejan las peticiones HTTP
    * CommentsController: Define los endpoints REST para los comentarios
+   * CommentMentionsController: Define GET /users/me/mentions
    */
-  controllers: [CommentsController],
-  
+  controllers: [CommentsController, CommentMentionsController],
+
   /**
    * providers - Servicios y otros proveedores inyectables
    * CommentsService: Contiene la lógica de negocio para los comentarios
+   * CommentMentionsService: Reconoce y guarda las menciones a usuarios
+   * CommentAuthorPolicy: Política que limita el borrado y la restauración al autor (o un administrador)
+   * CommentEditorPolicy: Política que limita la edición al autor, sin excepción para los administradores
    */
-  providers: [CommentsService],
+  providers: [
+    CommentsService,
+    CommentMentionsService,
+    CommentAuthorPolicy,
+    CommentEditorPolicy,
+  ],
 })
 export class CommentsModule {}
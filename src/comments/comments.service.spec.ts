@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CommentsService } from './comments.service';
+import { Comment } from './entities/comment.entity';
+import { CommentRevision } from './entities/comment-revision.entity';
+import { CreateCommentDto } from './dto/create-comment.dto';
+import { TaskService } from '../task/task.service';
+import { TaskWatchersService } from '../task/task-watchers.service';
+import { CommentMentionsService } from './comment-mentions.service';
+import { ReactionsService } from '../reactions/reactions.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { Task } from '../task/entities/task.entity';
+
+describe('CommentsService', () => {
+  let service: CommentsService;
+  let commentsRepository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    findOne: jest.Mock;
+  };
+
+  const task = { id: 'task-1', workspace_id: 'workspace-1' } as Task;
+
+  beforeEach(async () => {
+    commentsRepository = {
+      create: jest.fn((data: Partial<Comment>) => ({ ...data })),
+      save: jest.fn((comment: Comment) => Promise.resolve(comment)),
+      findOne: jest.fn(),
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommentsService,
+        {
+          provide: getRepositoryToken(Comment),
+          useValue: commentsRepository,
+        },
+        { provide: getRepositoryToken(CommentRevision), useValue: {} },
+        {
+          provide: TaskService,
+          useValue: { findOne: jest.fn().mockResolvedValue(task) },
+        },
+        {
+          provide: TaskWatchersService,
+          useValue: { addWatchers: jest.fn() },
+        },
+        {
+          provide: NotificationsService,
+          useValue: { taskCommented: jest.fn() },
+        },
+        {
+          provide: CommentMentionsService,
+          useValue: {
+            saveMentions: jest
+              .fn()
+              .mockResolvedValue({ mentions: [], warnings: [] }),
+          },
+        },
+        { provide: ReactionsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = app.get<CommentsService>(CommentsService);
+  });
+
+  describe('create', () => {
+    it('should ignore the id, author and task sent in the body', async () => {
+      const dto = {
+        content: 'Listo para revisar',
+        id: 'comment-of-someone-else',
+        created_by: 'user-2',
+        which_todo: 'task-2',
+      } as CreateCommentDto;
+
+      await service.create('task-1', dto, 'user-1');
+
+      const [data] = commentsRepository.create.mock.calls[0] as [
+        Partial<Comment>,
+      ];
+      expect(data).toEqual({
+        content: 'Listo para revisar',
+        parent_id: undefined,
+        which_todo: 'task-1',
+        created_by: 'user-1',
+      });
+    });
+  });
+});
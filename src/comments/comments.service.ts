@@ -1,19 +1,47 @@
 // Importa decoradores y excepciones de NestJS
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
 
 // Importa decoradores y tipos de TypeORM para trabajar con repositorios
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, Repository, SelectQueryBuilder } from 'typeorm';
 
-// Importa la entidad Comment
+// Importa las entidades Comment y CommentRevision
 import { Comment } from './entities/comment.entity';
+import { CommentRevision } from './entities/comment-revision.entity';
 
-// Importa el DTO para crear comentarios
+// Importa los DTOs para crear, editar y listar comentarios
 import { CreateCommentDto } from './dto/create-comment.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+import { GetCommentsDto } from './dto/get-comments.dto';
 
 // Importa TaskService para validar que las tareas existen
 import { TaskService } from '../task/task.service';
 
+// Importa TaskWatchersService para que quien comenta siga la tarea
+import { TaskWatchersService } from '../task/task-watchers.service';
+
+// Importa CommentMentionsService para guardar y cargar las menciones del contenido
+import { CommentMentionsService } from './comment-mentions.service';
+
+// Importa ReactionsService para incluir los resúmenes de reacciones de los comentarios
+import { ReactionsService } from '../reactions/reactions.service';
+
+// Importa NotificationsService para avisar de los nuevos comentarios
+import { NotificationsService } from '../notifications/notifications.service';
+
+// Importa la paginación por cursor compartida por los listados
+import { PaginationMode } from '../common/pagination/pagination-mode.enum';
+import { paginateByCursor } from '../common/pagination/cursor-pagination';
+
+/**
+ * Texto que sustituye al contenido de un comentario principal eliminado que conserva respuestas
+ */
+const DELETED_COMMENT_PLACEHOLDER = 'Este comentario se ha eliminado';
+
 /**
  * Decorador que marca esta clase como un proveedor inyectable de NestJS
  */
@@ -21,30 +49,46 @@ import { TaskService } from '../task/task.service';
 
 /**
  * CommentsService - Servicio que contiene la lógica de negocio para los comentarios
- * Maneja todas las operaciones CRUD (Create, Read, Delete) relacionadas con comentarios
+ * Maneja todas las operaciones CRUD relacionadas con comentarios, sus revisiones y los hilos de respuestas
  */
 export class CommentsService {
   /**
    * Constructor que recibe el repositorio de Comment y TaskService mediante inyección de dependencias
    * @param commentsRepository - Repositorio de TypeORM para realizar operaciones en la base de datos de comentarios
+   * @param revisionsRepository - Repositorio de TypeORM para las versiones anteriores de los comentarios
    * @param tasksService - Servicio de tareas para validar que las tareas existan antes de crear comentarios
+   * @param notificationsService - Servicio que avisa de los nuevos comentarios a los seguidores de la tarea
+   * @param taskWatchersService - Servicio que añade al autor del comentario como seguidor
+   * @param commentMentionsService - Servicio que gestiona las menciones (@email o @alias) del contenido
+   * @param reactionsService - Servicio que resume las reacciones de los comentarios
    */
   constructor(
     @InjectRepository(Comment)
     private commentsRepository: Repository<Comment>,
+    @InjectRepository(CommentRevision)
+    private revisionsRepository: Repository<CommentRevision>,
     private tasksService: TaskService,
+    private notificationsService: NotificationsService,
+    private taskWatchersService: TaskWatchersService,
+    private commentMentionsService: CommentMentionsService,
+    private reactionsService: ReactionsService,
   ) {}
 
   /**
    * Crea un nuevo comentario asociado a una tarea
    * El campo 'created_by' se extrae del token JWT del usuario autenticado
    * Valida que la tarea exista antes de crear el comentario
-   * 
+   * El autor pasa a seguir la tarea y se notifica a los demás seguidores
+   * Las menciones (@email o @alias) del contenido se guardan; las que no corresponden
+   * a ningún miembro del espacio de trabajo se devuelven en 'warnings' sin impedir la creación
+   * Con parent_id el comentario es una respuesta a un comentario principal de la misma tarea
+   *
    * @param taskId - ID de la tarea a la que pertenece el comentario (UUID)
    * @param createCommentDto - DTO con los datos del comentario a crear (solo content)
    * @param userId - ID del usuario que crea el comentario (extraído del token JWT)
-   * @returns Promise<Comment> - El comentario creado con todos sus datos
-   * @throws NotFoundException - Si la tarea no existe
+   * @returns Promise<Comment> - El comentario creado con sus menciones y avisos
+   * @throws NotFoundException - Si la tarea o el comentario principal no existen
+   * @throws BadRequestException - Si el comentario principal es a su vez una respuesta
    */
   async create(
     taskId: string,
@@ -53,56 +97,216 @@ export class CommentsService {
   ): Promise<Comment> {
     // Validar que la tarea existe antes de crear el comentario
     // Si la tarea no existe, findOne lanzará una NotFoundException
-    await this.tasksService.findOne(taskId);
+    const task = await this.tasksService.findOne(taskId);
+
+    // Las respuestas solo pueden colgar de un comentario principal de la misma tarea
+    if (createCommentDto.parent_id) {
+      const parent = await this.commentsRepository.findOne({
+        where: { id: createCommentDto.parent_id, which_todo: taskId },
+      });
+
+      if (!parent) {
+        throw new NotFoundException('Comentario principal no encontrado');
+      }
+      if (parent.parent_id) {
+        throw new BadRequestException(
+          'Solo se puede responder a un comentario principal',
+        );
+      }
+    }
 
     // Crea una nueva instancia de Comment con los datos del DTO
+    // Los campos se copian uno a uno: con un id del body, save() sobrescribiría el comentario de otro autor
     const comment = this.commentsRepository.create({
-      ...createCommentDto,
+      content: createCommentDto.content,
+      parent_id: createCommentDto.parent_id,
       // Asigna el ID de la tarea al campo 'which_todo' según ERD
       which_todo: taskId,
       // Asigna el ID del usuario autenticado al campo 'created_by' según ERD
       created_by: userId,
     });
 
-    // Guarda el comentario en la base de datos y retorna el resultado
-    return await this.commentsRepository.save(comment);
+    // Guarda el comentario en la base de datos
+    const saved = await this.commentsRepository.save(comment);
+
+    // Guardar las menciones del contenido y avisar de las que no se pudieron resolver
+    const { mentions, warnings } =
+      await this.commentMentionsService.saveMentions(saved);
+    saved.mentions = mentions;
+    saved.warnings = warnings;
+
+    // Quien comenta pasa a seguir la tarea y se avisa al resto de seguidores
+    await this.taskWatchersService.addWatchers(taskId, [userId]);
+    await this.notificationsService.taskCommented(task, userId);
+
+    return saved;
   }
 
   /**
-   * Obtiene todos los comentarios de una tarea específica
+   * Obtiene los comentarios de una tarea específica organizados en hilos
    * Valida que la tarea exista antes de buscar comentarios
+   * Se listan los comentarios principales, cada uno con sus respuestas en 'replies'
    * Los comentarios se ordenan por fecha de creación ascendente (más antiguos primero)
-   * 
+   * Un comentario principal eliminado que conserva respuestas se devuelve como marcador
+   * (con deletedAt y sin su contenido original) para no romper el hilo
+   * Cada comentario incluye sus menciones (posición en el contenido y usuario mencionado)
+   * y el resumen de sus reacciones desde el punto de vista del usuario autenticado
+   * Sin parámetros de paginación se devuelven todos los hilos (compatibilidad)
+   * Con limit/offset se devuelve una página de hilos y el total; con pagination=cursor (o un cursor)
+   * se devuelve una página y los cursores de navegación
+   *
    * @param taskId - ID de la tarea de la cual se quieren obtener los comentarios (UUID)
-   * @returns Promise<Comment[]> - Lista de comentarios de la tarea con información del autor
+   * @param getCommentsDto - DTO con los parámetros de paginación (opcional)
+   * @param userId - ID del usuario autenticado (para el resumen de reacciones)
+   * @returns Lista de hilos de comentarios con información del autor, paginada o completa
    * @throws NotFoundException - Si la tarea no existe
+   * @throws BadRequestException - Si el cursor no es válido
    */
-  async findByTask(taskId: string): Promise<Comment[]> {
+  async findByTask(
+    taskId: string,
+    getCommentsDto: GetCommentsDto = {},
+    userId?: string,
+  ): Promise<
+    | Comment[]
+    | { comments: Comment[]; total: number }
+    | {
+        comments: Comment[];
+        nextCursor: string | null;
+        prevCursor: string | null;
+      }
+  > {
     // Validar que la tarea existe antes de buscar comentarios
     // Si la tarea no existe, findOne lanzará una NotFoundException
     await this.tasksService.findOne(taskId);
 
-    // Busca todos los comentarios de la tarea con la información del autor
-    return await this.commentsRepository.find({
-      // Filtrar comentarios por el ID de la tarea (which_todo según ERD)
-      where: { which_todo: taskId },
-      // Cargar la relación con el autor (User) para incluir información del usuario
-      relations: ['author'],
-      // Ordenar por fecha de creación ascendente (más antiguos primero)
-      // commentDate es el campo que se mapea a comment_date en la base de datos
-      order: { commentDate: 'ASC' },
+    // Los hilos se paginan por sus comentarios principales
+    const queryBuilder = this.threadsQuery(taskId);
+
+    // Paginación por cursor: sin COUNT ni OFFSET
+    if (
+      getCommentsDto.pagination === PaginationMode.CURSOR ||
+      getCommentsDto.cursor
+    ) {
+      const { items, nextCursor, prevCursor } = await paginateByCursor(
+        queryBuilder,
+        {
+          alias: 'comment',
+          timestampProperty: 'commentDate',
+          timestampColumn: 'comment_date',
+          order: 'ASC',
+          limit: getCommentsDto.limit || 20,
+          cursor: getCommentsDto.cursor,
+        },
+      );
+
+      await this.loadThreads(items, userId);
+
+      return { comments: items, nextCursor, prevCursor };
+    }
+
+    // Paginación limit/offset: devolver la página y el total
+    if (
+      getCommentsDto.pagination === PaginationMode.OFFSET ||
+      getCommentsDto.limit !== undefined ||
+      getCommentsDto.offset !== undefined
+    ) {
+      const [comments, total] = await queryBuilder
+        .orderBy('comment.commentDate', 'ASC')
+        .addOrderBy('comment.id', 'ASC')
+        .skip(getCommentsDto.offset || 0)
+        .take(getCommentsDto.limit || 20)
+        .getManyAndCount();
+
+      await this.loadThreads(comments, userId);
+
+      return { comments, total };
+    }
+
+    // Busca todos los hilos de la tarea, ordenados por fecha de creación ascendente
+    const comments = await queryBuilder
+      .orderBy('comment.commentDate', 'ASC')
+      .getMany();
+
+    // Añadir a cada hilo sus respuestas y a cada comentario sus menciones y reacciones
+    await this.loadThreads(comments, userId);
+
+    return comments;
+  }
+
+  /**
+   * Edita el contenido de un comentario
+   * El contenido anterior se guarda como revisión y las menciones se vuelven
+   * a calcular con el nuevo contenido
+   * Quién puede editarlo lo decide CommentAuthorPolicy en el controlador
+   *
+   * @param id - ID único del comentario (UUID)
+   * @param updateCommentDto - DTO con el nuevo contenido
+   * @returns Promise<Comment> - El comentario editado con sus menciones y avisos
+   * @throws NotFoundException - Si el comentario no existe
+   */
+  async update(
+    id: string,
+    updateCommentDto: UpdateCommentDto,
+  ): Promise<Comment> {
+    const comment = await this.findOne(id);
+
+    // Sin cambios en el contenido no se crea una revisión
+    if (comment.content === updateCommentDto.content) {
+      return comment;
+    }
+
+    // Guardar el contenido anterior y marcar el comentario como editado
+    await this.commentsRepository.manager.transaction(async (manager) => {
+      await manager.getRepository(CommentRevision).insert({
+        comment_id: id,
+        content: comment.content,
+      });
+      await manager.getRepository(Comment).update(id, {
+        content: updateCommentDto.content,
+        edited: true,
+        editedAt: new Date(),
+      });
+    });
+
+    const updated = await this.findOne(id);
+
+    // Recalcular las menciones con el nuevo contenido
+    const { mentions, warnings } =
+      await this.commentMentionsService.replaceMentions(updated);
+    updated.mentions = mentions;
+    updated.warnings = warnings;
+
+    return updated;
+  }
+
+  /**
+   * Obtiene las versiones anteriores de un comentario, de la más reciente a la más antigua
+   *
+   * @param id - ID único del comentario (UUID)
+   * @returns Promise<CommentRevision[]> - Revisiones del comentario
+   * @throws NotFoundException - Si el comentario no existe
+   */
+  async findRevisions(id: string): Promise<CommentRevision[]> {
+    // Validar que el comentario existe
+    await this.findOne(id);
+
+    return await this.revisionsRepository.find({
+      where: { comment_id: id },
+      order: { createdAt: 'DESC' },
     });
   }
 
   /**
    * Obtiene un comentario específico por su ID
-   * Incluye todas las relaciones (autor y tarea)
-   * 
+   * Incluye todas las relaciones (autor y tarea) y las menciones del contenido
+   * Con el ID del usuario se incluye además el resumen de reacciones
+   *
    * @param id - ID único del comentario (UUID)
+   * @param userId - ID del usuario autenticado (opcional, para el resumen de reacciones)
    * @returns Promise<Comment> - El comentario encontrado con todas sus relaciones
    * @throws NotFoundException - Si el comentario no existe
    */
-  async findOne(id: string): Promise<Comment> {
+  async findOne(id: string, userId?: string): Promise<Comment> {
     // Busca el comentario por ID incluyendo las relaciones
     const comment = await this.commentsRepository.findOne({
       where: { id },
@@ -116,14 +320,19 @@ export class CommentsService {
       throw new NotFoundException('Comentario no encontrado');
     }
 
-    // Retornar el comentario encontrado
+    // Añadir las menciones del contenido y retornar el comentario encontrado
+    await this.commentMentionsService.loadMentions([comment]);
+    if (userId) {
+      await this.reactionsService.loadForComments([comment], userId);
+    }
     return comment;
   }
 
   /**
-   * Elimina un comentario de la base de datos
+   * Envía un comentario a la papelera (borrado lógico)
    * Primero verifica que el comentario exista
-   * 
+   * Si es un comentario principal con respuestas, el hilo se conserva con un marcador
+   *
    * @param id - ID único del comentario a eliminar (UUID)
    * @returns Promise<void> - No retorna nada si la eliminación es exitosa
    * @throws NotFoundException - Si el comentario no existe
@@ -132,7 +341,106 @@ export class CommentsService {
     // Buscar el comentario para verificar que existe
     const comment = await this.findOne(id);
 
-    // Eliminar el comentario de la base de datos
-    await this.commentsRepository.remove(comment);
+    // Marcar el comentario como eliminado (rellena deletedAt)
+    await this.commentsRepository.softRemove(comment);
+  }
+
+  /**
+   * Restaura un comentario de la papelera
+   * Su tarea no puede estar en la papelera (se restaura junto con ella)
+   *
+   * @param id - ID único del comentario a restaurar (UUID)
+   * @returns Promise<Comment> - El comentario restaurado
+   * @throws NotFoundException - Si el comentario no está en la papelera o su tarea no existe
+   */
+  async restore(id: string): Promise<Comment> {
+    // Buscar el comentario incluyendo los eliminados
+    const comment = await this.commentsRepository.findOne({
+      where: { id },
+      withDeleted: true,
+    });
+
+    // Solo se pueden restaurar los comentarios que están en la papelera
+    if (!comment || !comment.deletedAt) {
+      throw new NotFoundException('Comentario no encontrado en la papelera');
+    }
+
+    // Validar que la tarea del comentario no está eliminada
+    // Si la tarea no existe, findOne lanzará una NotFoundException
+    await this.tasksService.findOne(comment.which_todo);
+
+    // Quitar la marca de eliminación y retornar el comentario restaurado
+    await this.commentsRepository.restore(id);
+    return await this.findOne(id);
+  }
+
+  /**
+   * Query builder de los comentarios principales de una tarea (con su autor)
+   * Incluye los principales eliminados que todavía tienen respuestas activas,
+   * que se devuelven como marcadores del hilo
+   *
+   * @param taskId - ID de la tarea
+   * @returns SelectQueryBuilder<Comment> - Query builder con los filtros de los hilos
+   */
+  private threadsQuery(taskId: string): SelectQueryBuilder<Comment> {
+    return this.commentsRepository
+      .createQueryBuilder('comment')
+      .withDeleted()
+      .leftJoinAndSelect('comment.author', 'author')
+      .where('comment.which_todo = :taskId', { taskId })
+      .andWhere('comment.parent_id IS NULL')
+      .andWhere(
+        `(comment.deletedAt IS NULL OR EXISTS (
+          SELECT 1 FROM comments reply
+          WHERE reply.parent_id = comment.id AND reply."deletedAt" IS NULL
+        ))`,
+      );
+  }
+
+  /**
+   * Completa los comentarios principales de una página con sus respuestas, menciones y reacciones
+   * El contenido de los principales eliminados se sustituye por un texto de marcador
+   *
+   * @param comments - Comentarios principales a completar
+   * @param userId - ID del usuario autenticado (sin él no se resumen las reacciones)
+   */
+  private async loadThreads(
+    comments: Comment[],
+    userId?: string,
+  ): Promise<void> {
+    if (comments.length === 0) {
+      return;
+    }
+
+    // Respuestas activas de los hilos, de la más antigua a la más reciente
+    const replies = await this.commentsRepository.find({
+      where: { parent_id: In(comments.map((comment) => comment.id)) },
+      relations: ['author'],
+      order: { commentDate: 'ASC', id: 'ASC' },
+    });
+
+    for (const comment of comments) {
+      comment.replies = replies.filter(
+        (reply) => reply.parent_id === comment.id,
+      );
+    }
+
+    // Las menciones y reacciones de los marcadores no se devuelven
+    const visible = [
+      ...comments.filter((comment) => !comment.deletedAt),
+      ...replies,
+    ];
+    await this.commentMentionsService.loadMentions(visible);
+    if (userId) {
+      await this.reactionsService.loadForComments(visible, userId);
+    }
+
+    for (const comment of comments) {
+      if (comment.deletedAt) {
+        comment.content = DELETED_COMMENT_PLACEHOLDER;
+        comment.mentions = [];
+        comment.reactions = [];
+      }
+    }
   }
 }
@@ -1,11 +1,18 @@
 // Importa decoradores de validación de class-validator
-import { IsString, IsNotEmpty, MinLength } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  MinLength,
+  IsOptional,
+  IsUUID,
+} from 'class-validator';
 
 /**
  * DTO (Data Transfer Object) para crear un nuevo comentario
  * Define la estructura y validaciones de los datos que se reciben al crear un comentario
  * Solo requiere el campo 'content' ya que 'created_by' se extrae del token JWT
  * y 'which_todo' se obtiene del parámetro de la URL
+ * Con 'parent_id' el comentario se crea como respuesta a otro comentario
  */
 export class CreateCommentDto {
   /**
@@ -18,4 +25,15 @@ export class CreateCommentDto {
   @IsString({ message: 'El contenido debe ser una cadena de texto' })
   @MinLength(1, { message: 'El contenido del comentario no puede estar vacío' })
   content: string;
+
+  /**
+   * parent_id - ID del comentario principal al que se responde
+   * Campo opcional
+   * Debe ser un comentario principal de la misma tarea (solo un nivel de respuestas)
+   */
+  @IsOptional()
+  @IsUUID('4', {
+    message: 'El ID del comentario principal debe ser un UUID válido',
+  })
+  parent_id?: string;
 }
@@ -0,0 +1,59 @@
+// Importa decoradores de validación de class-validator
+import { IsOptional, IsEnum, IsInt, IsString, Min } from 'class-validator';
+
+// Importa Type de class-transformer para convertir tipos en query parameters
+import { Type } from 'class-transformer';
+
+// Importa el enum PaginationMode para elegir el modo de paginación
+import { PaginationMode } from '../../common/pagination/pagination-mode.enum';
+
+/**
+ * DTO (Data Transfer Object) para listar los comentarios de una tarea
+ * Define los parámetros de consulta (query parameters) de GET /workspaces/:wid/tasks/:taskId/comments
+ * Sin parámetros se devuelven todos los comentarios (comportamiento original)
+ */
+export class GetCommentsDto {
+  /**
+   * limit - Número máximo de comentarios a devolver (paginación)
+   * Campo opcional
+   * Si se proporciona, la respuesta se pagina (valor por defecto en modo cursor: 20)
+   * Debe ser un número entero mayor o igual a 1
+   */
+  @IsOptional()
+  @Type(() => Number) // Convierte el string del query parameter a número
+  @IsInt({ message: 'El límite debe ser un número entero' })
+  @Min(1, { message: 'El límite debe ser mayor o igual a 1' })
+  limit?: number;
+
+  /**
+   * offset - Número de comentarios a saltar (paginación limit/offset)
+   * Campo opcional
+   * Debe ser un número entero mayor o igual a 0
+   */
+  @IsOptional()
+  @Type(() => Number) // Convierte el string del query parameter a número
+  @IsInt({ message: 'El offset debe ser un número entero' })
+  @Min(0, { message: 'El offset debe ser mayor o igual a 0' })
+  offset?: number;
+
+  /**
+   * pagination - Modo de paginación del listado
+   * Campo opcional
+   * offset: devuelve 'comments' y 'total'
+   * cursor: devuelve 'comments', 'nextCursor' y 'prevCursor'
+   */
+  @IsOptional()
+  @IsEnum(PaginationMode, {
+    message: 'El modo de paginación debe ser offset o cursor',
+  })
+  pagination?: PaginationMode;
+
+  /**
+   * cursor - Cursor opaco devuelto por una petición anterior (nextCursor o prevCursor)
+   * Campo opcional
+   * Si se proporciona, se usa automáticamente el modo de paginación por cursor
+   */
+  @IsOptional()
+  @IsString({ message: 'El cursor debe ser una cadena de texto' })
+  cursor?: string;
+}
@@ -0,0 +1,33 @@
+// Importa decoradores de validación de class-validator
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+// Importa Type de class-transformer para convertir los query parameters a número
+import { Type } from 'class-transformer';
+
+/**
+ * DTO (Data Transfer Object) para listar las menciones al usuario autenticado
+ * Define los parámetros de consulta (query parameters) de GET /users/me/mentions
+ */
+export class GetMentionsDto {
+  /**
+   * limit - Número máximo de menciones a devolver
+   * Campo opcional
+   * Valor por defecto: 20
+   */
+  @IsOptional()
+  @Type(() => Number) // Convierte el string del query parameter a número
+  @IsInt({ message: 'El límite debe ser un número entero' })
+  @Min(1, { message: 'El límite debe ser mayor o igual a 1' })
+  limit?: number;
+
+  /**
+   * offset - Número de menciones a saltar
+   * Campo opcional
+   * Valor por defecto: 0
+   */
+  @IsOptional()
+  @Type(() => Number) // Convierte el string del query parameter a número
+  @IsInt({ message: 'El offset debe ser un número entero' })
+  @Min(0, { message: 'El offset debe ser mayor o igual a 0' })
+  offset?: number;
+}
@@ -1,4 +1,10 @@
-import { PartialType } from '@nestjs/mapped-types';
+import { PickType } from '@nestjs/mapped-types';
 import { CreateCommentDto } from './create-comment.dto';
 
-export class UpdateCommentDto extends PartialType(CreateCommentDto) {}
+/**
+ * DTO para editar un comentario (PATCH /workspaces/:wid/tasks/:taskId/comments/:commentId)
+ * Solo se puede cambiar el contenido; el hilo al que pertenece no se modifica
+ */
+export class UpdateCommentDto extends PickType(CreateCommentDto, [
+  'content',
+] as const) {}
@@ -0,0 +1,77 @@
+// Importa decoradores y tipos de TypeORM para definir la entidad
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+
+// Importa la entidad Comment para la relación ManyToOne (comment_id)
+import { Comment } from './comment.entity';
+
+// Importa la entidad User para la relación ManyToOne (user_id)
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad CommentMention - Representa una mención (@email o @alias) a un usuario dentro de un comentario
+ * - id (PK) - Identificador único (UUID)
+ * - comment_id (FK) - Comentario que contiene la mención
+ * - user_id (FK) - Usuario mencionado
+ * - start / length - Posición del texto de la mención (incluida la @) dentro del contenido
+ */
+@Entity('comment_mentions')
+@Index(['user_id'])
+export class CommentMention {
+  /**
+   * id - ID único de la mención (UUID)
+   * Se genera automáticamente por la base de datos
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Relación ManyToOne con Comment
+   * onDelete: 'CASCADE' - Si se elimina el comentario, se eliminan sus menciones
+   */
+  @ManyToOne(() => Comment, (comment) => comment.mentions, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'comment_id' })
+  comment: Comment;
+
+  /**
+   * comment_id - Clave foránea que referencia al comentario
+   * Campo obligatorio
+   */
+  @Column({ name: 'comment_id' })
+  comment_id: string;
+
+  /**
+   * Relación ManyToOne con User (usuario mencionado)
+   * onDelete: 'CASCADE' - Si se elimina el usuario, se eliminan sus menciones
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /**
+   * user_id - Clave foránea que referencia al usuario mencionado
+   * Campo obligatorio
+   */
+  @Column({ name: 'user_id' })
+  user_id: string;
+
+  /**
+   * start - Posición (índice de carácter) donde empieza la mención dentro del contenido
+   */
+  @Column({ type: 'int' })
+  start: number;
+
+  /**
+   * length - Longitud del texto de la mención, incluida la @
+   */
+  @Column({ type: 'int' })
+  length: number;
+}
@@ -0,0 +1,58 @@
+// Importa decoradores y tipos de TypeORM para definir la entidad
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+
+// Importa la entidad Comment para la relación ManyToOne (comment_id)
+import { Comment } from './comment.entity';
+
+/**
+ * Entidad CommentRevision - Representa una versión anterior del contenido de un comentario
+ * Se guarda una revisión cada vez que el autor edita el comentario
+ * - id (PK) - Identificador único (UUID)
+ * - comment_id (FK) - Comentario editado
+ * - content - Contenido que tenía el comentario antes de la edición
+ * - createdAt - Fecha en que se reemplazó ese contenido
+ */
+@Entity('comment_revisions')
+export class CommentRevision {
+  /**
+   * id - ID único de la revisión (UUID)
+   * Se genera automáticamente por la base de datos
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Relación ManyToOne con Comment
+   * onDelete: 'CASCADE' - Si se elimina el comentario, se eliminan sus revisiones
+   */
+  @ManyToOne(() => Comment, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'comment_id' })
+  comment: Comment;
+
+  /**
+   * comment_id - Clave foránea que referencia al comentario editado
+   * Campo obligatorio
+   */
+  @Column({ name: 'comment_id' })
+  comment_id: string;
+
+  /**
+   * content - Contenido anterior del comentario
+   * Tipo: text en la base de datos
+   */
+  @Column({ type: 'text' })
+  content: string;
+
+  /**
+   * Fecha en que se editó el comentario (y se reemplazó este contenido)
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+}
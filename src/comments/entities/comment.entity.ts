@@ -4,8 +4,11 @@ import {
   PrimaryGeneratedColumn,
   Column,
   CreateDateColumn,
+  DeleteDateColumn,
   ManyToOne,
   JoinColumn,
+  OneToMany,
+  Index,
 } from 'typeorm';
 
 // Importa la entidad User para la relación ManyToOne (created_by)
@@ -14,6 +17,9 @@ import { User } from '../../users/entities/user.entity';
 // Importa la entidad Task para la relación ManyToOne (which_todo)
 import { Task } from '../../task/entities/task.entity';
 
+// Importa la entidad CommentMention para la relación OneToMany (menciones del contenido)
+import { CommentMention } from './comment-mention.entity';
+
 /**
  * Entidad Comment - Representa un comentario (COMMENTARY) en la base de datos
  * Según el ERD, la entidad COMMENTARY tiene los siguientes campos:
@@ -22,8 +28,12 @@ import { Task } from '../../task/entities/task.entity';
  * - which_todo (FK) - Referencia a TO-DO (tarea a la que pertenece) - Relación 1:N
  * - comment_date - Fecha y hora de creación del comentario
  * - content - Contenido del comentario
+ * Además, parent_id permite responder a un comentario principal (un solo nivel de hilo)
  */
 @Entity('comments')
+// Índice GIN para la búsqueda de texto completo sobre search_vector
+// synchronize: false - Lo crea SearchService (TypeORM no soporta índices GIN), así no se elimina al sincronizar
+@Index('IDX_comments_search_vector', { synchronize: false })
 export class Comment {
   /**
    * comment_id según ERD - ID único del comentario (UUID)
@@ -77,6 +87,46 @@ export class Comment {
   @Column({ name: 'which_todo' })
   which_todo: string;
 
+  /**
+   * Relación ManyToOne con el comentario principal al que responde
+   * null si es un comentario principal (solo se admite un nivel de respuestas)
+   * onDelete: 'CASCADE' - Si se elimina definitivamente el principal, se eliminan sus respuestas
+   */
+  @ManyToOne(() => Comment, (comment) => comment.replies, {
+    nullable: true,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'parent_id' })
+  parent: Comment | null;
+
+  /**
+   * parent_id - Clave foránea que referencia al comentario principal
+   * Campo opcional (null en los comentarios principales)
+   */
+  @Column({ name: 'parent_id', type: 'uuid', nullable: true })
+  parent_id: string | null;
+
+  /**
+   * Relación OneToMany con las respuestas del comentario
+   * Solo los comentarios principales tienen respuestas
+   */
+  @OneToMany(() => Comment, (comment) => comment.parent)
+  replies: Comment[];
+
+  /**
+   * edited - Indica si el autor ha editado el comentario
+   * Las versiones anteriores del contenido se guardan en comment_revisions
+   */
+  @Column({ type: 'boolean', default: false })
+  edited: boolean;
+
+  /**
+   * editedAt - Fecha de la última edición
+   * null si el comentario no se ha editado
+   */
+  @Column({ type: 'timestamp', name: 'edited_at', nullable: true })
+  editedAt: Date | null;
+
   /**
    * comment_date según ERD - Fecha y hora de creación
    * Se establece automáticamente al crear el comentario
@@ -85,4 +135,48 @@ export class Comment {
    */
   @CreateDateColumn({ name: 'comment_date' })
   commentDate: Date;
+
+  /**
+   * Fecha de eliminación del registro (borrado lógico)
+   * null mientras el comentario no esté en la papelera
+   * TypeORM excluye automáticamente los registros eliminados de las consultas
+   */
+  @DeleteDateColumn()
+  deletedAt: Date | null;
+
+  /**
+   * Relación OneToMany con CommentMention
+   * Menciones (@email o @alias) a usuarios encontradas en el contenido, ordenadas por posición
+   */
+  @OneToMany(() => CommentMention, (mention) => mention.comment)
+  mentions: CommentMention[];
+
+  /**
+   * Avisos de validación del contenido (ej: menciones a usuarios que no existen)
+   * Campo calculado (no se guarda en la base de datos), solo al crear el comentario
+   */
+  warnings?: string[];
+
+  /**
+   * Resumen de las reacciones al comentario: por emoji, cuántos usuarios reaccionaron
+   * y si el usuario autenticado es uno de ellos
+   * Campo calculado (no se guarda en la base de datos)
+   */
+  reactions?: { emoji: string; count: number; reacted: boolean }[];
+
+  /**
+   * search_vector - Documento de búsqueda de texto completo (tsvector de PostgreSQL)
+   * Columna generada por la base de datos a partir de content
+   * select: false - No se devuelve en las consultas, solo se usa para buscar
+   */
+  @Column({
+    type: 'tsvector',
+    name: 'search_vector',
+    select: false,
+    insert: false,
+    update: false,
+    generatedType: 'STORED',
+    asExpression: `to_tsvector('spanish', coalesce(content, ''))`,
+  })
+  searchVector?: string;
 }
@@ -0,0 +1,56 @@
+// Importa decoradores de NestJS
+import { Injectable } from '@nestjs/common';
+
+// Importa decoradores y tipos de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+// Importa la entidad Comment
+import { Comment } from '../entities/comment.entity';
+
+// Importa el contrato de las políticas y el tipo del usuario autenticado
+import { PolicyHandler } from '../../auth/policies/policy-handler.interface';
+import { AuthenticatedUser } from '../../auth/interfaces/authenticated-user.interface';
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * CommentAuthorPolicy - Solo el autor del comentario (:commentId) o un administrador pueden eliminarlo o restaurarlo
+ * Si el comentario no existe se permite la petición para que el servicio responda con 404
+ */
+export class CommentAuthorPolicy implements PolicyHandler {
+  readonly message = 'Solo el autor puede modificar el comentario';
+
+  /**
+   * Constructor que recibe el repositorio de Comment mediante inyección de dependencias
+   * @param commentsRepository - Repositorio de TypeORM para leer el autor del comentario
+   */
+  constructor(
+    @InjectRepository(Comment)
+    private commentsRepository: Repository<Comment>,
+  ) {}
+
+  /**
+   * Comprueba que el usuario es el autor del comentario
+   * Incluye los comentarios de la papelera (para poder restaurarlos)
+   *
+   * @param user - Usuario autenticado
+   * @param params - Parámetros de la URL (id del comentario)
+   * @returns Promise<boolean> - true si el usuario es el autor
+   */
+  async handle(
+    user: AuthenticatedUser,
+    params: Record<string, string>,
+  ): Promise<boolean> {
+    const comment = await this.commentsRepository.findOne({
+      select: { id: true, created_by: true },
+      where: { id: params.commentId },
+      withDeleted: true,
+    });
+
+    return !comment || comment.created_by === user.userId;
+  }
+}
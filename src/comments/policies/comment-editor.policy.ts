@@ -0,0 +1,19 @@
+// Importa decoradores de NestJS
+import { Injectable } from '@nestjs/common';
+
+// Importa la política de autoría de la que hereda la comprobación
+import { CommentAuthorPolicy } from './comment-author.policy';
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * CommentEditorPolicy - Solo el autor del comentario (:commentId) puede editarlo
+ * A diferencia de CommentAuthorPolicy, los administradores no se la saltan:
+ * pueden moderar (eliminar o restaurar) comentarios ajenos, pero no cambiar su contenido
+ */
+export class CommentEditorPolicy extends CommentAuthorPolicy {
+  readonly adminOverride = false;
+}
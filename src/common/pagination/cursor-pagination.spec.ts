@@ -0,0 +1,117 @@
+import { BadRequestException } from '@nestjs/common';
+import { SelectQueryBuilder } from 'typeorm';
+import { paginateByCursor } from './cursor-pagination';
+
+interface Row {
+  id: string;
+  createdAt: Date;
+}
+
+const ID_1 = '7d1e5c43-54b4-4a4f-9d3f-1c2b3a4d5e61';
+const ID_2 = '7d1e5c43-54b4-4a4f-9d3f-1c2b3a4d5e62';
+
+const encode = (payload: unknown): string =>
+  Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+const decode = (cursor: string): Record<string, string> =>
+  JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as Record<
+    string,
+    string
+  >;
+
+describe('paginateByCursor', () => {
+  const options = {
+    alias: 'task',
+    timestampProperty: 'createdAt',
+    timestampColumn: 'created_at',
+    order: 'DESC' as const,
+    limit: 1,
+  };
+
+  let queryBuilder: {
+    addSelect: jest.Mock;
+    andWhere: jest.Mock;
+    orderBy: jest.Mock;
+    addOrderBy: jest.Mock;
+    limit: jest.Mock;
+    getRawAndEntities: jest.Mock;
+  };
+
+  const run = (cursor?: string) =>
+    paginateByCursor(queryBuilder as unknown as SelectQueryBuilder<Row>, {
+      ...options,
+      cursor,
+    });
+
+  beforeEach(() => {
+    queryBuilder = {
+      addSelect: jest.fn(),
+      andWhere: jest.fn(),
+      orderBy: jest.fn(),
+      addOrderBy: jest.fn(),
+      limit: jest.fn(),
+      getRawAndEntities: jest.fn().mockResolvedValue({
+        entities: [
+          { id: ID_1, createdAt: new Date() },
+          { id: ID_2, createdAt: new Date() },
+        ],
+        raw: [
+          { task_id: ID_1, cursor_timestamp: '2026-10-19 09:00:00.123456' },
+          { task_id: ID_2, cursor_timestamp: '2026-10-19 08:00:00' },
+        ],
+      }),
+    };
+    queryBuilder.orderBy.mockReturnValue(queryBuilder);
+    queryBuilder.addOrderBy.mockReturnValue(queryBuilder);
+    queryBuilder.limit.mockReturnValue(queryBuilder);
+  });
+
+  it('should return a next cursor with the row timestamp', async () => {
+    const page = await run();
+
+    expect(page.items).toHaveLength(1);
+    expect(page.prevCursor).toBeNull();
+    expect(decode(page.nextCursor!)).toEqual({
+      d: 'next',
+      t: '2026-10-19 09:00:00.123456',
+      id: ID_1,
+    });
+  });
+
+  it('should accept the cursors it produces', async () => {
+    const { nextCursor } = await run();
+
+    await run(nextCursor!);
+
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+      expect.stringContaining('CAST(:cursorTimestamp AS timestamp)'),
+      { cursorTimestamp: '2026-10-19 09:00:00.123456', cursorId: ID_1 },
+    );
+  });
+
+  it.each([
+    ['a timestamp that is not a date', { d: 'next', t: 'x', id: ID_1 }],
+    ['an empty timestamp', { d: 'next', t: '', id: ID_1 }],
+    ['an impossible date', { d: 'next', t: '2026-13-45 09:00:00', id: ID_1 }],
+    [
+      'a day the month does not have',
+      { d: 'next', t: '2026-02-30 09:00:00', id: ID_1 },
+    ],
+    [
+      'an id that is not a UUID',
+      { d: 'next', t: '2026-10-19 09:00:00', id: '1 OR 1=1' },
+    ],
+    ['an unknown direction', { d: 'up', t: '2026-10-19 09:00:00', id: ID_1 }],
+  ])('should reject a cursor with %s', async (_, payload) => {
+    await expect(run(encode(payload))).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(queryBuilder.getRawAndEntities).not.toHaveBeenCalled();
+  });
+
+  it('should reject a cursor that is not JSON', async () => {
+    await expect(run('not-a-cursor')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+});
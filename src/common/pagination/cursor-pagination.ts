@@ -0,0 +1,186 @@
+// Importa excepciones de NestJS
+import { BadRequestException } from '@nestjs/common';
+
+// Importa tipos de TypeORM para trabajar con query builders
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+
+// Importa el validador de UUID de class-validator
+import { isUUID } from 'class-validator';
+
+/**
+ * Formato de la marca de tiempo de un cursor: timestamp de PostgreSQL leído como texto
+ * (ej: '2026-10-19 09:00:00.123456')
+ */
+const CURSOR_TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d{1,6})?$/;
+
+/**
+ * CursorPayload - Contenido de un cursor (antes de codificarlo)
+ * - d: Dirección de la página solicitada ('next' = siguiente, 'prev' = anterior)
+ * - t: Marca de tiempo de la fila de referencia, con precisión de microsegundos
+ * - id: ID de la fila de referencia (desempata filas con la misma marca de tiempo)
+ */
+interface CursorPayload {
+  d: 'next' | 'prev';
+  t: string;
+  id: string;
+}
+
+/**
+ * CursorPage - Resultado de una página obtenida por cursor
+ * - items: Filas de la página en el orden del listado
+ * - nextCursor: Cursor para pedir la página siguiente (null si no hay más)
+ * - prevCursor: Cursor para pedir la página anterior (null si es la primera)
+ */
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+/**
+ * CursorPaginationOptions - Parámetros de la paginación por cursor
+ * - alias: Alias de la entidad principal en el query builder (ej: 'task')
+ * - timestampProperty: Propiedad de la entidad con la marca de tiempo que ordena el listado
+ * - timestampColumn: Nombre de esa columna en la base de datos
+ * - order: Orden del listado (ASC o DESC)
+ * - limit: Número de filas por página
+ * - cursor: Cursor recibido del cliente (opcional, sin cursor se devuelve la primera página)
+ */
+export interface CursorPaginationOptions {
+  alias: string;
+  timestampProperty: string;
+  timestampColumn: string;
+  order: 'ASC' | 'DESC';
+  limit: number;
+  cursor?: string;
+}
+
+/**
+ * Codifica un cursor como texto opaco (JSON en base64url)
+ */
+function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Comprueba que la marca de tiempo de un cursor es una fecha real (ej: rechaza '2026-02-30')
+ * Se interpreta en UTC y debe coincidir con la fecha que se obtiene al volver a formatearla
+ */
+function isValidCursorTimestamp(timestamp: string): boolean {
+  if (!CURSOR_TIMESTAMP_PATTERN.test(timestamp)) {
+    return false;
+  }
+
+  const dateTime = timestamp.slice(0, 19).replace(' ', 'T');
+  const parsed = new Date(`${dateTime}Z`);
+  return (
+    !Number.isNaN(parsed.getTime()) &&
+    parsed.toISOString().slice(0, 19) === dateTime
+  );
+}
+
+/**
+ * Decodifica un cursor recibido del cliente
+ * Comprueba también la marca de tiempo y el ID: un cursor manipulado no debe llegar a la consulta
+ * @throws BadRequestException - Si el cursor no es válido
+ */
+function decodeCursor(cursor: string): CursorPayload {
+  try {
+    const payload = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    ) as CursorPayload;
+
+    if (
+      (payload.d !== 'next' && payload.d !== 'prev') ||
+      typeof payload.t !== 'string' ||
+      !isValidCursorTimestamp(payload.t) ||
+      typeof payload.id !== 'string' ||
+      !isUUID(payload.id)
+    ) {
+      throw new Error('Cursor incompleto');
+    }
+
+    return payload;
+  } catch {
+    throw new BadRequestException('El cursor no es válido');
+  }
+}
+
+/**
+ * Obtiene una página de resultados usando paginación por cursor (keyset)
+ * Ordena por (marca de tiempo, id) y filtra las filas posteriores/anteriores al cursor,
+ * por lo que no necesita OFFSET ni COUNT y no salta ni duplica filas si se insertan nuevas
+ * El query builder debe tener ya aplicados los filtros y joins (solo relaciones N:1)
+ *
+ * @param queryBuilder - Query builder con los filtros del listado
+ * @param options - Alias, columna de orden, dirección, límite y cursor
+ * @returns Promise<CursorPage<T>> - Filas de la página y cursores de navegación
+ * @throws BadRequestException - Si el cursor no es válido
+ */
+export async function paginateByCursor<T extends ObjectLiteral>(
+  queryBuilder: SelectQueryBuilder<T>,
+  options: CursorPaginationOptions,
+): Promise<CursorPage<T>> {
+  const { alias, timestampProperty, timestampColumn, order, limit } = options;
+  const payload = options.cursor ? decodeCursor(options.cursor) : null;
+
+  // Al pedir la página anterior se recorre el listado en sentido inverso
+  const backwards = payload?.d === 'prev';
+  const queryOrder = backwards === (order === 'DESC') ? 'ASC' : 'DESC';
+  const operator = queryOrder === 'DESC' ? '<' : '>';
+
+  // La marca de tiempo se lee como texto para conservar los microsegundos de PostgreSQL
+  const timestamp = `"${alias}"."${timestampColumn}"`;
+  queryBuilder.addSelect(`CAST(${timestamp} AS text)`, 'cursor_timestamp');
+
+  // Filtrar las filas que quedan después del cursor en el sentido del recorrido
+  if (payload) {
+    queryBuilder.andWhere(
+      `(${timestamp}, "${alias}"."id") ${operator} (CAST(:cursorTimestamp AS timestamp), :cursorId)`,
+      { cursorTimestamp: payload.t, cursorId: payload.id },
+    );
+  }
+
+  // Pedir una fila de más para saber si existe otra página en ese sentido
+  queryBuilder
+    .orderBy(`${alias}.${timestampProperty}`, queryOrder)
+    .addOrderBy(`${alias}.id`, queryOrder)
+    .limit(limit + 1);
+
+  const { entities, raw } = await queryBuilder.getRawAndEntities();
+  const rows = raw as Record<string, string>[];
+
+  const hasMore = entities.length > limit;
+  const items = entities.slice(0, limit);
+
+  // Devolver siempre las filas en el orden del listado
+  if (backwards) {
+    items.reverse();
+  }
+
+  // Construye el cursor que apunta a una fila de la página
+  // Cada entidad viene de una fila de la consulta, que incluye su marca de tiempo como texto
+  const cursorFor = (item: T, direction: 'next' | 'prev'): string => {
+    const id = String(item.id);
+    const row = rows.find((result) => result[`${alias}_id`] === id);
+    if (!row?.cursor_timestamp) {
+      throw new Error(`Falta la marca de tiempo del cursor de la fila ${id}`);
+    }
+    return encodeCursor({ d: direction, t: row.cursor_timestamp, id });
+  };
+
+  const first = items[0];
+  const last = items[items.length - 1];
+
+  // Hay página siguiente si se avanzó y sobró una fila, o si se retrocedió (se viene de ella)
+  const hasNext = backwards ? !!payload : hasMore;
+  // Hay página anterior si se retrocedió y sobró una fila, o si se avanzó desde un cursor
+  const hasPrev = backwards ? hasMore : !!payload;
+
+  return {
+    items,
+    nextCursor: hasNext && last ? cursorFor(last, 'next') : null,
+    prevCursor: hasPrev && first ? cursorFor(first, 'prev') : null,
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Enum PaginationMode - Define los modos de paginación de los listados
+ * - OFFSET: Paginación clásica con limit/offset (devuelve el total de resultados)
+ * - CURSOR: Paginación por cursor (keyset), estable ante inserciones concurrentes
+ */
+export enum PaginationMode {
+  /**
+   * OFFSET - Paginación con limit y offset
+   * Es el modo por defecto, se mantiene por compatibilidad
+   */
+  OFFSET = 'offset',
+
+  /**
+   * CURSOR - Paginación por cursor opaco (nextCursor / prevCursor)
+   * No ejecuta un COUNT en cada petición y no salta ni duplica filas
+   */
+  CURSOR = 'cursor',
+}
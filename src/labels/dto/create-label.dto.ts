@@ -0,0 +1,41 @@
+// Importa validadores de class-validator para validar los datos de entrada
+import {
+  IsString,
+  IsNotEmpty,
+  MinLength,
+  MaxLength,
+  Matches,
+  IsOptional,
+} from 'class-validator';
+
+/**
+ * CreateLabelDto: Data Transfer Object para crear una nueva etiqueta
+ * Define la estructura y validaciones de los datos que el cliente debe enviar
+ */
+export class CreateLabelDto {
+  /**
+   * name - Nombre de la etiqueta
+   * @IsNotEmpty() - Valida que el campo no esté vacío
+   * @IsString() - Valida que sea una cadena de texto
+   * @MinLength(2) / @MaxLength(50) - Entre 2 y 50 caracteres
+   */
+  @IsNotEmpty()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(50)
+  name: string;
+
+  /**
+   * color - Color en formato HEX (opcional)
+   * @IsOptional() - Permite que el campo sea opcional
+   * @IsString() - Valida que sea una cadena de texto si se proporciona
+   * @Matches() - Valida que sea un código HEX válido (ej: #FF5733 o #FFF)
+   * Si no se proporciona, se usará el valor por defecto #000000
+   */
+  @IsOptional()
+  @IsString()
+  @Matches(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/, {
+    message: 'El color debe ser un código HEX válido (ej: #FF5733)',
+  })
+  color?: string;
+}
@@ -0,0 +1,10 @@
+// Importa PartialType de @nestjs/mapped-types para hacer todos los campos opcionales
+import { PartialType } from '@nestjs/mapped-types';
+// Importa el DTO de creación para reutilizar sus validaciones
+import { CreateLabelDto } from './create-label.dto';
+
+/**
+ * UpdateLabelDto: Data Transfer Object para actualizar una etiqueta existente
+ * Extiende CreateLabelDto pero hace todos los campos opcionales
+ */
+export class UpdateLabelDto extends PartialType(CreateLabelDto) {}
@@ -0,0 +1,98 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToMany,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+// Importa la entidad Task para la relación ManyToMany
+import { Task } from '../../task/entities/task.entity';
+// Importa la entidad Workspace para la relación ManyToOne (workspace_id)
+import { Workspace } from '../../workspaces/entities/workspace.entity';
+
+/**
+ * Entidad Label - Representa una etiqueta en la base de datos
+ * Las etiquetas marcan aspectos transversales de las tareas (ej: "bug", "tech-debt", "cliente-X")
+ * A diferencia de la categoría, una tarea puede tener varias etiquetas
+ * - label_id (PK) - Identificador único (UUID)
+ * - name - Nombre de la etiqueta
+ * - color - Color en formato HEX
+ * - workspace_id (FK) - Espacio de trabajo al que pertenece la etiqueta
+ *
+ * Relación: Una LABEL se asigna a muchas TO-DO y una TO-DO tiene muchas LABEL (N:M)
+ * La relación se guarda en la tabla intermedia task_labels
+ * Solo se asigna a tareas de su espacio de trabajo, donde el nombre es único
+ */
+@Entity('labels')
+@Unique(['workspace_id', 'name'])
+export class Label {
+  /**
+   * label_id - ID único de la etiqueta (UUID)
+   * Se genera automáticamente por la base de datos
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * name - Nombre de la etiqueta (único dentro del espacio de trabajo)
+   * Se valida que no existan nombres duplicados en el servicio
+   */
+  @Column({ type: 'varchar', length: 50 })
+  name: string;
+
+  /**
+   * color - Color en formato HEX (ej: #FF5733)
+   * Valor por defecto: #000000 (negro)
+   * Se valida el formato HEX en el DTO
+   */
+  @Column({ type: 'varchar', length: 7, default: '#000000' })
+  color: string;
+
+  /**
+   * Relación ManyToOne con Workspace
+   * onDelete: 'CASCADE' - Si se elimina el espacio de trabajo, se eliminan sus etiquetas
+   */
+  @ManyToOne(() => Workspace, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'workspace_id' })
+  workspace: Workspace;
+
+  /**
+   * workspace_id - Clave foránea que referencia a la tabla workspaces
+   * nullable en la base de datos solo para poder añadir la columna a tablas con datos:
+   * WorkspacesService copia las etiquetas existentes a los espacios de trabajo al iniciar
+   */
+  @Column({ nullable: true, name: 'workspace_id' })
+  workspace_id: string;
+
+  /**
+   * Relación ManyToMany con Task
+   * Una etiqueta puede estar asignada a muchas tareas (N:M)
+   * El lado propietario (con la tabla task_labels) es Task.labels
+   */
+  @ManyToMany(() => Task, (task) => task.labels)
+  tasks: Task[];
+
+  /**
+   * Número de tareas (no eliminadas) que tienen la etiqueta
+   * Campo calculado (no se guarda en la base de datos), se rellena en GET /workspaces/:wid/labels
+   */
+  taskCount?: number;
+
+  /**
+   * Fecha de creación del registro
+   * Se establece automáticamente al crear la etiqueta
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * Fecha de última actualización del registro
+   * Se actualiza automáticamente cada vez que se modifica la etiqueta
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
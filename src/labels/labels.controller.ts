@@ -0,0 +1,122 @@
+// Importa decoradores y clases de NestJS para crear endpoints
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+
+// Importa el servicio de etiquetas que contiene la lógica de negocio
+import { LabelsService } from './labels.service';
+
+// Importa los DTOs para validar los datos de entrada
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+
+// Importa los guards de autenticación, de pertenencia al espacio de trabajo y de roles
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { WorkspaceMemberGuard } from '../workspaces/guards/workspace-member.guard';
+import { RolesGuard } from '../auth/roles/roles.guard';
+
+// Importa el decorador de roles y el enum de roles
+import { Roles } from '../auth/roles/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+
+/**
+ * LabelsController: Controlador que maneja las rutas relacionadas con etiquetas
+ * Expone endpoints para realizar operaciones CRUD sobre etiquetas
+ * Todas las rutas están protegidas con JwtAuthGuard (requieren autenticación)
+ * Las etiquetas pertenecen a un espacio de trabajo (:wid) y solo sus miembros acceden a ellas
+ * Los usuarios con rol VIEWER solo pueden consultarlas y solo los administradores pueden eliminarlas
+ */
+@Controller('workspaces/:wid/labels')
+@UseGuards(JwtAuthGuard, WorkspaceMemberGuard, RolesGuard) // Autenticación JWT, pertenencia al espacio de trabajo y roles
+export class LabelsController {
+  /**
+   * Constructor que recibe el servicio de etiquetas mediante inyección de dependencias
+   * @param labelsService - Servicio que contiene los métodos de negocio
+   */
+  constructor(private readonly labelsService: LabelsService) {}
+
+  /**
+   * Endpoint POST /workspaces/:wid/labels
+   * Crea una nueva etiqueta en el espacio de trabajo
+   *
+   * @Param('wid') workspaceId - UUID del espacio de trabajo
+   * @Body() createLabelDto - Datos de la etiqueta a crear (validados por CreateLabelDto)
+   * @returns Etiqueta creada
+   */
+  @Post()
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UsePipes(new ValidationPipe({ whitelist: true })) // Valida el DTO y descarta los campos que no declara (ej: workspace_id)
+  create(
+    @Param('wid') workspaceId: string,
+    @Body() createLabelDto: CreateLabelDto,
+  ) {
+    return this.labelsService.create(createLabelDto, workspaceId);
+  }
+
+  /**
+   * Endpoint GET /workspaces/:wid/labels
+   * Obtiene las etiquetas del espacio de trabajo con el número de tareas que las usan (taskCount)
+   *
+   * @Param('wid') workspaceId - UUID del espacio de trabajo
+   * @returns Array de las etiquetas del espacio de trabajo
+   */
+  @Get()
+  findAll(@Param('wid') workspaceId: string) {
+    return this.labelsService.findAll(workspaceId);
+  }
+
+  /**
+   * Endpoint GET /workspaces/:wid/labels/:id
+   * Obtiene una etiqueta específica por su ID
+   *
+   * @Param('wid') workspaceId - UUID del espacio de trabajo
+   * @Param('id') id - UUID de la etiqueta a buscar
+   * @returns Etiqueta encontrada
+   */
+  @Get(':id')
+  findOne(@Param('wid') workspaceId: string, @Param('id') id: string) {
+    return this.labelsService.findOne(id, workspaceId);
+  }
+
+  /**
+   * Endpoint PATCH /workspaces/:wid/labels/:id
+   * Actualiza una etiqueta existente
+   *
+   * @Param('wid') workspaceId - UUID del espacio de trabajo
+   * @Param('id') id - UUID de la etiqueta a actualizar
+   * @Body() updateLabelDto - Datos a actualizar (todos opcionales, validados por UpdateLabelDto)
+   * @returns Etiqueta actualizada
+   */
+  @Patch(':id')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UsePipes(new ValidationPipe({ whitelist: true })) // Valida el DTO y descarta los campos que no declara (ej: workspace_id)
+  update(
+    @Param('wid') workspaceId: string,
+    @Param('id') id: string,
+    @Body() updateLabelDto: UpdateLabelDto,
+  ) {
+    return this.labelsService.update(id, updateLabelDto, workspaceId);
+  }
+
+  /**
+   * Endpoint DELETE /workspaces/:wid/labels/:id
+   * Elimina una etiqueta y la quita de todas las tareas
+   *
+   * @Param('wid') workspaceId - UUID del espacio de trabajo
+   * @Param('id') id - UUID de la etiqueta a eliminar
+   */
+  @Delete(':id')
+  @Roles(Role.ADMIN)
+  remove(@Param('wid') workspaceId: string, @Param('id') id: string) {
+    return this.labelsService.remove(id, workspaceId);
+  }
+}
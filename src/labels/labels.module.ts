@@ -0,0 +1,44 @@
+// Importa decoradores y módulos de NestJS
+import { Module } from '@nestjs/common';
+
+// Importa TypeOrmModule para registrar la entidad Label
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+// Importa los componentes del módulo de etiquetas
+import { LabelsService } from './labels.service';
+import { LabelsController } from './labels.controller';
+
+// Importa la entidad Label para registrarla en TypeORM
+import { Label } from './entities/label.entity';
+
+// Importa WorkspacesModule para proteger las rutas con WorkspaceMemberGuard
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+
+/**
+ * LabelsModule: Módulo que centraliza toda la configuración de etiquetas
+ * Registra la entidad, servicio y controlador para operaciones CRUD de etiquetas
+ */
+@Module({
+  /**
+   * TypeOrmModule.forFeature([Label])
+   * Registra la entidad Label en TypeORM, permitiendo inyectar el repositorio en LabelsService
+   * WorkspacesModule proporciona el guard que resuelve el espacio de trabajo de la ruta
+   */
+  imports: [TypeOrmModule.forFeature([Label]), WorkspacesModule],
+
+  /**
+   * Controlador que maneja las rutas HTTP relacionadas con etiquetas
+   */
+  controllers: [LabelsController],
+
+  /**
+   * Servicio que contiene la lógica de negocio para etiquetas
+   */
+  providers: [LabelsService],
+
+  /**
+   * Exporta LabelsService para que TaskModule pueda asignar etiquetas a las tareas
+   */
+  exports: [LabelsService],
+})
+export class LabelsModule {}
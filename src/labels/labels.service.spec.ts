@@ -0,0 +1,140 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindManyOptions, In } from 'typeorm';
+import { LabelsService } from './labels.service';
+import { Label } from './entities/label.entity';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+
+const WORKSPACE_ID = 'workspace-1';
+const OTHER_WORKSPACE_ID = 'workspace-2';
+
+describe('LabelsService', () => {
+  let labelsService: LabelsService;
+  let labelsRepository: {
+    find: jest.Mock;
+    findOne: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+  };
+  let labels: Label[];
+
+  beforeEach(async () => {
+    labels = [
+      { id: 'label-1', name: 'bug', workspace_id: WORKSPACE_ID },
+      { id: 'label-2', name: 'bug', workspace_id: OTHER_WORKSPACE_ID },
+    ] as Label[];
+
+    // Simula el filtro por IDs y espacio de trabajo de la base de datos
+    labelsRepository = {
+      find: jest.fn(({ where }: FindManyOptions<Label>) => {
+        const { id, workspace_id } = where as {
+          id: ReturnType<typeof In<string>>;
+          workspace_id: string;
+        };
+        const ids = id.value as string[];
+        return Promise.resolve(
+          labels.filter(
+            (label) =>
+              ids.includes(label.id) && label.workspace_id === workspace_id,
+          ),
+        );
+      }),
+      findOne: jest.fn(({ where }: { where: Partial<Label> }) =>
+        Promise.resolve(
+          labels.find(
+            (label) =>
+              (where.id === undefined || label.id === where.id) &&
+              (where.name === undefined || label.name === where.name) &&
+              label.workspace_id === where.workspace_id,
+          ) ?? null,
+        ),
+      ),
+      create: jest.fn((data: Partial<Label>) => ({ ...data }) as Label),
+      save: jest.fn((label: Label) => Promise.resolve(label)),
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        LabelsService,
+        { provide: getRepositoryToken(Label), useValue: labelsRepository },
+      ],
+    }).compile();
+
+    labelsService = app.get<LabelsService>(LabelsService);
+  });
+
+  describe('findByIds', () => {
+    it('should return the labels of the workspace', async () => {
+      const result = await labelsService.findByIds(
+        ['label-1', 'label-1'],
+        WORKSPACE_ID,
+      );
+
+      expect(result.map((label) => label.id)).toEqual(['label-1']);
+    });
+
+    it('should reject a label from another workspace', async () => {
+      await expect(
+        labelsService.findByIds(['label-1', 'label-2'], WORKSPACE_ID),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('findOne', () => {
+    it('should not find a label from another workspace', async () => {
+      await expect(
+        labelsService.findOne('label-2', WORKSPACE_ID),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('create', () => {
+    it('should allow a name already used in another workspace', async () => {
+      labels = labels.filter((label) => label.workspace_id !== WORKSPACE_ID);
+
+      const label = await labelsService.create({ name: 'bug' }, WORKSPACE_ID);
+
+      expect(label).toMatchObject({
+        name: 'bug',
+        workspace_id: WORKSPACE_ID,
+        color: '#000000',
+      });
+    });
+
+    it('should ignore an id or workspace sent in the body', async () => {
+      const body = {
+        name: 'urgente',
+        id: 'label-2',
+        workspace_id: OTHER_WORKSPACE_ID,
+      } as CreateLabelDto;
+
+      const label = await labelsService.create(body, WORKSPACE_ID);
+
+      expect(label).toEqual({
+        name: 'urgente',
+        workspace_id: WORKSPACE_ID,
+        color: '#000000',
+      });
+    });
+  });
+
+  describe('update', () => {
+    it('should keep the label in the route workspace', async () => {
+      const body = {
+        color: '#FF5733',
+        workspace_id: OTHER_WORKSPACE_ID,
+      } as UpdateLabelDto;
+
+      const label = await labelsService.update('label-1', body, WORKSPACE_ID);
+
+      expect(label).toMatchObject({
+        id: 'label-1',
+        name: 'bug',
+        color: '#FF5733',
+        workspace_id: WORKSPACE_ID,
+      });
+    });
+  });
+});
@@ -0,0 +1,208 @@
+// Importa decoradores y excepciones de NestJS
+import {
+  Injectable,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+
+// Importa decoradores y clases de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+
+// Importa la entidad Label
+import { Label } from './entities/label.entity';
+
+// Importa los DTOs para validación y tipado
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+
+/**
+ * LabelsService: Servicio que maneja toda la lógica de negocio para etiquetas
+ * Se encarga de las operaciones CRUD y de resolver las etiquetas que se asignan a las tareas
+ * Todas las operaciones se limitan al espacio de trabajo activo (workspaceId)
+ */
+@Injectable()
+export class LabelsService {
+  /**
+   * Constructor que inyecta el repositorio de TypeORM para la entidad Label
+   */
+  constructor(
+    @InjectRepository(Label)
+    private labelsRepository: Repository<Label>,
+  ) {}
+
+  /**
+   * Crea una nueva etiqueta en el espacio de trabajo
+   * Si el color no se proporciona, usa el valor por defecto #000000
+   *
+   * @param createLabelDto - Datos de la etiqueta a crear (nombre, color)
+   * @param workspaceId - ID del espacio de trabajo activo
+   * @returns Etiqueta creada
+   * @throws ConflictException si el nombre ya está registrado en el espacio de trabajo
+   */
+  async create(
+    createLabelDto: CreateLabelDto,
+    workspaceId: string,
+  ): Promise<Label> {
+    // Verificar que el nombre no esté registrado en el espacio de trabajo
+    await this.assertNameAvailable(createLabelDto.name, workspaceId);
+
+    // Los campos se copian uno a uno: con un id del body, save() sobrescribiría otra etiqueta
+    const label = this.labelsRepository.create({
+      name: createLabelDto.name,
+      workspace_id: workspaceId,
+      color: createLabelDto.color || '#000000',
+    });
+
+    return await this.labelsRepository.save(label);
+  }
+
+  /**
+   * Obtiene las etiquetas del espacio de trabajo con el número de tareas que las usan
+   * Las tareas de la papelera no se cuentan
+   *
+   * @param workspaceId - ID del espacio de trabajo activo
+   * @returns Array de etiquetas ordenadas por fecha de creación (más recientes primero)
+   */
+  async findAll(workspaceId: string): Promise<Label[]> {
+    const { entities: labels, raw } = await this.labelsRepository
+      .createQueryBuilder('label')
+      .where('label.workspace_id = :workspaceId', { workspaceId })
+      // Número de tareas no eliminadas del espacio de trabajo con la etiqueta
+      .addSelect(
+        (subQuery) =>
+          subQuery
+            .select('COUNT(*)')
+            .from('task_labels', 'task_label')
+            .innerJoin('tasks', 'task', 'task.id = task_label.task_id')
+            .where('task_label.label_id = label.id')
+            .andWhere('task.workspace_id = label.workspace_id')
+            .andWhere('task."deletedAt" IS NULL'),
+        'task_count',
+      )
+      .orderBy('label.createdAt', 'DESC')
+      .getRawAndEntities();
+
+    // Copiar el número de tareas a cada etiqueta
+    const rows = raw as { label_id: string; task_count: string }[];
+    for (const label of labels) {
+      const row = rows.find((result) => result.label_id === label.id);
+      label.taskCount = Number(row?.task_count ?? 0);
+    }
+
+    return labels;
+  }
+
+  /**
+   * Busca una etiqueta por su ID dentro del espacio de trabajo
+   *
+   * @param id - UUID de la etiqueta a buscar
+   * @param workspaceId - ID del espacio de trabajo activo
+   * @returns Etiqueta encontrada
+   * @throws NotFoundException si la etiqueta no existe en el espacio de trabajo
+   */
+  async findOne(id: string, workspaceId: string): Promise<Label> {
+    const label = await this.labelsRepository.findOne({
+      where: { id, workspace_id: workspaceId },
+    });
+
+    if (!label) {
+      throw new NotFoundException('Etiqueta no encontrada');
+    }
+
+    return label;
+  }
+
+  /**
+   * Busca varias etiquetas por sus IDs dentro del espacio de trabajo
+   * Se usa para asignar etiquetas a una tarea (solo las de su espacio de trabajo)
+   *
+   * @param ids - UUIDs de las etiquetas
+   * @param workspaceId - ID del espacio de trabajo de la tarea
+   * @returns Etiquetas encontradas
+   * @throws NotFoundException si alguna de las etiquetas no existe en el espacio de trabajo
+   */
+  async findByIds(ids: string[], workspaceId: string): Promise<Label[]> {
+    const uniqueIds = [...new Set(ids)];
+    if (uniqueIds.length === 0) {
+      return [];
+    }
+
+    const labels = await this.labelsRepository.find({
+      where: { id: In(uniqueIds), workspace_id: workspaceId },
+    });
+
+    if (labels.length !== uniqueIds.length) {
+      throw new NotFoundException('Etiqueta no encontrada');
+    }
+
+    return labels;
+  }
+
+  /**
+   * Actualiza una etiqueta existente
+   * Si se actualiza el nombre, verifica que no esté duplicado
+   *
+   * @param id - UUID de la etiqueta a actualizar
+   * @param updateLabelDto - Datos a actualizar (todos opcionales)
+   * @param workspaceId - ID del espacio de trabajo activo
+   * @returns Etiqueta actualizada
+   * @throws NotFoundException si la etiqueta no existe
+   * @throws ConflictException si el nuevo nombre ya está en uso en el espacio de trabajo
+   */
+  async update(
+    id: string,
+    updateLabelDto: UpdateLabelDto,
+    workspaceId: string,
+  ): Promise<Label> {
+    const label = await this.findOne(id, workspaceId);
+
+    if (updateLabelDto.name && updateLabelDto.name !== label.name) {
+      await this.assertNameAvailable(updateLabelDto.name, workspaceId);
+    }
+
+    // Aplicar solo los campos editables proporcionados
+    // La etiqueta sigue en el espacio de trabajo de la ruta aunque el body incluya workspace_id
+    if (updateLabelDto.name !== undefined) {
+      label.name = updateLabelDto.name;
+    }
+    if (updateLabelDto.color !== undefined) {
+      label.color = updateLabelDto.color;
+    }
+    label.workspace_id = workspaceId;
+
+    return await this.labelsRepository.save(label);
+  }
+
+  /**
+   * Elimina una etiqueta
+   * Se quita automáticamente de todas las tareas (la tabla task_labels borra en cascada)
+   *
+   * @param id - UUID de la etiqueta a eliminar
+   * @param workspaceId - ID del espacio de trabajo activo
+   * @throws NotFoundException si la etiqueta no existe
+   */
+  async remove(id: string, workspaceId: string): Promise<void> {
+    const label = await this.findOne(id, workspaceId);
+
+    await this.labelsRepository.remove(label);
+  }
+
+  /**
+   * Verifica que no exista otra etiqueta con el mismo nombre en el espacio de trabajo
+   * Otros espacios de trabajo pueden tener etiquetas con el mismo nombre
+   * @throws ConflictException si el nombre ya está registrado
+   */
+  private async assertNameAvailable(
+    name: string,
+    workspaceId: string,
+  ): Promise<void> {
+    const existing = await this.labelsRepository.findOne({
+      where: { name, workspace_id: workspaceId },
+    });
+
+    if (existing) {
+      throw new ConflictException('Ya existe una etiqueta con ese nombre');
+    }
+  }
+}
@@ -0,0 +1,4 @@
+/**
+ * Directorio donde la bandeja de salida guarda los emails si no se configura MAIL_OUTBOX_DIR
+ */
+export const DEFAULT_MAIL_OUTBOX_DIR = 'outbox';
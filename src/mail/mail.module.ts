@@ -0,0 +1,23 @@
+// Importa decoradores y módulos de NestJS
+import { Module } from '@nestjs/common';
+
+// Importa el token de inyección y la bandeja de salida local
+import { MAILER } from './mailer.interface';
+import { OutboxMailer } from './outbox.mailer';
+
+/**
+ * MailModule - Módulo que proporciona el envío de emails (token MAILER)
+ */
+@Module({
+  /**
+   * MAILER: Servicio de envío de emails (por ahora, la bandeja de salida local)
+   *   Para usar un servidor SMTP basta con cambiar useClass
+   */
+  providers: [{ provide: MAILER, useClass: OutboxMailer }],
+
+  /**
+   * Exporta MAILER para que otros módulos puedan enviar emails
+   */
+  exports: [MAILER],
+})
+export class MailModule {}
@@ -0,0 +1,27 @@
+/**
+ * Token de inyección del servicio de envío de emails
+ * Permite cambiar la implementación (bandeja de salida local, SMTP, ...) sin tocar quien envía
+ */
+export const MAILER = 'MAILER';
+
+/**
+ * MailMessage - Email que se envía
+ * - to: Dirección del destinatario
+ * - subject: Asunto
+ * - text: Cuerpo en texto plano
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Mailer - Servicio que entrega los emails de la aplicación
+ */
+export interface Mailer {
+  /**
+   * Envía un email
+   */
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,68 @@
+// Importa decoradores y el logger de NestJS
+import { Injectable, Logger } from '@nestjs/common';
+
+// Importa ConfigService para leer el directorio de la bandeja de salida
+import { ConfigService } from '@nestjs/config';
+
+// Importa utilidades de Node.js para trabajar con el sistema de archivos
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { randomUUID } from 'crypto';
+
+// Importa la interfaz del servicio de envío de emails
+import { MailMessage, Mailer } from './mailer.interface';
+
+// Importa el directorio por defecto
+import { DEFAULT_MAIL_OUTBOX_DIR } from './mail.constants';
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * OutboxMailer - Bandeja de salida local: no envía los emails, los deja donde se pueden leer
+ * Cada email se guarda como un archivo JSON en MAIL_OUTBOX_DIR (por defecto ./outbox)
+ * y se muestra en la consola, para trabajar sin un servidor SMTP
+ */
+export class OutboxMailer implements Mailer {
+  /**
+   * Logger con el que se muestran los emails en la consola
+   */
+  private readonly logger = new Logger(OutboxMailer.name);
+
+  /**
+   * Directorio donde se guardan los emails
+   */
+  private readonly root: string;
+
+  /**
+   * Constructor que recibe la configuración mediante inyección de dependencias
+   * @param configService - Configuración de la aplicación (MAIL_OUTBOX_DIR)
+   */
+  constructor(configService: ConfigService) {
+    this.root = resolve(
+      configService.get<string>('MAIL_OUTBOX_DIR') || DEFAULT_MAIL_OUTBOX_DIR,
+    );
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const sentAt = new Date();
+
+    // El nombre empieza por la fecha para que los archivos se listen en orden de envío
+    const file = join(
+      this.root,
+      `${sentAt.toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`,
+    );
+
+    await mkdir(this.root, { recursive: true });
+    await writeFile(
+      file,
+      JSON.stringify({ ...message, sentAt: sentAt.toISOString() }, null, 2),
+    );
+
+    this.logger.log(
+      `Email para ${message.to}: "${message.subject}"\n${message.text}`,
+    );
+  }
+}
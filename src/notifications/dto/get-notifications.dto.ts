@@ -0,0 +1,43 @@
+// Importa decoradores de validación de class-validator
+import { IsBoolean, IsInt, IsOptional, Min } from 'class-validator';
+
+// Importa Type y Transform de class-transformer para convertir tipos en query parameters
+import { Transform, Type } from 'class-transformer';
+
+/**
+ * DTO (Data Transfer Object) para listar las notificaciones del usuario autenticado
+ * Define los parámetros de consulta (query parameters) de GET /notifications
+ */
+export class GetNotificationsDto {
+  /**
+   * unread - Devolver solo las notificaciones sin leer
+   * Campo opcional
+   * Se recibe como string en el query parameter ('true' / 'false')
+   */
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true') // Convierte el string a boolean
+  @IsBoolean({ message: 'unread debe ser true o false' })
+  unread?: boolean;
+
+  /**
+   * limit - Número máximo de notificaciones a devolver
+   * Campo opcional
+   * Valor por defecto: 20
+   */
+  @IsOptional()
+  @Type(() => Number) // Convierte el string del query parameter a número
+  @IsInt({ message: 'El límite debe ser un número entero' })
+  @Min(1, { message: 'El límite debe ser mayor o igual a 1' })
+  limit?: number;
+
+  /**
+   * offset - Número de notificaciones a saltar
+   * Campo opcional
+   * Valor por defecto: 0
+   */
+  @IsOptional()
+  @Type(() => Number) // Convierte el string del query parameter a número
+  @IsInt({ message: 'El offset debe ser un número entero' })
+  @Min(0, { message: 'El offset debe ser mayor o igual a 0' })
+  offset?: number;
+}
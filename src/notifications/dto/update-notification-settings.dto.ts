@@ -0,0 +1,24 @@
+// Importa decoradores de validación de class-validator
+import { IsArray, IsEnum } from 'class-validator';
+
+// Importa el enum NotificationType para validar los tipos silenciados
+import { NotificationType } from '../enums/notification-type.enum';
+
+/**
+ * DTO (Data Transfer Object) para cambiar las preferencias de notificación
+ * Se usa en PATCH /notifications/settings
+ */
+export class UpdateNotificationSettingsDto {
+  /**
+   * muted_types - Tipos de notificación que el usuario no quiere recibir
+   * Campo obligatorio (un array vacío vuelve a activar todos los tipos)
+   * Reemplaza la lista anterior
+   */
+  @IsArray({ message: 'muted_types debe ser una lista de tipos' })
+  @IsEnum(NotificationType, {
+    each: true,
+    message:
+      'Cada tipo debe ser TASK_ASSIGNED, TASK_COMMENTED o TASK_STATUS_CHANGED',
+  })
+  muted_types: NotificationType[];
+}
@@ -0,0 +1,57 @@
+// Importa decoradores y tipos de TypeORM para definir la entidad
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  UpdateDateColumn,
+  OneToOne,
+  JoinColumn,
+} from 'typeorm';
+
+// Importa la entidad User para la relación OneToOne
+import { User } from '../../users/entities/user.entity';
+
+// Importa el enum NotificationType para los tipos silenciados
+import { NotificationType } from '../enums/notification-type.enum';
+
+/**
+ * Entidad NotificationSettings - Preferencias de notificación de un usuario
+ * - user_id (PK, FK) - Usuario al que pertenecen las preferencias
+ * - muted_types - Tipos de notificación que el usuario no quiere recibir
+ * Un usuario sin registro recibe todos los tipos de notificación
+ */
+@Entity('notification_settings')
+export class NotificationSettings {
+  /**
+   * user_id - Usuario al que pertenecen las preferencias (también es la clave primaria)
+   */
+  @PrimaryColumn({ name: 'user_id' })
+  user_id: string;
+
+  /**
+   * Relación OneToOne con User
+   * onDelete: 'CASCADE' - Si se elimina el usuario, se eliminan sus preferencias
+   */
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /**
+   * muted_types - Tipos de notificación silenciados
+   * Se almacena como array de enum en PostgreSQL
+   */
+  @Column({
+    type: 'enum',
+    enum: NotificationType,
+    array: true,
+    default: '{}',
+    name: 'muted_types',
+  })
+  mutedTypes: NotificationType[];
+
+  /**
+   * Fecha de la última modificación de las preferencias
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,109 @@
+// Importa decoradores y tipos de TypeORM para definir la entidad
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+
+// Importa las entidades relacionadas
+import { User } from '../../users/entities/user.entity';
+import { Task } from '../../task/entities/task.entity';
+
+// Importa el enum NotificationType para el campo type
+import { NotificationType } from '../enums/notification-type.enum';
+
+/**
+ * Entidad Notification - Representa un aviso para un usuario dentro de la aplicación
+ * - id (PK) - Identificador único (UUID)
+ * - user_id (FK) - Usuario que recibe la notificación
+ * - type - Tipo de notificación (asignación, comentario, cambio de estado)
+ * - task_id (FK) - Tarea a la que se refiere
+ * - actor_id (FK) - Usuario que provocó la notificación
+ * - message - Texto de la notificación
+ * - readAt - Fecha en que se leyó (null si no se ha leído)
+ */
+@Entity('notifications')
+@Index(['user_id', 'readAt'])
+export class Notification {
+  /**
+   * id - ID único de la notificación (UUID)
+   * Se genera automáticamente por la base de datos
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Relación ManyToOne con User (destinatario)
+   * onDelete: 'CASCADE' - Si se elimina el usuario, se eliminan sus notificaciones
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /**
+   * user_id - Clave foránea que referencia al usuario que recibe la notificación
+   * Campo obligatorio
+   */
+  @Column({ name: 'user_id' })
+  user_id: string;
+
+  /**
+   * type - Tipo de notificación (ENUM)
+   * Valores posibles: TASK_ASSIGNED, TASK_COMMENTED, TASK_STATUS_CHANGED
+   */
+  @Column({ type: 'enum', enum: NotificationType })
+  type: NotificationType;
+
+  /**
+   * Relación ManyToOne con Task (tarea a la que se refiere la notificación)
+   * onDelete: 'CASCADE' - Si se elimina la tarea, se eliminan sus notificaciones
+   */
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task;
+
+  /**
+   * task_id - Clave foránea que referencia a la tabla tasks
+   * Campo obligatorio
+   */
+  @Column({ name: 'task_id' })
+  task_id: string;
+
+  /**
+   * Relación ManyToOne con User (usuario que provocó la notificación)
+   * onDelete: 'SET NULL' - Si se elimina el usuario, la notificación se conserva sin autor
+   */
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actor_id' })
+  actor: User;
+
+  /**
+   * actor_id - Clave foránea que referencia al usuario que provocó la notificación
+   */
+  @Column({ nullable: true, name: 'actor_id' })
+  actor_id: string | null;
+
+  /**
+   * message - Texto de la notificación
+   */
+  @Column({ type: 'text' })
+  message: string;
+
+  /**
+   * read_at - Fecha en que el usuario leyó la notificación
+   * null mientras no se ha leído
+   */
+  @Column({ type: 'timestamp', nullable: true, name: 'read_at' })
+  readAt: Date | null;
+
+  /**
+   * Fecha de creación de la notificación
+   * Se establece automáticamente al crear el registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+}
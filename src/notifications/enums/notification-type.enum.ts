@@ -0,0 +1,20 @@
+/**
+ * Enum NotificationType - Define los tipos de notificación
+ * Cada usuario puede silenciar cualquiera de ellos en su configuración
+ */
+export enum NotificationType {
+  /**
+   * TASK_ASSIGNED - Se asignó una tarea al usuario
+   */
+  TASK_ASSIGNED = 'TASK_ASSIGNED',
+
+  /**
+   * TASK_COMMENTED - Nuevo comentario en una tarea que el usuario sigue
+   */
+  TASK_COMMENTED = 'TASK_COMMENTED',
+
+  /**
+   * TASK_STATUS_CHANGED - Cambió el estado de una tarea que el usuario sigue
+   */
+  TASK_STATUS_CHANGED = 'TASK_STATUS_CHANGED',
+}
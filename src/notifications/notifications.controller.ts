@@ -0,0 +1,139 @@
+// Importa decoradores y tipos de NestJS para el controlador
+import {
+  Controller,
+  Get,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+  Query,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+
+// Importa el servicio de notificaciones
+import { NotificationsService } from './notifications.service';
+
+// Importa los DTOs de las notificaciones
+import { GetNotificationsDto } from './dto/get-notifications.dto';
+import { UpdateNotificationSettingsDto } from './dto/update-notification-settings.dto';
+
+// Importa el guard JWT para proteger las rutas
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+// Importa el tipo de la petición autenticada (req.user y req.workspaceRole)
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+
+/**
+ * Decorador que marca esta clase como un controlador de NestJS
+ * Define la ruta base para todos los endpoints: /notifications
+ * Todas las rutas trabajan sobre las notificaciones del usuario autenticado
+ */
+@Controller('notifications')
+/**
+ * Decorador que protege todas las rutas de este controlador con autenticación JWT
+ */
+@UseGuards(JwtAuthGuard)
+
+/**
+ * NotificationsController - Controlador del centro de notificaciones
+ */
+export class NotificationsController {
+  /**
+   * Constructor que recibe el servicio de notificaciones mediante inyección de dependencias
+   * @param notificationsService - Servicio con la lógica de las notificaciones
+   */
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  /**
+   * Endpoint GET /notifications
+   * Obtiene las notificaciones del usuario, de la más reciente a la más antigua
+   * Con unread=true devuelve solo las no leídas
+   *
+   * @param getNotificationsDto - Filtro de no leídas y paginación (query parameters)
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @returns Notificaciones, total del listado y número de no leídas
+   */
+  @Get()
+  @UsePipes(new ValidationPipe({ transform: true })) // Valida y convierte los query parameters
+  findAll(
+    @Query() getNotificationsDto: GetNotificationsDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.notificationsService.findAll(userId, getNotificationsDto);
+  }
+
+  /**
+   * Endpoint GET /notifications/settings
+   * Obtiene los tipos de notificación que el usuario tiene silenciados
+   *
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @returns Tipos de notificación silenciados
+   */
+  @Get('settings')
+  getSettings(@Request() req: AuthenticatedRequest) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.notificationsService.getSettings(userId);
+  }
+
+  /**
+   * Endpoint PATCH /notifications/settings
+   * Reemplaza los tipos de notificación que el usuario tiene silenciados
+   *
+   * @param updateNotificationSettingsDto - Nueva lista de tipos silenciados
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @returns Tipos de notificación silenciados
+   */
+  @Patch('settings')
+  @UsePipes(new ValidationPipe()) // Valida los datos del DTO antes de procesarlos
+  updateSettings(
+    @Body() updateNotificationSettingsDto: UpdateNotificationSettingsDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.notificationsService.updateSettings(
+      userId,
+      updateNotificationSettingsDto,
+    );
+  }
+
+  /**
+   * Endpoint PATCH /notifications/read-all
+   * Marca como leídas todas las notificaciones pendientes del usuario
+   *
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @returns Número de notificaciones marcadas como leídas
+   */
+  @Patch('read-all')
+  markAllRead(@Request() req: AuthenticatedRequest) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.notificationsService.markAllRead(userId);
+  }
+
+  /**
+   * Endpoint PATCH /notifications/:id/read
+   * Marca una notificación como leída
+   *
+   * @param id - ID de la notificación (parámetro de la URL)
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @returns Promise<Notification> - La notificación marcada como leída
+   * @throws NotFoundException - Si la notificación no existe o es de otro usuario
+   */
+  @Patch(':id/read')
+  markRead(@Param('id') id: string, @Request() req: AuthenticatedRequest) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.notificationsService.markRead(userId, id);
+  }
+}
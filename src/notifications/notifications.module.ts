@@ -0,0 +1,45 @@
+// Importa decoradores de NestJS
+import { Module } from '@nestjs/common';
+
+// Importa TypeOrmModule para registrar las entidades
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+// Importa los componentes del módulo de notificaciones
+import { NotificationsService } from './notifications.service';
+import { NotificationsController } from './notifications.controller';
+
+// Importa las entidades del módulo
+import { Notification } from './entities/notification.entity';
+import { NotificationSettings } from './entities/notification-settings.entity';
+
+// Importa la entidad TaskWatcher para obtener los seguidores de las tareas
+import { TaskWatcher } from '../task/entities/task-watcher.entity';
+
+/**
+ * NotificationsModule: Módulo del centro de notificaciones
+ */
+@Module({
+  /**
+   * Registra las notificaciones y las preferencias de notificación de cada usuario,
+   * y TaskWatcher para avisar a los seguidores de cada tarea
+   */
+  imports: [
+    TypeOrmModule.forFeature([Notification, NotificationSettings, TaskWatcher]),
+  ],
+
+  /**
+   * Controlador que expone los endpoints de /notifications
+   */
+  controllers: [NotificationsController],
+
+  /**
+   * Servicio que crea, lista y marca como leídas las notificaciones
+   */
+  providers: [NotificationsService],
+
+  /**
+   * Exporta NotificationsService para que TaskModule y CommentsModule avisen de los eventos
+   */
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
@@ -0,0 +1,95 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotificationsService } from './notifications.service';
+import { Notification } from './entities/notification.entity';
+import { NotificationSettings } from './entities/notification-settings.entity';
+import { NotificationType } from './enums/notification-type.enum';
+import { Task } from '../task/entities/task.entity';
+import { TaskWatcher } from '../task/entities/task-watcher.entity';
+
+describe('NotificationsService', () => {
+  let notificationsService: NotificationsService;
+  let notificationsRepository: { create: jest.Mock; save: jest.Mock };
+  let settingsRepository: { find: jest.Mock };
+  let watchersRepository: { find: jest.Mock };
+
+  const task = { id: 'task-1', name: 'Deploy', status: 'DONE' } as Task;
+
+  beforeEach(async () => {
+    notificationsRepository = {
+      create: jest.fn((data: Partial<Notification>) => data),
+      save: jest.fn(),
+    };
+    settingsRepository = { find: jest.fn().mockResolvedValue([]) };
+    watchersRepository = {
+      find: jest
+        .fn()
+        .mockResolvedValue([
+          { user_id: 'creator' },
+          { user_id: 'assignee' },
+          { user_id: 'actor' },
+        ]),
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        {
+          provide: getRepositoryToken(Notification),
+          useValue: notificationsRepository,
+        },
+        {
+          provide: getRepositoryToken(NotificationSettings),
+          useValue: settingsRepository,
+        },
+        {
+          provide: getRepositoryToken(TaskWatcher),
+          useValue: watchersRepository,
+        },
+      ],
+    }).compile();
+
+    notificationsService = app.get<NotificationsService>(NotificationsService);
+  });
+
+  /**
+   * Destinatarios de las notificaciones guardadas en la última llamada a save
+   */
+  const savedRecipients = () => {
+    const [saved] = notificationsRepository.save.mock.calls[0] as [
+      Partial<Notification>[],
+    ];
+    return saved.map((notification) => notification.user_id);
+  };
+
+  describe('taskStatusChanged', () => {
+    it('should notify every watcher except the actor', async () => {
+      await notificationsService.taskStatusChanged(task, 'IN_REVIEW', 'actor');
+
+      expect(savedRecipients()).toEqual(['creator', 'assignee']);
+    });
+
+    it('should skip the watchers that muted the notification type', async () => {
+      settingsRepository.find.mockResolvedValue([
+        {
+          user_id: 'assignee',
+          mutedTypes: [NotificationType.TASK_STATUS_CHANGED],
+        },
+      ]);
+
+      await notificationsService.taskStatusChanged(task, 'IN_REVIEW', 'actor');
+
+      expect(savedRecipients()).toEqual(['creator']);
+    });
+  });
+
+  describe('taskCommented', () => {
+    it('should not save anything when the actor is the only watcher', async () => {
+      watchersRepository.find.mockResolvedValue([{ user_id: 'actor' }]);
+
+      await notificationsService.taskCommented(task, 'actor');
+
+      expect(notificationsRepository.save).not.toHaveBeenCalled();
+    });
+  });
+});
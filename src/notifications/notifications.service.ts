@@ -0,0 +1,294 @@
+// Importa decoradores y excepciones de NestJS
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+// Importa decoradores y tipos de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, IsNull, Repository } from 'typeorm';
+
+// Importa las entidades del módulo
+import { Notification } from './entities/notification.entity';
+import { NotificationSettings } from './entities/notification-settings.entity';
+
+// Importa la entidad Task (las notificaciones se refieren a tareas)
+import { Task } from '../task/entities/task.entity';
+
+// Importa la entidad TaskWatcher: los seguidores reciben los avisos de sus tareas
+import { TaskWatcher } from '../task/entities/task-watcher.entity';
+
+// Importa los DTOs de las notificaciones
+import { GetNotificationsDto } from './dto/get-notifications.dto';
+import { UpdateNotificationSettingsDto } from './dto/update-notification-settings.dto';
+
+// Importa el enum NotificationType
+import { NotificationType } from './enums/notification-type.enum';
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * NotificationsService - Servicio del centro de notificaciones
+ * Los demás módulos avisan de los eventos (asignación, comentario, cambio de estado)
+ * y este servicio crea una notificación para cada destinatario que no haya silenciado ese tipo
+ * Quien provoca el evento nunca recibe la notificación
+ */
+export class NotificationsService {
+  /**
+   * Constructor que recibe los repositorios mediante inyección de dependencias
+   * @param notificationsRepository - Repositorio de TypeORM para la tabla notifications
+   * @param settingsRepository - Repositorio de las preferencias de notificación
+   * @param watchersRepository - Repositorio de los seguidores de las tareas
+   */
+  constructor(
+    @InjectRepository(Notification)
+    private notificationsRepository: Repository<Notification>,
+    @InjectRepository(NotificationSettings)
+    private settingsRepository: Repository<NotificationSettings>,
+    @InjectRepository(TaskWatcher)
+    private watchersRepository: Repository<TaskWatcher>,
+  ) {}
+
+  /**
+   * Avisa al usuario asignado de que se le asignó una tarea
+   *
+   * @param task - Tarea con el nuevo asignado
+   * @param actorId - ID del usuario que hizo la asignación
+   * @param manager - EntityManager de la transacción en curso (opcional)
+   */
+  async taskAssigned(
+    task: Task,
+    actorId: string,
+    manager?: EntityManager,
+  ): Promise<void> {
+    await this.notify(
+      [task.assigned_to],
+      NotificationType.TASK_ASSIGNED,
+      task,
+      actorId,
+      `Se te asignó la tarea "${task.name}"`,
+      manager,
+    );
+  }
+
+  /**
+   * Avisa a los seguidores de una tarea de que cambió su estado
+   *
+   * @param task - Tarea con el nuevo estado
+   * @param previousStatus - Estado anterior de la tarea
+   * @param actorId - ID del usuario que cambió el estado
+   * @param manager - EntityManager de la transacción en curso (opcional)
+   */
+  async taskStatusChanged(
+    task: Task,
+    previousStatus: string,
+    actorId: string,
+    manager?: EntityManager,
+  ): Promise<void> {
+    await this.notify(
+      await this.watchersOf(task.id, manager),
+      NotificationType.TASK_STATUS_CHANGED,
+      task,
+      actorId,
+      `La tarea "${task.name}" pasó de ${previousStatus} a ${task.status}`,
+      manager,
+    );
+  }
+
+  /**
+   * Avisa a los seguidores de una tarea de que tiene un nuevo comentario
+   *
+   * @param task - Tarea comentada
+   * @param actorId - ID del autor del comentario
+   */
+  async taskCommented(task: Task, actorId: string): Promise<void> {
+    await this.notify(
+      await this.watchersOf(task.id),
+      NotificationType.TASK_COMMENTED,
+      task,
+      actorId,
+      `Nuevo comentario en la tarea "${task.name}"`,
+    );
+  }
+
+  /**
+   * Obtiene las notificaciones del usuario, de la más reciente a la más antigua
+   *
+   * @param userId - ID del usuario autenticado (extraído del token JWT)
+   * @param getNotificationsDto - Filtro de no leídas y paginación
+   * @returns Notificaciones de la página, total del listado y número de no leídas
+   */
+  async findAll(
+    userId: string,
+    getNotificationsDto: GetNotificationsDto,
+  ): Promise<{
+    notifications: Notification[];
+    total: number;
+    unread: number;
+  }> {
+    const where = getNotificationsDto.unread
+      ? { user_id: userId, readAt: IsNull() }
+      : { user_id: userId };
+
+    const [notifications, total] =
+      await this.notificationsRepository.findAndCount({
+        where,
+        relations: ['task', 'actor'],
+        order: { createdAt: 'DESC' },
+        take: getNotificationsDto.limit || 20,
+        skip: getNotificationsDto.offset || 0,
+      });
+
+    const unread = await this.notificationsRepository.count({
+      where: { user_id: userId, readAt: IsNull() },
+    });
+
+    return { notifications, total, unread };
+  }
+
+  /**
+   * Marca una notificación del usuario como leída
+   *
+   * @param userId - ID del usuario autenticado (extraído del token JWT)
+   * @param id - ID de la notificación (UUID)
+   * @returns Promise<Notification> - La notificación marcada como leída
+   * @throws NotFoundException - Si la notificación no existe o es de otro usuario
+   */
+  async markRead(userId: string, id: string): Promise<Notification> {
+    const notification = await this.notificationsRepository.findOne({
+      where: { id, user_id: userId },
+    });
+
+    if (!notification) {
+      throw new NotFoundException('Notificación no encontrada');
+    }
+
+    // Conservar la fecha de la primera lectura
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await this.notificationsRepository.save(notification);
+    }
+
+    return notification;
+  }
+
+  /**
+   * Marca como leídas todas las notificaciones pendientes del usuario
+   *
+   * @param userId - ID del usuario autenticado (extraído del token JWT)
+   * @returns Número de notificaciones marcadas como leídas
+   */
+  async markAllRead(userId: string): Promise<{ updated: number }> {
+    const result = await this.notificationsRepository.update(
+      { user_id: userId, readAt: IsNull() },
+      { readAt: new Date() },
+    );
+
+    return { updated: result.affected ?? 0 };
+  }
+
+  /**
+   * Obtiene las preferencias de notificación del usuario
+   *
+   * @param userId - ID del usuario autenticado (extraído del token JWT)
+   * @returns Tipos de notificación silenciados (vacío si no ha cambiado sus preferencias)
+   */
+  async getSettings(
+    userId: string,
+  ): Promise<{ muted_types: NotificationType[] }> {
+    const settings = await this.settingsRepository.findOne({
+      where: { user_id: userId },
+    });
+
+    return { muted_types: settings?.mutedTypes ?? [] };
+  }
+
+  /**
+   * Reemplaza los tipos de notificación silenciados del usuario
+   *
+   * @param userId - ID del usuario autenticado (extraído del token JWT)
+   * @param updateNotificationSettingsDto - Nueva lista de tipos silenciados
+   * @returns Tipos de notificación silenciados
+   */
+  async updateSettings(
+    userId: string,
+    updateNotificationSettingsDto: UpdateNotificationSettingsDto,
+  ): Promise<{ muted_types: NotificationType[] }> {
+    const mutedTypes = [...new Set(updateNotificationSettingsDto.muted_types)];
+
+    await this.settingsRepository.save({ user_id: userId, mutedTypes });
+
+    return { muted_types: mutedTypes };
+  }
+
+  /**
+   * IDs de los usuarios que siguen una tarea
+   */
+  private async watchersOf(
+    taskId: string,
+    manager?: EntityManager,
+  ): Promise<string[]> {
+    const watchersRepository = manager
+      ? manager.getRepository(TaskWatcher)
+      : this.watchersRepository;
+
+    const watchers = await watchersRepository.find({
+      where: { task_id: taskId },
+    });
+
+    return watchers.map((watcher) => watcher.user_id);
+  }
+
+  /**
+   * Crea una notificación para cada destinatario
+   * Omite al usuario que provocó el evento, los duplicados y a quien silenció ese tipo
+   */
+  private async notify(
+    userIds: (string | null | undefined)[],
+    type: NotificationType,
+    task: Task,
+    actorId: string,
+    message: string,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const notificationsRepository = manager
+      ? manager.getRepository(Notification)
+      : this.notificationsRepository;
+    const settingsRepository = manager
+      ? manager.getRepository(NotificationSettings)
+      : this.settingsRepository;
+
+    const recipients = [
+      ...new Set(userIds.filter((id): id is string => !!id && id !== actorId)),
+    ];
+    if (recipients.length === 0) {
+      return;
+    }
+
+    // Descartar a los destinatarios que silenciaron este tipo de notificación
+    const settings = await settingsRepository.find({
+      where: { user_id: In(recipients) },
+    });
+    const targets = recipients.filter(
+      (userId) =>
+        !settings
+          .find((setting) => setting.user_id === userId)
+          ?.mutedTypes.includes(type),
+    );
+    if (targets.length === 0) {
+      return;
+    }
+
+    await notificationsRepository.save(
+      targets.map((userId) =>
+        notificationsRepository.create({
+          user_id: userId,
+          type,
+          task_id: task.id,
+          actor_id: actorId,
+          message,
+        }),
+      ),
+    );
+  }
+}
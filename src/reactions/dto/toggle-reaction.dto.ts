@@ -0,0 +1,21 @@
+// Importa decoradores de validación de class-validator
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+/**
+ * DTO (Data Transfer Object) para añadir o quitar una reacción
+ * Se usa en POST /workspaces/:wid/tasks/:taskId/reactions y POST /workspaces/:wid/tasks/:taskId/comments/:commentId/reactions
+ */
+export class ToggleReactionDto {
+  /**
+   * emoji - Código corto del emoji, sin los dos puntos (ej: thumbsup, tada, +1)
+   * Campo obligatorio
+   * De 1 a 32 letras minúsculas, números, '_', '+' o '-'
+   */
+  @IsNotEmpty({ message: 'El emoji es obligatorio' })
+  @IsString({ message: 'El emoji debe ser una cadena de texto' })
+  @Matches(/^[a-z0-9_+-]{1,32}$/, {
+    message:
+      'El emoji debe ser un código corto de hasta 32 letras minúsculas, números, _, + o -',
+  })
+  emoji: string;
+}
@@ -0,0 +1,99 @@
+// Importa decoradores y tipos de TypeORM para definir la entidad
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Check,
+  Unique,
+} from 'typeorm';
+
+// Importa las entidades que pueden recibir reacciones
+import { Task } from '../../task/entities/task.entity';
+import { Comment } from '../../comments/entities/comment.entity';
+
+// Importa la entidad User para la relación ManyToOne (user_id)
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad Reaction - Representa una reacción con emoji de un usuario a una tarea o a un comentario
+ * - id (PK) - Identificador único (UUID)
+ * - user_id (FK) - Usuario que reacciona
+ * - task_id (FK) - Tarea que recibe la reacción
+ * - comment_id (FK) - Comentario que recibe la reacción
+ * - emoji - Código corto del emoji (ej: thumbsup, tada, +1)
+ * Cada reacción pertenece exactamente a una tarea o a un comentario (nunca a ambos)
+ * Un usuario solo puede reaccionar una vez con cada emoji al mismo elemento
+ */
+@Entity('reactions')
+@Check(`("task_id" IS NULL) <> ("comment_id" IS NULL)`)
+@Unique(['user_id', 'task_id', 'emoji'])
+@Unique(['user_id', 'comment_id', 'emoji'])
+export class Reaction {
+  /**
+   * id - ID único de la reacción (UUID)
+   * Se genera automáticamente por la base de datos
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Relación ManyToOne con User (usuario que reacciona)
+   * onDelete: 'CASCADE' - Si se elimina el usuario, se eliminan sus reacciones
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /**
+   * user_id - Clave foránea que referencia al usuario que reacciona
+   * Campo obligatorio
+   */
+  @Column({ name: 'user_id' })
+  user_id: string;
+
+  /**
+   * Relación ManyToOne con Task (reacciones a la tarea)
+   * onDelete: 'CASCADE' - Si se elimina la tarea, se eliminan sus reacciones
+   */
+  @ManyToOne(() => Task, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task;
+
+  /**
+   * task_id - Clave foránea que referencia a la tabla tasks
+   * null si la reacción es a un comentario
+   */
+  @Column({ nullable: true, name: 'task_id' })
+  task_id: string | null;
+
+  /**
+   * Relación ManyToOne con Comment (reacciones al comentario)
+   * onDelete: 'CASCADE' - Si se elimina el comentario, se eliminan sus reacciones
+   */
+  @ManyToOne(() => Comment, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'comment_id' })
+  comment: Comment;
+
+  /**
+   * comment_id - Clave foránea que referencia a la tabla comments
+   * null si la reacción es a una tarea
+   */
+  @Column({ nullable: true, name: 'comment_id' })
+  comment_id: string | null;
+
+  /**
+   * emoji - Código corto del emoji, sin los dos puntos (ej: thumbsup)
+   * Tipo: varchar(32)
+   */
+  @Column({ type: 'varchar', length: 32 })
+  emoji: string;
+
+  /**
+   * Fecha en que se añadió la reacción
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+}
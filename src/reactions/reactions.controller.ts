@@ -0,0 +1,113 @@
+// Importa decoradores y tipos de NestJS para el controlador
+import {
+  Controller,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+
+// Importa el servicio de reacciones
+import { ReactionsService } from './reactions.service';
+
+// Importa el DTO para añadir o quitar reacciones
+import { ToggleReactionDto } from './dto/toggle-reaction.dto';
+
+// Importa los guards de autenticación, de pertenencia al espacio de trabajo y de roles
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { WorkspaceMemberGuard } from '../workspaces/guards/workspace-member.guard';
+import { RolesGuard } from '../auth/roles/roles.guard';
+
+// Importa el decorador de roles y el enum de roles
+import { Roles } from '../auth/roles/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+
+// Importa el tipo de la petición autenticada (req.user y req.workspaceRole)
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+
+/**
+ * Decorador que marca esta clase como un controlador de NestJS
+ * Define la ruta base para todos los endpoints: /workspaces/:wid/tasks/:taskId
+ * Las reacciones son un recurso anidado dentro de las tareas y de sus comentarios
+ */
+@Controller('workspaces/:wid/tasks/:taskId')
+/**
+ * Decorador que protege todas las rutas de este controlador con autenticación JWT
+ * WorkspaceMemberGuard exige ser miembro del espacio de trabajo y que la tarea pertenezca a él
+ */
+@UseGuards(JwtAuthGuard, WorkspaceMemberGuard, RolesGuard)
+
+/**
+ * ReactionsController - Controlador que gestiona las reacciones con emoji
+ * Cada petición pone la reacción del usuario autenticado o la quita si ya existía
+ * Los resúmenes de reacciones se devuelven también en las respuestas de tareas y comentarios
+ */
+export class ReactionsController {
+  /**
+   * Constructor que recibe el servicio de reacciones mediante inyección de dependencias
+   * @param reactionsService - Servicio con la lógica de las reacciones
+   */
+  constructor(private readonly reactionsService: ReactionsService) {}
+
+  /**
+   * Endpoint POST /workspaces/:wid/tasks/:taskId/reactions
+   * Pone o quita la reacción del usuario autenticado a la tarea
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param toggleReactionDto - Emoji de la reacción
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @returns Promise<{ reacted, reactions }> - Estado de la reacción y resumen actualizado
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  @Post('reactions')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UsePipes(new ValidationPipe()) // Valida los datos del DTO antes de procesarlos
+  toggleOnTask(
+    @Param('taskId') taskId: string,
+    @Body() toggleReactionDto: ToggleReactionDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.reactionsService.toggleOnTask(
+      taskId,
+      toggleReactionDto,
+      userId,
+    );
+  }
+
+  /**
+   * Endpoint POST /workspaces/:wid/tasks/:taskId/comments/:commentId/reactions
+   * Pone o quita la reacción del usuario autenticado a un comentario de la tarea
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param commentId - ID del comentario (parámetro de la URL)
+   * @param toggleReactionDto - Emoji de la reacción
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @returns Promise<{ reacted, reactions }> - Estado de la reacción y resumen actualizado
+   * @throws NotFoundException - Si el comentario no existe
+   */
+  @Post('comments/:commentId/reactions')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UsePipes(new ValidationPipe()) // Valida los datos del DTO antes de procesarlos
+  toggleOnComment(
+    @Param('taskId') taskId: string,
+    @Param('commentId') commentId: string,
+    @Body() toggleReactionDto: ToggleReactionDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.reactionsService.toggleOnComment(
+      taskId,
+      commentId,
+      toggleReactionDto,
+      userId,
+    );
+  }
+}
@@ -0,0 +1,47 @@
+// Importa decoradores de NestJS
+import { Module } from '@nestjs/common';
+
+// Importa TypeOrmModule para registrar las entidades
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+// Importa los componentes del módulo de reacciones
+import { ReactionsService } from './reactions.service';
+import { ReactionsController } from './reactions.controller';
+
+// Importa las entidades necesarias
+import { Reaction } from './entities/reaction.entity';
+import { Task } from '../task/entities/task.entity';
+import { Comment } from '../comments/entities/comment.entity';
+
+// Importa WorkspacesModule para proteger las rutas con WorkspaceMemberGuard
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+
+/**
+ * ReactionsModule: Módulo de reacciones con emoji a tareas y comentarios
+ */
+@Module({
+  /**
+   * Registra Reaction, y Task y Comment para validar a qué elemento se reacciona
+   * WorkspacesModule: Provee el guard que resuelve el espacio de trabajo de la ruta
+   */
+  imports: [
+    TypeOrmModule.forFeature([Reaction, Task, Comment]),
+    WorkspacesModule,
+  ],
+
+  /**
+   * Controlador que expone los endpoints para poner y quitar reacciones
+   */
+  controllers: [ReactionsController],
+
+  /**
+   * ReactionsService: Lógica de las reacciones y de sus resúmenes
+   */
+  providers: [ReactionsService],
+
+  /**
+   * Exporta ReactionsService para incluir los resúmenes en las respuestas de tareas y comentarios
+   */
+  exports: [ReactionsService],
+})
+export class ReactionsModule {}
@@ -0,0 +1,135 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ReactionsService } from './reactions.service';
+import { Reaction } from './entities/reaction.entity';
+import { Task } from '../task/entities/task.entity';
+import { Comment } from '../comments/entities/comment.entity';
+
+describe('ReactionsService', () => {
+  let reactionsService: ReactionsService;
+  let reactionsRepository: {
+    findOne: jest.Mock;
+    delete: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let commentsRepository: { exists: jest.Mock };
+  let queryBuilder: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    // Query builder encadenable para la inserción y para el resumen de reacciones
+    queryBuilder = {
+      getRawMany: jest.fn().mockResolvedValue([]),
+      execute: jest.fn(),
+    };
+    for (const method of [
+      'insert',
+      'values',
+      'orIgnore',
+      'select',
+      'addSelect',
+      'where',
+      'groupBy',
+      'addGroupBy',
+      'orderBy',
+    ]) {
+      queryBuilder[method] = jest.fn(() => queryBuilder);
+    }
+
+    reactionsRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      delete: jest.fn(),
+      createQueryBuilder: jest.fn(() => queryBuilder),
+    };
+    commentsRepository = { exists: jest.fn().mockResolvedValue(true) };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReactionsService,
+        {
+          provide: getRepositoryToken(Reaction),
+          useValue: reactionsRepository,
+        },
+        {
+          provide: getRepositoryToken(Task),
+          useValue: { exists: jest.fn().mockResolvedValue(true) },
+        },
+        { provide: getRepositoryToken(Comment), useValue: commentsRepository },
+      ],
+    }).compile();
+
+    reactionsService = app.get<ReactionsService>(ReactionsService);
+  });
+
+  describe('toggleOnTask', () => {
+    it('should add the reaction when the user has not reacted yet', async () => {
+      queryBuilder.getRawMany.mockResolvedValue([
+        { target_id: 'task-1', emoji: 'tada', count: '2', reacted: true },
+      ]);
+
+      const result = await reactionsService.toggleOnTask(
+        'task-1',
+        { emoji: 'tada' },
+        'user-a',
+      );
+
+      expect(queryBuilder.values).toHaveBeenCalledWith({
+        task_id: 'task-1',
+        emoji: 'tada',
+        user_id: 'user-a',
+      });
+      expect(result).toEqual({
+        reacted: true,
+        reactions: [{ emoji: 'tada', count: 2, reacted: true }],
+      });
+    });
+
+    it('should remove the reaction when the user already reacted', async () => {
+      reactionsRepository.findOne.mockResolvedValue({ id: 'reaction-1' });
+
+      const result = await reactionsService.toggleOnTask(
+        'task-1',
+        { emoji: 'tada' },
+        'user-a',
+      );
+
+      expect(reactionsRepository.delete).toHaveBeenCalledWith('reaction-1');
+      expect(queryBuilder.execute).not.toHaveBeenCalled();
+      expect(result).toEqual({ reacted: false, reactions: [] });
+    });
+  });
+
+  describe('toggleOnComment', () => {
+    it('should reject a comment of another task', async () => {
+      commentsRepository.exists.mockResolvedValue(false);
+
+      await expect(
+        reactionsService.toggleOnComment(
+          'task-1',
+          'comment-9',
+          { emoji: 'tada' },
+          'user-a',
+        ),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(reactionsRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loadForTasks', () => {
+    it('should group the summaries by task', async () => {
+      queryBuilder.getRawMany.mockResolvedValue([
+        { target_id: 'task-1', emoji: 'tada', count: '3', reacted: false },
+        { target_id: 'task-1', emoji: 'eyes', count: '1', reacted: true },
+      ]);
+      const tasks = [{ id: 'task-1' }, { id: 'task-2' }] as Task[];
+
+      await reactionsService.loadForTasks(tasks, 'user-a');
+
+      expect(tasks[0].reactions).toEqual([
+        { emoji: 'tada', count: 3, reacted: false },
+        { emoji: 'eyes', count: 1, reacted: true },
+      ]);
+      expect(tasks[1].reactions).toEqual([]);
+    });
+  });
+});
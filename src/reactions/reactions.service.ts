@@ -0,0 +1,242 @@
+// Importa decoradores y excepciones de NestJS
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+// Importa decoradores y tipos de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+// Importa las entidades necesarias
+import { Reaction } from './entities/reaction.entity';
+import { Task } from '../task/entities/task.entity';
+import { Comment } from '../comments/entities/comment.entity';
+
+// Importa el DTO para añadir o quitar reacciones
+import { ToggleReactionDto } from './dto/toggle-reaction.dto';
+
+/**
+ * ReactionSummary - Resumen de las reacciones con un emoji a una tarea o comentario
+ * - emoji: Código corto del emoji
+ * - count: Número de usuarios que han reaccionado con ese emoji
+ * - reacted: true si el usuario autenticado es uno de ellos
+ */
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reacted: boolean;
+}
+
+/**
+ * ReactionTarget - Elemento que recibe la reacción (una tarea o un comentario)
+ */
+type ReactionTarget = { task_id: string } | { comment_id: string };
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * ReactionsService - Servicio que gestiona las reacciones con emoji a tareas y comentarios
+ * Cada petición añade la reacción del usuario o la quita si ya existía (toggle)
+ */
+export class ReactionsService {
+  /**
+   * Constructor que recibe los repositorios mediante inyección de dependencias
+   * Se usan los repositorios de Task y Comment (y no sus servicios) para evitar dependencias circulares,
+   * ya que TaskModule y CommentsModule usan este servicio
+   * @param reactionsRepository - Repositorio de TypeORM para las reacciones
+   * @param tasksRepository - Repositorio de TypeORM para validar las tareas
+   * @param commentsRepository - Repositorio de TypeORM para validar los comentarios
+   */
+  constructor(
+    @InjectRepository(Reaction)
+    private reactionsRepository: Repository<Reaction>,
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+    @InjectRepository(Comment)
+    private commentsRepository: Repository<Comment>,
+  ) {}
+
+  /**
+   * Añade o quita la reacción del usuario a una tarea
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @param toggleReactionDto - Emoji de la reacción
+   * @param userId - ID del usuario autenticado
+   * @returns Promise<{ reacted, reactions }> - Si la reacción quedó puesta y el resumen actualizado
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  async toggleOnTask(
+    taskId: string,
+    toggleReactionDto: ToggleReactionDto,
+    userId: string,
+  ): Promise<{ reacted: boolean; reactions: ReactionSummary[] }> {
+    const exists = await this.tasksRepository.exists({ where: { id: taskId } });
+    if (!exists) {
+      throw new NotFoundException('Tarea no encontrada');
+    }
+
+    const reacted = await this.toggle(
+      { task_id: taskId },
+      toggleReactionDto.emoji,
+      userId,
+    );
+    const summaries = await this.summarize('task_id', [taskId], userId);
+
+    return { reacted, reactions: summaries.get(taskId) ?? [] };
+  }
+
+  /**
+   * Añade o quita la reacción del usuario a un comentario de la tarea
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @param commentId - ID del comentario (UUID)
+   * @param toggleReactionDto - Emoji de la reacción
+   * @param userId - ID del usuario autenticado
+   * @returns Promise<{ reacted, reactions }> - Si la reacción quedó puesta y el resumen actualizado
+   * @throws NotFoundException - Si el comentario no existe en la tarea
+   */
+  async toggleOnComment(
+    taskId: string,
+    commentId: string,
+    toggleReactionDto: ToggleReactionDto,
+    userId: string,
+  ): Promise<{ reacted: boolean; reactions: ReactionSummary[] }> {
+    const exists = await this.commentsRepository.exists({
+      where: { id: commentId, which_todo: taskId },
+    });
+    if (!exists) {
+      throw new NotFoundException('Comentario no encontrado');
+    }
+
+    const reacted = await this.toggle(
+      { comment_id: commentId },
+      toggleReactionDto.emoji,
+      userId,
+    );
+    const summaries = await this.summarize('comment_id', [commentId], userId);
+
+    return { reacted, reactions: summaries.get(commentId) ?? [] };
+  }
+
+  /**
+   * Añade a cada tarea el resumen de sus reacciones desde el punto de vista del usuario
+   *
+   * @param tasks - Tareas a completar
+   * @param userId - ID del usuario autenticado
+   */
+  async loadForTasks(tasks: Task[], userId: string): Promise<void> {
+    if (tasks.length === 0) {
+      return;
+    }
+
+    const summaries = await this.summarize(
+      'task_id',
+      tasks.map((task) => task.id),
+      userId,
+    );
+    for (const task of tasks) {
+      task.reactions = summaries.get(task.id) ?? [];
+    }
+  }
+
+  /**
+   * Añade a cada comentario el resumen de sus reacciones desde el punto de vista del usuario
+   *
+   * @param comments - Comentarios a completar
+   * @param userId - ID del usuario autenticado
+   */
+  async loadForComments(comments: Comment[], userId: string): Promise<void> {
+    if (comments.length === 0) {
+      return;
+    }
+
+    const summaries = await this.summarize(
+      'comment_id',
+      comments.map((comment) => comment.id),
+      userId,
+    );
+    for (const comment of comments) {
+      comment.reactions = summaries.get(comment.id) ?? [];
+    }
+  }
+
+  /**
+   * Quita la reacción si el usuario ya la había puesto o la añade en caso contrario
+   *
+   * @param target - Tarea o comentario que recibe la reacción
+   * @param emoji - Código corto del emoji
+   * @param userId - ID del usuario que reacciona
+   * @returns Promise<boolean> - true si la reacción quedó puesta, false si se quitó
+   */
+  private async toggle(
+    target: ReactionTarget,
+    emoji: string,
+    userId: string,
+  ): Promise<boolean> {
+    const existing = await this.reactionsRepository.findOne({
+      where: { ...target, emoji, user_id: userId },
+    });
+
+    if (existing) {
+      await this.reactionsRepository.delete(existing.id);
+      return false;
+    }
+
+    // orIgnore: si otra petición simultánea ya la creó, la reacción queda puesta igualmente
+    await this.reactionsRepository
+      .createQueryBuilder()
+      .insert()
+      .values({ ...target, emoji, user_id: userId })
+      .orIgnore()
+      .execute();
+
+    return true;
+  }
+
+  /**
+   * Cuenta las reacciones por elemento y emoji, en el orden en que se usó cada emoji por primera vez
+   *
+   * @param column - Columna del elemento (task_id o comment_id)
+   * @param ids - IDs de las tareas o comentarios
+   * @param userId - ID del usuario autenticado (para calcular 'reacted')
+   * @returns Promise<Map<string, ReactionSummary[]>> - Resúmenes por ID de elemento
+   */
+  private async summarize(
+    column: 'task_id' | 'comment_id',
+    ids: string[],
+    userId: string,
+  ): Promise<Map<string, ReactionSummary[]>> {
+    const rows: {
+      target_id: string;
+      emoji: string;
+      count: string;
+      reacted: boolean;
+    }[] = await this.reactionsRepository
+      .createQueryBuilder('reaction')
+      .select(`reaction.${column}`, 'target_id')
+      .addSelect('reaction.emoji', 'emoji')
+      .addSelect('COUNT(*)', 'count')
+      .addSelect('BOOL_OR(reaction.user_id = :userId)', 'reacted')
+      .addSelect('MIN(reaction.createdAt)', 'first_reacted_at')
+      .where(`reaction.${column} IN (:...ids)`, { ids, userId })
+      .groupBy(`reaction.${column}`)
+      .addGroupBy('reaction.emoji')
+      .orderBy('first_reacted_at', 'ASC')
+      .getRawMany();
+
+    // PostgreSQL devuelve COUNT como texto: convertir a número
+    const summaries = new Map<string, ReactionSummary[]>();
+    for (const row of rows) {
+      const list = summaries.get(row.target_id) ?? [];
+      list.push({
+        emoji: row.emoji,
+        count: Number(row.count),
+        reacted: row.reacted,
+      });
+      summaries.set(row.target_id, list);
+    }
+
+    return summaries;
+  }
+}
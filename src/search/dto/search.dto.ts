@@ -0,0 +1,56 @@
+// Importa decoradores de validación de class-validator
+import {
+  IsNotEmpty,
+  IsString,
+  MinLength,
+  IsOptional,
+  IsEnum,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
+
+// Importa Type de class-transformer para convertir tipos en query parameters
+import { Type } from 'class-transformer';
+
+// Importa el enum SearchType para filtrar por tipo de resultado
+import { SearchType } from '../enums/search-type.enum';
+
+/**
+ * DTO (Data Transfer Object) para la búsqueda global de texto completo
+ * Define los parámetros de consulta (query parameters) de GET /workspaces/:wid/search
+ */
+export class SearchDto {
+  /**
+   * q - Texto a buscar
+   * Campo obligatorio
+   * Admite la sintaxis de búsqueda web: "frase exacta", OR, -excluir
+   */
+  @IsNotEmpty({ message: 'El texto de búsqueda es obligatorio' })
+  @IsString({ message: 'El texto de búsqueda debe ser una cadena de texto' })
+  @MinLength(2, {
+    message: 'El texto de búsqueda debe tener al menos 2 caracteres',
+  })
+  q: string;
+
+  /**
+   * type - Limitar los resultados a un tipo (TASK o COMMENT)
+   * Campo opcional
+   * Si no se proporciona, se devuelven tareas y comentarios mezclados
+   */
+  @IsOptional()
+  @IsEnum(SearchType, { message: 'El tipo debe ser TASK o COMMENT' })
+  type?: SearchType;
+
+  /**
+   * limit - Número máximo de resultados a devolver
+   * Campo opcional
+   * Valor por defecto: 20, máximo: 100
+   */
+  @IsOptional()
+  @Type(() => Number) // Convierte el string del query parameter a número
+  @IsInt({ message: 'El límite debe ser un número entero' })
+  @Min(1, { message: 'El límite debe ser mayor o igual a 1' })
+  @Max(100, { message: 'El límite debe ser menor o igual a 100' })
+  limit?: number = 20;
+}
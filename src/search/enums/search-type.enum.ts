@@ -0,0 +1,16 @@
+/**
+ * Enum SearchType - Define los tipos de resultado de la búsqueda global
+ * - TASK: El resultado es una tarea (coincide en name o description)
+ * - COMMENT: El resultado es un comentario (coincide en content)
+ */
+export enum SearchType {
+  /**
+   * TASK - Resultado de tipo tarea
+   */
+  TASK = 'TASK',
+
+  /**
+   * COMMENT - Resultado de tipo comentario
+   */
+  COMMENT = 'COMMENT',
+}
@@ -0,0 +1,12 @@
+/**
+ * Configuración de texto de PostgreSQL usada en la búsqueda de texto completo
+ * Debe coincidir con la usada en las columnas generadas search_vector de tasks y comments
+ */
+export const SEARCH_CONFIG = 'spanish';
+
+/**
+ * Opciones de ts_headline para generar los fragmentos resaltados
+ * Los términos encontrados se envuelven en <mark></mark>
+ */
+export const SEARCH_HEADLINE_OPTIONS =
+  'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2';
@@ -0,0 +1,50 @@
+// Importa decoradores y tipos de NestJS para el controlador
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+
+// Importa el servicio de búsqueda
+import { SearchService } from './search.service';
+
+// Importa el DTO de búsqueda
+import { SearchDto } from './dto/search.dto';
+
+// Importa los guards de autenticación y de pertenencia al espacio de trabajo
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { WorkspaceMemberGuard } from '../workspaces/guards/workspace-member.guard';
+
+/**
+ * SearchController - Controlador de la búsqueda de texto completo en un espacio de trabajo
+ * Define la ruta base /workspaces/:wid/search
+ * Todas las rutas requieren autenticación JWT y pertenecer al espacio de trabajo
+ */
+@Controller('workspaces/:wid/search')
+@UseGuards(JwtAuthGuard, WorkspaceMemberGuard) // Autenticación JWT y pertenencia al espacio de trabajo
+export class SearchController {
+  /**
+   * Constructor que recibe el servicio de búsqueda mediante inyección de dependencias
+   * @param searchService - Servicio que ejecuta la búsqueda de texto completo
+   */
+  constructor(private readonly searchService: SearchService) {}
+
+  /**
+   * Endpoint GET /workspaces/:wid/search
+   * Busca texto en las tareas (nombre y descripción) y comentarios (contenido) del espacio de trabajo
+   * Devuelve resultados mezclados, ordenados por relevancia y con fragmentos resaltados
+   *
+   * @param workspaceId - ID del espacio de trabajo (parámetro de la URL)
+   * @param searchDto - Texto a buscar (q), tipo de resultado opcional y límite
+   * @returns Promise<{ hits: SearchHit[] }> - Resultados de la búsqueda
+   */
+  @Get()
+  @UsePipes(new ValidationPipe({ transform: true })) // Valida y convierte los query parameters
+  search(@Param('wid') workspaceId: string, @Query() searchDto: SearchDto) {
+    return this.searchService.search(searchDto, workspaceId);
+  }
+}
@@ -0,0 +1,31 @@
+// Importa decoradores de NestJS
+import { Module } from '@nestjs/common';
+
+// Importa los componentes del módulo de búsqueda
+import { SearchService } from './search.service';
+import { SearchController } from './search.controller';
+
+// Importa WorkspacesModule para proteger las rutas con WorkspaceMemberGuard
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+
+/**
+ * SearchModule: Módulo de búsqueda de texto completo sobre tareas y comentarios
+ * No registra entidades propias: consulta las tablas tasks y comments mediante SQL nativo
+ */
+@Module({
+  /**
+   * WorkspacesModule: Provee el guard que resuelve el espacio de trabajo de la ruta
+   */
+  imports: [WorkspacesModule],
+
+  /**
+   * Controlador que expone el endpoint GET /workspaces/:wid/search
+   */
+  controllers: [SearchController],
+
+  /**
+   * Servicio que ejecuta la búsqueda y crea los índices GIN al iniciar
+   */
+  providers: [SearchService],
+})
+export class SearchModule {}
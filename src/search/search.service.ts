@@ -0,0 +1,128 @@
+// Importa decoradores e interfaces de NestJS
+import { Injectable, OnModuleInit } from '@nestjs/common';
+
+// Importa DataSource de TypeORM para ejecutar consultas SQL nativas
+import { DataSource } from 'typeorm';
+
+// Importa el DTO de búsqueda
+import { SearchDto } from './dto/search.dto';
+
+// Importa el enum SearchType para identificar el tipo de cada resultado
+import { SearchType } from './enums/search-type.enum';
+
+// Importa la configuración de la búsqueda de texto completo
+import { SEARCH_CONFIG, SEARCH_HEADLINE_OPTIONS } from './search.constants';
+
+/**
+ * SearchHit - Resultado individual de la búsqueda global
+ * - type: Tipo de resultado (TASK o COMMENT)
+ * - id: ID de la tarea o del comentario encontrado
+ * - task_id: ID de la tarea (para los comentarios, la tarea a la que pertenecen)
+ * - title: Nombre de la tarea
+ * - snippet: Fragmento del texto con los términos resaltados (<mark>)
+ * - rank: Relevancia del resultado (mayor es más relevante)
+ * - date: Fecha de creación de la tarea o del comentario
+ */
+export interface SearchHit {
+  type: SearchType;
+  id: string;
+  task_id: string;
+  title: string;
+  snippet: string;
+  rank: number;
+  date: Date;
+}
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * SearchService - Servicio de búsqueda de texto completo sobre tareas y comentarios
+ * Usa las columnas tsvector (search_vector) de PostgreSQL, ordenando por relevancia (ts_rank)
+ * y generando fragmentos resaltados (ts_headline)
+ */
+export class SearchService implements OnModuleInit {
+  /**
+   * Constructor que recibe el DataSource de TypeORM mediante inyección de dependencias
+   * @param dataSource - Conexión a la base de datos para ejecutar SQL nativo
+   */
+  constructor(private dataSource: DataSource) {}
+
+  /**
+   * Se ejecuta al iniciar el módulo
+   * Crea los índices GIN sobre las columnas search_vector si todavía no existen
+   * TypeORM no permite declarar índices GIN, por eso se crean aquí
+   */
+  async onModuleInit(): Promise<void> {
+    await this.dataSource.query(
+      'CREATE INDEX IF NOT EXISTS "IDX_tasks_search_vector" ON "tasks" USING GIN ("search_vector")',
+    );
+    await this.dataSource.query(
+      'CREATE INDEX IF NOT EXISTS "IDX_comments_search_vector" ON "comments" USING GIN ("search_vector")',
+    );
+  }
+
+  /**
+   * Busca el texto en las tareas (name, description) y en los comentarios (content) del espacio de trabajo
+   * Los elementos de la papelera no se incluyen
+   * Devuelve los resultados de ambos tipos mezclados y ordenados por relevancia
+   *
+   * @param searchDto - Texto a buscar, tipo de resultado opcional y límite
+   * @param workspaceId - ID del espacio de trabajo activo
+   * @returns Promise<{ hits: SearchHit[] }> - Resultados ordenados por relevancia
+   */
+  async search(
+    searchDto: SearchDto,
+    workspaceId: string,
+  ): Promise<{ hits: SearchHit[] }> {
+    // Consulta de tareas: coincidencias en name y description
+    const taskQuery = `
+      SELECT '${SearchType.TASK}' AS type, task.id, task.id AS task_id, task.name AS title,
+        ts_headline($1::regconfig, coalesce(task.name, '') || ' ' || coalesce(task.description, ''), query, $3) AS snippet,
+        ts_rank(task.search_vector, query) AS rank,
+        task."createdAt" AS date
+      FROM tasks task, websearch_to_tsquery($1::regconfig, $2) query
+      WHERE task.search_vector @@ query AND task."deletedAt" IS NULL
+        AND task.workspace_id = $5`;
+
+    // Consulta de comentarios: coincidencias en content, con el nombre de su tarea
+    const commentQuery = `
+      SELECT '${SearchType.COMMENT}' AS type, comment.id, comment.which_todo AS task_id, task.name AS title,
+        ts_headline($1::regconfig, comment.content, query, $3) AS snippet,
+        ts_rank(comment.search_vector, query) AS rank,
+        comment.comment_date AS date
+      FROM comments comment
+      INNER JOIN tasks task ON task.id = comment.which_todo,
+      websearch_to_tsquery($1::regconfig, $2) query
+      WHERE comment.search_vector @@ query
+        AND comment."deletedAt" IS NULL AND task."deletedAt" IS NULL
+        AND task.workspace_id = $5`;
+
+    // Elegir qué consultas ejecutar según el tipo solicitado
+    const queries: string[] = [];
+    if (!searchDto.type || searchDto.type === SearchType.TASK) {
+      queries.push(taskQuery);
+    }
+    if (!searchDto.type || searchDto.type === SearchType.COMMENT) {
+      queries.push(commentQuery);
+    }
+
+    const rows: SearchHit[] = await this.dataSource.query(
+      `${queries.join(' UNION ALL ')} ORDER BY rank DESC, date DESC LIMIT $4`,
+      [
+        SEARCH_CONFIG,
+        searchDto.q,
+        SEARCH_HEADLINE_OPTIONS,
+        searchDto.limit || 20,
+        workspaceId,
+      ],
+    );
+
+    // PostgreSQL devuelve ts_rank como real: asegurar que sea un número
+    const hits = rows.map((row) => ({ ...row, rank: Number(row.rank) }));
+
+    return { hits };
+  }
+}
@@ -0,0 +1,142 @@
+// Importa decoradores de validación de class-validator
+import {
+  IsOptional,
+  IsNotEmpty,
+  IsEnum,
+  IsUUID,
+  IsInt,
+  IsString,
+  IsBoolean,
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  NotEquals,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+
+// Importa Type de class-transformer para validar objetos anidados
+import { Type } from 'class-transformer';
+
+// Importa los enums necesarios
+import { TaskStatus } from '../enums/task-status.enum';
+import { BulkTaskAction } from '../enums/bulk-task-action.enum';
+
+// Importa el DTO de filtros del listado de tareas
+import { GetTasksDto } from './get-tasks.dto';
+
+/**
+ * Número máximo de tareas que se pueden procesar en una sola operación en lote
+ */
+export const BULK_MAX_TASKS = 500;
+
+/**
+ * DTO (Data Transfer Object) para aplicar una acción a varias tareas a la vez
+ * Se usa en POST /workspaces/:wid/tasks/bulk
+ * Las tareas se seleccionan con 'ids' o con 'filter' (los mismos filtros que GET /workspaces/:wid/tasks), no ambos
+ * Los parámetros de la acción usan las mismas validaciones que CreateTaskDto
+ */
+export class BulkTaskDto {
+  /**
+   * ids - IDs de las tareas a procesar
+   * Campo opcional (obligatorio si no se indica filter)
+   * Máximo BULK_MAX_TASKS elementos, cada uno un UUID válido
+   */
+  @IsOptional()
+  @IsArray({ message: 'ids debe ser una lista de IDs de tareas' })
+  @ArrayNotEmpty({ message: 'ids debe contener al menos una tarea' })
+  @ArrayMaxSize(BULK_MAX_TASKS, {
+    message: `No se pueden procesar más de ${BULK_MAX_TASKS} tareas a la vez`,
+  })
+  @IsUUID('4', {
+    each: true,
+    message: 'Cada ID de tarea debe ser un UUID válido',
+  })
+  ids?: string[];
+
+  /**
+   * filter - Filtros para seleccionar las tareas (como los query parameters de GET /workspaces/:wid/tasks)
+   * Campo opcional (obligatorio si no se indica ids)
+   * Se ignoran la paginación y el orden: se procesan todas las tareas que coinciden
+   */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GetTasksDto)
+  filter?: GetTasksDto;
+
+  /**
+   * action - Acción a aplicar a cada tarea
+   * Campo obligatorio
+   */
+  @IsNotEmpty({ message: 'La acción es obligatoria' })
+  @IsEnum(BulkTaskAction, {
+    message:
+      'La acción debe ser SET_STATUS, REASSIGN, CHANGE_CATEGORY, SHIFT_DUE_DATE o DELETE',
+  })
+  action: BulkTaskAction;
+
+  /**
+   * status - Nuevo estado (acción SET_STATUS)
+   * Debe ser uno de los valores del enum TaskStatus
+   */
+  @ValidateIf((dto: BulkTaskDto) => dto.action === BulkTaskAction.SET_STATUS)
+  @IsNotEmpty({ message: 'El estado es obligatorio para la acción SET_STATUS' })
+  @IsEnum(TaskStatus, {
+    message:
+      'El estado debe ser PENDING, IN_PROGRESS, DONE, BLOCKED, IN_REVIEW o CANCELLED',
+  })
+  status?: TaskStatus;
+
+  /**
+   * comment - Comentario que acompaña el cambio de estado (acción SET_STATUS)
+   * Campo opcional, obligatorio en las transiciones que lo exigen (ej: BLOCKED)
+   * Se guarda como comentario en cada tarea cuyo estado cambia
+   */
+  @IsOptional()
+  @IsString({ message: 'El comentario debe ser una cadena de texto' })
+  comment?: string;
+
+  /**
+   * assigned_to - Nuevo usuario asignado (acción REASSIGN)
+   * Debe ser un UUID válido, o null para dejar las tareas sin asignar
+   */
+  @ValidateIf(
+    (dto: BulkTaskDto) =>
+      dto.action === BulkTaskAction.REASSIGN && dto.assigned_to !== null,
+  )
+  @IsUUID('4', {
+    message: 'El ID del usuario asignado debe ser un UUID válido',
+  })
+  assigned_to?: string | null;
+
+  /**
+   * category_id - Nueva categoría (acción CHANGE_CATEGORY)
+   * Debe ser un UUID válido, o null para dejar las tareas sin categoría
+   */
+  @ValidateIf(
+    (dto: BulkTaskDto) =>
+      dto.action === BulkTaskAction.CHANGE_CATEGORY && dto.category_id !== null,
+  )
+  @IsUUID('4', { message: 'El ID de categoría debe ser un UUID válido' })
+  category_id?: string | null;
+
+  /**
+   * shift_days - Días que se desplaza la fecha de vencimiento (acción SHIFT_DUE_DATE)
+   * Número entero distinto de 0 (negativo para adelantarla)
+   */
+  @ValidateIf(
+    (dto: BulkTaskDto) => dto.action === BulkTaskAction.SHIFT_DUE_DATE,
+  )
+  @IsInt({ message: 'shift_days debe ser un número entero' })
+  @NotEquals(0, { message: 'shift_days debe ser distinto de 0' })
+  shift_days?: number;
+
+  /**
+   * atomic - Si es true, un fallo en cualquier tarea deshace los cambios de todas
+   * Campo opcional
+   * Valor por defecto: false (se guardan las tareas que se procesan correctamente)
+   */
+  @IsOptional()
+  @IsBoolean({ message: 'atomic debe ser true o false' })
+  atomic?: boolean;
+}
@@ -0,0 +1,38 @@
+// Importa decoradores de validación de class-validator
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+/**
+ * DTO (Data Transfer Object) para añadir un paso a la checklist de una tarea
+ * Se usa en POST /workspaces/:wid/tasks/:taskId/checklist
+ * El paso se añade al final de la checklist y sin marcar
+ */
+export class CreateChecklistItemDto {
+  /**
+   * text - Descripción del paso
+   * Campo obligatorio
+   * Máximo 255 caracteres
+   */
+  @IsNotEmpty({ message: 'El texto del paso es obligatorio' })
+  @IsString({ message: 'El texto del paso debe ser una cadena de texto' })
+  @MaxLength(255, {
+    message: 'El texto del paso no puede superar los 255 caracteres',
+  })
+  text: string;
+
+  /**
+   * assigned_to - ID del usuario responsable del paso
+   * Campo opcional
+   * Debe ser un UUID válido si se proporciona
+   */
+  @IsOptional()
+  @IsUUID('4', {
+    message: 'El ID del usuario asignado debe ser un UUID válido',
+  })
+  assigned_to?: string;
+}
@@ -0,0 +1,35 @@
+// Importa decoradores de validación de class-validator
+import { IsEnum, IsNotEmpty, IsUUID } from 'class-validator';
+
+// Importa el enum DependencyType para validar el sentido del enlace
+import { DependencyType } from '../enums/dependency-type.enum';
+
+/**
+ * DTO (Data Transfer Object) para crear un enlace de dependencia entre tareas
+ * Se usa en POST /workspaces/:wid/tasks/:taskId/dependencies
+ * La tarea de la URL es uno de los extremos del enlace y 'task_id' el otro
+ */
+export class CreateTaskDependencyDto {
+  /**
+   * type - Sentido del enlace visto desde la tarea de la URL
+   * Campo obligatorio
+   * BLOCKS: la tarea de la URL bloquea a 'task_id'
+   * BLOCKED_BY: la tarea de la URL está bloqueada por 'task_id'
+   */
+  @IsNotEmpty({ message: 'El tipo de dependencia es obligatorio' })
+  @IsEnum(DependencyType, {
+    message: 'El tipo de dependencia debe ser BLOCKS o BLOCKED_BY',
+  })
+  type: DependencyType;
+
+  /**
+   * task_id - ID de la otra tarea del enlace
+   * Campo obligatorio
+   * Debe ser un UUID válido
+   */
+  @IsNotEmpty({ message: 'El ID de la tarea relacionada es obligatorio' })
+  @IsUUID('4', {
+    message: 'El ID de la tarea relacionada debe ser un UUID válido',
+  })
+  task_id: string;
+}
@@ -1,9 +1,29 @@
 // Importa decoradores de validación de class-validator
-import { IsString, IsNotEmpty, IsOptional, IsInt, IsDateString, IsEnum, IsUUID } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsInt,
+  IsDateString,
+  IsEnum,
+  IsUUID,
+  IsArray,
+  ValidateNested,
+  Min,
+} from 'class-validator';
+
+// Importa Type de class-transformer para validar objetos anidados
+import { Type } from 'class-transformer';
 
 // Importa el enum TaskStatus para validar el campo status
 import { TaskStatus } from '../enums/task-status.enum';
 
+// Importa el enum TaskPriority para validar el campo priority
+import { TaskPriority } from '../enums/task-priority.enum';
+
+// Importa el DTO de la regla de recurrencia
+import { RecurrenceDto } from './recurrence.dto';
+
 /**
  * DTO (Data Transfer Object) para crear una nueva tarea
  * Define la estructura y validaciones de los datos que se reciben al crear una tarea
@@ -38,6 +58,16 @@ export class CreateTaskDto {
   @IsInt({ message: 'Los puntos de historia deben ser un número entero' })
   storyPoints?: number;
 
+  /**
+   * originalEstimate - Estimación inicial del tiempo de la tarea, en minutos
+   * Campo opcional
+   * Debe ser un número entero mayor o igual a 0 si se proporciona
+   */
+  @IsOptional()
+  @IsInt({ message: 'La estimación debe ser un número entero de minutos' })
+  @Min(0, { message: 'La estimación no puede ser negativa' })
+  originalEstimate?: number;
+
   /**
    * dueDate - Fecha de vencimiento
    * Campo opcional
@@ -45,7 +75,13 @@ export class CreateTaskDto {
    * Se convertirá a objeto Date en el servicio
    */
   @IsOptional()
-  @IsDateString({}, { message: 'La fecha de vencimiento debe ser una fecha válida en formato ISO' })
+  @IsDateString(
+    {},
+    {
+      message:
+        'La fecha de vencimiento debe ser una fecha válida en formato ISO',
+    },
+  )
   dueDate?: string;
 
   /**
@@ -55,9 +91,24 @@ export class CreateTaskDto {
    * Debe ser uno de los valores del enum TaskStatus
    */
   @IsOptional()
-  @IsEnum(TaskStatus, { message: 'El estado debe ser PENDING, IN_PROGRESS o DONE' })
+  @IsEnum(TaskStatus, {
+    message:
+      'El estado debe ser PENDING, IN_PROGRESS, DONE, BLOCKED, IN_REVIEW o CANCELLED',
+  })
   status?: TaskStatus;
 
+  /**
+   * priority - Prioridad de la tarea
+   * Campo opcional
+   * Si no se proporciona, se usará el valor por defecto (MEDIUM)
+   * Debe ser uno de los valores del enum TaskPriority
+   */
+  @IsOptional()
+  @IsEnum(TaskPriority, {
+    message: 'La prioridad debe ser LOW, MEDIUM, HIGH o URGENT',
+  })
+  priority?: TaskPriority;
+
   /**
    * category_id - ID de la categoría a la que pertenece la tarea
    * Campo opcional
@@ -76,6 +127,44 @@ export class CreateTaskDto {
    * Si no se proporciona, la tarea no estará asignada a nadie
    */
   @IsOptional()
-  @IsUUID('4', { message: 'El ID del usuario asignado debe ser un UUID válido' })
+  @IsUUID('4', {
+    message: 'El ID del usuario asignado debe ser un UUID válido',
+  })
   assigned_to?: string;
+
+  /**
+   * parent_id - ID de la tarea padre
+   * Campo opcional
+   * Debe ser un UUID válido si se proporciona
+   * Si se proporciona, la tarea se crea como subtarea de la tarea indicada
+   */
+  @IsOptional()
+  @IsUUID('4', { message: 'El ID de la tarea padre debe ser un UUID válido' })
+  parent_id?: string;
+
+  /**
+   * label_ids - IDs de las etiquetas de la tarea
+   * Campo opcional
+   * Cada elemento debe ser un UUID válido de una etiqueta existente
+   * En una actualización reemplaza todas las etiquetas de la tarea ([] las quita todas)
+   */
+  @IsOptional()
+  @IsArray({ message: 'Las etiquetas deben ser una lista de IDs' })
+  @IsUUID('4', {
+    each: true,
+    message: 'Cada ID de etiqueta debe ser un UUID válido',
+  })
+  label_ids?: string[];
+
+  /**
+   * recurrence - Regla de recurrencia de la tarea
+   * Campo opcional
+   * Si se proporciona, al completar la tarea (DONE) o al llegar su fecha de vencimiento
+   * se genera automáticamente la siguiente instancia de la serie
+   * En una actualización, null elimina la recurrencia
+   */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RecurrenceDto)
+  recurrence?: RecurrenceDto | null;
 }
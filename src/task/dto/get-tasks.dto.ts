@@ -1,12 +1,61 @@
 // Importa decoradores de validación de class-validator
-import { IsOptional, IsEnum, IsUUID, IsInt, Min } from 'class-validator';
+import {
+  IsOptional,
+  IsEnum,
+  IsUUID,
+  IsInt,
+  Min,
+  IsBoolean,
+  IsString,
+  MinLength,
+  IsDateString,
+  Matches,
+  IsIn,
+} from 'class-validator';
 
-// Importa Type de class-transformer para convertir tipos en query parameters
-import { Type } from 'class-transformer';
+// Importa Type y Transform de class-transformer para convertir tipos en query parameters
+import { Type, Transform } from 'class-transformer';
 
 // Importa el enum TaskStatus para validar el filtro de estado
 import { TaskStatus } from '../enums/task-status.enum';
 
+// Importa el enum LabelMatch para combinar el filtro de etiquetas
+import { LabelMatch } from '../enums/label-match.enum';
+
+// Importa el enum PaginationMode para elegir el modo de paginación
+import { PaginationMode } from '../../common/pagination/pagination-mode.enum';
+
+/**
+ * Campos por los que se puede ordenar el listado de tareas (parámetro sort)
+ */
+export const TASK_SORT_FIELDS = [
+  'dueDate',
+  'storyPoints',
+  'priority',
+  'status',
+  'name',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+/**
+ * Convierte el string de un query parameter ('true' / 'false') a boolean
+ */
+const toBoolean = ({ value }: { value: unknown }) =>
+  value === true || value === 'true';
+
+/**
+ * Convierte un query parameter con valores separados por comas (o repetido) a un array
+ * Ej: status=PENDING,IN_PROGRESS o status=PENDING&status=IN_PROGRESS
+ */
+const toArray = ({ value }: { value: unknown }) =>
+  typeof value === 'string'
+    ? value
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0)
+    : value;
+
 /**
  * DTO (Data Transfer Object) para obtener y filtrar tareas
  * Define los parámetros de consulta (query parameters) para listar tareas
@@ -14,14 +63,33 @@ import { TaskStatus } from '../enums/task-status.enum';
  */
 export class GetTasksDto {
   /**
-   * status - Filtrar tareas por estado
+   * q - Búsqueda de texto completo
+   * Campo opcional
+   * Busca en el nombre y la descripción de la tarea y en el contenido de sus comentarios
+   * Si se proporciona, los resultados se ordenan por relevancia e incluyen un fragmento resaltado
+   */
+  @IsOptional()
+  @IsString({ message: 'El texto de búsqueda debe ser una cadena de texto' })
+  @MinLength(2, {
+    message: 'El texto de búsqueda debe tener al menos 2 caracteres',
+  })
+  q?: string;
+
+  /**
+   * status - Filtrar tareas por uno o varios estados
    * Campo opcional
-   * Si se proporciona, solo se devolverán tareas con ese estado
-   * Debe ser uno de los valores del enum TaskStatus
+   * Si se proporciona, solo se devolverán tareas en alguno de esos estados
+   * Acepta valores separados por comas (status=PENDING,IN_PROGRESS) o el parámetro repetido
+   * Cada valor debe ser uno de los valores del enum TaskStatus
    */
   @IsOptional()
-  @IsEnum(TaskStatus, { message: 'El estado debe ser PENDING, IN_PROGRESS o DONE' })
-  status?: TaskStatus;
+  @Transform(toArray) // Convierte el query parameter a array de estados
+  @IsEnum(TaskStatus, {
+    each: true,
+    message:
+      'El estado debe ser PENDING, IN_PROGRESS, DONE, BLOCKED, IN_REVIEW o CANCELLED',
+  })
+  status?: TaskStatus[];
 
   /**
    * category_id - Filtrar tareas por categoría
@@ -33,6 +101,30 @@ export class GetTasksDto {
   @IsUUID('4', { message: 'El ID de categoría debe ser un UUID válido' })
   category_id?: string;
 
+  /**
+   * labels - Filtrar tareas por etiquetas
+   * Campo opcional
+   * IDs de etiquetas separados por comas (labels=id1,id2) o el parámetro repetido
+   * Cada valor debe ser un UUID válido
+   */
+  @IsOptional()
+  @Transform(toArray) // Convierte el query parameter a array de IDs
+  @IsUUID('4', {
+    each: true,
+    message: 'Cada ID de etiqueta debe ser un UUID válido',
+  })
+  labels?: string[];
+
+  /**
+   * labels_match - Cómo se combinan las etiquetas del filtro
+   * Campo opcional
+   * Valor por defecto: any (la tarea tiene alguna de las etiquetas)
+   * all: la tarea tiene todas las etiquetas
+   */
+  @IsOptional()
+  @IsEnum(LabelMatch, { message: 'labels_match debe ser any o all' })
+  labels_match?: LabelMatch;
+
   /**
    * assigned_to - Filtrar tareas por usuario asignado
    * Campo opcional
@@ -41,9 +133,175 @@ export class GetTasksDto {
    * Según ERD es 'assigned_to', no 'assigned_to_id'
    */
   @IsOptional()
-  @IsUUID('4', { message: 'El ID del usuario asignado debe ser un UUID válido' })
+  @IsUUID('4', {
+    message: 'El ID del usuario asignado debe ser un UUID válido',
+  })
   assigned_to?: string;
 
+  /**
+   * unassigned - Filtrar solo las tareas sin usuario asignado
+   * Campo opcional
+   * Si es true, solo se devolverán tareas con assigned_to vacío
+   */
+  @IsOptional()
+  @Transform(toBoolean) // Convierte el string del query parameter a boolean
+  @IsBoolean({ message: 'unassigned debe ser true o false' })
+  unassigned?: boolean;
+
+  /**
+   * created_by - Filtrar tareas por usuario creador
+   * Campo opcional
+   * Debe ser un UUID válido
+   */
+  @IsOptional()
+  @IsUUID('4', { message: 'El ID del usuario creador debe ser un UUID válido' })
+  created_by?: string;
+
+  /**
+   * due_from / due_to - Rango de fechas de vencimiento (inclusive)
+   * Campos opcionales, en formato ISO 8601
+   * Las tareas sin fecha de vencimiento quedan fuera si se usa alguno de los dos
+   */
+  @IsOptional()
+  @IsDateString(
+    {},
+    { message: 'due_from debe ser una fecha válida en formato ISO' },
+  )
+  due_from?: string;
+
+  @IsOptional()
+  @IsDateString(
+    {},
+    { message: 'due_to debe ser una fecha válida en formato ISO' },
+  )
+  due_to?: string;
+
+  /**
+   * overdue - Filtrar solo las tareas vencidas
+   * Campo opcional
+   * Si es true, solo se devolverán tareas con fecha de vencimiento pasada
+   * que todavía no estén terminadas (DONE) ni canceladas (CANCELLED)
+   */
+  @IsOptional()
+  @Transform(toBoolean) // Convierte el string del query parameter a boolean
+  @IsBoolean({ message: 'overdue debe ser true o false' })
+  overdue?: boolean;
+
+  /**
+   * story_points_min / story_points_max - Rango de puntos de historia (inclusive)
+   * Campos opcionales
+   * Deben ser números enteros mayores o iguales a 0
+   */
+  @IsOptional()
+  @Type(() => Number) // Convierte el string del query parameter a número
+  @IsInt({ message: 'story_points_min debe ser un número entero' })
+  @Min(0, { message: 'story_points_min debe ser mayor o igual a 0' })
+  story_points_min?: number;
+
+  @IsOptional()
+  @Type(() => Number) // Convierte el string del query parameter a número
+  @IsInt({ message: 'story_points_max debe ser un número entero' })
+  @Min(0, { message: 'story_points_max debe ser mayor o igual a 0' })
+  story_points_max?: number;
+
+  /**
+   * created_from / created_to - Rango de fechas de creación (inclusive)
+   * Campos opcionales, en formato ISO 8601
+   */
+  @IsOptional()
+  @IsDateString(
+    {},
+    { message: 'created_from debe ser una fecha válida en formato ISO' },
+  )
+  created_from?: string;
+
+  @IsOptional()
+  @IsDateString(
+    {},
+    { message: 'created_to debe ser una fecha válida en formato ISO' },
+  )
+  created_to?: string;
+
+  /**
+   * updated_from / updated_to - Rango de fechas de última actualización (inclusive)
+   * Campos opcionales, en formato ISO 8601
+   */
+  @IsOptional()
+  @IsDateString(
+    {},
+    { message: 'updated_from debe ser una fecha válida en formato ISO' },
+  )
+  updated_from?: string;
+
+  @IsOptional()
+  @IsDateString(
+    {},
+    { message: 'updated_to debe ser una fecha válida en formato ISO' },
+  )
+  updated_to?: string;
+
+  /**
+   * parent_id - Filtrar las subtareas directas de una tarea
+   * Campo opcional
+   * Si se proporciona, solo se devolverán las tareas cuyo padre sea esa tarea
+   * Debe ser un UUID válido
+   */
+  @IsOptional()
+  @IsUUID('4', { message: 'El ID de la tarea padre debe ser un UUID válido' })
+  parent_id?: string;
+
+  /**
+   * top_level - Filtrar solo las tareas de primer nivel (sin padre)
+   * Campo opcional
+   * Si es true, se excluyen las subtareas del resultado
+   * Se recibe como string en el query parameter ('true' / 'false')
+   */
+  @IsOptional()
+  @Transform(toBoolean) // Convierte el string del query parameter a boolean
+  @IsBoolean({ message: 'top_level debe ser true o false' })
+  top_level?: boolean;
+
+  /**
+   * ready - Filtrar solo las tareas "listas" para trabajar
+   * Campo opcional
+   * Si es true, se excluyen las tareas bloqueadas por alguna tarea sin terminar
+   * Se recibe como string en el query parameter ('true' / 'false')
+   */
+  @IsOptional()
+  @Transform(toBoolean) // Convierte el string del query parameter a boolean
+  @IsBoolean({ message: 'ready debe ser true o false' })
+  ready?: boolean;
+
+  /**
+   * watching - Filtrar las tareas que sigue el usuario autenticado
+   * Campo opcional
+   * Único valor admitido: me
+   */
+  @IsOptional()
+  @IsIn(['me'], { message: 'watching solo admite el valor me' })
+  watching?: 'me';
+
+  /**
+   * sort - Orden del listado
+   * Campo opcional
+   * Lista de campos separados por comas, cada uno con su dirección: campo:asc o campo:desc
+   * Campos permitidos: dueDate, storyPoints, priority, status, name, createdAt, updatedAt
+   * Ej: sort=priority:desc,dueDate:asc
+   * Si no se indica dirección se usa asc
+   * Por defecto se ordena por priority:desc, dueDate:asc (sin fecha al final) y createdAt:desc
+   */
+  @IsOptional()
+  @Transform(toArray) // Convierte el query parameter a array de criterios
+  @Matches(
+    new RegExp(`^(${TASK_SORT_FIELDS.join('|')})(:(asc|desc|ASC|DESC))?$`),
+    {
+      each: true,
+      message:
+        'sort debe tener el formato campo:asc|desc con campos dueDate, storyPoints, priority, status, name, createdAt o updatedAt',
+    },
+  )
+  sort?: string[];
+
   /**
    * limit - Número máximo de tareas a devolver (paginación)
    * Campo opcional
@@ -70,4 +328,26 @@ export class GetTasksDto {
   @IsInt({ message: 'El offset debe ser un número entero' })
   @Min(0, { message: 'El offset debe ser mayor o igual a 0' })
   offset?: number = 0;
+
+  /**
+   * pagination - Modo de paginación del listado
+   * Campo opcional
+   * Valor por defecto: offset (limit/offset, devuelve 'total')
+   * cursor: paginación por cursor, devuelve 'nextCursor' y 'prevCursor' en lugar de 'total'
+   * En modo cursor el listado se ordena por createdAt:desc y no admite 'sort' ni 'q'
+   */
+  @IsOptional()
+  @IsEnum(PaginationMode, {
+    message: 'El modo de paginación debe ser offset o cursor',
+  })
+  pagination?: PaginationMode;
+
+  /**
+   * cursor - Cursor opaco devuelto por una petición anterior (nextCursor o prevCursor)
+   * Campo opcional
+   * Si se proporciona, se usa automáticamente el modo de paginación por cursor
+   */
+  @IsOptional()
+  @IsString({ message: 'El cursor debe ser una cadena de texto' })
+  cursor?: string;
 }
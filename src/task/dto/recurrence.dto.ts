@@ -0,0 +1,103 @@
+// Importa decoradores de validación de class-validator
+import {
+  IsOptional,
+  IsEnum,
+  IsInt,
+  IsString,
+  IsArray,
+  IsDateString,
+  Min,
+  Max,
+} from 'class-validator';
+
+// Importa los enums de la regla de recurrencia
+import { RecurrenceFrequency } from '../enums/recurrence-frequency.enum';
+import { Weekday } from '../enums/weekday.enum';
+
+/**
+ * DTO (Data Transfer Object) con la regla de recurrencia de una tarea
+ * Se usa dentro de CreateTaskDto / UpdateTaskDto (campo recurrence)
+ * La regla se indica con 'frequency' (y sus opciones) o con una regla 'rrule' de iCalendar, no ambas
+ * Ej: { "frequency": "WEEKLY", "weekdays": ["MO", "TH"] }
+ * Ej: { "rrule": "FREQ=MONTHLY;BYMONTHDAY=1;COUNT=12" }
+ */
+export class RecurrenceDto {
+  /**
+   * frequency - Frecuencia de la recurrencia
+   * Campo opcional (obligatorio si no se indica rrule)
+   * Debe ser DAILY, WEEKLY o MONTHLY
+   */
+  @IsOptional()
+  @IsEnum(RecurrenceFrequency, {
+    message: 'La frecuencia debe ser DAILY, WEEKLY o MONTHLY',
+  })
+  frequency?: RecurrenceFrequency;
+
+  /**
+   * interval - Cada cuántos días, semanas o meses se repite la tarea
+   * Campo opcional
+   * Valor por defecto: 1
+   */
+  @IsOptional()
+  @IsInt({ message: 'El intervalo debe ser un número entero' })
+  @Min(1, { message: 'El intervalo debe ser mayor o igual a 1' })
+  interval?: number;
+
+  /**
+   * weekdays - Días de la semana en los que se repite (solo con WEEKLY)
+   * Campo opcional
+   * Valores: SU, MO, TU, WE, TH, FR, SA
+   */
+  @IsOptional()
+  @IsArray({ message: 'Los días de la semana deben ser una lista' })
+  @IsEnum(Weekday, {
+    each: true,
+    message: 'Los días de la semana deben ser SU, MO, TU, WE, TH, FR o SA',
+  })
+  weekdays?: Weekday[];
+
+  /**
+   * monthDay - Día del mes en el que se repite (solo con MONTHLY)
+   * Campo opcional
+   * Entre 1 y 31, o -1 para el último día del mes
+   * Los meses que no tienen ese día se saltan (ej: el día 31 en abril)
+   */
+  @IsOptional()
+  @IsInt({ message: 'El día del mes debe ser un número entero' })
+  @Min(-1, { message: 'El día del mes debe estar entre 1 y 31, o ser -1' })
+  @Max(31, { message: 'El día del mes debe estar entre 1 y 31, o ser -1' })
+  monthDay?: number;
+
+  /**
+   * count - Número total de instancias de la serie (incluida la primera)
+   * Campo opcional
+   * No se puede combinar con until
+   */
+  @IsOptional()
+  @IsInt({ message: 'El número de repeticiones debe ser un número entero' })
+  @Min(1, { message: 'El número de repeticiones debe ser mayor o igual a 1' })
+  count?: number;
+
+  /**
+   * until - Fecha límite de la serie (formato ISO 8601)
+   * Campo opcional
+   * No se generan instancias con fecha de vencimiento posterior
+   * No se puede combinar con count
+   */
+  @IsOptional()
+  @IsDateString(
+    {},
+    { message: 'La fecha límite debe ser una fecha válida en formato ISO' },
+  )
+  until?: string;
+
+  /**
+   * rrule - Regla RRULE de iCalendar (alternativa a frequency)
+   * Campo opcional
+   * Se admiten FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT y UNTIL
+   * Ej: "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR"
+   */
+  @IsOptional()
+  @IsString({ message: 'La regla RRULE debe ser una cadena de texto' })
+  rrule?: string;
+}
@@ -0,0 +1,20 @@
+// Importa decoradores de validación de class-validator
+import { IsArray, IsUUID } from 'class-validator';
+
+/**
+ * DTO (Data Transfer Object) para reordenar la checklist de una tarea
+ * Se usa en PATCH /workspaces/:wid/tasks/:taskId/checklist/order
+ */
+export class ReorderChecklistDto {
+  /**
+   * ids - IDs de todos los pasos de la checklist en el nuevo orden
+   * Campo obligatorio
+   * Debe incluir cada paso de la tarea exactamente una vez
+   */
+  @IsArray({ message: 'ids debe ser una lista de IDs de pasos' })
+  @IsUUID('4', {
+    each: true,
+    message: 'Cada ID de paso debe ser un UUID válido',
+  })
+  ids: string[];
+}
@@ -0,0 +1,32 @@
+// Importa decoradores de validación de class-validator
+import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+// Importa el enum TaskStatus para validar el estado destino
+import { TaskStatus } from '../enums/task-status.enum';
+
+/**
+ * DTO (Data Transfer Object) para ejecutar una transición de estado sobre una tarea
+ * Se usa en POST /workspaces/:wid/tasks/:taskId/transitions
+ */
+export class TransitionTaskDto {
+  /**
+   * to - Estado al que se quiere mover la tarea
+   * Campo obligatorio
+   * Debe ser uno de los valores del enum TaskStatus
+   */
+  @IsNotEmpty({ message: 'El estado destino es obligatorio' })
+  @IsEnum(TaskStatus, {
+    message:
+      'El estado debe ser PENDING, IN_PROGRESS, DONE, BLOCKED, IN_REVIEW o CANCELLED',
+  })
+  to: TaskStatus;
+
+  /**
+   * comment - Comentario que explica el cambio de estado
+   * Campo opcional, pero obligatorio para las transiciones con la guarda REQUIRES_COMMENT
+   * Si se proporciona, se guarda como comentario de la tarea
+   */
+  @IsOptional()
+  @IsString({ message: 'El comentario debe ser una cadena de texto' })
+  comment?: string;
+}
@@ -0,0 +1,47 @@
+import {
+  ArgumentMetadata,
+  BadRequestException,
+  ValidationPipe,
+} from '@nestjs/common';
+import { UpdateTaskDto } from './update-task.dto';
+
+describe('UpdateTaskDto', () => {
+  // Misma configuración que el endpoint PATCH /workspaces/:wid/tasks/:taskId
+  const pipe = new ValidationPipe({ whitelist: true });
+  const metadata: ArgumentMetadata = { type: 'body', metatype: UpdateTaskDto };
+
+  it('should reject a recurrence whose weekdays are not a list', async () => {
+    await expect(
+      pipe.transform({ recurrence: { weekdays: 'MO' } }, metadata),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should reject an unknown priority', async () => {
+    await expect(
+      pipe.transform({ priority: 'SOMEDAY' }, metadata),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should strip the fields that cannot be updated', async () => {
+    const dto = (await pipe.transform(
+      {
+        name: 'Deploy',
+        id: 'other-id',
+        created_by: 'other-user',
+        deletedAt: null,
+      },
+      metadata,
+    )) as Record<string, unknown>;
+
+    expect(dto).toEqual({ name: 'Deploy' });
+  });
+
+  it('should accept null to unassign the task', async () => {
+    const dto = (await pipe.transform(
+      { assigned_to: null },
+      metadata,
+    )) as UpdateTaskDto;
+
+    expect(dto.assigned_to).toBeNull();
+  });
+});
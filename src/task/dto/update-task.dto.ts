@@ -1,4 +1,12 @@
+// Importa PartialType para reutilizar las validaciones de CreateTaskDto con todos los campos opcionales
 import { PartialType } from '@nestjs/mapped-types';
+
+// Importa el DTO de creación de tareas
 import { CreateTaskDto } from './create-task.dto';
 
+/**
+ * UpdateTaskDto: Data Transfer Object para actualizar una tarea
+ * Se usa en PATCH /workspaces/:wid/tasks/:taskId
+ * Tiene los mismos campos y validaciones que CreateTaskDto, todos opcionales
+ */
 export class UpdateTaskDto extends PartialType(CreateTaskDto) {}
@@ -0,0 +1,100 @@
+// Importa decoradores y tipos de TypeORM para definir la entidad
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+
+// Importa la entidad Task para la relación ManyToOne (task_id)
+import { Task } from './task.entity';
+
+// Importa la entidad User para la relación ManyToOne (assigned_to)
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad TaskChecklistItem - Representa un paso de la checklist de una tarea
+ * - id (PK) - Identificador único (UUID)
+ * - task_id (FK) - Tarea a la que pertenece el paso
+ * - text - Descripción del paso
+ * - done - Indica si el paso está hecho
+ * - position - Orden del paso dentro de la checklist (empieza en 0)
+ * - assigned_to (FK) - Usuario responsable del paso (opcional)
+ */
+@Entity('task_checklist_items')
+export class TaskChecklistItem {
+  /**
+   * id - ID único del paso (UUID)
+   * Se genera automáticamente por la base de datos
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Relación ManyToOne con Task
+   * onDelete: 'CASCADE' - Si se elimina la tarea, se eliminan sus pasos
+   */
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task;
+
+  /**
+   * task_id - Clave foránea que referencia a la tabla tasks
+   * Campo obligatorio
+   */
+  @Column({ name: 'task_id' })
+  task_id: string;
+
+  /**
+   * text - Descripción del paso
+   * Tipo: varchar(255) en la base de datos
+   */
+  @Column({ type: 'varchar', length: 255 })
+  text: string;
+
+  /**
+   * done - Indica si el paso está hecho
+   * Valor por defecto: false
+   */
+  @Column({ default: false })
+  done: boolean;
+
+  /**
+   * position - Orden del paso dentro de la checklist
+   * Los pasos se numeran de forma consecutiva desde 0
+   */
+  @Column({ type: 'int' })
+  position: number;
+
+  /**
+   * Relación ManyToOne con User (usuario responsable del paso)
+   * onDelete: 'SET NULL' - Si se elimina el usuario, el paso queda sin asignar
+   */
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'assigned_to' })
+  assignedTo: User;
+
+  /**
+   * assigned_to - Clave foránea que referencia a la tabla users
+   * Campo opcional (puede ser null)
+   */
+  @Column({ nullable: true, name: 'assigned_to' })
+  assigned_to: string;
+
+  /**
+   * Fecha de creación del paso
+   * Se establece automáticamente al crear el registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * Fecha de última actualización del paso
+   * Se actualiza automáticamente cada vez que se modifica
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
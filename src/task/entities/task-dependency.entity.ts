@@ -0,0 +1,86 @@
+// Importa decoradores y tipos de TypeORM para definir la entidad
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+
+// Importa la entidad Task para las relaciones ManyToOne (blocker_id y blocked_id)
+import { Task } from './task.entity';
+
+// Importa la entidad User para la relación ManyToOne (created_by)
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad TaskDependency - Representa un enlace "A bloquea a B" entre dos tareas
+ * - dependency_id (PK) - Identificador único (UUID)
+ * - blocker_id (FK) - Tarea que bloquea (A)
+ * - blocked_id (FK) - Tarea bloqueada (B), no puede avanzar hasta que A termine
+ * - created_by (FK) - Usuario que creó el enlace
+ * No puede haber dos enlaces iguales entre las mismas tareas
+ */
+@Entity('task_dependencies')
+@Unique(['blocker_id', 'blocked_id'])
+export class TaskDependency {
+  /**
+   * dependency_id - ID único del enlace (UUID)
+   * Se genera automáticamente por la base de datos
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Relación ManyToOne con Task (tarea que bloquea)
+   * onDelete: 'CASCADE' - Si se elimina la tarea, se eliminan sus enlaces
+   */
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blocker_id' })
+  blocker: Task;
+
+  /**
+   * blocker_id - Clave foránea que referencia a la tarea que bloquea
+   * Campo obligatorio
+   */
+  @Column({ name: 'blocker_id' })
+  blocker_id: string;
+
+  /**
+   * Relación ManyToOne con Task (tarea bloqueada)
+   * onDelete: 'CASCADE' - Si se elimina la tarea, se eliminan sus enlaces
+   */
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blocked_id' })
+  blocked: Task;
+
+  /**
+   * blocked_id - Clave foránea que referencia a la tarea bloqueada
+   * Campo obligatorio
+   */
+  @Column({ name: 'blocked_id' })
+  blocked_id: string;
+
+  /**
+   * Relación ManyToOne con User (usuario que creó el enlace)
+   */
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'created_by' })
+  createdBy: User;
+
+  /**
+   * created_by - Clave foránea que referencia a la tabla users
+   * Campo obligatorio
+   */
+  @Column({ name: 'created_by' })
+  created_by: string;
+
+  /**
+   * Fecha de creación del enlace
+   * Se establece automáticamente al crear el registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,98 @@
+// Importa decoradores y tipos de TypeORM para definir la entidad
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+
+// Importa la entidad Task para la relación ManyToOne (task_id)
+import { Task } from './task.entity';
+
+// Importa la entidad User para la relación ManyToOne (changed_by)
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad TaskHistory - Representa un cambio registrado sobre un campo de una tarea
+ * Cada fila es una entrada del historial de auditoría (task_history):
+ * - history_id (PK) - Identificador único (UUID)
+ * - task_id (FK) - Referencia a TO-DO (tarea modificada)
+ * - changed_by (FK) - Referencia a USER (usuario que hizo el cambio)
+ * - field - Nombre del campo modificado (status, assigned_to, category_id, dueDate, storyPoints, priority)
+ * - old_value - Valor anterior serializado como texto
+ * - new_value - Valor nuevo serializado como texto
+ * - changed_at - Fecha y hora del cambio
+ */
+@Entity('task_history')
+export class TaskHistory {
+  /**
+   * history_id - ID único de la entrada del historial (UUID)
+   * Se genera automáticamente por la base de datos
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Relación ManyToOne con Task
+   * Una tarea puede tener muchas entradas de historial (1:N)
+   * onDelete: 'CASCADE' - Si se elimina la tarea, se elimina su historial
+   */
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task;
+
+  /**
+   * task_id - Clave foránea que referencia a la tabla tasks
+   * Campo obligatorio
+   */
+  @Column({ name: 'task_id' })
+  task_id: string;
+
+  /**
+   * Relación ManyToOne con User (changed_by)
+   * Un usuario puede realizar muchos cambios (1:N)
+   * Es el actor del cambio, extraído del token JWT (req.user.userId)
+   */
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'changed_by' })
+  changedBy: User;
+
+  /**
+   * changed_by - Clave foránea que referencia a la tabla users
+   * Campo obligatorio
+   */
+  @Column({ name: 'changed_by' })
+  changed_by: string;
+
+  /**
+   * field - Nombre del campo de la tarea que cambió
+   * Tipo: varchar(50) en la base de datos
+   */
+  @Column({ type: 'varchar', length: 50 })
+  field: string;
+
+  /**
+   * old_value - Valor anterior del campo
+   * Se guarda como texto (las fechas en formato ISO)
+   * Puede ser null si el campo no tenía valor
+   */
+  @Column({ type: 'text', nullable: true, name: 'old_value' })
+  oldValue: string | null;
+
+  /**
+   * new_value - Valor nuevo del campo
+   * Se guarda como texto (las fechas en formato ISO)
+   * Puede ser null si el campo se vació
+   */
+  @Column({ type: 'text', nullable: true, name: 'new_value' })
+  newValue: string | null;
+
+  /**
+   * changed_at - Fecha y hora en que se realizó el cambio
+   * Se establece automáticamente al crear la entrada
+   */
+  @CreateDateColumn({ name: 'changed_at' })
+  changedAt: Date;
+}
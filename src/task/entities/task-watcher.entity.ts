@@ -0,0 +1,57 @@
+// Importa decoradores y tipos de TypeORM para definir la entidad
+import {
+  Entity,
+  PrimaryColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+
+// Importa la entidad Task para la relación ManyToOne (task_id)
+import { Task } from './task.entity';
+
+// Importa la entidad User para la relación ManyToOne (user_id)
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad TaskWatcher - Representa a un usuario que sigue los cambios de una tarea
+ * - task_id (PK, FK) - Tarea seguida
+ * - user_id (PK, FK) - Usuario que la sigue
+ * Los seguidores reciben las notificaciones de cambios de estado y de nuevos comentarios
+ */
+@Entity('task_watchers')
+export class TaskWatcher {
+  /**
+   * task_id - Tarea seguida (parte de la clave primaria)
+   */
+  @PrimaryColumn({ name: 'task_id' })
+  task_id: string;
+
+  /**
+   * user_id - Usuario que sigue la tarea (parte de la clave primaria)
+   */
+  @PrimaryColumn({ name: 'user_id' })
+  user_id: string;
+
+  /**
+   * Relación ManyToOne con Task
+   * onDelete: 'CASCADE' - Si se elimina la tarea, se eliminan sus seguidores
+   */
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task;
+
+  /**
+   * Relación ManyToOne con User
+   * onDelete: 'CASCADE' - Si se elimina el usuario, deja de seguir sus tareas
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /**
+   * Fecha desde la que el usuario sigue la tarea
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+}
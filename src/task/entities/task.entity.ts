@@ -5,9 +5,13 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
+  DeleteDateColumn,
   ManyToOne,
   JoinColumn,
   OneToMany,
+  ManyToMany,
+  JoinTable,
+  Index,
 } from 'typeorm';
 
 // Importa la entidad Category para la relación ManyToOne
@@ -19,9 +23,18 @@ import { User } from '../../users/entities/user.entity';
 // Importa el enum TaskStatus para el campo status
 import { TaskStatus } from '../enums/task-status.enum';
 
+// Importa el enum TaskPriority para el campo priority
+import { TaskPriority } from '../enums/task-priority.enum';
+
 // Importa la entidad Comment para la relación OneToMany
 import { Comment } from '../../comments/entities/comment.entity';
 
+// Importa la entidad Label para la relación ManyToMany
+import { Label } from '../../labels/entities/label.entity';
+
+// Importa la entidad Workspace para la relación ManyToOne (workspace_id)
+import { Workspace } from '../../workspaces/entities/workspace.entity';
+
 /**
  * Entidad Task - Representa una tarea (TO-DO) en la base de datos
  * Según el ERD, la entidad TO-DO tiene los siguientes campos:
@@ -34,8 +47,16 @@ import { Comment } from '../../comments/entities/comment.entity';
  * - created_by (FK) - Referencia a USER (usuario que crea la tarea) - Relación 1:N
  * - assigned_to (FK) - Referencia a USER (usuario asignado) - Relación 1:N (opcional)
  * - category_id (FK) - Referencia a CATEGORY - Relación N:1
+ * - parent_id (FK) - Referencia a la tarea padre (subtareas) - Relación N:1 (opcional)
+ * - recurrence_rule - Regla de recurrencia RRULE (opcional)
+ * - previous_occurrence_id (FK) - Referencia a la instancia anterior de la serie (opcional)
+ * - workspace_id (FK) - Referencia al espacio de trabajo al que pertenece la tarea
  */
 @Entity('tasks')
+// Índice GIN para la búsqueda de texto completo sobre search_vector
+// synchronize: false - Lo crea SearchService (TypeORM no soporta índices GIN), así no se elimina al sincronizar
+@Index('IDX_tasks_search_vector', { synchronize: false })
+@Index(['workspace_id'])
 export class Task {
   /**
    * todo_id según ERD - ID único de la tarea (UUID)
@@ -70,6 +91,15 @@ export class Task {
   @Column({ type: 'int', default: 0, name: 'story_points' })
   storyPoints: number;
 
+  /**
+   * original_estimate - Estimación inicial del tiempo de la tarea, en minutos
+   * Campo opcional (puede ser null)
+   * Se compara con el tiempo registrado (time_entries) para ver lo planificado frente a lo real
+   * Se mapea a la columna 'original_estimate' en la base de datos (snake_case)
+   */
+  @Column({ type: 'int', nullable: true, name: 'original_estimate' })
+  originalEstimate: number | null;
+
   /**
    * due_date según ERD - Fecha de vencimiento
    * Tipo: timestamp en la base de datos
@@ -81,7 +111,7 @@ export class Task {
 
   /**
    * status según ERD - Estado de la tarea (ENUM)
-   * Valores posibles: PENDING, IN_PROGRESS, DONE
+   * Valores posibles: PENDING, IN_PROGRESS, DONE, BLOCKED, IN_REVIEW, CANCELLED
    * Valor por defecto: PENDING
    * Se almacena como enum en PostgreSQL
    */
@@ -92,6 +122,37 @@ export class Task {
   })
   status: TaskStatus;
 
+  /**
+   * priority - Prioridad de la tarea (ENUM)
+   * Valores posibles: LOW, MEDIUM, HIGH, URGENT
+   * Valor por defecto: MEDIUM
+   * Se almacena como enum en PostgreSQL, que lo ordena de LOW a URGENT
+   */
+  @Column({
+    type: 'enum',
+    enum: TaskPriority,
+    default: TaskPriority.MEDIUM,
+  })
+  priority: TaskPriority;
+
+  /**
+   * Relación ManyToOne con Workspace
+   * Una tarea pertenece a un espacio de trabajo y solo sus miembros pueden acceder a ella
+   * onDelete: 'CASCADE' - Si se elimina el espacio de trabajo, se eliminan sus tareas
+   */
+  @ManyToOne(() => Workspace, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'workspace_id' })
+  workspace: Workspace;
+
+  /**
+   * workspace_id - Clave foránea que referencia a la tabla workspaces
+   * Se mapea a la columna 'workspace_id' en la base de datos (snake_case)
+   * nullable en la base de datos solo para poder añadir la columna a tablas con datos:
+   * WorkspacesService asigna las tareas existentes a un espacio de trabajo al iniciar
+   */
+  @Column({ nullable: true, name: 'workspace_id' })
+  workspace_id: string;
+
   /**
    * Relación ManyToOne con Category según ERD
    * Una tarea pertenece a una categoría (N:1)
@@ -110,6 +171,20 @@ export class Task {
   @Column({ nullable: true, name: 'category_id' })
   category_id: string;
 
+  /**
+   * Relación ManyToMany con Label
+   * Una tarea puede tener muchas etiquetas y una etiqueta muchas tareas (N:M)
+   * La relación se guarda en la tabla intermedia task_labels (task_id, label_id)
+   * Al eliminar una tarea o una etiqueta se borran sus filas de task_labels
+   */
+  @ManyToMany(() => Label, (label) => label.tasks)
+  @JoinTable({
+    name: 'task_labels',
+    joinColumn: { name: 'task_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'label_id', referencedColumnName: 'id' },
+  })
+  labels: Label[];
+
   /**
    * Relación ManyToOne con User (creada_por) según ERD
    * Un usuario puede crear muchas tareas (1:N)
@@ -146,6 +221,101 @@ export class Task {
   @Column({ nullable: true, name: 'assigned_to' })
   assigned_to: string;
 
+  /**
+   * Relación ManyToOne con Task (tarea padre)
+   * Una tarea puede dividirse en muchas subtareas (1:N)
+   * Es opcional: las tareas de primer nivel no tienen padre
+   * onDelete: 'SET NULL' - Si se elimina el padre, las subtareas no se pierden
+   */
+  @ManyToOne(() => Task, (task) => task.children, {
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'parent_id' })
+  parent: Task;
+
+  /**
+   * parent_id - Clave foránea que referencia a la tarea padre (tabla tasks)
+   * Se mapea a la columna 'parent_id' en la base de datos (snake_case)
+   * Campo opcional (null en las tareas de primer nivel)
+   */
+  @Column({ nullable: true, name: 'parent_id' })
+  parent_id: string;
+
+  /**
+   * Relación OneToMany con Task (subtareas)
+   * Permite acceder a las subtareas directas de una tarea
+   * El segundo parámetro (task) => task.parent especifica el lado inverso de la relación
+   */
+  @OneToMany(() => Task, (task) => task.parent)
+  children: Task[];
+
+  /**
+   * recurrence_rule - Regla de recurrencia de la tarea en formato RRULE de iCalendar
+   * Ej: FREQ=WEEKLY;BYDAY=MO,TH
+   * Campo opcional (null en las tareas que no se repiten)
+   * Se guarda normalizada por TaskRecurrenceService y se copia a cada nueva instancia
+   */
+  @Column({
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    name: 'recurrence_rule',
+  })
+  recurrenceRule: string | null;
+
+  /**
+   * recurrence_index - Número de la instancia dentro de su serie (la primera es 1)
+   * Valor por defecto: 1
+   * Se usa para respetar el límite COUNT de la regla
+   */
+  @Column({ type: 'int', default: 1, name: 'recurrence_index' })
+  recurrenceIndex: number;
+
+  /**
+   * Relación ManyToOne con Task (instancia anterior de la serie)
+   * Es opcional: solo la tienen las instancias generadas automáticamente
+   * onDelete: 'SET NULL' - Si se elimina la instancia anterior, la actual se conserva
+   */
+  @ManyToOne(() => Task, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'previous_occurrence_id' })
+  previousOccurrence: Task;
+
+  /**
+   * previous_occurrence_id - Clave foránea que referencia a la instancia anterior (tabla tasks)
+   * Se mapea a la columna 'previous_occurrence_id' en la base de datos (snake_case)
+   * unique: true - Cada instancia tiene como máximo una instancia siguiente
+   */
+  @Column({ nullable: true, unique: true, name: 'previous_occurrence_id' })
+  previous_occurrence_id: string;
+
+  /**
+   * Puntos de historia acumulados del subárbol
+   * Campo calculado (no se guarda en la base de datos)
+   * En una tarea sin subtareas es igual a sus propios storyPoints
+   */
+  rolledUpStoryPoints?: number;
+
+  /**
+   * Porcentaje de avance (0-100) calculado a partir de las subtareas
+   * Campo calculado (no se guarda en la base de datos)
+   * Se calcula con las subtareas finales (hojas) en estado DONE, sin contar las CANCELLED
+   */
+  completionPercentage?: number;
+
+  /**
+   * Progreso de la checklist de la tarea: pasos hechos y total de pasos
+   * Campo calculado (no se guarda en la base de datos)
+   */
+  checklistProgress?: { done: number; total: number };
+
+  /**
+   * Resumen de las reacciones a la tarea: por emoji, cuántos usuarios reaccionaron
+   * y si el usuario autenticado es uno de ellos
+   * Campo calculado (no se guarda en la base de datos)
+   */
+  reactions?: { emoji: string; count: number; reacted: boolean }[];
+
   /**
    * Fecha de creación del registro
    * Se establece automáticamente al crear la tarea
@@ -162,6 +332,42 @@ export class Task {
   @UpdateDateColumn()
   updatedAt: Date;
 
+  /**
+   * Fecha de eliminación del registro (borrado lógico)
+   * null mientras la tarea no esté en la papelera
+   * TypeORM excluye automáticamente los registros eliminados de las consultas
+   */
+  @DeleteDateColumn()
+  deletedAt: Date | null;
+
+  /**
+   * search_vector - Documento de búsqueda de texto completo (tsvector de PostgreSQL)
+   * Columna generada por la base de datos a partir de name (peso A) y description (peso B)
+   * select: false - No se devuelve en las consultas, solo se usa para filtrar y ordenar por relevancia
+   */
+  @Column({
+    type: 'tsvector',
+    name: 'search_vector',
+    select: false,
+    insert: false,
+    update: false,
+    generatedType: 'STORED',
+    asExpression: `setweight(to_tsvector('spanish', coalesce(name, '')), 'A') || setweight(to_tsvector('spanish', coalesce(description, '')), 'B')`,
+  })
+  searchVector?: string;
+
+  /**
+   * Relevancia de la tarea en una búsqueda de texto completo (parámetro q)
+   * Campo calculado (no se guarda en la base de datos)
+   */
+  searchRank?: number;
+
+  /**
+   * Fragmento del texto de la tarea con los términos buscados resaltados (<mark>)
+   * Campo calculado (no se guarda en la base de datos)
+   */
+  searchSnippet?: string;
+
   /**
    * Relación OneToMany con Comment según ERD
    * Una tarea puede tener muchos comentarios (1:N)
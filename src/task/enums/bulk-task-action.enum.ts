@@ -0,0 +1,34 @@
+/**
+ * Enum BulkTaskAction - Define las acciones que se pueden aplicar en lote a varias tareas
+ * Se usa en POST /workspaces/:wid/tasks/bulk
+ */
+export enum BulkTaskAction {
+  /**
+   * SET_STATUS - Cambia el estado de las tareas (respetando el flujo de trabajo)
+   * Requiere 'status'
+   */
+  SET_STATUS = 'SET_STATUS',
+
+  /**
+   * REASSIGN - Cambia el usuario asignado (null deja las tareas sin asignar)
+   * Requiere 'assigned_to'
+   */
+  REASSIGN = 'REASSIGN',
+
+  /**
+   * CHANGE_CATEGORY - Cambia la categoría (null deja las tareas sin categoría)
+   * Requiere 'category_id'
+   */
+  CHANGE_CATEGORY = 'CHANGE_CATEGORY',
+
+  /**
+   * SHIFT_DUE_DATE - Desplaza la fecha de vencimiento un número de días (positivo o negativo)
+   * Requiere 'shift_days'
+   */
+  SHIFT_DUE_DATE = 'SHIFT_DUE_DATE',
+
+  /**
+   * DELETE - Envía las tareas a la papelera
+   */
+  DELETE = 'DELETE',
+}
@@ -0,0 +1,18 @@
+/**
+ * Enum DependencyType - Define el sentido de un enlace de dependencia visto desde una tarea
+ * - BLOCKS: La tarea actual bloquea a la otra tarea
+ * - BLOCKED_BY: La tarea actual está bloqueada por la otra tarea
+ */
+export enum DependencyType {
+  /**
+   * BLOCKS - La tarea actual bloquea a la otra
+   * La otra tarea no podrá avanzar hasta que la actual termine
+   */
+  BLOCKS = 'BLOCKS',
+
+  /**
+   * BLOCKED_BY - La tarea actual está bloqueada por la otra
+   * La tarea actual no podrá avanzar hasta que la otra termine
+   */
+  BLOCKED_BY = 'BLOCKED_BY',
+}
@@ -0,0 +1,16 @@
+/**
+ * Enum LabelMatch - Define cómo se combinan las etiquetas del filtro de tareas
+ * - ANY: La tarea tiene al menos una de las etiquetas
+ * - ALL: La tarea tiene todas las etiquetas
+ */
+export enum LabelMatch {
+  /**
+   * ANY - Coincide con alguna de las etiquetas (valor por defecto)
+   */
+  ANY = 'any',
+
+  /**
+   * ALL - Coincide con todas las etiquetas
+   */
+  ALL = 'all',
+}
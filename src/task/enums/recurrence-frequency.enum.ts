@@ -0,0 +1,25 @@
+/**
+ * Enum RecurrenceFrequency - Define la frecuencia de una tarea recurrente
+ * Los valores coinciden con el parámetro FREQ de las reglas RRULE de iCalendar
+ * - DAILY: Cada N días
+ * - WEEKLY: Cada N semanas (opcionalmente en unos días de la semana concretos)
+ * - MONTHLY: Cada N meses (opcionalmente en un día del mes concreto)
+ */
+export enum RecurrenceFrequency {
+  /**
+   * DAILY - La tarea se repite cada N días
+   */
+  DAILY = 'DAILY',
+
+  /**
+   * WEEKLY - La tarea se repite cada N semanas
+   * Con weekdays (BYDAY) se repite en esos días de la semana
+   */
+  WEEKLY = 'WEEKLY',
+
+  /**
+   * MONTHLY - La tarea se repite cada N meses
+   * Con monthDay (BYMONTHDAY) se repite ese día del mes (-1 = último día)
+   */
+  MONTHLY = 'MONTHLY',
+}
@@ -0,0 +1,28 @@
+/**
+ * Enum TaskPriority - Define los niveles de prioridad de una tarea
+ * El orden de declaración es el orden de importancia (de menor a mayor):
+ * PostgreSQL ordena las columnas enum según ese orden, por lo que
+ * ORDER BY priority DESC devuelve primero las tareas URGENT
+ */
+export enum TaskPriority {
+  /**
+   * Prioridad LOW - La tarea puede esperar
+   */
+  LOW = 'LOW',
+
+  /**
+   * Prioridad MEDIUM - Prioridad normal
+   * Es la prioridad por defecto cuando se crea una nueva tarea
+   */
+  MEDIUM = 'MEDIUM',
+
+  /**
+   * Prioridad HIGH - La tarea debe atenderse pronto
+   */
+  HIGH = 'HIGH',
+
+  /**
+   * Prioridad URGENT - La tarea debe atenderse de inmediato
+   */
+  URGENT = 'URGENT',
+}
@@ -4,6 +4,11 @@
  * - PENDING: Tarea pendiente (por defecto)
  * - IN_PROGRESS: Tarea en progreso
  * - DONE: Tarea completada
+ * Además del ERD, el flujo de trabajo añade:
+ * - BLOCKED: Tarea bloqueada por un impedimento
+ * - IN_REVIEW: Tarea en revisión
+ * - CANCELLED: Tarea cancelada
+ * Las transiciones permitidas entre estados se definen en workflow/task-workflow.definition.ts
  */
 export enum TaskStatus {
   /**
@@ -23,4 +28,22 @@ export enum TaskStatus {
    * Indica que la tarea ha sido finalizada exitosamente
    */
   DONE = 'DONE',
+
+  /**
+   * Estado BLOCKED - La tarea está bloqueada
+   * Indica que no se puede avanzar hasta resolver un impedimento
+   */
+  BLOCKED = 'BLOCKED',
+
+  /**
+   * Estado IN_REVIEW - La tarea está en revisión
+   * Indica que el trabajo está terminado y pendiente de aprobación
+   */
+  IN_REVIEW = 'IN_REVIEW',
+
+  /**
+   * Estado CANCELLED - La tarea fue cancelada
+   * Indica que la tarea ya no se va a realizar
+   */
+  CANCELLED = 'CANCELLED',
 }
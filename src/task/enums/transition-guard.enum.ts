@@ -0,0 +1,19 @@
+/**
+ * Enum TransitionGuard - Define las condiciones que puede exigir una transición de estado
+ * Cada transición del flujo de trabajo declara qué guardas deben cumplirse para ejecutarla
+ * - REQUIRES_ASSIGNEE: La tarea debe tener un usuario asignado
+ * - REQUIRES_COMMENT: La transición debe ir acompañada de un comentario
+ */
+export enum TransitionGuard {
+  /**
+   * Guarda REQUIRES_ASSIGNEE - La tarea debe estar asignada a un usuario
+   * Ej: no se puede iniciar una tarea que nadie va a trabajar
+   */
+  REQUIRES_ASSIGNEE = 'REQUIRES_ASSIGNEE',
+
+  /**
+   * Guarda REQUIRES_COMMENT - Se debe explicar el motivo del cambio con un comentario
+   * Ej: bloquear o cancelar una tarea requiere indicar por qué
+   */
+  REQUIRES_COMMENT = 'REQUIRES_COMMENT',
+}
@@ -0,0 +1,14 @@
+/**
+ * Enum Weekday - Define los días de la semana de una regla de recurrencia
+ * Los valores coinciden con el parámetro BYDAY de las reglas RRULE de iCalendar
+ * El orden sigue a Date.getUTCDay(): domingo es el primer valor
+ */
+export enum Weekday {
+  SU = 'SU',
+  MO = 'MO',
+  TU = 'TU',
+  WE = 'WE',
+  TH = 'TH',
+  FR = 'FR',
+  SA = 'SA',
+}
@@ -0,0 +1,81 @@
+// Importa decoradores de NestJS
+import { Injectable } from '@nestjs/common';
+
+// Importa decoradores y tipos de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+// Importa la entidad Task
+import { Task } from '../entities/task.entity';
+
+// Importa el contrato de las políticas y el tipo del usuario autenticado
+import { PolicyHandler } from '../../auth/policies/policy-handler.interface';
+import { AuthenticatedUser } from '../../auth/interfaces/authenticated-user.interface';
+
+/**
+ * Mensaje de la respuesta 403 cuando el usuario no puede modificar la tarea
+ */
+export const TASK_EDITOR_FORBIDDEN_MESSAGE =
+  'Solo el creador o el asignado pueden modificar la tarea';
+
+/**
+ * Indica si el usuario puede modificar la tarea: su creador, su asignado o un administrador
+ *
+ * @param task - Tarea (basta con created_by y assigned_to)
+ * @param user - Usuario autenticado (isAdmin: true si es administrador global o del espacio de trabajo)
+ * @returns boolean - true si el usuario puede modificar la tarea
+ */
+export function canEditTask(
+  task: Pick<Task, 'created_by' | 'assigned_to'>,
+  user: Pick<AuthenticatedUser, 'userId'> & { isAdmin?: boolean },
+): boolean {
+  return (
+    user.isAdmin === true ||
+    task.created_by === user.userId ||
+    task.assigned_to === user.userId
+  );
+}
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * TaskEditorPolicy - Solo el creador o el asignado de la tarea (:taskId) pueden modificarla
+ * Se aplica a la edición, las transiciones de estado, el borrado y la restauración
+ * Si la tarea no existe se permite la petición para que el servicio responda con 404
+ */
+export class TaskEditorPolicy implements PolicyHandler {
+  readonly message = TASK_EDITOR_FORBIDDEN_MESSAGE;
+
+  /**
+   * Constructor que recibe el repositorio de Task mediante inyección de dependencias
+   * @param tasksRepository - Repositorio de TypeORM para leer el creador y el asignado
+   */
+  constructor(
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+  ) {}
+
+  /**
+   * Comprueba que el usuario es el creador o el asignado de la tarea
+   * Incluye las tareas de la papelera (para poder restaurarlas)
+   *
+   * @param user - Usuario autenticado
+   * @param params - Parámetros de la URL (id de la tarea)
+   * @returns Promise<boolean> - true si el usuario puede modificar la tarea
+   */
+  async handle(
+    user: AuthenticatedUser,
+    params: Record<string, string>,
+  ): Promise<boolean> {
+    const task = await this.tasksRepository.findOne({
+      select: { id: true, created_by: true, assigned_to: true },
+      where: { id: params.taskId },
+      withDeleted: true,
+    });
+
+    return !task || canEditTask(task, user);
+  }
+}
@@ -0,0 +1,134 @@
+// Importa decoradores y tipos de NestJS para el controlador
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+
+// Importa el servicio de la checklist de tareas
+import { TaskChecklistService } from './task-checklist.service';
+
+// Importa los DTOs de la checklist
+import { CreateChecklistItemDto } from './dto/create-checklist-item.dto';
+import { ReorderChecklistDto } from './dto/reorder-checklist.dto';
+
+// Importa los guards de autenticación, de pertenencia al espacio de trabajo y de roles
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { WorkspaceMemberGuard } from '../workspaces/guards/workspace-member.guard';
+import { RolesGuard } from '../auth/roles/roles.guard';
+
+// Importa el decorador de roles y el enum de roles
+import { Roles } from '../auth/roles/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+
+/**
+ * Decorador que marca esta clase como un controlador de NestJS
+ * Define la ruta base para todos los endpoints: /workspaces/:wid/tasks/:taskId/checklist
+ * La checklist es un recurso anidado dentro de las tareas
+ */
+@Controller('workspaces/:wid/tasks/:taskId/checklist')
+/**
+ * Decorador que protege todas las rutas de este controlador con autenticación JWT
+ * WorkspaceMemberGuard exige ser miembro del espacio de trabajo y que la tarea pertenezca a él
+ */
+@UseGuards(JwtAuthGuard, WorkspaceMemberGuard, RolesGuard)
+
+/**
+ * TaskChecklistController - Controlador que gestiona los pasos de la checklist de una tarea
+ * Todas las rutas requieren autenticación JWT
+ */
+export class TaskChecklistController {
+  /**
+   * Constructor que recibe el servicio de la checklist mediante inyección de dependencias
+   * @param taskChecklistService - Servicio con la lógica de la checklist
+   */
+  constructor(private readonly taskChecklistService: TaskChecklistService) {}
+
+  /**
+   * Endpoint GET /workspaces/:wid/tasks/:taskId/checklist
+   * Obtiene los pasos de la checklist de la tarea en su orden
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @returns Promise<TaskChecklistItem[]> - Pasos de la checklist
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  @Get()
+  findByTask(@Param('taskId') taskId: string) {
+    return this.taskChecklistService.findByTask(taskId);
+  }
+
+  /**
+   * Endpoint POST /workspaces/:wid/tasks/:taskId/checklist
+   * Añade un paso al final de la checklist
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param createChecklistItemDto - Texto del paso y responsable opcional
+   * @returns Promise<TaskChecklistItem> - El paso creado
+   * @throws NotFoundException - Si la tarea o el usuario asignado no existen
+   */
+  @Post()
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UsePipes(new ValidationPipe()) // Valida los datos del DTO antes de procesarlos
+  create(
+    @Param('taskId') taskId: string,
+    @Body() createChecklistItemDto: CreateChecklistItemDto,
+  ) {
+    return this.taskChecklistService.create(taskId, createChecklistItemDto);
+  }
+
+  /**
+   * Endpoint PATCH /workspaces/:wid/tasks/:taskId/checklist/order
+   * Cambia el orden de los pasos de la checklist
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param reorderChecklistDto - IDs de todos los pasos en el nuevo orden
+   * @returns Promise<TaskChecklistItem[]> - Pasos en el nuevo orden
+   * @throws NotFoundException - Si la tarea no existe
+   * @throws BadRequestException - Si la lista no contiene exactamente los pasos de la tarea
+   */
+  @Patch('order')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UsePipes(new ValidationPipe()) // Valida los datos del DTO antes de procesarlos
+  reorder(
+    @Param('taskId') taskId: string,
+    @Body() reorderChecklistDto: ReorderChecklistDto,
+  ) {
+    return this.taskChecklistService.reorder(taskId, reorderChecklistDto);
+  }
+
+  /**
+   * Endpoint PATCH /workspaces/:wid/tasks/:taskId/checklist/:id/toggle
+   * Marca o desmarca un paso de la checklist
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param id - ID del paso (parámetro de la URL)
+   * @returns Promise<TaskChecklistItem> - El paso actualizado
+   * @throws NotFoundException - Si el paso no existe
+   */
+  @Patch(':id/toggle')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  toggle(@Param('taskId') taskId: string, @Param('id') id: string) {
+    return this.taskChecklistService.toggle(taskId, id);
+  }
+
+  /**
+   * Endpoint DELETE /workspaces/:wid/tasks/:taskId/checklist/:id
+   * Elimina un paso de la checklist
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param id - ID del paso (parámetro de la URL)
+   * @throws NotFoundException - Si el paso no existe
+   */
+  @Delete(':id')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  remove(@Param('taskId') taskId: string, @Param('id') id: string) {
+    return this.taskChecklistService.remove(taskId, id);
+  }
+}
@@ -0,0 +1,120 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { TaskChecklistService } from './task-checklist.service';
+import { Task } from './entities/task.entity';
+import { TaskChecklistItem } from './entities/task-checklist-item.entity';
+
+describe('TaskChecklistService', () => {
+  let checklistService: TaskChecklistService;
+  let checklistRepository: {
+    find: jest.Mock;
+    count: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+    createQueryBuilder: jest.Mock;
+    manager: { transaction: jest.Mock };
+  };
+  let update: jest.Mock;
+
+  const items = [
+    { id: 'item-1', position: 0 },
+    { id: 'item-2', position: 1 },
+    { id: 'item-3', position: 2 },
+  ] as TaskChecklistItem[];
+
+  beforeEach(async () => {
+    update = jest.fn();
+    checklistRepository = {
+      find: jest.fn().mockResolvedValue(items),
+      count: jest.fn().mockResolvedValue(3),
+      create: jest.fn((data: Partial<TaskChecklistItem>) => data),
+      save: jest.fn((item: Partial<TaskChecklistItem>) =>
+        Promise.resolve(item),
+      ),
+      createQueryBuilder: jest.fn(),
+      manager: {
+        transaction: jest.fn(
+          (work: (manager: { update: jest.Mock }) => Promise<void>) =>
+            work({ update }),
+        ),
+      },
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskChecklistService,
+        {
+          provide: getRepositoryToken(TaskChecklistItem),
+          useValue: checklistRepository,
+        },
+        {
+          provide: getRepositoryToken(Task),
+          useValue: { exists: jest.fn().mockResolvedValue(true) },
+        },
+      ],
+    }).compile();
+
+    checklistService = app.get<TaskChecklistService>(TaskChecklistService);
+  });
+
+  describe('create', () => {
+    it('should add the step after the last one', async () => {
+      const item = await checklistService.create('task-1', {
+        text: 'Revisar el despliegue',
+      });
+
+      expect(item).toMatchObject({ task_id: 'task-1', position: 3 });
+    });
+  });
+
+  describe('reorder', () => {
+    it('should save the new position of every step', async () => {
+      await checklistService.reorder('task-1', {
+        ids: ['item-3', 'item-1', 'item-2'],
+      });
+
+      expect(update.mock.calls).toEqual([
+        [TaskChecklistItem, { id: 'item-3' }, { position: 0 }],
+        [TaskChecklistItem, { id: 'item-1' }, { position: 1 }],
+        [TaskChecklistItem, { id: 'item-2' }, { position: 2 }],
+      ]);
+    });
+
+    it.each([
+      ['a missing step', ['item-1', 'item-2']],
+      ['a repeated step', ['item-1', 'item-1', 'item-2']],
+      ['a step of another task', ['item-1', 'item-2', 'item-9']],
+    ])('should reject a list with %s', async (_, ids) => {
+      await expect(
+        checklistService.reorder('task-1', { ids }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loadProgress', () => {
+    it('should count the steps done of each task', async () => {
+      const queryBuilder = {
+        select: jest.fn(),
+        addSelect: jest.fn(),
+        where: jest.fn(),
+        groupBy: jest.fn(),
+        getRawMany: jest
+          .fn()
+          .mockResolvedValue([{ task_id: 'task-1', done: '2', total: '3' }]),
+      };
+      queryBuilder.select.mockReturnValue(queryBuilder);
+      queryBuilder.addSelect.mockReturnValue(queryBuilder);
+      queryBuilder.where.mockReturnValue(queryBuilder);
+      queryBuilder.groupBy.mockReturnValue(queryBuilder);
+      checklistRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      const tasks = [{ id: 'task-1' }, { id: 'task-2' }] as Task[];
+      await checklistService.loadProgress(tasks);
+
+      expect(tasks[0].checklistProgress).toEqual({ done: 2, total: 3 });
+      expect(tasks[1].checklistProgress).toEqual({ done: 0, total: 0 });
+    });
+  });
+});
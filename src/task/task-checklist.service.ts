@@ -0,0 +1,243 @@
+// Importa decoradores y excepciones de NestJS
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+
+// Importa decoradores y tipos de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+// Importa las entidades Task y TaskChecklistItem
+import { Task } from './entities/task.entity';
+import { TaskChecklistItem } from './entities/task-checklist-item.entity';
+
+// Importa la entidad User para validar el responsable del paso
+import { User } from '../users/entities/user.entity';
+
+// Importa los DTOs de la checklist
+import { CreateChecklistItemDto } from './dto/create-checklist-item.dto';
+import { ReorderChecklistDto } from './dto/reorder-checklist.dto';
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * TaskChecklistService - Servicio que gestiona la checklist de pasos de una tarea
+ * Los pasos se mantienen numerados de forma consecutiva (position 0, 1, 2, ...)
+ */
+export class TaskChecklistService {
+  /**
+   * Constructor que recibe los repositorios mediante inyección de dependencias
+   * @param checklistRepository - Repositorio de TypeORM para la tabla task_checklist_items
+   * @param tasksRepository - Repositorio de Task para validar que la tarea existe
+   */
+  constructor(
+    @InjectRepository(TaskChecklistItem)
+    private checklistRepository: Repository<TaskChecklistItem>,
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+  ) {}
+
+  /**
+   * Obtiene los pasos de la checklist de una tarea en su orden
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @returns Promise<TaskChecklistItem[]> - Pasos de la checklist con su responsable
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  async findByTask(taskId: string): Promise<TaskChecklistItem[]> {
+    await this.assertTaskExists(taskId);
+
+    return await this.checklistRepository.find({
+      where: { task_id: taskId },
+      relations: ['assignedTo'],
+      order: { position: 'ASC' },
+    });
+  }
+
+  /**
+   * Añade un paso al final de la checklist de una tarea
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @param createChecklistItemDto - Texto del paso y responsable opcional
+   * @returns Promise<TaskChecklistItem> - El paso creado
+   * @throws NotFoundException - Si la tarea o el usuario asignado no existen
+   */
+  async create(
+    taskId: string,
+    createChecklistItemDto: CreateChecklistItemDto,
+  ): Promise<TaskChecklistItem> {
+    await this.assertTaskExists(taskId);
+
+    // Verificar que el responsable existe
+    if (
+      createChecklistItemDto.assigned_to &&
+      !(await this.checklistRepository.manager.existsBy(User, {
+        id: createChecklistItemDto.assigned_to,
+      }))
+    ) {
+      throw new NotFoundException('Usuario asignado no encontrado');
+    }
+
+    // El nuevo paso va después del último
+    const position = await this.checklistRepository.count({
+      where: { task_id: taskId },
+    });
+
+    const item = this.checklistRepository.create({
+      task_id: taskId,
+      text: createChecklistItemDto.text,
+      assigned_to: createChecklistItemDto.assigned_to,
+      position,
+    });
+
+    return await this.checklistRepository.save(item);
+  }
+
+  /**
+   * Marca o desmarca un paso de la checklist (invierte 'done')
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @param id - ID del paso (UUID)
+   * @returns Promise<TaskChecklistItem> - El paso actualizado
+   * @throws NotFoundException - Si el paso no existe o no pertenece a la tarea
+   */
+  async toggle(taskId: string, id: string): Promise<TaskChecklistItem> {
+    const item = await this.findItem(taskId, id);
+
+    item.done = !item.done;
+
+    return await this.checklistRepository.save(item);
+  }
+
+  /**
+   * Cambia el orden de los pasos de la checklist
+   * Se debe enviar la lista completa de pasos en el nuevo orden
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @param reorderChecklistDto - IDs de todos los pasos en el nuevo orden
+   * @returns Promise<TaskChecklistItem[]> - Pasos de la checklist en el nuevo orden
+   * @throws NotFoundException - Si la tarea no existe
+   * @throws BadRequestException - Si la lista no contiene exactamente los pasos de la tarea
+   */
+  async reorder(
+    taskId: string,
+    reorderChecklistDto: ReorderChecklistDto,
+  ): Promise<TaskChecklistItem[]> {
+    const items = await this.findByTask(taskId);
+    const ids = reorderChecklistDto.ids;
+
+    // La lista debe ser una permutación de los pasos actuales
+    const sameItems =
+      ids.length === items.length &&
+      new Set(ids).size === ids.length &&
+      items.every((item) => ids.includes(item.id));
+    if (!sameItems) {
+      throw new BadRequestException(
+        'ids debe incluir cada paso de la checklist exactamente una vez',
+      );
+    }
+
+    // Guardar todas las posiciones en una sola transacción
+    await this.checklistRepository.manager.transaction(async (manager) => {
+      for (const [position, id] of ids.entries()) {
+        await manager.update(TaskChecklistItem, { id }, { position });
+      }
+    });
+
+    return this.findByTask(taskId);
+  }
+
+  /**
+   * Elimina un paso de la checklist y renumera los siguientes
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @param id - ID del paso (UUID)
+   * @throws NotFoundException - Si el paso no existe o no pertenece a la tarea
+   */
+  async remove(taskId: string, id: string): Promise<void> {
+    const item = await this.findItem(taskId, id);
+
+    await this.checklistRepository.manager.transaction(async (manager) => {
+      await manager.remove(item);
+
+      // Cerrar el hueco que deja el paso eliminado
+      await manager
+        .createQueryBuilder()
+        .update(TaskChecklistItem)
+        .set({ position: () => 'position - 1' })
+        .where('task_id = :taskId AND position > :position', {
+          taskId,
+          position: item.position,
+        })
+        .execute();
+    });
+  }
+
+  /**
+   * Calcula el progreso de la checklist (pasos hechos / total) de varias tareas
+   * Usa una sola consulta agrupada y asigna el resultado a 'checklistProgress'
+   *
+   * @param tasks - Tareas a las que calcular el progreso
+   */
+  async loadProgress(tasks: Task[]): Promise<void> {
+    if (tasks.length === 0) {
+      return;
+    }
+
+    const rows: { task_id: string; done: string; total: string }[] =
+      await this.checklistRepository
+        .createQueryBuilder('item')
+        .select('item.task_id', 'task_id')
+        .addSelect('COUNT(*) FILTER (WHERE item.done)', 'done')
+        .addSelect('COUNT(*)', 'total')
+        .where('item.task_id IN (:...taskIds)', {
+          taskIds: tasks.map((task) => task.id),
+        })
+        .groupBy('item.task_id')
+        .getRawMany();
+
+    // PostgreSQL devuelve COUNT como texto: convertir a número
+    for (const task of tasks) {
+      const row = rows.find((result) => result.task_id === task.id);
+      task.checklistProgress = {
+        done: Number(row?.done ?? 0),
+        total: Number(row?.total ?? 0),
+      };
+    }
+  }
+
+  /**
+   * Busca un paso asegurando que pertenezca a la tarea
+   * @throws NotFoundException - Si el paso no existe o no pertenece a la tarea
+   */
+  private async findItem(
+    taskId: string,
+    id: string,
+  ): Promise<TaskChecklistItem> {
+    const item = await this.checklistRepository.findOne({
+      where: { id, task_id: taskId },
+    });
+
+    if (!item) {
+      throw new NotFoundException('Paso de la checklist no encontrado');
+    }
+
+    return item;
+  }
+
+  /**
+   * Verifica que una tarea exista
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  private async assertTaskExists(taskId: string): Promise<void> {
+    const exists = await this.tasksRepository.exists({ where: { id: taskId } });
+    if (!exists) {
+      throw new NotFoundException('Tarea no encontrada');
+    }
+  }
+}
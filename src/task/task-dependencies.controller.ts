@@ -0,0 +1,118 @@
+// Importa decoradores y tipos de NestJS para el controlador
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+
+// Importa el servicio de dependencias entre tareas
+import { TaskDependenciesService } from './task-dependencies.service';
+
+// Importa el DTO para crear enlaces de dependencia
+import { CreateTaskDependencyDto } from './dto/create-task-dependency.dto';
+
+// Importa los guards de autenticación, de pertenencia al espacio de trabajo y de roles
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { WorkspaceMemberGuard } from '../workspaces/guards/workspace-member.guard';
+import { RolesGuard } from '../auth/roles/roles.guard';
+
+// Importa el decorador de roles y el enum de roles
+import { Roles } from '../auth/roles/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+
+// Importa el tipo de la petición autenticada (req.user y req.workspaceRole)
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+
+/**
+ * Decorador que marca esta clase como un controlador de NestJS
+ * Define la ruta base para todos los endpoints: /workspaces/:wid/tasks/:taskId/dependencies
+ * Las dependencias son un recurso anidado dentro de las tareas
+ */
+@Controller('workspaces/:wid/tasks/:taskId/dependencies')
+/**
+ * Decorador que protege todas las rutas de este controlador con autenticación JWT
+ * WorkspaceMemberGuard exige ser miembro del espacio de trabajo y que la tarea pertenezca a él
+ */
+@UseGuards(JwtAuthGuard, WorkspaceMemberGuard, RolesGuard)
+
+/**
+ * TaskDependenciesController - Controlador que gestiona los enlaces "bloquea a / bloqueada por"
+ * Todas las rutas requieren autenticación JWT
+ */
+export class TaskDependenciesController {
+  /**
+   * Constructor que recibe el servicio de dependencias mediante inyección de dependencias
+   * @param taskDependenciesService - Servicio con la lógica de los enlaces entre tareas
+   */
+  constructor(
+    private readonly taskDependenciesService: TaskDependenciesService,
+  ) {}
+
+  /**
+   * Endpoint POST /workspaces/:wid/tasks/:taskId/dependencies
+   * Crea un enlace de dependencia entre la tarea y otra tarea
+   * Rechaza los enlaces que generan ciclos
+   *
+   * @param workspaceId - ID del espacio de trabajo (parámetro de la URL)
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param createTaskDependencyDto - Sentido del enlace (BLOCKS / BLOCKED_BY) e ID de la otra tarea
+   * @param req - Objeto Request de Express que contiene información del usuario autenticado
+   * @returns Promise<TaskDependency> - El enlace creado
+   * @throws NotFoundException - Si la otra tarea no existe en el espacio de trabajo
+   * @throws ConflictException - Si el enlace ya existe
+   * @throws UnprocessableEntityException - Si el enlace genera un ciclo
+   */
+  @Post()
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UsePipes(new ValidationPipe()) // Valida los datos del DTO antes de procesarlos
+  create(
+    @Param('wid') workspaceId: string,
+    @Param('taskId') taskId: string,
+    @Body() createTaskDependencyDto: CreateTaskDependencyDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Extraer userId del token JWT para registrar quién creó el enlace
+    const userId = req.user.userId;
+
+    return this.taskDependenciesService.create(
+      taskId,
+      createTaskDependencyDto,
+      userId,
+      workspaceId,
+    );
+  }
+
+  /**
+   * Endpoint GET /workspaces/:wid/tasks/:taskId/dependencies
+   * Obtiene las tareas que esta tarea bloquea y las que la bloquean
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @returns Enlaces agrupados en 'blocks' y 'blockedBy'
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  @Get()
+  findByTask(@Param('taskId') taskId: string) {
+    return this.taskDependenciesService.findByTask(taskId);
+  }
+
+  /**
+   * Endpoint DELETE /workspaces/:wid/tasks/:taskId/dependencies/:id
+   * Elimina un enlace de dependencia de la tarea
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param id - ID del enlace a eliminar (parámetro de la URL)
+   * @throws NotFoundException - Si el enlace no existe
+   */
+  @Delete(':id')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  remove(@Param('taskId') taskId: string, @Param('id') id: string) {
+    return this.taskDependenciesService.remove(taskId, id);
+  }
+}
@@ -0,0 +1,244 @@
+// Importa decoradores y excepciones de NestJS
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+
+// Importa decoradores y tipos de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Not, Repository } from 'typeorm';
+
+// Importa las entidades Task y TaskDependency
+import { Task } from './entities/task.entity';
+import { TaskDependency } from './entities/task-dependency.entity';
+
+// Importa el DTO para crear enlaces de dependencia
+import { CreateTaskDependencyDto } from './dto/create-task-dependency.dto';
+
+// Importa los enums necesarios
+import { DependencyType } from './enums/dependency-type.enum';
+import { TaskStatus } from './enums/task-status.enum';
+
+/**
+ * Estados que se consideran "terminados": una tarea en estos estados ya no bloquea a nadie
+ */
+export const FINISHED_STATUSES = [TaskStatus.DONE, TaskStatus.CANCELLED];
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * TaskDependenciesService - Servicio que gestiona los enlaces "A bloquea a B" entre tareas
+ * Detecta ciclos al crear enlaces y permite saber si una tarea tiene bloqueos sin terminar
+ */
+export class TaskDependenciesService {
+  /**
+   * Constructor que recibe los repositorios mediante inyección de dependencias
+   * @param dependenciesRepository - Repositorio de TypeORM para la tabla task_dependencies
+   * @param tasksRepository - Repositorio de Task para validar que las tareas existen
+   */
+  constructor(
+    @InjectRepository(TaskDependency)
+    private dependenciesRepository: Repository<TaskDependency>,
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+  ) {}
+
+  /**
+   * Crea un enlace de dependencia entre la tarea de la URL y otra tarea
+   * Proceso:
+   * 1. Verifica que ambas tareas existan en el espacio de trabajo y que no sean la misma
+   * 2. Verifica que el enlace no exista ya
+   * 3. Verifica que el enlace no genere un ciclo (A bloquea a B y B bloquea a A)
+   * 4. Guarda el enlace
+   *
+   * @param taskId - ID de la tarea de la URL (UUID)
+   * @param createTaskDependencyDto - Sentido del enlace y ID de la otra tarea
+   * @param userId - ID del usuario que crea el enlace (extraído del token JWT)
+   * @param workspaceId - ID del espacio de trabajo activo (no se enlazan tareas de distintos espacios)
+   * @returns Promise<TaskDependency> - El enlace creado
+   * @throws NotFoundException - Si alguna de las tareas no existe en el espacio de trabajo
+   * @throws ConflictException - Si el enlace ya existe
+   * @throws UnprocessableEntityException - Si el enlace es sobre la misma tarea o genera un ciclo
+   */
+  async create(
+    taskId: string,
+    createTaskDependencyDto: CreateTaskDependencyDto,
+    userId: string,
+    workspaceId: string,
+  ): Promise<TaskDependency> {
+    // Verificar que ambas tareas existen en el espacio de trabajo
+    await this.assertTaskExists(taskId, workspaceId);
+    await this.assertTaskExists(createTaskDependencyDto.task_id, workspaceId);
+
+    // Determinar qué tarea bloquea y cuál queda bloqueada según el sentido del enlace
+    const [blockerId, blockedId] =
+      createTaskDependencyDto.type === DependencyType.BLOCKS
+        ? [taskId, createTaskDependencyDto.task_id]
+        : [createTaskDependencyDto.task_id, taskId];
+
+    // Una tarea no puede bloquearse a sí misma
+    if (blockerId === blockedId) {
+      throw new UnprocessableEntityException(
+        'Una tarea no puede depender de sí misma',
+      );
+    }
+
+    // Verificar que el enlace no exista ya
+    const existing = await this.dependenciesRepository.findOne({
+      where: { blocker_id: blockerId, blocked_id: blockedId },
+    });
+    if (existing) {
+      throw new ConflictException('La dependencia ya existe');
+    }
+
+    // Verificar que el nuevo enlace no cierre un ciclo
+    if (await this.createsCycle(blockerId, blockedId)) {
+      throw new UnprocessableEntityException(
+        'La dependencia genera un ciclo entre tareas',
+      );
+    }
+
+    // Crear y guardar el enlace
+    const dependency = this.dependenciesRepository.create({
+      blocker_id: blockerId,
+      blocked_id: blockedId,
+      created_by: userId,
+    });
+
+    return await this.dependenciesRepository.save(dependency);
+  }
+
+  /**
+   * Obtiene los enlaces de dependencia de una tarea en ambos sentidos
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @returns Enlaces donde la tarea bloquea a otras (blocks) y donde está bloqueada (blockedBy)
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  async findByTask(
+    taskId: string,
+  ): Promise<{ blocks: TaskDependency[]; blockedBy: TaskDependency[] }> {
+    // Verificar que la tarea existe
+    await this.assertTaskExists(taskId);
+
+    // Tareas bloqueadas por esta tarea (se carga la tarea bloqueada)
+    const blocks = await this.dependenciesRepository.find({
+      where: { blocker_id: taskId },
+      relations: ['blocked'],
+      order: { createdAt: 'ASC' },
+    });
+
+    // Tareas que bloquean a esta tarea (se carga la tarea que bloquea)
+    const blockedBy = await this.dependenciesRepository.find({
+      where: { blocked_id: taskId },
+      relations: ['blocker'],
+      order: { createdAt: 'ASC' },
+    });
+
+    // Omitir los enlaces con tareas que están en la papelera
+    return {
+      blocks: blocks.filter((link) => link.blocked),
+      blockedBy: blockedBy.filter((link) => link.blocker),
+    };
+  }
+
+  /**
+   * Elimina un enlace de dependencia de una tarea
+   *
+   * @param taskId - ID de la tarea de la URL (UUID)
+   * @param id - ID del enlace a eliminar (UUID)
+   * @throws NotFoundException - Si el enlace no existe o no pertenece a la tarea
+   */
+  async remove(taskId: string, id: string): Promise<void> {
+    // Buscar el enlace asegurando que la tarea sea uno de sus extremos
+    const dependency = await this.dependenciesRepository.findOne({
+      where: [
+        { id, blocker_id: taskId },
+        { id, blocked_id: taskId },
+      ],
+    });
+
+    if (!dependency) {
+      throw new NotFoundException('Dependencia no encontrada');
+    }
+
+    await this.dependenciesRepository.remove(dependency);
+  }
+
+  /**
+   * Cuenta las tareas sin terminar (ni DONE ni CANCELLED) que bloquean a una tarea
+   *
+   * @param taskId - ID de la tarea bloqueada (UUID)
+   * @param manager - EntityManager de la transacción en curso (opcional)
+   * @returns Promise<number> - Número de bloqueos pendientes
+   */
+  async countUnfinishedBlockers(
+    taskId: string,
+    manager?: EntityManager,
+  ): Promise<number> {
+    const dependenciesRepository = manager
+      ? manager.getRepository(TaskDependency)
+      : this.dependenciesRepository;
+
+    return await dependenciesRepository.count({
+      where: {
+        blocked_id: taskId,
+        blocker: { status: Not(In(FINISHED_STATUSES)) },
+      },
+      relations: ['blocker'],
+    });
+  }
+
+  /**
+   * Indica si el enlace blocker -> blocked cerraría un ciclo
+   * Hay ciclo si 'blocked' ya bloquea (directa o indirectamente) a 'blocker'
+   * Recorre el grafo en anchura siguiendo los enlaces "bloquea a" desde 'blocked'
+   */
+  private async createsCycle(
+    blockerId: string,
+    blockedId: string,
+  ): Promise<boolean> {
+    const visited = new Set<string>();
+    let frontier = [blockedId];
+
+    while (frontier.length > 0) {
+      // Si se alcanza la tarea que bloquea, el nuevo enlace cerraría el ciclo
+      if (frontier.includes(blockerId)) {
+        return true;
+      }
+      frontier.forEach((id) => visited.add(id));
+
+      // Avanzar un nivel: tareas bloqueadas por las del nivel actual
+      const links = await this.dependenciesRepository.find({
+        where: { blocker_id: In(frontier) },
+        select: ['blocked_id'],
+      });
+      frontier = [...new Set(links.map((link) => link.blocked_id))].filter(
+        (id) => !visited.has(id),
+      );
+    }
+
+    return false;
+  }
+
+  /**
+   * Verifica que una tarea exista (en el espacio de trabajo, si se indica)
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  private async assertTaskExists(
+    id: string,
+    workspaceId?: string,
+  ): Promise<void> {
+    const exists = await this.tasksRepository.exists({
+      where: { id, workspace_id: workspaceId },
+    });
+    if (!exists) {
+      throw new NotFoundException('Tarea no encontrada');
+    }
+  }
+}
@@ -0,0 +1,140 @@
+// Importa decoradores de NestJS
+import { Injectable } from '@nestjs/common';
+
+// Importa decoradores y tipos de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+
+// Importa las entidades Task y TaskHistory
+import { Task } from './entities/task.entity';
+import { TaskHistory } from './entities/task-history.entity';
+
+/**
+ * Campos de la tarea que se auditan en el historial
+ * Solo los cambios en estos campos generan entradas en task_history
+ */
+export const TRACKED_TASK_FIELDS = [
+  'status',
+  'assigned_to',
+  'category_id',
+  'dueDate',
+  'storyPoints',
+  'priority',
+] as const;
+
+/**
+ * Tipo que representa el estado de los campos auditados en un momento dado
+ * Cada valor se serializa como texto para poder compararlo y guardarlo
+ */
+export type TaskSnapshot = Record<
+  (typeof TRACKED_TASK_FIELDS)[number],
+  string | null
+>;
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * TaskHistoryService - Servicio que registra y consulta el historial de cambios de las tareas
+ * Guarda una entrada por cada campo modificado con actor, fecha, valor anterior y valor nuevo
+ */
+export class TaskHistoryService {
+  /**
+   * Constructor que recibe el repositorio de TaskHistory mediante inyección de dependencias
+   * @param historyRepository - Repositorio de TypeORM para la tabla task_history
+   */
+  constructor(
+    @InjectRepository(TaskHistory)
+    private historyRepository: Repository<TaskHistory>,
+  ) {}
+
+  /**
+   * Toma una "foto" de los campos auditados de una tarea
+   * Se debe llamar ANTES de aplicar los cambios para conservar los valores anteriores
+   *
+   * @param task - Tarea de la cual tomar los valores
+   * @returns TaskSnapshot - Valores actuales serializados como texto
+   */
+  snapshot(task: Task): TaskSnapshot {
+    const snapshot = {} as TaskSnapshot;
+    for (const field of TRACKED_TASK_FIELDS) {
+      snapshot[field] = this.serialize(task[field]);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Compara la foto anterior con el estado actual de la tarea y guarda una entrada por cada campo modificado
+   *
+   * @param before - Foto de los campos auditados antes del cambio
+   * @param task - Tarea con los cambios ya aplicados
+   * @param userId - ID del usuario que realizó el cambio (extraído del token JWT)
+   * @param manager - EntityManager de la transacción en curso (opcional)
+   * @returns Promise<TaskHistory[]> - Entradas de historial creadas (vacío si no hubo cambios)
+   */
+  async recordChanges(
+    before: TaskSnapshot,
+    task: Task,
+    userId: string,
+    manager?: EntityManager,
+  ): Promise<TaskHistory[]> {
+    const historyRepository = manager
+      ? manager.getRepository(TaskHistory)
+      : this.historyRepository;
+    const after = this.snapshot(task);
+
+    // Crear una entrada por cada campo cuyo valor haya cambiado
+    const entries = TRACKED_TASK_FIELDS.filter(
+      (field) => before[field] !== after[field],
+    ).map((field) =>
+      historyRepository.create({
+        task_id: task.id,
+        changed_by: userId,
+        field,
+        oldValue: before[field],
+        newValue: after[field],
+      }),
+    );
+
+    // Si no hubo cambios en los campos auditados, no se guarda nada
+    if (entries.length === 0) {
+      return [];
+    }
+
+    return await historyRepository.save(entries);
+  }
+
+  /**
+   * Obtiene el historial de cambios de una tarea
+   * Las entradas se ordenan por fecha ascendente (cambios más antiguos primero)
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @returns Promise<TaskHistory[]> - Lista de cambios con información del actor
+   */
+  async findByTask(taskId: string): Promise<TaskHistory[]> {
+    return await this.historyRepository.find({
+      where: { task_id: taskId },
+      // Cargar el usuario que realizó cada cambio
+      relations: ['changedBy'],
+      order: { changedAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Convierte el valor de un campo a texto para compararlo y guardarlo
+   * Las fechas se guardan en formato ISO, null/undefined como null
+   */
+  private serialize(
+    value: string | number | Date | null | undefined,
+  ): string | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    return String(value);
+  }
+}
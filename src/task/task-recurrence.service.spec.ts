@@ -0,0 +1,183 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { TaskRecurrenceService } from './task-recurrence.service';
+import { TaskWatchersService } from './task-watchers.service';
+import { Task } from './entities/task.entity';
+import { RecurrenceFrequency } from './enums/recurrence-frequency.enum';
+import { Weekday } from './enums/weekday.enum';
+
+describe('TaskRecurrenceService', () => {
+  let recurrenceService: TaskRecurrenceService;
+  let tasksRepository: {
+    findOne: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+  };
+  let taskWatchersService: { addWatchers: jest.Mock };
+
+  beforeEach(async () => {
+    tasksRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn((data: Partial<Task>) => data),
+      save: jest.fn((task: Partial<Task>) =>
+        Promise.resolve({ ...task, id: 'task-2' }),
+      ),
+    };
+    taskWatchersService = { addWatchers: jest.fn() };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskRecurrenceService,
+        { provide: getRepositoryToken(Task), useValue: tasksRepository },
+        { provide: TaskWatchersService, useValue: taskWatchersService },
+      ],
+    }).compile();
+
+    recurrenceService = app.get<TaskRecurrenceService>(TaskRecurrenceService);
+  });
+
+  describe('buildRule', () => {
+    it('should normalize the frequency options to an RRULE', () => {
+      expect(
+        recurrenceService.buildRule({
+          frequency: RecurrenceFrequency.WEEKLY,
+          weekdays: [Weekday.TH, Weekday.MO],
+        }),
+      ).toBe('FREQ=WEEKLY;BYDAY=MO,TH');
+    });
+
+    it('should accept an RRULE with its prefix', () => {
+      expect(
+        recurrenceService.buildRule({
+          rrule: 'RRULE:freq=monthly;bymonthday=-1;count=12',
+        }),
+      ).toBe('FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=12');
+    });
+
+    it('should reject unsupported RRULE properties', () => {
+      expect(() =>
+        recurrenceService.buildRule({ rrule: 'FREQ=MONTHLY;BYSETPOS=-1' }),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('nextOccurrence', () => {
+    it('should move to the next weekday of the rule', () => {
+      const rule = recurrenceService.parseRule('FREQ=WEEKLY;BYDAY=MO,TH');
+
+      // Lunes 2026-10-19 -> jueves 2026-10-22 -> lunes 2026-10-26
+      const thursday = recurrenceService.nextOccurrence(
+        rule,
+        new Date('2026-10-19T09:00:00Z'),
+      );
+      expect(thursday).toEqual(new Date('2026-10-22T09:00:00Z'));
+      expect(recurrenceService.nextOccurrence(rule, thursday!)).toEqual(
+        new Date('2026-10-26T09:00:00Z'),
+      );
+    });
+
+    it('should skip the weeks outside the interval', () => {
+      const rule = recurrenceService.parseRule(
+        'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO',
+      );
+
+      expect(
+        recurrenceService.nextOccurrence(
+          rule,
+          new Date('2026-10-19T09:00:00Z'),
+        ),
+      ).toEqual(new Date('2026-11-02T09:00:00Z'));
+    });
+
+    it('should use the last day of the month and skip missing days', () => {
+      const lastDay = recurrenceService.parseRule('FREQ=MONTHLY;BYMONTHDAY=-1');
+      expect(
+        recurrenceService.nextOccurrence(
+          lastDay,
+          new Date('2026-01-31T00:00:00Z'),
+        ),
+      ).toEqual(new Date('2026-02-28T00:00:00Z'));
+
+      const thirtyFirst = recurrenceService.parseRule(
+        'FREQ=MONTHLY;BYMONTHDAY=31',
+      );
+      expect(
+        recurrenceService.nextOccurrence(
+          thirtyFirst,
+          new Date('2026-03-31T00:00:00Z'),
+        ),
+      ).toEqual(new Date('2026-05-31T00:00:00Z'));
+    });
+
+    it('should end the series after UNTIL', () => {
+      const rule = recurrenceService.parseRule('FREQ=DAILY;UNTIL=20261020');
+
+      expect(
+        recurrenceService.nextOccurrence(
+          rule,
+          new Date('2026-10-20T09:00:00Z'),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('generateNext', () => {
+    const task = {
+      id: 'task-1',
+      name: 'Informe semanal',
+      workspace_id: 'workspace-1',
+      category_id: 'category-1',
+      assigned_to: 'user-b',
+      created_by: 'user-a',
+      dueDate: new Date('2026-10-19T09:00:00Z'),
+      recurrenceRule: 'FREQ=WEEKLY',
+      recurrenceIndex: 1,
+    } as Task;
+
+    it('should create the next instance of the series', async () => {
+      const created = await recurrenceService.generateNext(task);
+
+      expect(created).toMatchObject({
+        id: 'task-2',
+        name: 'Informe semanal',
+        workspace_id: 'workspace-1',
+        assigned_to: 'user-b',
+        dueDate: new Date('2026-10-26T09:00:00Z'),
+        recurrenceRule: 'FREQ=WEEKLY',
+        recurrenceIndex: 2,
+        previous_occurrence_id: 'task-1',
+      });
+      expect(taskWatchersService.addWatchers).toHaveBeenCalledWith(
+        'task-2',
+        ['user-a', 'user-b'],
+        undefined,
+      );
+    });
+
+    it('should not create a second next instance', async () => {
+      tasksRepository.findOne.mockResolvedValue({ id: 'task-2' });
+
+      await expect(recurrenceService.generateNext(task)).resolves.toBeNull();
+      expect(tasksRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should stop once the series reaches COUNT', async () => {
+      const last = {
+        ...task,
+        recurrenceRule: 'FREQ=WEEKLY;COUNT=3',
+        recurrenceIndex: 3,
+      } as Task;
+
+      await expect(recurrenceService.generateNext(last)).resolves.toBeNull();
+      expect(tasksRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should ignore tasks that do not repeat', async () => {
+      await expect(
+        recurrenceService.generateNext({ ...task, recurrenceRule: null }),
+      ).resolves.toBeNull();
+      expect(tasksRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,497 @@
+// Importa decoradores y excepciones de NestJS
+import { Injectable, BadRequestException } from '@nestjs/common';
+
+// Importa los decoradores de tareas programadas
+import { Cron, CronExpression } from '@nestjs/schedule';
+
+// Importa decoradores y tipos de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+
+// Importa la entidad Task
+import { Task } from './entities/task.entity';
+
+// Importa el DTO de la regla de recurrencia
+import { RecurrenceDto } from './dto/recurrence.dto';
+
+// Importa los enums de la regla de recurrencia y de estado
+import { RecurrenceFrequency } from './enums/recurrence-frequency.enum';
+import { Weekday } from './enums/weekday.enum';
+import { TaskStatus } from './enums/task-status.enum';
+
+// Importa el servicio de seguidores para que la nueva instancia tenga los suyos
+import { TaskWatchersService } from './task-watchers.service';
+
+/**
+ * RecurrenceRule - Regla de recurrencia ya interpretada
+ * - frequency: Frecuencia (DAILY, WEEKLY, MONTHLY)
+ * - interval: Cada cuántos días, semanas o meses se repite
+ * - weekdays: Días de la semana (solo WEEKLY, vacío = mismo día que la instancia actual)
+ * - monthDay: Día del mes (solo MONTHLY, -1 = último día, sin valor = mismo día que la instancia actual)
+ * - count: Número total de instancias de la serie
+ * - until: Fecha límite de la serie
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays: Weekday[];
+  monthDay?: number;
+  count?: number;
+  until?: Date;
+}
+
+/**
+ * Días de la semana en el orden de Date.getUTCDay() (0 = domingo)
+ */
+const WEEKDAYS = Object.values(Weekday);
+
+/**
+ * Milisegundos de un día
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * TaskRecurrenceService - Servicio que gestiona las tareas recurrentes
+ * Interpreta las reglas de recurrencia (subconjunto de RRULE de iCalendar) y genera
+ * la siguiente instancia de una serie al completar la actual o al llegar su fecha de vencimiento
+ */
+export class TaskRecurrenceService {
+  /**
+   * Constructor que recibe el repositorio de Task mediante inyección de dependencias
+   * @param tasksRepository - Repositorio de TypeORM para crear las nuevas instancias
+   * @param taskWatchersService - Servicio que hace seguir la nueva instancia a su creador y asignado
+   */
+  constructor(
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+    private taskWatchersService: TaskWatchersService,
+  ) {}
+
+  /**
+   * Valida la regla de recurrencia recibida y la convierte a una regla RRULE normalizada
+   *
+   * @param recurrenceDto - Regla indicada con 'frequency' (y sus opciones) o con 'rrule'
+   * @returns string - Regla RRULE normalizada (ej: FREQ=WEEKLY;BYDAY=MO,TH)
+   * @throws BadRequestException - Si la regla no es válida o no está soportada
+   */
+  buildRule(recurrenceDto: RecurrenceDto): string {
+    const { rrule, ...options } = recurrenceDto;
+    const hasOptions = Object.values(options).some(
+      (value) => value !== undefined && value !== null,
+    );
+
+    // La regla se indica de una sola forma
+    if (rrule && hasOptions) {
+      throw new BadRequestException(
+        'La recurrencia se indica con rrule o con frequency, no con ambos',
+      );
+    }
+
+    if (rrule) {
+      return this.formatRule(this.parseRule(rrule));
+    }
+
+    if (!options.frequency) {
+      throw new BadRequestException(
+        'La recurrencia requiere frequency o rrule',
+      );
+    }
+
+    // Construir la regla RRULE equivalente y validarla con las mismas reglas
+    const parts = [`FREQ=${options.frequency}`];
+    if (options.interval) {
+      parts.push(`INTERVAL=${options.interval}`);
+    }
+    if (options.weekdays?.length) {
+      parts.push(`BYDAY=${options.weekdays.join(',')}`);
+    }
+    if (options.monthDay !== undefined) {
+      parts.push(`BYMONTHDAY=${options.monthDay}`);
+    }
+    if (options.count) {
+      parts.push(`COUNT=${options.count}`);
+    }
+    if (options.until) {
+      parts.push(`UNTIL=${this.formatDate(new Date(options.until))}`);
+    }
+
+    return this.formatRule(this.parseRule(parts.join(';')));
+  }
+
+  /**
+   * Interpreta una regla RRULE
+   * Se admiten FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT y UNTIL
+   *
+   * @param rrule - Regla RRULE, con o sin el prefijo 'RRULE:'
+   * @returns RecurrenceRule - Regla interpretada
+   * @throws BadRequestException - Si la regla no es válida o no está soportada
+   */
+  parseRule(rrule: string): RecurrenceRule {
+    const values = new Map<string, string>();
+
+    for (const part of rrule
+      .trim()
+      .replace(/^RRULE:/i, '')
+      .split(';')) {
+      const [key, value] = part.split('=');
+      if (!key || !value) {
+        throw new BadRequestException(
+          `La regla de recurrencia no es válida: '${part}'`,
+        );
+      }
+      values.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+    }
+
+    // Rechazar las propiedades que no se soportan (BYSETPOS, BYHOUR, WKST...)
+    const supported = [
+      'FREQ',
+      'INTERVAL',
+      'BYDAY',
+      'BYMONTHDAY',
+      'COUNT',
+      'UNTIL',
+    ];
+    for (const key of values.keys()) {
+      if (!supported.includes(key)) {
+        throw new BadRequestException(
+          `La propiedad ${key} de la regla de recurrencia no está soportada`,
+        );
+      }
+    }
+
+    const frequency = values.get('FREQ') as RecurrenceFrequency;
+    if (!Object.values(RecurrenceFrequency).includes(frequency)) {
+      throw new BadRequestException(
+        'La frecuencia (FREQ) debe ser DAILY, WEEKLY o MONTHLY',
+      );
+    }
+
+    const rule: RecurrenceRule = {
+      frequency,
+      interval: this.parsePositiveInt(
+        values.get('INTERVAL') ?? '1',
+        'INTERVAL',
+      ),
+      weekdays: [],
+    };
+
+    // BYDAY: días de la semana (solo WEEKLY, sin prefijo numérico)
+    const byDay = values.get('BYDAY');
+    if (byDay) {
+      if (frequency !== RecurrenceFrequency.WEEKLY) {
+        throw new BadRequestException(
+          'BYDAY (weekdays) solo se admite con la frecuencia WEEKLY',
+        );
+      }
+      const weekdays = byDay.split(',') as Weekday[];
+      if (weekdays.some((weekday) => !WEEKDAYS.includes(weekday))) {
+        throw new BadRequestException(
+          'Los días de la semana (BYDAY) deben ser SU, MO, TU, WE, TH, FR o SA',
+        );
+      }
+      // Ordenar y quitar duplicados para guardar siempre la misma regla
+      rule.weekdays = WEEKDAYS.filter((weekday) => weekdays.includes(weekday));
+    }
+
+    // BYMONTHDAY: un único día del mes (solo MONTHLY)
+    const byMonthDay = values.get('BYMONTHDAY');
+    if (byMonthDay) {
+      if (frequency !== RecurrenceFrequency.MONTHLY) {
+        throw new BadRequestException(
+          'BYMONTHDAY (monthDay) solo se admite con la frecuencia MONTHLY',
+        );
+      }
+      const monthDay = Number(byMonthDay);
+      if (
+        !Number.isInteger(monthDay) ||
+        monthDay === 0 ||
+        monthDay < -1 ||
+        monthDay > 31
+      ) {
+        throw new BadRequestException(
+          'El día del mes (BYMONTHDAY) debe estar entre 1 y 31, o ser -1',
+        );
+      }
+      rule.monthDay = monthDay;
+    }
+
+    // COUNT y UNTIL son excluyentes (RFC 5545)
+    if (values.has('COUNT') && values.has('UNTIL')) {
+      throw new BadRequestException(
+        'La recurrencia no puede tener a la vez COUNT (count) y UNTIL (until)',
+      );
+    }
+
+    const count = values.get('COUNT');
+    if (count) {
+      rule.count = this.parsePositiveInt(count, 'COUNT');
+    }
+
+    const until = values.get('UNTIL');
+    if (until) {
+      rule.until = this.parseDate(until);
+    }
+
+    return rule;
+  }
+
+  /**
+   * Calcula la siguiente fecha de la serie posterior a una fecha dada
+   * Conserva la hora de la fecha de referencia. Los cálculos se hacen en UTC
+   *
+   * @param rule - Regla de recurrencia interpretada
+   * @param from - Fecha de la instancia actual
+   * @returns Date | null - Siguiente fecha, o null si la serie terminó (UNTIL)
+   */
+  nextOccurrence(rule: RecurrenceRule, from: Date): Date | null {
+    const next = this.computeNextOccurrence(rule, from);
+
+    // La serie termina cuando la siguiente fecha supera UNTIL
+    if (!next || (rule.until && next > rule.until)) {
+      return null;
+    }
+
+    return next;
+  }
+
+  /**
+   * Genera la siguiente instancia de una tarea recurrente
+   * Copia nombre, descripción, categoría, asignado, prioridad, puntos de historia,
+   * estimación y la regla, y desplaza la fecha de vencimiento según la regla
+   * No hace nada si la tarea no es recurrente, si ya tiene instancia siguiente
+   * o si la serie terminó (COUNT / UNTIL)
+   *
+   * @param task - Instancia actual de la serie
+   * @param manager - EntityManager de la transacción en curso (opcional)
+   * @returns Promise<Task | null> - La nueva instancia, o null si no se generó
+   */
+  async generateNext(
+    task: Task,
+    manager?: EntityManager,
+  ): Promise<Task | null> {
+    if (!task.recurrenceRule) {
+      return null;
+    }
+
+    const tasksRepository = manager
+      ? manager.getRepository(Task)
+      : this.tasksRepository;
+
+    // Cada instancia tiene como máximo una instancia siguiente
+    // withDeleted: una instancia siguiente en la papelera tampoco se vuelve a generar
+    const existing = await tasksRepository.findOne({
+      where: { previous_occurrence_id: task.id },
+      withDeleted: true,
+    });
+    if (existing) {
+      return null;
+    }
+
+    const rule = this.parseRule(task.recurrenceRule);
+
+    // Respetar el número total de instancias de la serie
+    if (rule.count && task.recurrenceIndex >= rule.count) {
+      return null;
+    }
+
+    // Sin fecha de vencimiento, la serie continúa desde el momento actual
+    const dueDate = this.nextOccurrence(rule, task.dueDate ?? new Date());
+    if (!dueDate) {
+      return null;
+    }
+
+    const next = tasksRepository.create({
+      name: task.name,
+      description: task.description,
+      workspace_id: task.workspace_id,
+      category_id: task.category_id,
+      assigned_to: task.assigned_to,
+      storyPoints: task.storyPoints,
+      originalEstimate: task.originalEstimate,
+      priority: task.priority,
+      dueDate,
+      created_by: task.created_by,
+      recurrenceRule: task.recurrenceRule,
+      recurrenceIndex: task.recurrenceIndex + 1,
+      previous_occurrence_id: task.id,
+    });
+
+    const saved = await tasksRepository.save(next);
+
+    // El creador y el asignado siguen la nueva instancia, igual que al crear una tarea
+    await this.taskWatchersService.addWatchers(
+      saved.id,
+      [saved.created_by, saved.assigned_to],
+      manager,
+    );
+
+    return saved;
+  }
+
+  /**
+   * Tarea programada (cada hora)
+   * Genera la siguiente instancia de las tareas recurrentes cuya fecha de vencimiento ya llegó,
+   * aunque todavía no se hayan completado
+   * Las instancias canceladas (CANCELLED) no generan la siguiente
+   *
+   * @returns Promise<Task[]> - Instancias generadas
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async generateDueOccurrences(): Promise<Task[]> {
+    const tasks = await this.tasksRepository
+      .createQueryBuilder('task')
+      .where('task.recurrence_rule IS NOT NULL')
+      .andWhere('task.dueDate <= :now', { now: new Date() })
+      .andWhere('task.status != :cancelled', {
+        cancelled: TaskStatus.CANCELLED,
+      })
+      .andWhere(
+        'NOT EXISTS (SELECT 1 FROM tasks next WHERE next.previous_occurrence_id = task.id)',
+      )
+      .getMany();
+
+    const generated: Task[] = [];
+    for (const task of tasks) {
+      const next = await this.generateNext(task);
+      if (next) {
+        generated.push(next);
+      }
+    }
+
+    return generated;
+  }
+
+  /**
+   * Calcula la siguiente fecha según la frecuencia, sin tener en cuenta UNTIL
+   */
+  private computeNextOccurrence(rule: RecurrenceRule, from: Date): Date | null {
+    switch (rule.frequency) {
+      case RecurrenceFrequency.DAILY:
+        return new Date(from.getTime() + rule.interval * DAY_MS);
+
+      case RecurrenceFrequency.WEEKLY: {
+        if (!rule.weekdays.length) {
+          return new Date(from.getTime() + rule.interval * 7 * DAY_MS);
+        }
+
+        // Recorrer los días siguientes hasta encontrar un día de la regla
+        // en una semana válida (semanas de lunes a domingo, cada 'interval' semanas)
+        const weekStart =
+          from.getTime() - ((from.getUTCDay() + 6) % 7) * DAY_MS;
+        for (let offset = 1; offset <= 7 * (rule.interval + 1); offset++) {
+          const candidate = new Date(from.getTime() + offset * DAY_MS);
+          const week = Math.floor(
+            (candidate.getTime() - weekStart) / (7 * DAY_MS),
+          );
+          if (
+            week % rule.interval === 0 &&
+            rule.weekdays.includes(WEEKDAYS[candidate.getUTCDay()])
+          ) {
+            return candidate;
+          }
+        }
+        return null;
+      }
+
+      case RecurrenceFrequency.MONTHLY: {
+        const monthDay = rule.monthDay ?? from.getUTCDate();
+
+        // Recorrer los meses de la serie saltando los que no tienen ese día
+        for (let months = 0; months <= 120; months += rule.interval) {
+          const daysInMonth = new Date(
+            Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + months + 1, 0),
+          ).getUTCDate();
+          const day = monthDay > 0 ? monthDay : daysInMonth + monthDay + 1;
+          if (day > daysInMonth) {
+            continue;
+          }
+
+          const candidate = new Date(from.getTime());
+          candidate.setUTCDate(1);
+          candidate.setUTCMonth(from.getUTCMonth() + months);
+          candidate.setUTCDate(day);
+          if (candidate > from) {
+            return candidate;
+          }
+        }
+        return null;
+      }
+    }
+  }
+
+  /**
+   * Convierte una regla interpretada a su forma RRULE normalizada
+   */
+  private formatRule(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.frequency}`];
+    if (rule.interval > 1) {
+      parts.push(`INTERVAL=${rule.interval}`);
+    }
+    if (rule.weekdays.length) {
+      parts.push(`BYDAY=${rule.weekdays.join(',')}`);
+    }
+    if (rule.monthDay !== undefined) {
+      parts.push(`BYMONTHDAY=${rule.monthDay}`);
+    }
+    if (rule.count) {
+      parts.push(`COUNT=${rule.count}`);
+    }
+    if (rule.until) {
+      parts.push(`UNTIL=${this.formatDate(rule.until)}`);
+    }
+    return parts.join(';');
+  }
+
+  /**
+   * Interpreta un entero positivo de la regla (INTERVAL, COUNT)
+   */
+  private parsePositiveInt(value: string, key: string): number {
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 1) {
+      throw new BadRequestException(
+        `${key} debe ser un número entero mayor o igual a 1`,
+      );
+    }
+    return number;
+  }
+
+  /**
+   * Interpreta una fecha UNTIL de iCalendar (YYYYMMDD o YYYYMMDDTHHMMSSZ)
+   * Una fecha sin hora incluye todo ese día
+   */
+  private parseDate(value: string): Date {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(
+      value,
+    );
+    if (!match) {
+      throw new BadRequestException(
+        'UNTIL debe tener el formato YYYYMMDD o YYYYMMDDTHHMMSSZ',
+      );
+    }
+
+    const [, year, month, day, hours, minutes, seconds] = match;
+    const date = hours
+      ? new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds))
+      : new Date(Date.UTC(+year, +month - 1, +day, 23, 59, 59));
+
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException('UNTIL no es una fecha válida');
+    }
+    return date;
+  }
+
+  /**
+   * Formatea una fecha como fecha UNTIL de iCalendar (YYYYMMDDTHHMMSSZ)
+   */
+  private formatDate(date: Date): string {
+    return date
+      .toISOString()
+      .replace(/\.\d{3}Z$/, 'Z')
+      .replace(/[-:]/g, '');
+  }
+}
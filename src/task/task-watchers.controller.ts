@@ -0,0 +1,100 @@
+// Importa decoradores y tipos de NestJS para el controlador
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+
+// Importa el servicio de seguidores de tareas
+import { TaskWatchersService } from './task-watchers.service';
+
+// Importa los guards de autenticación, de pertenencia al espacio de trabajo y de roles
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { WorkspaceMemberGuard } from '../workspaces/guards/workspace-member.guard';
+import { RolesGuard } from '../auth/roles/roles.guard';
+
+// Importa el decorador de roles y el enum de roles
+import { Roles } from '../auth/roles/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+
+// Importa el tipo de la petición autenticada (req.user y req.workspaceRole)
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+
+/**
+ * Decorador que marca esta clase como un controlador de NestJS
+ * Define la ruta base para todos los endpoints: /workspaces/:wid/tasks/:taskId/watchers
+ * Los seguidores son un recurso anidado dentro de las tareas
+ */
+@Controller('workspaces/:wid/tasks/:taskId/watchers')
+/**
+ * Decorador que protege todas las rutas de este controlador con autenticación JWT
+ * WorkspaceMemberGuard exige ser miembro del espacio de trabajo y que la tarea pertenezca a él
+ */
+@UseGuards(JwtAuthGuard, WorkspaceMemberGuard, RolesGuard)
+
+/**
+ * TaskWatchersController - Controlador que gestiona los seguidores de una tarea
+ * Seguir y dejar de seguir se aplican siempre al usuario autenticado
+ */
+export class TaskWatchersController {
+  /**
+   * Constructor que recibe el servicio de seguidores mediante inyección de dependencias
+   * @param taskWatchersService - Servicio con la lógica de los seguidores
+   */
+  constructor(private readonly taskWatchersService: TaskWatchersService) {}
+
+  /**
+   * Endpoint GET /workspaces/:wid/tasks/:taskId/watchers
+   * Obtiene los seguidores de la tarea
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @returns Promise<TaskWatcher[]> - Seguidores de la tarea
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  @Get()
+  findByTask(@Param('taskId') taskId: string) {
+    return this.taskWatchersService.findByTask(taskId);
+  }
+
+  /**
+   * Endpoint POST /workspaces/:wid/tasks/:taskId/watchers
+   * El usuario autenticado empieza a seguir la tarea
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @returns Promise<TaskWatcher[]> - Seguidores de la tarea
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  @Post()
+  @Roles(Role.ADMIN, Role.MEMBER)
+  watch(@Param('taskId') taskId: string, @Request() req: AuthenticatedRequest) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.taskWatchersService.watch(taskId, userId);
+  }
+
+  /**
+   * Endpoint DELETE /workspaces/:wid/tasks/:taskId/watchers
+   * El usuario autenticado deja de seguir la tarea
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @throws NotFoundException - Si el usuario no sigue la tarea
+   */
+  @Delete()
+  @Roles(Role.ADMIN, Role.MEMBER)
+  unwatch(
+    @Param('taskId') taskId: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.taskWatchersService.unwatch(taskId, userId);
+  }
+}
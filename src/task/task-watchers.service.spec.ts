@@ -0,0 +1,59 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { TaskWatchersService } from './task-watchers.service';
+import { Task } from './entities/task.entity';
+import { TaskWatcher } from './entities/task-watcher.entity';
+
+describe('TaskWatchersService', () => {
+  let watchersService: TaskWatchersService;
+  let watchersRepository: {
+    count: jest.Mock;
+    manager: { query: jest.Mock };
+  };
+  let tasksRepository: { count: jest.Mock };
+
+  beforeEach(async () => {
+    watchersRepository = {
+      count: jest.fn(),
+      manager: { query: jest.fn() },
+    };
+    tasksRepository = { count: jest.fn() };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskWatchersService,
+        {
+          provide: getRepositoryToken(TaskWatcher),
+          useValue: watchersRepository,
+        },
+        { provide: getRepositoryToken(Task), useValue: tasksRepository },
+      ],
+    }).compile();
+
+    watchersService = app.get<TaskWatchersService>(TaskWatchersService);
+  });
+
+  describe('onModuleInit', () => {
+    it('should backfill creators, assignees and commenters when there are no watchers', async () => {
+      watchersRepository.count.mockResolvedValue(0);
+      tasksRepository.count.mockResolvedValue(3);
+
+      await watchersService.onModuleInit();
+
+      expect(watchersRepository.manager.query).toHaveBeenCalledTimes(1);
+      const [sql] = watchersRepository.manager.query.mock.calls[0] as [string];
+      expect(sql).toContain('"created_by" FROM "tasks"');
+      expect(sql).toContain('"assigned_to" FROM "tasks"');
+      expect(sql).toContain('FROM "comments"');
+    });
+
+    it('should not backfill once the tasks have watchers', async () => {
+      watchersRepository.count.mockResolvedValue(5);
+      tasksRepository.count.mockResolvedValue(3);
+
+      await watchersService.onModuleInit();
+
+      expect(watchersRepository.manager.query).not.toHaveBeenCalled();
+    });
+  });
+});
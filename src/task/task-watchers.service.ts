@@ -0,0 +1,151 @@
+// Importa decoradores y excepciones de NestJS
+import { Injectable, NotFoundException, OnModuleInit } from '@nestjs/common';
+
+// Importa decoradores y tipos de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+
+// Importa las entidades Task y TaskWatcher
+import { Task } from './entities/task.entity';
+import { TaskWatcher } from './entities/task-watcher.entity';
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * TaskWatchersService - Servicio que gestiona los seguidores de las tareas
+ * Los usuarios pueden seguir o dejar de seguir una tarea, y el creador, el asignado
+ * y quienes comentan pasan a seguirla automáticamente
+ */
+export class TaskWatchersService implements OnModuleInit {
+  /**
+   * Constructor que recibe los repositorios mediante inyección de dependencias
+   * @param watchersRepository - Repositorio de TypeORM para la tabla task_watchers
+   * @param tasksRepository - Repositorio de Task para validar que la tarea existe
+   */
+  constructor(
+    @InjectRepository(TaskWatcher)
+    private watchersRepository: Repository<TaskWatcher>,
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+  ) {}
+
+  /**
+   * Se ejecuta al iniciar el módulo
+   * Las tareas creadas antes de existir los seguidores no tienen ninguno, y solo los seguidores
+   * reciben los avisos de cambio de estado y de comentarios: si la tabla está vacía, pasan a seguir
+   * cada tarea su creador, su asignado y los autores de sus comentarios
+   */
+  async onModuleInit(): Promise<void> {
+    const [watchers, tasks] = await Promise.all([
+      this.watchersRepository.count(),
+      this.tasksRepository.count({ withDeleted: true }),
+    ]);
+    if (watchers > 0 || tasks === 0) {
+      return;
+    }
+
+    await this.watchersRepository.manager.query(
+      `INSERT INTO "task_watchers" ("task_id", "user_id")
+       SELECT "id", "created_by" FROM "tasks" WHERE "created_by" IS NOT NULL
+       UNION
+       SELECT "id", "assigned_to" FROM "tasks" WHERE "assigned_to" IS NOT NULL
+       UNION
+       SELECT "which_todo", "created_by" FROM "comments" WHERE "deletedAt" IS NULL
+       ON CONFLICT DO NOTHING`,
+    );
+  }
+
+  /**
+   * Obtiene los seguidores de una tarea
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @returns Promise<TaskWatcher[]> - Seguidores con sus datos de usuario, del más antiguo al más reciente
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  async findByTask(taskId: string): Promise<TaskWatcher[]> {
+    await this.assertTaskExists(taskId);
+
+    return await this.watchersRepository.find({
+      where: { task_id: taskId },
+      relations: ['user'],
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * El usuario empieza a seguir una tarea (no hace nada si ya la sigue)
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @param userId - ID del usuario autenticado (extraído del token JWT)
+   * @returns Promise<TaskWatcher[]> - Seguidores de la tarea
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  async watch(taskId: string, userId: string): Promise<TaskWatcher[]> {
+    await this.assertTaskExists(taskId);
+    await this.addWatchers(taskId, [userId]);
+
+    return this.findByTask(taskId);
+  }
+
+  /**
+   * El usuario deja de seguir una tarea
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @param userId - ID del usuario autenticado (extraído del token JWT)
+   * @throws NotFoundException - Si el usuario no sigue la tarea
+   */
+  async unwatch(taskId: string, userId: string): Promise<void> {
+    const result = await this.watchersRepository.delete({
+      task_id: taskId,
+      user_id: userId,
+    });
+
+    if (!result.affected) {
+      throw new NotFoundException('No sigues esta tarea');
+    }
+  }
+
+  /**
+   * Añade seguidores a una tarea, ignorando los que ya la siguen
+   * Se usa para el seguimiento automático del creador, el asignado y quienes comentan
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @param userIds - IDs de los usuarios (se ignoran los vacíos y los repetidos)
+   * @param manager - EntityManager de la transacción en curso (opcional)
+   */
+  async addWatchers(
+    taskId: string,
+    userIds: (string | null | undefined)[],
+    manager?: EntityManager,
+  ): Promise<void> {
+    const watchersRepository = manager
+      ? manager.getRepository(TaskWatcher)
+      : this.watchersRepository;
+
+    const ids = [...new Set(userIds.filter((id): id is string => !!id))];
+    if (ids.length === 0) {
+      return;
+    }
+
+    await watchersRepository
+      .createQueryBuilder()
+      .insert()
+      .values(ids.map((userId) => ({ task_id: taskId, user_id: userId })))
+      .orIgnore()
+      .execute();
+  }
+
+  /**
+   * Verifica que una tarea exista
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  private async assertTaskExists(taskId: string): Promise<void> {
+    const exists = await this.tasksRepository.exists({ where: { id: taskId } });
+    if (!exists) {
+      throw new NotFoundException('Tarea no encontrada');
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { UnprocessableEntityException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TaskWorkflowService } from './task-workflow.service';
+import { TaskStatus } from './enums/task-status.enum';
+
+describe('TaskWorkflowService', () => {
+  let workflowService: TaskWorkflowService;
+
+  beforeEach(async () => {
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [TaskWorkflowService],
+    }).compile();
+
+    workflowService = app.get<TaskWorkflowService>(TaskWorkflowService);
+  });
+
+  describe('getAvailableTransitions', () => {
+    it('should list the transitions that start from the current status', () => {
+      const targets = workflowService
+        .getAvailableTransitions(TaskStatus.IN_REVIEW)
+        .map((transition) => transition.to);
+
+      expect(targets).toEqual(
+        expect.arrayContaining([
+          TaskStatus.IN_PROGRESS,
+          TaskStatus.DONE,
+          TaskStatus.BLOCKED,
+          TaskStatus.CANCELLED,
+        ]),
+      );
+      expect(targets).not.toContain(TaskStatus.PENDING);
+    });
+  });
+
+  describe('assertTransition', () => {
+    it('should allow a declared transition whose guards pass', () => {
+      const transition = workflowService.assertTransition(
+        TaskStatus.PENDING,
+        TaskStatus.IN_PROGRESS,
+        { assigned_to: 'user-id' },
+      );
+
+      expect(transition.name).toBe('start');
+    });
+
+    it('should reject a transition that is not declared', () => {
+      expect(() =>
+        workflowService.assertTransition(TaskStatus.PENDING, TaskStatus.DONE, {
+          assigned_to: 'user-id',
+        }),
+      ).toThrow(UnprocessableEntityException);
+    });
+
+    it('should reject a transition whose guards fail', () => {
+      expect(() =>
+        workflowService.assertTransition(
+          TaskStatus.PENDING,
+          TaskStatus.IN_PROGRESS,
+          { assigned_to: null },
+        ),
+      ).toThrow(UnprocessableEntityException);
+
+      expect(() =>
+        workflowService.assertTransition(
+          TaskStatus.IN_PROGRESS,
+          TaskStatus.BLOCKED,
+          { comment: '   ' },
+        ),
+      ).toThrow(UnprocessableEntityException);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+// Importa decoradores y excepciones de NestJS
+import { Injectable, UnprocessableEntityException } from '@nestjs/common';
+
+// Importa el enum TaskStatus para tipar los estados
+import { TaskStatus } from './enums/task-status.enum';
+
+// Importa el enum TransitionGuard para evaluar las condiciones de cada transición
+import { TransitionGuard } from './enums/transition-guard.enum';
+
+// Importa la definición del flujo de trabajo
+import {
+  TASK_WORKFLOW,
+  TaskTransition,
+} from './workflow/task-workflow.definition';
+
+/**
+ * TransitionContext - Datos necesarios para evaluar las guardas de una transición
+ * - assigned_to: Usuario asignado a la tarea tras el cambio (si lo hay)
+ * - comment: Comentario que acompaña la transición (si lo hay)
+ */
+export interface TransitionContext {
+  assigned_to?: string | null;
+  comment?: string;
+}
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * TaskWorkflowService - Servicio que aplica el flujo de trabajo de estados de las tareas
+ * Decide qué transiciones están disponibles y valida sus guardas antes de cambiar el estado
+ * Las reglas se leen de TASK_WORKFLOW, el servicio no conoce ningún estado concreto
+ */
+export class TaskWorkflowService {
+  /**
+   * Transiciones configuradas del flujo de trabajo
+   */
+  private readonly transitions: TaskTransition[] = TASK_WORKFLOW;
+
+  /**
+   * Obtiene las transiciones que se pueden ejecutar desde un estado
+   *
+   * @param status - Estado actual de la tarea
+   * @returns TaskTransition[] - Transiciones cuyo origen incluye el estado actual
+   */
+  getAvailableTransitions(status: TaskStatus): TaskTransition[] {
+    return this.transitions.filter((transition) =>
+      transition.from.includes(status),
+    );
+  }
+
+  /**
+   * Valida que una tarea pueda pasar de un estado a otro
+   * Comprueba que la transición exista en el flujo y que se cumplan todas sus guardas
+   *
+   * @param from - Estado actual de la tarea
+   * @param to - Estado al que se quiere mover la tarea
+   * @param context - Datos para evaluar las guardas (asignado y comentario)
+   * @returns TaskTransition - La transición que se va a ejecutar
+   * @throws UnprocessableEntityException - Si la transición no existe o alguna guarda no se cumple
+   */
+  assertTransition(
+    from: TaskStatus,
+    to: TaskStatus,
+    context: TransitionContext,
+  ): TaskTransition {
+    // Buscar una transición del flujo que lleve de 'from' a 'to'
+    const transition = this.transitions.find(
+      (candidate) => candidate.to === to && candidate.from.includes(from),
+    );
+
+    // Si no existe, el cambio de estado no está permitido
+    if (!transition) {
+      throw new UnprocessableEntityException(
+        `No se permite cambiar el estado de ${from} a ${to}`,
+      );
+    }
+
+    // Evaluar las guardas de la transición y reunir las que fallan
+    const failures = transition.guards
+      .filter((guard) => !this.checkGuard(guard, context))
+      .map((guard) => this.guardMessage(guard));
+
+    if (failures.length > 0) {
+      throw new UnprocessableEntityException(
+        `No se puede ejecutar la transición '${transition.name}': ${failures.join('; ')}`,
+      );
+    }
+
+    return transition;
+  }
+
+  /**
+   * Evalúa una guarda concreta con los datos de la transición
+   */
+  private checkGuard(
+    guard: TransitionGuard,
+    context: TransitionContext,
+  ): boolean {
+    switch (guard) {
+      case TransitionGuard.REQUIRES_ASSIGNEE:
+        return !!context.assigned_to;
+      case TransitionGuard.REQUIRES_COMMENT:
+        return !!context.comment && context.comment.trim().length > 0;
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Mensaje de error que se muestra cuando una guarda no se cumple
+   */
+  private guardMessage(guard: TransitionGuard): string {
+    switch (guard) {
+      case TransitionGuard.REQUIRES_ASSIGNEE:
+        return 'la tarea debe tener un usuario asignado';
+      case TransitionGuard.REQUIRES_COMMENT:
+        return 'se requiere un comentario que explique el cambio';
+      default:
+        return guard;
+    }
+  }
+}
@@ -19,26 +19,46 @@ import { TaskService } from './task.service';
 
 // Importa los DTOs para crear y obtener tareas
 import { CreateTaskDto } from './dto/create-task.dto';
+import { UpdateTaskDto } from './dto/update-task.dto';
 import { GetTasksDto } from './dto/get-tasks.dto';
+import { TransitionTaskDto } from './dto/transition-task.dto';
+import { BulkTaskDto } from './dto/bulk-task.dto';
 
-// Importa el guard JWT para proteger las rutas
+// Importa los guards de autenticación, de pertenencia al espacio de trabajo y de roles
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { WorkspaceMemberGuard } from '../workspaces/guards/workspace-member.guard';
+import { RolesGuard } from '../auth/roles/roles.guard';
+
+// Importa el decorador de roles y el enum de roles
+import { Roles } from '../auth/roles/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+
+// Importa el guard y el decorador de las políticas de autorización
+import { PoliciesGuard } from '../auth/policies/policies.guard';
+import { CheckPolicies } from '../auth/policies/check-policies.decorator';
+
+// Importa la política que limita la modificación al creador o al asignado de la tarea
+import { TaskEditorPolicy } from './policies/task-editor.policy';
+
+// Importa el tipo de la petición autenticada (req.user y req.workspaceRole)
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
 
 /**
  * Decorador que marca esta clase como un controlador de NestJS
- * Define la ruta base para todos los endpoints: /tasks
+ * Define la ruta base para todos los endpoints: /workspaces/:wid/tasks
+ * Las tareas pertenecen a un espacio de trabajo, que se resuelve desde la ruta
  */
-@Controller('tasks')
-
+@Controller('workspaces/:wid/tasks')
 /**
  * Decorador que protege todas las rutas de este controlador con autenticación JWT
  * Todas las peticiones deben incluir un token JWT válido en el header Authorization
+ * WorkspaceMemberGuard exige ser miembro del espacio de trabajo y que la tarea (:taskId) pertenezca a él
  */
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, WorkspaceMemberGuard, RolesGuard)
 
 /**
  * TaskController - Controlador que maneja las peticiones HTTP relacionadas con tareas
- * Todas las rutas requieren autenticación JWT
+ * Todas las rutas requieren autenticación JWT y pertenecer al espacio de trabajo
  */
 export class TaskController {
   /**
@@ -48,82 +68,254 @@ export class TaskController {
   constructor(private readonly tasksService: TaskService) {}
 
   /**
-   * Endpoint POST /tasks
+   * Endpoint POST /workspaces/:wid/tasks
    * Crea una nueva tarea
    * El campo 'created_by' se extrae automáticamente del token JWT del usuario autenticado
-   * 
+   *
+   * @param workspaceId - ID del espacio de trabajo (parámetro de la URL)
    * @param createTaskDto - DTO con los datos de la tarea a crear
    * @param req - Objeto Request de Express que contiene información del usuario autenticado
    * @returns Promise<Task> - La tarea creada
    */
   @Post()
+  @Roles(Role.ADMIN, Role.MEMBER)
   @UsePipes(new ValidationPipe()) // Valida los datos del DTO antes de procesarlos
-  create(@Body() createTaskDto: CreateTaskDto, @Request() req) {
+  create(
+    @Param('wid') workspaceId: string,
+    @Body() createTaskDto: CreateTaskDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
     // Extraer userId del token JWT para el campo 'created_by' según ERD
     // req.user se establece automáticamente por JwtAuthGuard después de validar el token
     const userId = req.user.userId;
-    
+
     // Llamar al servicio para crear la tarea
-    return this.tasksService.create(createTaskDto, userId);
+    return this.tasksService.create(createTaskDto, userId, workspaceId);
+  }
+
+  /**
+   * Endpoint POST /workspaces/:wid/tasks/bulk
+   * Aplica una acción (cambiar estado, reasignar, cambiar categoría, desplazar la fecha
+   * de vencimiento o eliminar) a varias tareas en una sola transacción
+   * Las tareas se seleccionan por IDs o con los mismos filtros que GET /workspaces/:wid/tasks
+   * Las tareas que el usuario no puede modificar (no es su creador ni su asignado) fallan una a una
+   *
+   * @param workspaceId - ID del espacio de trabajo (parámetro de la URL)
+   * @param bulkTaskDto - Selección de tareas, acción y sus parámetros
+   * @param req - Objeto Request de Express que contiene información del usuario autenticado
+   * @returns Promise<BulkTaskResult> - Resultado de la operación para cada tarea
+   */
+  @Post('bulk')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UsePipes(new ValidationPipe({ transform: true })) // Valida y convierte también los filtros anidados
+  bulk(
+    @Param('wid') workspaceId: string,
+    @Body() bulkTaskDto: BulkTaskDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Extraer userId del token JWT para registrar quién hizo los cambios
+    const userId = req.user.userId;
+
+    // Los administradores (globales o del espacio de trabajo) pueden modificar cualquier tarea
+    const isAdmin = req.workspaceRole === Role.ADMIN;
+
+    return this.tasksService.bulk(bulkTaskDto, workspaceId, userId, isAdmin);
   }
 
   /**
-   * Endpoint GET /tasks
-   * Obtiene todas las tareas con filtros opcionales y paginación
-   * Permite filtrar por status, categoría y usuario asignado
-   * 
-   * @param getTasksDto - DTO con los filtros y parámetros de paginación (query parameters)
-   * @returns Promise<{ tasks: Task[]; total: number }> - Lista de tareas y total de resultados
+   * Endpoint GET /workspaces/:wid/tasks
+   * Obtiene todas las tareas con filtros opcionales, ordenamiento y paginación
+   * Permite filtrar por estados, categoría, asignado, creador, rangos de fechas y de puntos,
+   * tareas vencidas, subtareas y búsqueda de texto, y ordenar con sort=campo:dirección
+   * Con watching=me devuelve solo las tareas que sigue el usuario autenticado
+   * Admite paginación limit/offset (por defecto) o por cursor (pagination=cursor, cursor=...)
+   *
+   * @param workspaceId - ID del espacio de trabajo (parámetro de la URL)
+   * @param getTasksDto - DTO con los filtros, el orden y los parámetros de paginación (query parameters)
+   * @param req - Request con la información del usuario autenticado
+   * @returns Lista de tareas con el total (offset) o con nextCursor/prevCursor (cursor)
    */
   @Get()
-  findAll(@Query() getTasksDto: GetTasksDto) {
+  @UsePipes(new ValidationPipe({ transform: true })) // Valida y convierte los query parameters
+  findAll(
+    @Param('wid') workspaceId: string,
+    @Query() getTasksDto: GetTasksDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado (para watching=me y las reacciones)
+    const userId = req.user.userId;
+
     // Llamar al servicio para obtener las tareas con los filtros aplicados
-    return this.tasksService.findAll(getTasksDto);
+    return this.tasksService.findAll(getTasksDto, workspaceId, userId);
   }
 
   /**
-   * Endpoint GET /tasks/:id
+   * Endpoint GET /workspaces/:wid/tasks/next
+   * Obtiene la tarea más importante en la que puede trabajar el usuario autenticado
+   * Entre sus tareas asignadas en el espacio de trabajo, sin terminar y sin bloqueos, elige por prioridad,
+   * fecha de vencimiento y antigüedad
+   * Se declara antes de GET :taskId para que 'next' no se interprete como un ID
+   *
+   * @param workspaceId - ID del espacio de trabajo (parámetro de la URL)
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @returns Promise<Task> - La siguiente tarea a realizar
+   * @throws NotFoundException - Si el usuario no tiene ninguna tarea disponible
+   */
+  @Get('next')
+  findNext(
+    @Param('wid') workspaceId: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.tasksService.findNext(userId, workspaceId);
+  }
+
+  /**
+   * Endpoint GET /workspaces/:wid/tasks/:taskId
    * Obtiene una tarea específica por su ID
-   * Incluye todas las relaciones (categoría, creador, asignado)
-   * 
+   * Incluye todas las relaciones (categoría, creador, asignado, etiquetas)
+   * y el árbol de subtareas con puntos acumulados, porcentaje de avance y progreso de la checklist
+   *
+   * @param id - ID único de la tarea (UUID)
+   * @param req - Request con la información del usuario autenticado
+   * @returns Promise<Task> - La tarea encontrada con sus subtareas y el resumen de reacciones
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  @Get(':taskId')
+  findOne(@Param('taskId') id: string, @Request() req: AuthenticatedRequest) {
+    // Obtener el ID del usuario autenticado (para el resumen de reacciones)
+    const userId = req.user.userId;
+
+    // Llamar al servicio para obtener la tarea por ID con su subárbol
+    return this.tasksService.findTree(id, userId);
+  }
+
+  /**
+   * Endpoint GET /workspaces/:wid/tasks/:taskId/history
+   * Obtiene el historial de cambios de una tarea
+   * Cada entrada indica quién hizo el cambio, cuándo, qué campo y sus valores anterior y nuevo
+   *
+   * @param id - ID único de la tarea (UUID)
+   * @returns Promise<TaskHistory[]> - Historial de cambios de la tarea
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  @Get(':taskId/history')
+  findHistory(@Param('taskId') id: string) {
+    // Llamar al servicio para obtener el historial de la tarea
+    return this.tasksService.findHistory(id);
+  }
+
+  /**
+   * Endpoint GET /workspaces/:wid/tasks/:taskId/transitions
+   * Lista las transiciones de estado disponibles para la tarea según el flujo de trabajo
+   * Cada transición indica su estado destino y las guardas que exige
+   *
    * @param id - ID único de la tarea (UUID)
-   * @returns Promise<Task> - La tarea encontrada
+   * @returns Estado actual y transiciones disponibles
    * @throws NotFoundException - Si la tarea no existe
    */
-  @Get(':id')
-  findOne(@Param('id') id: string) {
-    // Llamar al servicio para obtener la tarea por ID
-    return this.tasksService.findOne(id);
+  @Get(':taskId/transitions')
+  findTransitions(@Param('taskId') id: string) {
+    // Llamar al servicio para obtener las transiciones disponibles
+    return this.tasksService.findTransitions(id);
   }
 
   /**
-   * Endpoint PATCH /tasks/:id
+   * Endpoint POST /workspaces/:wid/tasks/:taskId/transitions
+   * Ejecuta una transición de estado sobre la tarea
+   * Rechaza con 422 las transiciones no permitidas o cuyas guardas no se cumplen
+   *
+   * @param id - ID único de la tarea (UUID)
+   * @param transitionTaskDto - DTO con el estado destino y un comentario opcional
+   * @param req - Objeto Request de Express que contiene información del usuario autenticado
+   * @returns Promise<Task> - La tarea con su nuevo estado
+   * @throws NotFoundException - Si la tarea no existe
+   * @throws ForbiddenException - Si el usuario no es el creador ni el asignado de la tarea
+   * @throws UnprocessableEntityException - Si la transición no está permitida
+   */
+  @Post(':taskId/transitions')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies(TaskEditorPolicy)
+  @UsePipes(new ValidationPipe()) // Valida los datos del DTO antes de procesarlos
+  transition(
+    @Param('taskId') id: string,
+    @Body() transitionTaskDto: TransitionTaskDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Extraer userId del token JWT para registrar quién ejecutó la transición
+    const userId = req.user.userId;
+
+    // Llamar al servicio para ejecutar la transición
+    return this.tasksService.transition(id, transitionTaskDto, userId);
+  }
+
+  /**
+   * Endpoint PATCH /workspaces/:wid/tasks/:taskId
    * Actualiza una tarea existente
    * Solo actualiza los campos que se proporcionen en el body
-   * 
+   * El usuario autenticado queda registrado como autor de los cambios en el historial
+   * Solo pueden editarla su creador, su asignado o un administrador
+   *
    * @param id - ID único de la tarea a actualizar (UUID)
    * @param updateTaskDto - DTO con los campos a actualizar (parcial)
+   * @param req - Objeto Request de Express que contiene información del usuario autenticado
    * @returns Promise<Task> - La tarea actualizada
    * @throws NotFoundException - Si la tarea no existe
+   * @throws ForbiddenException - Si el usuario no es el creador ni el asignado de la tarea
    */
-  @Patch(':id')
-  @UsePipes(new ValidationPipe()) // Valida los datos del DTO antes de procesarlos
-  update(@Param('id') id: string, @Body() updateTaskDto: Partial<CreateTaskDto>) {
+  @Patch(':taskId')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies(TaskEditorPolicy)
+  @UsePipes(new ValidationPipe({ whitelist: true })) // Valida el DTO y descarta los campos que no declara (ej: created_by)
+  update(
+    @Param('taskId') id: string,
+    @Body() updateTaskDto: UpdateTaskDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Extraer userId del token JWT para registrar quién realizó el cambio
+    const userId = req.user.userId;
+
     // Llamar al servicio para actualizar la tarea
-    return this.tasksService.update(id, updateTaskDto);
+    return this.tasksService.update(id, updateTaskDto, userId);
   }
 
   /**
-   * Endpoint DELETE /tasks/:id
-   * Elimina una tarea de la base de datos
-   * 
+   * Endpoint DELETE /workspaces/:wid/tasks/:taskId
+   * Envía una tarea a la papelera junto con sus comentarios (se puede restaurar)
+   * Solo pueden eliminarla su creador, su asignado o un administrador
+   *
    * @param id - ID único de la tarea a eliminar (UUID)
    * @returns Promise<void> - No retorna nada si la eliminación es exitosa
    * @throws NotFoundException - Si la tarea no existe
+   * @throws ForbiddenException - Si el usuario no es el creador ni el asignado de la tarea
    */
-  @Delete(':id')
-  remove(@Param('id') id: string) {
+  @Delete(':taskId')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies(TaskEditorPolicy)
+  remove(@Param('taskId') id: string) {
     // Llamar al servicio para eliminar la tarea
     return this.tasksService.remove(id);
   }
+
+  /**
+   * Endpoint POST /workspaces/:wid/tasks/:taskId/restore
+   * Restaura una tarea de la papelera junto con los comentarios eliminados con ella
+   *
+   * @param id - ID único de la tarea a restaurar (UUID)
+   * @returns Promise<Task> - La tarea restaurada
+   * @throws NotFoundException - Si la tarea no está en la papelera
+   * @throws ForbiddenException - Si el usuario no es el creador ni el asignado de la tarea
+   */
+  @Post(':taskId/restore')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies(TaskEditorPolicy)
+  restore(@Param('taskId') id: string) {
+    return this.tasksService.restore(id);
+  }
 }
@@ -13,9 +13,52 @@ import { TaskController } from './task.controller';
 // Importa la entidad Task para registrarla en TypeORM
 import { Task } from './entities/task.entity';
 
+// Importa la entidad y el servicio del historial de cambios de tareas
+import { TaskHistory } from './entities/task-history.entity';
+import { TaskHistoryService } from './task-history.service';
+
+// Importa el servicio del flujo de trabajo de estados
+import { TaskWorkflowService } from './task-workflow.service';
+
+// Importa la entidad, el servicio y el controlador de dependencias entre tareas
+import { TaskDependency } from './entities/task-dependency.entity';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { TaskDependenciesController } from './task-dependencies.controller';
+
+// Importa la entidad, el servicio y el controlador de la checklist de tareas
+import { TaskChecklistItem } from './entities/task-checklist-item.entity';
+import { TaskChecklistService } from './task-checklist.service';
+import { TaskChecklistController } from './task-checklist.controller';
+
+// Importa la entidad, el servicio y el controlador de los seguidores de tareas
+import { TaskWatcher } from './entities/task-watcher.entity';
+import { TaskWatchersService } from './task-watchers.service';
+import { TaskWatchersController } from './task-watchers.controller';
+
+// Importa el servicio de tareas recurrentes
+import { TaskRecurrenceService } from './task-recurrence.service';
+
+// Importa la entidad Comment para guardar los comentarios de las transiciones
+import { Comment } from '../comments/entities/comment.entity';
+
 // Importa CategoriesModule para poder usar CategoriesService si es necesario
 import { CategoriesModule } from '../categories/categories.module';
 
+// Importa la política que limita la modificación de las tareas al creador o al asignado
+import { TaskEditorPolicy } from './policies/task-editor.policy';
+
+// Importa NotificationsModule para avisar de asignaciones y cambios de estado
+import { NotificationsModule } from '../notifications/notifications.module';
+
+// Importa LabelsModule para asignar etiquetas a las tareas
+import { LabelsModule } from '../labels/labels.module';
+
+// Importa ReactionsModule para incluir los resúmenes de reacciones en las tareas
+import { ReactionsModule } from '../reactions/reactions.module';
+
+// Importa WorkspacesModule para resolver el espacio de trabajo de la ruta y validar sus miembros
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+
 /**
  * Decorador que marca esta clase como un módulo de NestJS
  * Los módulos organizan la aplicación en unidades funcionales
@@ -23,31 +66,72 @@ import { CategoriesModule } from '../categories/categories.module';
 @Module({
   /**
    * imports - Módulos y dependencias que este módulo necesita
-   * TypeOrmModule.forFeature([Task]): Registra la entidad Task en TypeORM
-   *   Permite inyectar el repositorio de Task en el servicio
+   * TypeOrmModule.forFeature([Task, TaskHistory, TaskDependency, TaskChecklistItem, TaskWatcher, Comment]): Registra las entidades en TypeORM
+   *   Permite inyectar sus repositorios en los servicios
+   *   Comment se usa para guardar el comentario que acompaña una transición de estado
    * CategoriesModule: Importa el módulo de categorías para poder usar su servicio si es necesario
+   * LabelsModule: Provee LabelsService para validar las etiquetas asignadas a las tareas
+   * NotificationsModule: Provee NotificationsService para avisar a los usuarios de los cambios
+   * ReactionsModule: Provee ReactionsService para resumir las reacciones de las tareas
+   * WorkspacesModule: Provee WorkspaceMemberGuard y WorkspacesService para validar los miembros
    */
   imports: [
-    TypeOrmModule.forFeature([Task]), // Registra la entidad Task para usar su repositorio
+    TypeOrmModule.forFeature([
+      Task,
+      TaskHistory,
+      TaskDependency,
+      TaskChecklistItem,
+      TaskWatcher,
+      Comment,
+    ]), // Registra las entidades para usar sus repositorios
     CategoriesModule, // Importa el módulo de categorías (por si se necesita en el futuro)
+    LabelsModule, // Importa el módulo de etiquetas
+    NotificationsModule, // Importa el módulo de notificaciones
+    ReactionsModule, // Importa el módulo de reacciones
+    WorkspacesModule, // Importa el módulo de espacios de trabajo
   ],
-  
+
   /**
    * controllers - Controladores que manejan las peticiones HTTP
    * TaskController: Define los endpoints REST para las tareas
+   * TaskDependenciesController: Define los endpoints de /workspaces/:wid/tasks/:taskId/dependencies
+   * TaskChecklistController: Define los endpoints de /workspaces/:wid/tasks/:taskId/checklist
+   * TaskWatchersController: Define los endpoints de /workspaces/:wid/tasks/:taskId/watchers
    */
-  controllers: [TaskController],
-  
+  controllers: [
+    TaskController,
+    TaskDependenciesController,
+    TaskChecklistController,
+    TaskWatchersController,
+  ],
+
   /**
    * providers - Servicios y otros proveedores inyectables
    * TaskService: Contiene la lógica de negocio para las tareas
+   * TaskHistoryService: Registra y consulta el historial de cambios de las tareas
+   * TaskWorkflowService: Valida las transiciones de estado según el flujo de trabajo
+   * TaskDependenciesService: Gestiona los bloqueos entre tareas y detecta ciclos
+   * TaskRecurrenceService: Interpreta las reglas de recurrencia y genera las siguientes instancias
+   * TaskChecklistService: Gestiona los pasos de las checklists y calcula su progreso
+   * TaskWatchersService: Gestiona los seguidores de las tareas
+   * TaskEditorPolicy: Política que limita la modificación de una tarea a su creador o asignado
    */
-  providers: [TaskService],
-  
+  providers: [
+    TaskService,
+    TaskHistoryService,
+    TaskWorkflowService,
+    TaskDependenciesService,
+    TaskRecurrenceService,
+    TaskChecklistService,
+    TaskWatchersService,
+    TaskEditorPolicy,
+  ],
+
   /**
    * exports - Servicios y módulos que este módulo exporta para que otros módulos puedan usarlos
    * TaskService: Se exporta para que CommentsModule pueda usar TasksService
+   * TaskWatchersService: Se exporta para que quien comenta pase a seguir la tarea
    */
-  exports: [TaskService], // Exportar TaskService para usar en CommentsModule
+  exports: [TaskService, TaskWatchersService], // Exportar los servicios para usar en CommentsModule
 })
 export class TaskModule {}
@@ -0,0 +1,318 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { TaskService } from './task.service';
+import { TaskHistoryService } from './task-history.service';
+import { TaskWorkflowService } from './task-workflow.service';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { TaskRecurrenceService } from './task-recurrence.service';
+import { TaskChecklistService } from './task-checklist.service';
+import { TaskWatchersService } from './task-watchers.service';
+import { Task } from './entities/task.entity';
+import { TaskHistory } from './entities/task-history.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { TaskPriority } from './enums/task-priority.enum';
+import { BulkTaskAction } from './enums/bulk-task-action.enum';
+import { Comment } from '../comments/entities/comment.entity';
+import { Category } from '../categories/entities/category.entity';
+import { User } from '../users/entities/user.entity';
+import { LabelsService } from '../labels/labels.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { ReactionsService } from '../reactions/reactions.service';
+import { WorkspacesService } from '../workspaces/workspaces.service';
+
+describe('TaskService', () => {
+  let taskService: TaskService;
+  let historyRepository: { create: jest.Mock; save: jest.Mock };
+  let notificationsService: {
+    taskAssigned: jest.Mock;
+    taskStatusChanged: jest.Mock;
+  };
+
+  /**
+   * Fila de la tarea "guardada en la base de datos"
+   */
+  let row: Partial<Task>;
+
+  /**
+   * Tareas "guardadas en la base de datos" para las operaciones en lote, por ID
+   */
+  let stored: Record<string, Partial<Task>>;
+
+  /**
+   * Simula findOne con relaciones: devuelve una copia de la fila con el asignado y la categoría cargados
+   */
+  const load = (): Task =>
+    ({
+      ...row,
+      assignedTo: row.assigned_to ? ({ id: row.assigned_to } as User) : null,
+      category: row.category_id ? ({ id: row.category_id } as Category) : null,
+      labels: [],
+    }) as unknown as Task;
+
+  /**
+   * Simula save como TypeORM: si la relación está cargada, su id tiene prioridad sobre la columna FK
+   */
+  const persist = (task: Task): Task => {
+    row = {
+      ...task,
+      assigned_to: task.assignedTo ? task.assignedTo.id : task.assigned_to,
+      category_id: task.category ? task.category.id : task.category_id,
+    };
+    return task;
+  };
+
+  /**
+   * Simula una transacción de TypeORM sobre 'stored': si falla, se deshacen sus cambios
+   * Las transacciones anidadas se comportan como un SAVEPOINT
+   */
+  const transaction = async <T>(
+    work: (manager: unknown) => Promise<T>,
+  ): Promise<T> => {
+    const savepoint = structuredClone(stored);
+    const manager = {
+      transaction,
+      getRepository: (entity: unknown) =>
+        entity === Task
+          ? {
+              findOne: ({ where }: { where: Partial<Task> }) => {
+                const task = stored[where.id!];
+                return Promise.resolve(
+                  task?.workspace_id === where.workspace_id
+                    ? structuredClone(task)
+                    : null,
+                );
+              },
+              save: (task: Task) => {
+                stored[task.id] = structuredClone(task);
+                return Promise.resolve(task);
+              },
+            }
+          : historyRepository,
+    };
+
+    try {
+      return await work(manager);
+    } catch (error) {
+      stored = savepoint;
+      throw error;
+    }
+  };
+
+  beforeEach(async () => {
+    row = {
+      id: 'task-1',
+      name: 'Deploy',
+      status: TaskStatus.PENDING,
+      workspace_id: 'workspace-1',
+      created_by: 'user-a',
+      assigned_to: 'user-a',
+      category_id: 'category-1',
+    };
+    stored = {
+      'task-1': {
+        id: 'task-1',
+        status: TaskStatus.PENDING,
+        workspace_id: 'workspace-1',
+        created_by: 'user-a',
+        dueDate: new Date('2026-10-01T00:00:00Z'),
+      },
+      'task-2': {
+        id: 'task-2',
+        status: TaskStatus.PENDING,
+        workspace_id: 'workspace-1',
+        created_by: 'user-a',
+        dueDate: null,
+      },
+      'task-3': {
+        id: 'task-3',
+        status: TaskStatus.PENDING,
+        workspace_id: 'workspace-1',
+        created_by: 'user-a',
+        dueDate: new Date('2026-10-05T00:00:00Z'),
+      },
+    };
+    historyRepository = {
+      create: jest.fn((entry: Partial<TaskHistory>) => entry),
+      save: jest.fn((entries: Partial<TaskHistory>[]) =>
+        Promise.resolve(entries),
+      ),
+    };
+    notificationsService = {
+      taskAssigned: jest.fn(),
+      taskStatusChanged: jest.fn(),
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskService,
+        TaskHistoryService,
+        TaskWorkflowService,
+        {
+          provide: getRepositoryToken(Task),
+          useValue: {
+            create: jest.fn((data: Partial<Task>) => ({ ...data }) as Task),
+            findOne: jest.fn(() => Promise.resolve(load())),
+            save: jest.fn((task: Task) => Promise.resolve(persist(task))),
+            manager: {
+              existsBy: jest.fn().mockResolvedValue(true),
+              transaction,
+            },
+          },
+        },
+        {
+          provide: getRepositoryToken(TaskHistory),
+          useValue: historyRepository,
+        },
+        { provide: getRepositoryToken(Comment), useValue: {} },
+        { provide: TaskDependenciesService, useValue: {} },
+        { provide: TaskRecurrenceService, useValue: {} },
+        { provide: LabelsService, useValue: {} },
+        { provide: TaskChecklistService, useValue: {} },
+        { provide: NotificationsService, useValue: notificationsService },
+        {
+          provide: TaskWatchersService,
+          useValue: { addWatchers: jest.fn() },
+        },
+        { provide: ReactionsService, useValue: {} },
+        {
+          provide: WorkspacesService,
+          useValue: { isMember: jest.fn().mockResolvedValue(true) },
+        },
+      ],
+    }).compile();
+
+    taskService = app.get<TaskService>(TaskService);
+  });
+
+  describe('create', () => {
+    it('should save the priority of the new task', async () => {
+      const created = await taskService.create(
+        { name: 'Hotfix', priority: TaskPriority.HIGH },
+        'user-a',
+        'workspace-1',
+      );
+
+      expect(row.priority).toBe(TaskPriority.HIGH);
+      expect(created.priority).toBe(TaskPriority.HIGH);
+    });
+  });
+
+  describe('update', () => {
+    it('should save a reassignment and record it in the history', async () => {
+      const updated = await taskService.update(
+        'task-1',
+        { assigned_to: 'user-b' },
+        'user-a',
+      );
+
+      expect(row.assigned_to).toBe('user-b');
+      expect(updated.assigned_to).toBe('user-b');
+      expect(historyRepository.save).toHaveBeenCalledWith([
+        expect.objectContaining({
+          field: 'assigned_to',
+          oldValue: 'user-a',
+          newValue: 'user-b',
+        }),
+      ]);
+      expect(notificationsService.taskAssigned).toHaveBeenCalledWith(
+        expect.objectContaining({ assigned_to: 'user-b' }),
+        'user-a',
+        undefined,
+      );
+    });
+
+    it('should save a category change', async () => {
+      const updated = await taskService.update(
+        'task-1',
+        { category_id: 'category-2' },
+        'user-a',
+      );
+
+      expect(row.category_id).toBe('category-2');
+      expect(updated.category.id).toBe('category-2');
+    });
+
+    it('should not record history when nothing tracked changed', async () => {
+      await taskService.update('task-1', { name: 'Deploy v2' }, 'user-a');
+
+      expect(row.name).toBe('Deploy v2');
+      expect(historyRepository.save).not.toHaveBeenCalled();
+      expect(notificationsService.taskAssigned).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bulk', () => {
+    const shift = { action: BulkTaskAction.SHIFT_DUE_DATE, shift_days: 2 };
+
+    it('should apply the action to each task and report the ones that fail', async () => {
+      const result = await taskService.bulk(
+        { ...shift, ids: ['task-1', 'task-2', 'task-missing'] },
+        'workspace-1',
+        'user-a',
+      );
+
+      expect(result).toMatchObject({
+        committed: true,
+        succeeded: 1,
+        failed: 2,
+      });
+      expect(result.results).toEqual([
+        { id: 'task-1', success: true },
+        {
+          id: 'task-2',
+          success: false,
+          error: 'La tarea no tiene fecha de vencimiento',
+        },
+        { id: 'task-missing', success: false, error: 'Tarea no encontrada' },
+      ]);
+      expect(stored['task-1'].dueDate).toEqual(
+        new Date('2026-10-03T00:00:00Z'),
+      );
+    });
+
+    it('should roll back only the changes of the task that failed', async () => {
+      // El historial de task-3 falla después de guardar la tarea
+      historyRepository.save.mockImplementation(
+        (entries: Partial<TaskHistory>[]) =>
+          entries[0].task_id === 'task-3'
+            ? Promise.reject(new Error('fallo de la base de datos'))
+            : Promise.resolve(entries),
+      );
+
+      const result = await taskService.bulk(
+        { ...shift, ids: ['task-1', 'task-3'] },
+        'workspace-1',
+        'user-a',
+      );
+
+      expect(result).toMatchObject({
+        committed: true,
+        succeeded: 1,
+        failed: 1,
+      });
+      expect(stored['task-1'].dueDate).toEqual(
+        new Date('2026-10-03T00:00:00Z'),
+      );
+      expect(stored['task-3'].dueDate).toEqual(
+        new Date('2026-10-05T00:00:00Z'),
+      );
+    });
+
+    it('should roll back every task in atomic mode when one fails', async () => {
+      const result = await taskService.bulk(
+        { ...shift, ids: ['task-1', 'task-2'], atomic: true },
+        'workspace-1',
+        'user-a',
+      );
+
+      expect(result).toMatchObject({
+        committed: false,
+        succeeded: 0,
+        failed: 1,
+      });
+      expect(stored['task-1'].dueDate).toEqual(
+        new Date('2026-10-01T00:00:00Z'),
+      );
+    });
+  });
+});
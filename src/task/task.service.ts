@@ -1,20 +1,134 @@
 // Importa decoradores y excepciones de NestJS
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  UnprocessableEntityException,
+  HttpException,
+  ForbiddenException,
+} from '@nestjs/common';
 
 // Importa decoradores y tipos de TypeORM para trabajar con repositorios
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import {
+  EntityManager,
+  In,
+  IsNull,
+  Not,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
 
 // Importa la entidad Task
 import { Task } from './entities/task.entity';
 
+// Importa la entidad TaskHistory para tipar el historial de cambios
+import { TaskHistory } from './entities/task-history.entity';
+
+// Importa la entidad Comment para guardar el comentario que acompaña una transición
+import { Comment } from '../comments/entities/comment.entity';
+
+// Importa la entidad Category para validar que la categoría pertenece al espacio de trabajo
+import { Category } from '../categories/entities/category.entity';
+
 // Importa los DTOs para crear y obtener tareas
 import { CreateTaskDto } from './dto/create-task.dto';
+import { UpdateTaskDto } from './dto/update-task.dto';
 import { GetTasksDto } from './dto/get-tasks.dto';
+import { TransitionTaskDto } from './dto/transition-task.dto';
+import { BulkTaskDto, BULK_MAX_TASKS } from './dto/bulk-task.dto';
 
 // Importa el enum TaskStatus para el tipo de status
 import { TaskStatus } from './enums/task-status.enum';
 
+// Importa el enum BulkTaskAction para las operaciones en lote
+import { BulkTaskAction } from './enums/bulk-task-action.enum';
+
+// Importa el enum LabelMatch para el filtro por etiquetas
+import { LabelMatch } from './enums/label-match.enum';
+
+// Importa el servicio de historial para auditar los cambios de las tareas
+import { TaskHistoryService, TaskSnapshot } from './task-history.service';
+
+// Importa el servicio del flujo de trabajo para validar los cambios de estado
+import { TaskWorkflowService } from './task-workflow.service';
+import { TaskTransition } from './workflow/task-workflow.definition';
+
+// Importa el servicio de dependencias para comprobar los bloqueos de una tarea
+import {
+  TaskDependenciesService,
+  FINISHED_STATUSES,
+} from './task-dependencies.service';
+
+// Importa el servicio de tareas recurrentes para generar la siguiente instancia de una serie
+import { TaskRecurrenceService } from './task-recurrence.service';
+
+// Importa el servicio de la checklist para calcular su progreso
+import { TaskChecklistService } from './task-checklist.service';
+
+// Importa el servicio de seguidores para el seguimiento automático de las tareas
+import { TaskWatchersService } from './task-watchers.service';
+
+// Importa el servicio de notificaciones para avisar de asignaciones y cambios de estado
+import { NotificationsService } from '../notifications/notifications.service';
+
+// Importa el servicio de etiquetas para asignarlas a las tareas
+import { LabelsService } from '../labels/labels.service';
+
+// Importa la regla de modificación de tareas (creador, asignado o administrador)
+import {
+  canEditTask,
+  TASK_EDITOR_FORBIDDEN_MESSAGE,
+} from './policies/task-editor.policy';
+
+// Importa el servicio de reacciones para incluir sus resúmenes en las respuestas
+import { ReactionsService } from '../reactions/reactions.service';
+
+// Importa el servicio de espacios de trabajo para validar que el asignado es miembro
+import { WorkspacesService } from '../workspaces/workspaces.service';
+
+// Importa la configuración de la búsqueda de texto completo
+import {
+  SEARCH_CONFIG,
+  SEARCH_HEADLINE_OPTIONS,
+} from '../search/search.constants';
+
+// Importa la paginación por cursor compartida por los listados
+import { PaginationMode } from '../common/pagination/pagination-mode.enum';
+import { paginateByCursor } from '../common/pagination/cursor-pagination';
+
+/**
+ * Error interno usado para deshacer la transacción de una operación en lote atómica
+ */
+class BulkRollback extends Error {}
+
+/**
+ * BulkTaskItemResult - Resultado de una operación en lote para una tarea
+ * - id: ID de la tarea
+ * - success: true si la acción se aplicó a la tarea
+ * - error: Motivo del fallo (solo si success es false)
+ */
+export interface BulkTaskItemResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * BulkTaskResult - Resultado de una operación en lote
+ * - action: Acción aplicada
+ * - committed: false si la operación era atómica y se deshizo por algún fallo
+ * - succeeded / failed: Número de tareas procesadas correctamente y con error
+ * - results: Resultado de cada tarea
+ */
+export interface BulkTaskResult {
+  action: BulkTaskAction;
+  committed: boolean;
+  succeeded: number;
+  failed: number;
+  results: BulkTaskItemResult[];
+}
+
 /**
  * Decorador que marca esta clase como un proveedor inyectable de NestJS
  */
@@ -28,79 +142,166 @@ export class TaskService {
   /**
    * Constructor que recibe el repositorio de Task mediante inyección de dependencias
    * @param tasksRepository - Repositorio de TypeORM para realizar operaciones en la base de datos
+   * @param commentsRepository - Repositorio de Comment para guardar los comentarios de las transiciones
+   * @param taskHistoryService - Servicio que registra el historial de cambios de las tareas
+   * @param taskWorkflowService - Servicio que valida las transiciones de estado
+   * @param taskDependenciesService - Servicio que gestiona los bloqueos entre tareas
+   * @param taskRecurrenceService - Servicio que gestiona las tareas recurrentes
+   * @param labelsService - Servicio que valida y obtiene las etiquetas asignadas
+   * @param taskChecklistService - Servicio que calcula el progreso de las checklists
+   * @param notificationsService - Servicio que crea las notificaciones de los usuarios
+   * @param taskWatchersService - Servicio que añade los seguidores automáticos de las tareas
+   * @param reactionsService - Servicio que resume las reacciones de las tareas
+   * @param workspacesService - Servicio que comprueba los miembros de los espacios de trabajo
    */
   constructor(
     @InjectRepository(Task)
     private tasksRepository: Repository<Task>,
+    @InjectRepository(Comment)
+    private commentsRepository: Repository<Comment>,
+    private taskHistoryService: TaskHistoryService,
+    private taskWorkflowService: TaskWorkflowService,
+    private taskDependenciesService: TaskDependenciesService,
+    private taskRecurrenceService: TaskRecurrenceService,
+    private labelsService: LabelsService,
+    private taskChecklistService: TaskChecklistService,
+    private notificationsService: NotificationsService,
+    private taskWatchersService: TaskWatchersService,
+    private reactionsService: ReactionsService,
+    private workspacesService: WorkspacesService,
   ) {}
 
   /**
    * Crea una nueva tarea en la base de datos
    * El campo 'created_by' se extrae del token JWT del usuario autenticado
-   * 
+   * La tarea pertenece al espacio de trabajo de la ruta, igual que su categoría, su asignado y su padre
+   * El creador y el asignado pasan a seguir la tarea
+   *
    * @param createTaskDto - DTO con los datos de la tarea a crear
    * @param userId - ID del usuario que crea la tarea (extraído del token JWT)
+   * @param workspaceId - ID del espacio de trabajo activo
    * @returns Promise<Task> - La tarea creada con todos sus datos
+   * @throws NotFoundException - Si la categoría o la tarea padre no existen en el espacio de trabajo
+   * @throws BadRequestException - Si el asignado no es miembro del espacio de trabajo
    */
-  async create(createTaskDto: CreateTaskDto, userId: string): Promise<Task> {
+  async create(
+    createTaskDto: CreateTaskDto,
+    userId: string,
+    workspaceId: string,
+  ): Promise<Task> {
+    // La categoría y el asignado deben pertenecer al espacio de trabajo
+    await this.assertWorkspaceReferences(workspaceId, createTaskDto);
+
+    // Si se crea como subtarea, verificar que la tarea padre existe en el espacio de trabajo
+    if (createTaskDto.parent_id) {
+      await this.assertValidParent(createTaskDto.parent_id, workspaceId);
+    }
+
     // Prepara los datos para crear la tarea
     // Construimos el objeto explícitamente para evitar problemas de inferencia de tipos
     const taskData: Partial<Task> = {
       name: createTaskDto.name,
       description: createTaskDto.description,
       storyPoints: createTaskDto.storyPoints,
+      originalEstimate: createTaskDto.originalEstimate,
       dueDate: createTaskDto.dueDate ? new Date(createTaskDto.dueDate) : null,
       status: createTaskDto.status,
+      priority: createTaskDto.priority,
       category_id: createTaskDto.category_id,
       assigned_to: createTaskDto.assigned_to,
+      parent_id: createTaskDto.parent_id,
+      workspace_id: workspaceId,
       // Asigna el ID del usuario autenticado al campo 'created_by' según ERD
       created_by: userId,
+      // Valida y normaliza la regla de recurrencia (si la tarea se repite)
+      recurrenceRule: createTaskDto.recurrence
+        ? this.taskRecurrenceService.buildRule(createTaskDto.recurrence)
+        : null,
     };
 
     // Crea una nueva instancia de Task con los datos preparados
     const task = this.tasksRepository.create(taskData);
 
-    // Guarda la tarea en la base de datos y retorna el resultado
-    return await this.tasksRepository.save(task);
+    // Asignar las etiquetas indicadas del espacio de trabajo (lanza NotFoundException si alguna no existe en él)
+    if (createTaskDto.label_ids) {
+      task.labels = await this.labelsService.findByIds(
+        createTaskDto.label_ids,
+        workspaceId,
+      );
+    }
+
+    // Guarda la tarea en la base de datos
+    const saved = await this.tasksRepository.save(task);
+
+    // El creador y el asignado pasan a seguir la tarea
+    await this.taskWatchersService.addWatchers(saved.id, [
+      userId,
+      saved.assigned_to,
+    ]);
+
+    return saved;
   }
 
   /**
-   * Obtiene todas las tareas con filtros opcionales y paginación
-   * Permite filtrar por status, categoría y usuario asignado
-   * 
-   * @param getTasksDto - DTO con los filtros y parámetros de paginación
-   * @returns Promise<{ tasks: Task[]; total: number }> - Lista de tareas y total de resultados
+   * Obtiene las tareas del espacio de trabajo con filtros opcionales, ordenamiento y paginación
+   * Los filtros disponibles se describen en GetTasksDto y se aplican en applyFilters
+   *
+   * Con pagination=cursor (o si se envía un cursor) se usa la paginación por cursor
+   *
+   * @param getTasksDto - DTO con los filtros, el orden y los parámetros de paginación
+   * @param workspaceId - ID del espacio de trabajo activo
+   * @param userId - ID del usuario autenticado (para el filtro watching=me)
+   * @returns Lista de tareas y total de resultados (offset) o cursores de navegación (cursor)
+   * @throws BadRequestException - Si el cursor no es válido o se combina con sort o q
    */
-  async findAll(getTasksDto: GetTasksDto): Promise<{ tasks: Task[]; total: number }> {
+  async findAll(
+    getTasksDto: GetTasksDto,
+    workspaceId: string,
+    userId?: string,
+  ): Promise<
+    | { tasks: Task[]; total: number }
+    | { tasks: Task[]; nextCursor: string | null; prevCursor: string | null }
+  > {
     // Crea un query builder para construir la consulta SQL de forma dinámica
     const queryBuilder = this.tasksRepository.createQueryBuilder('task');
 
-    // Aplicar filtro por status si se proporciona
-    if (getTasksDto.status) {
-      // Agrega una condición WHERE para filtrar por estado
-      queryBuilder.andWhere('task.status = :status', { status: getTasksDto.status });
-    }
+    // Limitar al espacio de trabajo y aplicar todos los filtros del DTO
+    queryBuilder.where('task.workspace_id = :workspaceId', { workspaceId });
+    this.applyFilters(queryBuilder, getTasksDto, userId);
 
-    // Aplicar filtro por categoría si se proporciona
-    if (getTasksDto.category_id) {
-      // Agrega una condición WHERE para filtrar por categoría
-      queryBuilder.andWhere('task.category_id = :category_id', {
-        category_id: getTasksDto.category_id,
-      });
-    }
-
-    // Aplicar filtro por usuario asignado si se proporciona
-    if (getTasksDto.assigned_to) {
-      // Agrega una condición WHERE para filtrar por usuario asignado
-      queryBuilder.andWhere('task.assigned_to = :assigned_to', {
-        assigned_to: getTasksDto.assigned_to,
-      });
+    // Paginación por cursor: sin COUNT ni OFFSET
+    if (
+      getTasksDto.pagination === PaginationMode.CURSOR ||
+      getTasksDto.cursor
+    ) {
+      return this.findAllByCursor(queryBuilder, getTasksDto, userId);
     }
 
     // Contar el total de resultados que coinciden con los filtros (antes de paginación)
     // Esto es necesario para la paginación y mostrar el total de resultados
     const total = await queryBuilder.getCount();
 
+    // Si hay búsqueda de texto, calcular la relevancia y el fragmento resaltado
+    if (getTasksDto.q) {
+      const query = 'websearch_to_tsquery(:searchConfig::regconfig, :q)';
+      queryBuilder
+        // Relevancia: la de la tarea más la del comentario más relevante
+        .addSelect(
+          `ts_rank(task.search_vector, ${query}) + COALESCE((
+            SELECT MAX(ts_rank(comment.search_vector, ${query}))
+            FROM comments comment
+            WHERE comment.which_todo = task.id AND comment."deletedAt" IS NULL
+          ), 0)`,
+          'search_rank',
+        )
+        // Fragmento del nombre y la descripción con los términos resaltados
+        .addSelect(
+          `ts_headline(:searchConfig::regconfig, coalesce(task.name, '') || ' ' || coalesce(task.description, ''), ${query}, :headlineOptions)`,
+          'search_snippet',
+        )
+        .setParameter('headlineOptions', SEARCH_HEADLINE_OPTIONS);
+    }
+
     // Aplicar paginación: limit y offset
     const limit = getTasksDto.limit || 10; // Número de resultados por página
     const offset = getTasksDto.offset || 0; // Número de resultados a saltar
@@ -113,20 +314,101 @@ export class TaskService {
       .leftJoinAndSelect('task.createdBy', 'createdBy') // Carga el usuario que creó la tarea
       .leftJoinAndSelect('task.assignedTo', 'assignedTo'); // Carga el usuario asignado a la tarea
 
-    // Ordenar por fecha de creación descendente (más recientes primero)
-    queryBuilder.orderBy('task.createdAt', 'DESC');
+    // Aplicar el orden solicitado
+    this.applySort(queryBuilder, getTasksDto);
 
     // Ejecutar la consulta y obtener los resultados
-    const tasks = await queryBuilder.getMany();
+    // getRawAndEntities permite leer además la relevancia y el fragmento calculados
+    const { entities: tasks, raw } = await queryBuilder.getRawAndEntities();
+
+    // Copiar la relevancia y el fragmento de la búsqueda a cada tarea
+    if (getTasksDto.q) {
+      const rows = raw as {
+        task_id: string;
+        search_rank: string;
+        search_snippet: string;
+      }[];
+      for (const task of tasks) {
+        const row = rows.find((result) => result.task_id === task.id);
+        task.searchRank = Number(row?.search_rank ?? 0);
+        task.searchSnippet = row?.search_snippet;
+      }
+    }
+
+    // Cargar las etiquetas y las subtareas, y calcular los puntos acumulados y el avance
+    await this.loadLabels(tasks);
+    await this.loadSubtrees(tasks);
+
+    // Resumir las reacciones desde el punto de vista del usuario autenticado
+    if (userId) {
+      await this.reactionsService.loadForTasks(tasks, userId);
+    }
 
     // Retornar las tareas y el total de resultados
     return { tasks, total };
   }
 
+  /**
+   * Obtiene una página de tareas usando paginación por cursor
+   * El listado se ordena por fecha de creación descendente (y por ID para desempatar)
+   *
+   * @param queryBuilder - Query builder con los filtros ya aplicados
+   * @param getTasksDto - DTO con el límite y el cursor
+   * @param userId - ID del usuario autenticado (para el resumen de reacciones)
+   * @returns Lista de tareas y cursores de la página siguiente y anterior
+   * @throws BadRequestException - Si el cursor no es válido o se combina con sort o q
+   */
+  private async findAllByCursor(
+    queryBuilder: SelectQueryBuilder<Task>,
+    getTasksDto: GetTasksDto,
+    userId?: string,
+  ): Promise<{
+    tasks: Task[];
+    nextCursor: string | null;
+    prevCursor: string | null;
+  }> {
+    // El cursor depende del orden fijo del listado
+    if (getTasksDto.sort?.length || getTasksDto.q) {
+      throw new BadRequestException(
+        'La paginación por cursor no admite los parámetros sort ni q',
+      );
+    }
+
+    // Cargar relaciones (solo N:1, no multiplican filas y respetan el límite)
+    queryBuilder
+      .leftJoinAndSelect('task.category', 'category')
+      .leftJoinAndSelect('task.createdBy', 'createdBy')
+      .leftJoinAndSelect('task.assignedTo', 'assignedTo');
+
+    const {
+      items: tasks,
+      nextCursor,
+      prevCursor,
+    } = await paginateByCursor(queryBuilder, {
+      alias: 'task',
+      timestampProperty: 'createdAt',
+      timestampColumn: 'createdAt',
+      order: 'DESC',
+      limit: getTasksDto.limit || 10,
+      cursor: getTasksDto.cursor,
+    });
+
+    // Cargar las etiquetas y las subtareas, y calcular los puntos acumulados y el avance
+    await this.loadLabels(tasks);
+    await this.loadSubtrees(tasks);
+
+    // Resumir las reacciones desde el punto de vista del usuario autenticado
+    if (userId) {
+      await this.reactionsService.loadForTasks(tasks, userId);
+    }
+
+    return { tasks, nextCursor, prevCursor };
+  }
+
   /**
    * Obtiene una tarea específica por su ID
    * Incluye todas las relaciones (categoría, creador, asignado)
-   * 
+   *
    * @param id - ID único de la tarea (UUID)
    * @returns Promise<Task> - La tarea encontrada con todas sus relaciones
    * @throws NotFoundException - Si la tarea no existe
@@ -135,8 +417,8 @@ export class TaskService {
     // Busca la tarea por ID incluyendo las relaciones
     const task = await this.tasksRepository.findOne({
       where: { id },
-      // Cargar relaciones: categoría, usuario creador y usuario asignado
-      relations: ['category', 'createdBy', 'assignedTo'],
+      // Cargar relaciones: categoría, usuario creador, usuario asignado y etiquetas
+      relations: ['category', 'createdBy', 'assignedTo', 'labels'],
     });
 
     // Si la tarea no existe, lanzar una excepción
@@ -148,36 +430,313 @@ export class TaskService {
     return task;
   }
 
+  /**
+   * Obtiene una tarea junto con todo su árbol de subtareas
+   * Cada nivel incluye los puntos de historia acumulados y el porcentaje de avance
+   *
+   * @param id - ID único de la tarea (UUID)
+   * @param userId - ID del usuario autenticado (para el resumen de reacciones de la tarea)
+   * @returns Promise<Task> - La tarea con sus subtareas anidadas en 'children'
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  async findTree(id: string, userId?: string): Promise<Task> {
+    // Buscar la tarea raíz (lanza NotFoundException si no existe)
+    const task = await this.findOne(id);
+
+    // Cargar recursivamente las subtareas y calcular los acumulados
+    await this.loadSubtrees([task]);
+
+    // Resumir las reacciones de la tarea desde el punto de vista del usuario
+    if (userId) {
+      await this.reactionsService.loadForTasks([task], userId);
+    }
+
+    return task;
+  }
+
+  /**
+   * Obtiene la tarea más importante en la que puede trabajar el usuario
+   * Se consideran las tareas del espacio de trabajo asignadas al usuario en PENDING o IN_PROGRESS,
+   * sin bloqueos de otras tareas sin terminar y sin subtareas sin terminar
+   * Se elige por prioridad, luego por fecha de vencimiento (sin fecha al final)
+   * y por último la más antigua
+   *
+   * @param userId - ID del usuario autenticado (extraído del token JWT)
+   * @param workspaceId - ID del espacio de trabajo activo
+   * @returns Promise<Task> - La siguiente tarea a realizar, con sus relaciones
+   * @throws NotFoundException - Si el usuario no tiene ninguna tarea disponible
+   */
+  async findNext(userId: string, workspaceId: string): Promise<Task> {
+    const queryBuilder = this.tasksRepository
+      .createQueryBuilder('task')
+      .where('task.workspace_id = :workspaceId', { workspaceId });
+
+    // Reutilizar los filtros del listado: asignadas al usuario, activas y sin bloqueos
+    this.applyFilters(queryBuilder, {
+      assigned_to: userId,
+      status: [TaskStatus.PENDING, TaskStatus.IN_PROGRESS],
+      ready: true,
+    });
+
+    // Excluir las tareas padre que aún esperan a sus subtareas
+    queryBuilder.andWhere(
+      `NOT EXISTS (
+        SELECT 1 FROM tasks child
+        WHERE child.parent_id = task.id
+        AND child.status NOT IN (:...finishedStatuses)
+        AND child."deletedAt" IS NULL
+      )`,
+      { finishedStatuses: FINISHED_STATUSES },
+    );
+
+    const next = await queryBuilder
+      .leftJoinAndSelect('task.category', 'category')
+      .leftJoinAndSelect('task.createdBy', 'createdBy')
+      .leftJoinAndSelect('task.assignedTo', 'assignedTo')
+      .leftJoinAndSelect('task.labels', 'labels')
+      .orderBy('task.priority', 'DESC')
+      .addOrderBy('task.dueDate', 'ASC', 'NULLS LAST')
+      .addOrderBy('task.createdAt', 'ASC')
+      .getOne();
+
+    if (!next) {
+      throw new NotFoundException('No tienes tareas pendientes disponibles');
+    }
+
+    return next;
+  }
+
   /**
    * Actualiza una tarea existente
    * Solo actualiza los campos que se proporcionen en el DTO
-   * 
+   * Registra en el historial cada campo auditado que cambie (status, asignado, categoría, etc.)
+   * Si cambia el estado, el cambio debe estar permitido por el flujo de trabajo
+   * Una tarea con subtareas sin terminar no se puede completar (DONE)
+   * Una tarea bloqueada por otra sin terminar no puede pasar a IN_PROGRESS ni a DONE
+   *
    * @param id - ID único de la tarea a actualizar (UUID)
    * @param updateTaskDto - DTO con los campos a actualizar (parcial)
+   * @param userId - ID del usuario que realiza el cambio (extraído del token JWT)
    * @returns Promise<Task> - La tarea actualizada
-   * @throws NotFoundException - Si la tarea no existe
+   * @throws NotFoundException - Si la tarea, la categoría o el nuevo padre no existen en su espacio de trabajo
+   * @throws BadRequestException - Si el nuevo padre genera un ciclo o el asignado no es miembro del espacio de trabajo
+   * @throws UnprocessableEntityException - Si el cambio de estado no está permitido
    */
-  async update(id: string, updateTaskDto: Partial<CreateTaskDto>): Promise<Task> {
+  async update(
+    id: string,
+    updateTaskDto: UpdateTaskDto,
+    userId: string,
+  ): Promise<Task> {
     // Buscar la tarea para verificar que existe
     const task = await this.findOne(id);
 
-    // Si se proporciona una fecha de vencimiento, convertirla de string a Date
-    if (updateTaskDto.dueDate) {
-      updateTaskDto.dueDate = new Date(updateTaskDto.dueDate) as any;
+    // Si se cambia el estado, validar la transición contra el flujo de trabajo
+    // Las guardas se evalúan con el asignado resultante de la actualización
+    if (updateTaskDto.status && updateTaskDto.status !== task.status) {
+      this.taskWorkflowService.assertTransition(
+        task.status,
+        updateTaskDto.status,
+        {
+          assigned_to:
+            updateTaskDto.assigned_to !== undefined
+              ? updateTaskDto.assigned_to
+              : task.assigned_to,
+        },
+      );
+      await this.assertCanChangeStatus(task, updateTaskDto.status);
+    }
+
+    // La nueva categoría y el nuevo asignado deben pertenecer al espacio de trabajo de la tarea
+    await this.assertWorkspaceReferences(task.workspace_id, {
+      category_id:
+        updateTaskDto.category_id !== task.category_id
+          ? updateTaskDto.category_id
+          : undefined,
+      assigned_to:
+        updateTaskDto.assigned_to !== task.assigned_to
+          ? updateTaskDto.assigned_to
+          : undefined,
+    });
+
+    // Si se cambia la tarea padre, validar que exista y que no genere un ciclo
+    if (updateTaskDto.parent_id && updateTaskDto.parent_id !== task.parent_id) {
+      await this.assertValidParent(
+        updateTaskDto.parent_id,
+        task.workspace_id,
+        task.id,
+      );
+    }
+
+    // Guardar los valores actuales de los campos auditados antes de modificarlos
+    const before = this.taskHistoryService.snapshot(task);
+
+    // La recurrencia no es una columna: se convierte a la regla RRULE (null la elimina)
+    const { recurrence, label_ids, ...changes } = updateTaskDto;
+    if (recurrence !== undefined) {
+      task.recurrenceRule = recurrence
+        ? this.taskRecurrenceService.buildRule(recurrence)
+        : null;
+    }
+
+    // Las etiquetas se reemplazan por completo (un arreglo vacío las quita todas)
+    // Solo se aceptan etiquetas del espacio de trabajo de la tarea
+    if (label_ids !== undefined) {
+      task.labels = await this.labelsService.findByIds(
+        label_ids,
+        task.workspace_id,
+      );
     }
 
     // Actualizar los campos de la tarea con los valores del DTO
     // Object.assign copia las propiedades del DTO a la entidad Task
-    Object.assign(task, updateTaskDto);
+    // El espacio de trabajo no se puede cambiar aunque el body incluya workspace_id
+    Object.assign(task, changes, { workspace_id: task.workspace_id });
+
+    // Si se proporciona una fecha de vencimiento, convertirla de string a Date
+    if (changes.dueDate) {
+      task.dueDate = new Date(changes.dueDate);
+    }
+
+    // Al guardar, las relaciones cargadas por findOne tienen prioridad sobre las columnas FK:
+    // se quitan las que cambian para que se guarde el nuevo asignado o la nueva categoría
+    if (changes.assigned_to !== undefined) {
+      delete (task as Partial<Task>).assignedTo;
+    }
+    if (changes.category_id !== undefined) {
+      delete (task as Partial<Task>).category;
+    }
+
+    // Guardar los cambios en la base de datos
+    await this.tasksRepository.save(task);
+
+    // Volver a leer la tarea: el historial y los avisos se basan en lo que realmente se guardó
+    const updated = await this.findOne(id);
+
+    // Registrar en el historial los campos que cambiaron y quién los cambió
+    await this.taskHistoryService.recordChanges(before, updated, userId);
+
+    // Avisar del cambio de asignado o de estado a los usuarios afectados
+    await this.notifyChanges(before, updated, userId);
+
+    // Si la tarea recurrente se completó, generar la siguiente instancia de la serie
+    if (
+      before.status !== TaskStatus.DONE &&
+      updated.status === TaskStatus.DONE
+    ) {
+      await this.taskRecurrenceService.generateNext(updated);
+    }
+
+    // Retornar la tarea actualizada
+    return updated;
+  }
+
+  /**
+   * Obtiene las transiciones de estado disponibles para una tarea
+   * Se calculan a partir de su estado actual según el flujo de trabajo
+   *
+   * @param id - ID único de la tarea (UUID)
+   * @returns Estado actual y transiciones que se pueden ejecutar desde él (con sus guardas)
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  async findTransitions(
+    id: string,
+  ): Promise<{ status: TaskStatus; transitions: TaskTransition[] }> {
+    // Buscar la tarea para conocer su estado actual
+    const task = await this.findOne(id);
+
+    return {
+      status: task.status,
+      transitions: this.taskWorkflowService.getAvailableTransitions(
+        task.status,
+      ),
+    };
+  }
+
+  /**
+   * Ejecuta una transición de estado sobre una tarea
+   * Valida la transición y sus guardas, cambia el estado, registra el historial
+   * y, si se envía un comentario, lo guarda como comentario de la tarea
+   *
+   * @param id - ID único de la tarea (UUID)
+   * @param transitionTaskDto - DTO con el estado destino y el comentario opcional
+   * @param userId - ID del usuario que ejecuta la transición (extraído del token JWT)
+   * @returns Promise<Task> - La tarea con su nuevo estado
+   * @throws NotFoundException - Si la tarea no existe
+   * @throws UnprocessableEntityException - Si la transición no está permitida o falla una guarda
+   */
+  async transition(
+    id: string,
+    transitionTaskDto: TransitionTaskDto,
+    userId: string,
+  ): Promise<Task> {
+    // Buscar la tarea para verificar que existe
+    const task = await this.findOne(id);
+
+    // Validar la transición y sus guardas (lanza 422 si no se permite)
+    this.taskWorkflowService.assertTransition(
+      task.status,
+      transitionTaskDto.to,
+      {
+        assigned_to: task.assigned_to,
+        comment: transitionTaskDto.comment,
+      },
+    );
+    await this.assertCanChangeStatus(task, transitionTaskDto.to);
+
+    // Guardar los valores actuales antes de cambiar el estado
+    const before = this.taskHistoryService.snapshot(task);
+
+    // Aplicar el nuevo estado y guardar la tarea
+    task.status = transitionTaskDto.to;
+    const updated = await this.tasksRepository.save(task);
 
-    // Guardar los cambios en la base de datos y retornar la tarea actualizada
-    return await this.tasksRepository.save(task);
+    // Registrar el cambio de estado en el historial
+    await this.taskHistoryService.recordChanges(before, updated, userId);
+
+    // Avisar del cambio de estado a los seguidores de la tarea
+    await this.notifyChanges(before, updated, userId);
+
+    // Si la tarea recurrente se completó, generar la siguiente instancia de la serie
+    if (updated.status === TaskStatus.DONE) {
+      await this.taskRecurrenceService.generateNext(updated);
+    }
+
+    // Si la transición incluye un comentario, guardarlo en la tarea
+    if (transitionTaskDto.comment) {
+      const comment = this.commentsRepository.create({
+        content: transitionTaskDto.comment,
+        which_todo: task.id,
+        created_by: userId,
+      });
+      await this.commentsRepository.save(comment);
+    }
+
+    return updated;
   }
 
   /**
-   * Elimina una tarea de la base de datos
+   * Obtiene el historial de cambios de una tarea
    * Primero verifica que la tarea exista
-   * 
+   *
+   * @param id - ID único de la tarea (UUID)
+   * @returns Promise<TaskHistory[]> - Cambios registrados con actor, fecha, campo y valores
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  async findHistory(id: string): Promise<TaskHistory[]> {
+    // Verificar que la tarea existe (lanza NotFoundException si no)
+    await this.findOne(id);
+
+    // Obtener las entradas del historial de la tarea
+    return await this.taskHistoryService.findByTask(id);
+  }
+
+  /**
+   * Envía una tarea a la papelera (borrado lógico) junto con sus comentarios
+   * Primero verifica que la tarea exista
+   * Se puede restaurar hasta que se purgue al terminar el periodo de retención
+   * Sus subtareas no se eliminan: pasan a depender del padre de la tarea eliminada
+   * (o quedan como tareas de primer nivel si no tenía padre)
+   *
    * @param id - ID único de la tarea a eliminar (UUID)
    * @returns Promise<void> - No retorna nada si la eliminación es exitosa
    * @throws NotFoundException - Si la tarea no existe
@@ -186,7 +745,809 @@ export class TaskService {
     // Buscar la tarea para verificar que existe
     const task = await this.findOne(id);
 
-    // Eliminar la tarea de la base de datos
-    await this.tasksRepository.remove(task);
+    // Enviar a la papelera la tarea y sus comentarios
+    await this.softDelete(task, this.tasksRepository.manager);
+  }
+
+  /**
+   * Restaura una tarea de la papelera junto con los comentarios eliminados con ella
+   * Si su tarea padre sigue en la papelera, se restaura como tarea de primer nivel
+   *
+   * @param id - ID único de la tarea a restaurar (UUID)
+   * @returns Promise<Task> - La tarea restaurada
+   * @throws NotFoundException - Si la tarea no está en la papelera
+   */
+  async restore(id: string): Promise<Task> {
+    // Buscar la tarea incluyendo las eliminadas
+    const task = await this.tasksRepository.findOne({
+      where: { id },
+      withDeleted: true,
+    });
+
+    // Solo se pueden restaurar las tareas que están en la papelera
+    if (!task || !task.deletedAt) {
+      throw new NotFoundException('Tarea no encontrada en la papelera');
+    }
+
+    // Si la tarea padre ya no está disponible, la tarea pasa al primer nivel
+    if (task.parent_id) {
+      const parent = await this.tasksRepository.findOne({
+        where: { id: task.parent_id },
+      });
+      if (!parent) {
+        await this.tasksRepository.update(task.id, { parent_id: () => 'NULL' });
+      }
+    }
+
+    // Restaurar los comentarios que se eliminaron junto con la tarea
+    await this.commentsRepository.restore({
+      which_todo: task.id,
+      deletedAt: task.deletedAt,
+    });
+
+    // Quitar la marca de eliminación y retornar la tarea restaurada
+    await this.tasksRepository.restore(task.id);
+    return await this.findOne(id);
+  }
+
+  /**
+   * Aplica una acción a varias tareas en una sola transacción
+   * Las tareas se seleccionan por IDs o con los filtros de GET /workspaces/:wid/tasks
+   * Cada tarea se procesa en su propio punto de guardado (savepoint): si falla, se deshacen
+   * solo sus cambios y se informa del error. Con atomic=true cualquier fallo deshace todo
+   *
+   * Solo se modifican las tareas del espacio de trabajo; las demás fallan como no encontradas
+   *
+   * @param bulkTaskDto - Selección de tareas, acción y sus parámetros
+   * @param workspaceId - ID del espacio de trabajo activo
+   * @param userId - ID del usuario que realiza la operación (extraído del token JWT)
+   * @param isAdmin - true si el usuario es administrador (puede modificar cualquier tarea)
+   * @returns Promise<BulkTaskResult> - Resultado de la operación para cada tarea
+   * @throws BadRequestException - Si la selección no es válida, supera el máximo de tareas
+   * o el usuario de destino no es miembro del espacio de trabajo
+   * @throws NotFoundException - Si la categoría de destino no existe en el espacio de trabajo
+   */
+  async bulk(
+    bulkTaskDto: BulkTaskDto,
+    workspaceId: string,
+    userId: string,
+    isAdmin = false,
+  ): Promise<BulkTaskResult> {
+    // Las tareas se seleccionan de una sola forma
+    if (!bulkTaskDto.ids === !bulkTaskDto.filter) {
+      throw new BadRequestException(
+        'Indique las tareas con ids o con filter, no con ambos',
+      );
+    }
+
+    // Validar una sola vez los destinos de la acción (deben pertenecer al espacio de trabajo)
+    const manager = this.tasksRepository.manager;
+    await this.assertWorkspaceReferences(workspaceId, {
+      assigned_to:
+        bulkTaskDto.action === BulkTaskAction.REASSIGN
+          ? bulkTaskDto.assigned_to
+          : undefined,
+      category_id:
+        bulkTaskDto.action === BulkTaskAction.CHANGE_CATEGORY
+          ? bulkTaskDto.category_id
+          : undefined,
+    });
+
+    // Obtener los IDs de las tareas seleccionadas
+    const ids = bulkTaskDto.ids
+      ? [...new Set(bulkTaskDto.ids)]
+      : await this.findIdsByFilter(bulkTaskDto.filter!, workspaceId, userId);
+
+    const results: BulkTaskItemResult[] = [];
+    let committed = true;
+
+    try {
+      await manager.transaction(async (transactionManager) => {
+        for (const id of ids) {
+          try {
+            // Transacción anidada: TypeORM la ejecuta como un SAVEPOINT
+            await transactionManager.transaction((taskManager) =>
+              this.applyBulkAction(
+                id,
+                bulkTaskDto,
+                workspaceId,
+                userId,
+                isAdmin,
+                taskManager,
+              ),
+            );
+            results.push({ id, success: true });
+          } catch (error) {
+            results.push({
+              id,
+              success: false,
+              error: this.errorMessage(error),
+            });
+          }
+        }
+
+        // En modo atómico, un fallo deshace los cambios de todas las tareas
+        if (bulkTaskDto.atomic && results.some((result) => !result.success)) {
+          committed = false;
+          throw new BulkRollback();
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof BulkRollback)) {
+        throw error;
+      }
+    }
+
+    const succeeded = results.filter((result) => result.success).length;
+    return {
+      action: bulkTaskDto.action,
+      committed,
+      succeeded: committed ? succeeded : 0,
+      failed: results.length - succeeded,
+      results,
+    };
+  }
+
+  /**
+   * Aplica al query builder los filtros de GetTasksDto
+   * Todas las condiciones se combinan con AND
+   *
+   * @param queryBuilder - Query builder sobre la tabla tasks con alias 'task'
+   * @param getTasksDto - DTO con los filtros a aplicar
+   * @param userId - ID del usuario autenticado (para watching=me)
+   */
+  private applyFilters(
+    queryBuilder: SelectQueryBuilder<Task>,
+    getTasksDto: GetTasksDto,
+    userId?: string,
+  ): void {
+    // Aplicar búsqueda de texto completo si se proporciona 'q'
+    // Coincide en name/description de la tarea o en el contenido de alguno de sus comentarios
+    if (getTasksDto.q) {
+      const query = 'websearch_to_tsquery(:searchConfig::regconfig, :q)';
+      queryBuilder.andWhere(
+        `(task.search_vector @@ ${query} OR EXISTS (
+          SELECT 1 FROM comments comment
+          WHERE comment.which_todo = task.id AND comment.search_vector @@ ${query}
+          AND comment."deletedAt" IS NULL
+        ))`,
+        { q: getTasksDto.q, searchConfig: SEARCH_CONFIG },
+      );
+    }
+
+    // Aplicar filtro por uno o varios estados si se proporciona
+    if (getTasksDto.status && getTasksDto.status.length > 0) {
+      queryBuilder.andWhere('task.status IN (:...status)', {
+        status: getTasksDto.status,
+      });
+    }
+
+    // Aplicar filtro por categoría si se proporciona
+    if (getTasksDto.category_id) {
+      queryBuilder.andWhere('task.category_id = :category_id', {
+        category_id: getTasksDto.category_id,
+      });
+    }
+
+    // Aplicar filtro por usuario asignado si se proporciona
+    if (getTasksDto.assigned_to) {
+      queryBuilder.andWhere('task.assigned_to = :assigned_to', {
+        assigned_to: getTasksDto.assigned_to,
+      });
+    }
+
+    // Aplicar filtro de tareas sin asignar si se solicita
+    if (getTasksDto.unassigned) {
+      queryBuilder.andWhere('task.assigned_to IS NULL');
+    }
+
+    // Aplicar filtro por etiquetas: con alguna de ellas (any) o con todas (all)
+    if (getTasksDto.labels && getTasksDto.labels.length > 0) {
+      const labels = [...new Set(getTasksDto.labels)];
+      if (getTasksDto.labels_match === LabelMatch.ALL) {
+        queryBuilder.andWhere(
+          `(SELECT COUNT(DISTINCT task_label.label_id) FROM task_labels task_label
+            WHERE task_label.task_id = task.id AND task_label.label_id IN (:...labels)
+          ) = :labelCount`,
+          { labels, labelCount: labels.length },
+        );
+      } else {
+        queryBuilder.andWhere(
+          `EXISTS (
+            SELECT 1 FROM task_labels task_label
+            WHERE task_label.task_id = task.id AND task_label.label_id IN (:...labels)
+          )`,
+          { labels },
+        );
+      }
+    }
+
+    // Aplicar filtro de tareas que sigue el usuario autenticado
+    if (getTasksDto.watching === 'me' && userId) {
+      queryBuilder.andWhere(
+        `EXISTS (
+          SELECT 1 FROM task_watchers watcher
+          WHERE watcher.task_id = task.id AND watcher.user_id = :watcherId
+        )`,
+        { watcherId: userId },
+      );
+    }
+
+    // Aplicar filtro por usuario creador si se proporciona
+    if (getTasksDto.created_by) {
+      queryBuilder.andWhere('task.created_by = :created_by', {
+        created_by: getTasksDto.created_by,
+      });
+    }
+
+    // Aplicar filtro por tarea padre si se proporciona (subtareas directas)
+    if (getTasksDto.parent_id) {
+      queryBuilder.andWhere('task.parent_id = :parent_id', {
+        parent_id: getTasksDto.parent_id,
+      });
+    }
+
+    // Aplicar filtro de tareas de primer nivel (sin padre) si se solicita
+    if (getTasksDto.top_level) {
+      queryBuilder.andWhere('task.parent_id IS NULL');
+    }
+
+    // Aplicar filtro de tareas "listas": ninguna tarea sin terminar las bloquea
+    if (getTasksDto.ready) {
+      queryBuilder.andWhere(
+        `NOT EXISTS (
+          SELECT 1 FROM task_dependencies dependency
+          INNER JOIN tasks blocker ON blocker.id = dependency.blocker_id
+          WHERE dependency.blocked_id = task.id
+          AND blocker.status NOT IN (:...finishedStatuses)
+          AND blocker."deletedAt" IS NULL
+        )`,
+        { finishedStatuses: FINISHED_STATUSES },
+      );
+    }
+
+    // Aplicar rango de fechas de vencimiento
+    if (getTasksDto.due_from) {
+      queryBuilder.andWhere('task.dueDate >= :due_from', {
+        due_from: new Date(getTasksDto.due_from),
+      });
+    }
+    if (getTasksDto.due_to) {
+      queryBuilder.andWhere('task.dueDate <= :due_to', {
+        due_to: new Date(getTasksDto.due_to),
+      });
+    }
+
+    // Aplicar filtro de tareas vencidas: fecha pasada y sin terminar
+    if (getTasksDto.overdue) {
+      queryBuilder.andWhere(
+        'task.dueDate < :now AND task.status NOT IN (:...overdueFinished)',
+        { now: new Date(), overdueFinished: FINISHED_STATUSES },
+      );
+    }
+
+    // Aplicar rango de puntos de historia
+    if (getTasksDto.story_points_min !== undefined) {
+      queryBuilder.andWhere('task.storyPoints >= :story_points_min', {
+        story_points_min: getTasksDto.story_points_min,
+      });
+    }
+    if (getTasksDto.story_points_max !== undefined) {
+      queryBuilder.andWhere('task.storyPoints <= :story_points_max', {
+        story_points_max: getTasksDto.story_points_max,
+      });
+    }
+
+    // Aplicar rango de fechas de creación
+    if (getTasksDto.created_from) {
+      queryBuilder.andWhere('task.createdAt >= :created_from', {
+        created_from: new Date(getTasksDto.created_from),
+      });
+    }
+    if (getTasksDto.created_to) {
+      queryBuilder.andWhere('task.createdAt <= :created_to', {
+        created_to: new Date(getTasksDto.created_to),
+      });
+    }
+
+    // Aplicar rango de fechas de última actualización
+    if (getTasksDto.updated_from) {
+      queryBuilder.andWhere('task.updatedAt >= :updated_from', {
+        updated_from: new Date(getTasksDto.updated_from),
+      });
+    }
+    if (getTasksDto.updated_to) {
+      queryBuilder.andWhere('task.updatedAt <= :updated_to', {
+        updated_to: new Date(getTasksDto.updated_to),
+      });
+    }
+  }
+
+  /**
+   * Aplica al query builder el orden solicitado en GetTasksDto
+   * - Si se indica 'sort', se ordena por esos campos en el orden dado
+   * - Si no, y hay búsqueda de texto, se ordena por relevancia
+   * - Si no, se ordena por prioridad (URGENT primero) y por fecha de vencimiento
+   * - Siempre se desempata por fecha de creación descendente (más recientes primero)
+   * Las tareas sin fecha de vencimiento van al final al ordenar por dueDate
+   *
+   * @param queryBuilder - Query builder sobre la tabla tasks con alias 'task'
+   * @param getTasksDto - DTO con el parámetro sort
+   */
+  private applySort(
+    queryBuilder: SelectQueryBuilder<Task>,
+    getTasksDto: GetTasksDto,
+  ): void {
+    const sort = getTasksDto.sort ?? [];
+
+    for (const criteria of sort) {
+      // Cada criterio tiene la forma campo o campo:dirección (validado en el DTO)
+      const [field, direction = 'asc'] = criteria.split(':');
+      queryBuilder.addOrderBy(
+        `task.${field}`,
+        direction.toUpperCase() === 'DESC' ? 'DESC' : 'ASC',
+        field === 'dueDate' ? 'NULLS LAST' : undefined,
+      );
+    }
+
+    // Sin orden explícito, la búsqueda de texto ordena por relevancia
+    // y el resto del listado por prioridad y luego por fecha de vencimiento
+    if (sort.length === 0 && getTasksDto.q) {
+      queryBuilder.addOrderBy('search_rank', 'DESC');
+    } else if (sort.length === 0) {
+      queryBuilder
+        .addOrderBy('task.priority', 'DESC')
+        .addOrderBy('task.dueDate', 'ASC', 'NULLS LAST');
+    }
+
+    // Desempatar por fecha de creación (salvo que ya se haya pedido ese orden)
+    if (!sort.some((criteria) => criteria.startsWith('createdAt'))) {
+      queryBuilder.addOrderBy('task.createdAt', 'DESC');
+    }
+  }
+
+  /**
+   * Obtiene los IDs de las tareas que coinciden con los filtros de GET /workspaces/:wid/tasks
+   * Se ignoran la paginación y el orden del DTO
+   *
+   * @param getTasksDto - Filtros del listado de tareas
+   * @param workspaceId - ID del espacio de trabajo activo
+   * @param userId - ID del usuario autenticado (para el filtro watching=me)
+   * @returns Promise<string[]> - IDs de las tareas seleccionadas
+   * @throws BadRequestException - Si se seleccionan más de BULK_MAX_TASKS tareas
+   */
+  private async findIdsByFilter(
+    getTasksDto: GetTasksDto,
+    workspaceId: string,
+    userId: string,
+  ): Promise<string[]> {
+    const queryBuilder = this.tasksRepository
+      .createQueryBuilder('task')
+      .select('task.id')
+      .where('task.workspace_id = :workspaceId', { workspaceId });
+    this.applyFilters(queryBuilder, getTasksDto, userId);
+
+    // Pedir una tarea de más para detectar si se supera el máximo
+    const tasks = await queryBuilder
+      .orderBy('task.createdAt', 'ASC')
+      .take(BULK_MAX_TASKS + 1)
+      .getMany();
+
+    if (tasks.length > BULK_MAX_TASKS) {
+      throw new BadRequestException(
+        `El filtro selecciona más de ${BULK_MAX_TASKS} tareas`,
+      );
+    }
+
+    return tasks.map((task) => task.id);
+  }
+
+  /**
+   * Aplica la acción de una operación en lote a una tarea
+   * Aplica las mismas reglas que la actualización individual (flujo de trabajo,
+   * subtareas y bloqueos), registra el historial y genera la siguiente instancia recurrente
+   *
+   * @param id - ID de la tarea
+   * @param bulkTaskDto - Acción y sus parámetros
+   * @param workspaceId - ID del espacio de trabajo activo
+   * @param userId - ID del usuario que realiza la operación
+   * @param isAdmin - true si el usuario es administrador
+   * @param manager - EntityManager del punto de guardado de la tarea
+   * @throws NotFoundException - Si la tarea no existe en el espacio de trabajo
+   * @throws ForbiddenException - Si el usuario no es el creador ni el asignado de la tarea
+   * @throws UnprocessableEntityException - Si la tarea no admite el cambio
+   */
+  private async applyBulkAction(
+    id: string,
+    bulkTaskDto: BulkTaskDto,
+    workspaceId: string,
+    userId: string,
+    isAdmin: boolean,
+    manager: EntityManager,
+  ): Promise<void> {
+    const tasksRepository = manager.getRepository(Task);
+    const task = await tasksRepository.findOne({
+      where: { id, workspace_id: workspaceId },
+    });
+
+    if (!task) {
+      throw new NotFoundException('Tarea no encontrada');
+    }
+
+    // Misma regla que TaskEditorPolicy en los endpoints de una sola tarea
+    if (!canEditTask(task, { userId, isAdmin })) {
+      throw new ForbiddenException(TASK_EDITOR_FORBIDDEN_MESSAGE);
+    }
+
+    if (bulkTaskDto.action === BulkTaskAction.DELETE) {
+      await this.softDelete(task, manager);
+      return;
+    }
+
+    // Guardar los valores actuales de los campos auditados antes de modificarlos
+    const before = this.taskHistoryService.snapshot(task);
+
+    switch (bulkTaskDto.action) {
+      case BulkTaskAction.SET_STATUS: {
+        const status = bulkTaskDto.status!;
+        if (status !== task.status) {
+          this.taskWorkflowService.assertTransition(task.status, status, {
+            assigned_to: task.assigned_to,
+            comment: bulkTaskDto.comment,
+          });
+          await this.assertCanChangeStatus(task, status, manager);
+          task.status = status;
+        }
+        break;
+      }
+
+      case BulkTaskAction.REASSIGN:
+        Object.assign(task, { assigned_to: bulkTaskDto.assigned_to ?? null });
+        break;
+
+      case BulkTaskAction.CHANGE_CATEGORY:
+        Object.assign(task, { category_id: bulkTaskDto.category_id ?? null });
+        break;
+
+      case BulkTaskAction.SHIFT_DUE_DATE:
+        if (!task.dueDate) {
+          throw new UnprocessableEntityException(
+            'La tarea no tiene fecha de vencimiento',
+          );
+        }
+        task.dueDate = new Date(
+          task.dueDate.getTime() +
+            bulkTaskDto.shift_days! * 24 * 60 * 60 * 1000,
+        );
+        break;
+    }
+
+    const updated = await tasksRepository.save(task);
+
+    // Registrar en el historial los campos que cambiaron
+    await this.taskHistoryService.recordChanges(
+      before,
+      updated,
+      userId,
+      manager,
+    );
+
+    // Avisar del cambio de asignado o de estado a los usuarios afectados
+    await this.notifyChanges(before, updated, userId, manager);
+
+    // Guardar el comentario que acompaña el cambio de estado
+    if (before.status !== updated.status && bulkTaskDto.comment) {
+      await manager.getRepository(Comment).save({
+        content: bulkTaskDto.comment,
+        which_todo: task.id,
+        created_by: userId,
+      });
+    }
+
+    // Si la tarea recurrente se completó, generar la siguiente instancia de la serie
+    if (
+      before.status !== TaskStatus.DONE &&
+      updated.status === TaskStatus.DONE
+    ) {
+      await this.taskRecurrenceService.generateNext(updated, manager);
+    }
+  }
+
+  /**
+   * Envía una tarea a la papelera junto con sus comentarios
+   * Sus subtareas directas pasan a depender del padre de la tarea (o quedan de primer nivel)
+   * La tarea y sus comentarios reciben la misma fecha de eliminación, así al restaurar
+   * la tarea se recuperan exactamente los comentarios eliminados con ella
+   *
+   * @param task - Tarea a eliminar
+   * @param manager - EntityManager con el que se ejecutan los cambios
+   */
+  private async softDelete(task: Task, manager: EntityManager): Promise<void> {
+    // Subir un nivel las subtareas directas para no perderlas
+    await manager.update(
+      Task,
+      { parent_id: task.id },
+      { parent_id: task.parent_id ?? null },
+    );
+
+    const deletedAt = new Date();
+    await manager.update(
+      Comment,
+      { which_todo: task.id, deletedAt: IsNull() },
+      { deletedAt },
+    );
+    await manager.update(Task, task.id, { deletedAt });
+  }
+
+  /**
+   * Obtiene el mensaje de error que se informa para una tarea de una operación en lote
+   * Los errores no controlados no se exponen (pueden contener detalles de la base de datos)
+   */
+  private errorMessage(error: unknown): string {
+    return error instanceof HttpException
+      ? error.message
+      : 'Error inesperado al procesar la tarea';
+  }
+
+  /**
+   * Crea las notificaciones de un cambio en una tarea
+   * - Si cambió el asignado, el nuevo asignado pasa a seguir la tarea y recibe un aviso
+   * - Si cambió el estado, avisa a los seguidores de la tarea
+   *
+   * @param before - Foto de los campos auditados antes del cambio
+   * @param task - Tarea con los cambios ya guardados
+   * @param userId - ID del usuario que hizo el cambio (no recibe notificación)
+   * @param manager - EntityManager de la transacción en curso (opcional)
+   */
+  private async notifyChanges(
+    before: TaskSnapshot,
+    task: Task,
+    userId: string,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const after = this.taskHistoryService.snapshot(task);
+
+    if (after.assigned_to && before.assigned_to !== after.assigned_to) {
+      await this.taskWatchersService.addWatchers(
+        task.id,
+        [after.assigned_to],
+        manager,
+      );
+      await this.notificationsService.taskAssigned(task, userId, manager);
+    }
+
+    if (before.status !== after.status) {
+      await this.notificationsService.taskStatusChanged(
+        task,
+        before.status ?? '',
+        userId,
+        manager,
+      );
+    }
+  }
+
+  /**
+   * Verifica que una tarea pueda pasar al estado indicado según sus subtareas y bloqueos
+   * - Empezar (IN_PROGRESS) o completar (DONE) exige que ninguna tarea sin terminar la bloquee
+   * - Completar (DONE) exige que todas sus subtareas estén DONE o CANCELLED
+   *
+   * @param task - Tarea que cambia de estado
+   * @param status - Estado destino
+   * @param manager - EntityManager de la transacción en curso (opcional)
+   * @throws UnprocessableEntityException - Si quedan bloqueos o subtareas sin terminar
+   */
+  private async assertCanChangeStatus(
+    task: Task,
+    status: TaskStatus,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const tasksRepository = manager
+      ? manager.getRepository(Task)
+      : this.tasksRepository;
+
+    // Comprobar los bloqueos pendientes al empezar o completar la tarea
+    if (status === TaskStatus.IN_PROGRESS || status === TaskStatus.DONE) {
+      const blockers =
+        await this.taskDependenciesService.countUnfinishedBlockers(
+          task.id,
+          manager,
+        );
+
+      if (blockers > 0) {
+        throw new UnprocessableEntityException(
+          `No se puede mover la tarea a ${status}: está bloqueada por ${blockers} tarea(s) sin terminar`,
+        );
+      }
+    }
+
+    if (status !== TaskStatus.DONE) {
+      return;
+    }
+
+    // Contar las subtareas directas que no están terminadas ni canceladas
+    const pending = await tasksRepository.count({
+      where: {
+        parent_id: task.id,
+        status: Not(In(FINISHED_STATUSES)),
+      },
+    });
+
+    if (pending > 0) {
+      throw new UnprocessableEntityException(
+        `No se puede completar la tarea: tiene ${pending} subtarea(s) sin terminar`,
+      );
+    }
+  }
+
+  /**
+   * Verifica que la categoría y el asignado indicados pertenecen al espacio de trabajo
+   * Los valores vacíos (sin categoría o sin asignar) no se comprueban
+   *
+   * @param workspaceId - ID del espacio de trabajo de la tarea
+   * @param references - Categoría y usuario asignado propuestos
+   * @throws NotFoundException - Si la categoría no existe en el espacio de trabajo
+   * @throws BadRequestException - Si el asignado no es miembro del espacio de trabajo
+   */
+  private async assertWorkspaceReferences(
+    workspaceId: string,
+    references: { category_id?: string | null; assigned_to?: string | null },
+  ): Promise<void> {
+    if (
+      references.category_id &&
+      !(await this.tasksRepository.manager.existsBy(Category, {
+        id: references.category_id,
+        workspace_id: workspaceId,
+      }))
+    ) {
+      throw new NotFoundException('Categoría no encontrada');
+    }
+
+    if (
+      references.assigned_to &&
+      !(await this.workspacesService.isMember(
+        workspaceId,
+        references.assigned_to,
+      ))
+    ) {
+      throw new BadRequestException(
+        'El usuario asignado no es miembro del espacio de trabajo',
+      );
+    }
+  }
+
+  /**
+   * Verifica que una tarea pueda usarse como padre
+   * La tarea padre debe existir en el mismo espacio de trabajo y, al mover una tarea,
+   * no puede ser ella misma ni una de sus subtareas
+   *
+   * @param parentId - ID de la tarea padre propuesta
+   * @param workspaceId - ID del espacio de trabajo de la tarea
+   * @param taskId - ID de la tarea que se mueve (solo en actualizaciones)
+   * @throws NotFoundException - Si la tarea padre no existe en el espacio de trabajo
+   * @throws BadRequestException - Si el cambio genera un ciclo en la jerarquía
+   */
+  private async assertValidParent(
+    parentId: string,
+    workspaceId: string,
+    taskId?: string,
+  ): Promise<void> {
+    // Recorrer los ancestros desde el padre propuesto hasta la raíz
+    let currentId: string | null = parentId;
+    while (currentId) {
+      if (currentId === taskId) {
+        throw new BadRequestException(
+          'Una tarea no puede ser subtarea de sí misma ni de sus subtareas',
+        );
+      }
+
+      const current = await this.tasksRepository.findOne({
+        where: { id: currentId, workspace_id: workspaceId },
+        select: ['id', 'parent_id'],
+      });
+
+      // El primer elemento es el padre propuesto: debe existir en el espacio de trabajo
+      if (!current) {
+        throw new NotFoundException('Tarea padre no encontrada');
+      }
+
+      currentId = current.parent_id;
+    }
+  }
+
+  /**
+   * Carga las etiquetas de un conjunto de tareas con una sola consulta
+   * Se hace aparte del listado porque el join M:N multiplicaría las filas y rompería la paginación
+   *
+   * @param tasks - Tareas del listado a las que asignar 'labels'
+   */
+  private async loadLabels(tasks: Task[]): Promise<void> {
+    if (tasks.length === 0) {
+      return;
+    }
+
+    const withLabels = await this.tasksRepository.find({
+      where: { id: In(tasks.map((task) => task.id)) },
+      relations: ['labels'],
+    });
+
+    for (const task of tasks) {
+      task.labels =
+        withLabels.find((result) => result.id === task.id)?.labels ?? [];
+    }
+  }
+
+  /**
+   * Carga recursivamente las subtareas de un conjunto de tareas
+   * Consulta un nivel por vez y asigna cada subtarea a 'children' de su padre
+   * Calcula el progreso de la checklist de cada nodo (incluidas las raíces)
+   * Al terminar calcula los puntos acumulados y el porcentaje de avance de cada nodo
+   *
+   * @param roots - Tareas a partir de las cuales cargar los subárboles
+   */
+  private async loadSubtrees(roots: Task[]): Promise<void> {
+    let level = roots;
+
+    while (level.length > 0) {
+      // Calcular el progreso de la checklist de las tareas del nivel actual
+      await this.taskChecklistService.loadProgress(level);
+
+      // Buscar las subtareas directas de todas las tareas del nivel actual
+      const children = await this.tasksRepository.find({
+        where: { parent_id: In(level.map((task) => task.id)) },
+        relations: ['category', 'createdBy', 'assignedTo', 'labels'],
+        order: { createdAt: 'ASC' },
+      });
+
+      for (const parent of level) {
+        parent.children = children.filter(
+          (child) => child.parent_id === parent.id,
+        );
+      }
+
+      level = children;
+    }
+
+    for (const root of roots) {
+      this.computeRollup(root);
+    }
+  }
+
+  /**
+   * Calcula los puntos de historia acumulados y el porcentaje de avance de un subárbol
+   * Las hojas aportan sus propios puntos; las tareas canceladas no cuentan para el avance
+   *
+   * @param task - Raíz del subárbol (con 'children' ya cargado)
+   * @returns Totales del subárbol: puntos, hojas terminadas y hojas que cuentan para el avance
+   */
+  private computeRollup(task: Task): {
+    points: number;
+    done: number;
+    total: number;
+  } {
+    let totals = { points: 0, done: 0, total: 0 };
+
+    if (!task.children || task.children.length === 0) {
+      // Tarea hoja: aporta sus propios puntos y su estado
+      const counts = task.status !== TaskStatus.CANCELLED;
+      totals = {
+        points: task.storyPoints ?? 0,
+        done: task.status === TaskStatus.DONE ? 1 : 0,
+        total: counts ? 1 : 0,
+      };
+    } else {
+      // Tarea padre: suma los totales de sus subtareas
+      for (const child of task.children) {
+        const childTotals = this.computeRollup(child);
+        totals.points += childTotals.points;
+        totals.done += childTotals.done;
+        totals.total += childTotals.total;
+      }
+    }
+
+    task.rolledUpStoryPoints = totals.points;
+    task.completionPercentage =
+      totals.total > 0 ? Math.round((totals.done / totals.total) * 100) : 0;
+
+    return totals;
   }
 }
@@ -0,0 +1,89 @@
+// Importa el enum TaskStatus para definir los estados de origen y destino
+import { TaskStatus } from '../enums/task-status.enum';
+
+// Importa el enum TransitionGuard para declarar las condiciones de cada transición
+import { TransitionGuard } from '../enums/transition-guard.enum';
+
+/**
+ * TaskTransition - Describe una transición permitida del flujo de trabajo
+ * - name: Nombre legible de la transición (ej: 'start', 'block')
+ * - from: Estados desde los que se puede ejecutar
+ * - to: Estado al que lleva la tarea
+ * - guards: Condiciones que deben cumplirse para ejecutarla
+ */
+export interface TaskTransition {
+  name: string;
+  from: TaskStatus[];
+  to: TaskStatus;
+  guards: TransitionGuard[];
+}
+
+/**
+ * TASK_WORKFLOW - Definición del flujo de trabajo de las tareas
+ * Declara qué transiciones entre estados están permitidas y qué guardas exige cada una
+ * Cualquier cambio de estado que no aparezca aquí es rechazado con 422
+ * Para modificar el flujo basta con editar esta lista (no hay que tocar el servicio)
+ */
+export const TASK_WORKFLOW: TaskTransition[] = [
+  {
+    // Empezar a trabajar en la tarea: alguien debe ser responsable
+    name: 'start',
+    from: [TaskStatus.PENDING, TaskStatus.BLOCKED],
+    to: TaskStatus.IN_PROGRESS,
+    guards: [TransitionGuard.REQUIRES_ASSIGNEE],
+  },
+  {
+    // Devolver la tarea a pendiente sin terminarla
+    name: 'stop',
+    from: [TaskStatus.IN_PROGRESS, TaskStatus.BLOCKED],
+    to: TaskStatus.PENDING,
+    guards: [],
+  },
+  {
+    // Bloquear la tarea: se debe explicar el impedimento
+    name: 'block',
+    from: [TaskStatus.PENDING, TaskStatus.IN_PROGRESS, TaskStatus.IN_REVIEW],
+    to: TaskStatus.BLOCKED,
+    guards: [TransitionGuard.REQUIRES_COMMENT],
+  },
+  {
+    // Enviar el trabajo a revisión
+    name: 'submit_review',
+    from: [TaskStatus.IN_PROGRESS],
+    to: TaskStatus.IN_REVIEW,
+    guards: [TransitionGuard.REQUIRES_ASSIGNEE],
+  },
+  {
+    // Rechazar la revisión: se debe indicar qué hay que corregir
+    name: 'request_changes',
+    from: [TaskStatus.IN_REVIEW],
+    to: TaskStatus.IN_PROGRESS,
+    guards: [TransitionGuard.REQUIRES_COMMENT],
+  },
+  {
+    // Completar la tarea
+    name: 'complete',
+    from: [TaskStatus.IN_PROGRESS, TaskStatus.IN_REVIEW],
+    to: TaskStatus.DONE,
+    guards: [],
+  },
+  {
+    // Cancelar la tarea: se debe explicar el motivo
+    name: 'cancel',
+    from: [
+      TaskStatus.PENDING,
+      TaskStatus.IN_PROGRESS,
+      TaskStatus.BLOCKED,
+      TaskStatus.IN_REVIEW,
+    ],
+    to: TaskStatus.CANCELLED,
+    guards: [TransitionGuard.REQUIRES_COMMENT],
+  },
+  {
+    // Reabrir una tarea terminada o cancelada: se debe explicar el motivo
+    name: 'reopen',
+    from: [TaskStatus.DONE, TaskStatus.CANCELLED],
+    to: TaskStatus.PENDING,
+    guards: [TransitionGuard.REQUIRES_COMMENT],
+  },
+];
@@ -0,0 +1,45 @@
+// Importa decoradores de validación de class-validator
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+/**
+ * DTO (Data Transfer Object) para registrar a mano un periodo de trabajo en una tarea
+ * Se usa en POST /workspaces/:wid/tasks/:taskId/time-entries (tiempo registrado después de trabajar)
+ */
+export class CreateTimeEntryDto {
+  /**
+   * startedAt - Inicio del periodo de trabajo
+   * Campo obligatorio
+   * Debe ser una cadena en formato ISO 8601 (ej: "2024-12-31T09:00:00Z")
+   */
+  @IsNotEmpty({ message: 'La fecha de inicio es obligatoria' })
+  @IsDateString(
+    {},
+    { message: 'La fecha de inicio debe ser una fecha válida en formato ISO' },
+  )
+  startedAt: string;
+
+  /**
+   * endedAt - Fin del periodo de trabajo
+   * Campo obligatorio
+   * Debe ser posterior a startedAt
+   */
+  @IsNotEmpty({ message: 'La fecha de fin es obligatoria' })
+  @IsDateString(
+    {},
+    { message: 'La fecha de fin debe ser una fecha válida en formato ISO' },
+  )
+  endedAt: string;
+
+  /**
+   * note - Nota sobre el trabajo realizado
+   * Campo opcional
+   */
+  @IsOptional()
+  @IsString({ message: 'La nota debe ser una cadena de texto' })
+  note?: string;
+}
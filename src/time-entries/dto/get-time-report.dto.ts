@@ -0,0 +1,66 @@
+// Importa decoradores de validación de class-validator
+import { IsDateString, IsEnum, IsOptional, IsUUID } from 'class-validator';
+
+// Importa el enum TimeReportGroup para validar la agrupación
+import { TimeReportGroup } from '../enums/time-report-group.enum';
+
+/**
+ * DTO (Data Transfer Object) para obtener el informe de tiempo registrado
+ * Se usa en GET /workspaces/:wid/time-entries/report (query parameters)
+ * Solo se cuentan los periodos terminados (no los temporizadores en marcha)
+ */
+export class GetTimeReportDto {
+  /**
+   * from - Contar solo los periodos que empiezan en esta fecha o después
+   * Campo opcional (formato ISO 8601)
+   */
+  @IsOptional()
+  @IsDateString(
+    {},
+    { message: 'from debe ser una fecha válida en formato ISO' },
+  )
+  from?: string;
+
+  /**
+   * to - Contar solo los periodos que empiezan antes de esta fecha
+   * Campo opcional (formato ISO 8601)
+   */
+  @IsOptional()
+  @IsDateString({}, { message: 'to debe ser una fecha válida en formato ISO' })
+  to?: string;
+
+  /**
+   * task_id - Contar solo el tiempo de esta tarea
+   * Campo opcional
+   */
+  @IsOptional()
+  @IsUUID('4', { message: 'El ID de la tarea debe ser un UUID válido' })
+  task_id?: string;
+
+  /**
+   * user_id - Contar solo el tiempo de este usuario
+   * Campo opcional
+   */
+  @IsOptional()
+  @IsUUID('4', { message: 'El ID del usuario debe ser un UUID válido' })
+  user_id?: string;
+
+  /**
+   * category_id - Contar solo el tiempo de las tareas de esta categoría
+   * Campo opcional
+   */
+  @IsOptional()
+  @IsUUID('4', { message: 'El ID de categoría debe ser un UUID válido' })
+  category_id?: string;
+
+  /**
+   * group_by - Cómo se agrupan los totales
+   * Campo opcional
+   * Valor por defecto: task
+   */
+  @IsOptional()
+  @IsEnum(TimeReportGroup, {
+    message: 'group_by debe ser task, user, category o day',
+  })
+  group_by?: TimeReportGroup;
+}
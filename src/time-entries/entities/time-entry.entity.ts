@@ -0,0 +1,109 @@
+// Importa decoradores y tipos de TypeORM para definir la entidad
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+
+// Importa la entidad Task para la relación ManyToOne (task_id)
+import { Task } from '../../task/entities/task.entity';
+
+// Importa la entidad User para la relación ManyToOne (user_id)
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Entidad TimeEntry - Representa un periodo de trabajo de un usuario en una tarea
+ * - id (PK) - Identificador único (UUID)
+ * - task_id (FK) - Tarea en la que se trabajó
+ * - user_id (FK) - Usuario que trabajó
+ * - started_at / ended_at - Inicio y fin del periodo (ended_at es null mientras el temporizador está en marcha)
+ * - duration_seconds - Duración del periodo en segundos (null mientras está en marcha)
+ * - manual - Indica si el periodo se registró a mano en lugar de con el temporizador
+ * Cada usuario puede tener como máximo un temporizador en marcha (índice único parcial)
+ */
+@Entity('time_entries')
+@Index('IDX_time_entries_running_timer', ['user_id'], {
+  unique: true,
+  where: '"ended_at" IS NULL',
+})
+export class TimeEntry {
+  /**
+   * id - ID único del registro (UUID)
+   * Se genera automáticamente por la base de datos
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Relación ManyToOne con Task
+   * onDelete: 'CASCADE' - Si se elimina la tarea, se eliminan sus registros de tiempo
+   */
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task;
+
+  /**
+   * task_id - Clave foránea que referencia a la tabla tasks
+   * Campo obligatorio
+   */
+  @Column({ name: 'task_id' })
+  task_id: string;
+
+  /**
+   * Relación ManyToOne con User (usuario que trabajó en la tarea)
+   */
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /**
+   * user_id - Clave foránea que referencia a la tabla users
+   * Campo obligatorio
+   */
+  @Column({ name: 'user_id' })
+  user_id: string;
+
+  /**
+   * started_at - Momento en que empezó el periodo de trabajo
+   */
+  @Column({ type: 'timestamp', name: 'started_at' })
+  startedAt: Date;
+
+  /**
+   * ended_at - Momento en que terminó el periodo de trabajo
+   * null mientras el temporizador está en marcha
+   */
+  @Column({ type: 'timestamp', nullable: true, name: 'ended_at' })
+  endedAt: Date | null;
+
+  /**
+   * duration_seconds - Duración del periodo en segundos
+   * Se calcula al detener el temporizador o al registrar el periodo a mano
+   */
+  @Column({ type: 'int', nullable: true, name: 'duration_seconds' })
+  durationSeconds: number | null;
+
+  /**
+   * manual - Indica si el periodo se registró a mano (después de trabajar)
+   * Valor por defecto: false (registrado con el temporizador)
+   */
+  @Column({ default: false })
+  manual: boolean;
+
+  /**
+   * note - Nota opcional sobre el trabajo realizado
+   */
+  @Column({ type: 'text', nullable: true })
+  note: string | null;
+
+  /**
+   * Fecha de creación del registro
+   * Se establece automáticamente al crear el registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+}
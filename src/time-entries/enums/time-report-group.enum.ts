@@ -0,0 +1,28 @@
+/**
+ * Enum TimeReportGroup - Define cómo se agrupa el informe de tiempo registrado
+ * - TASK: Un total por tarea (incluye la estimación inicial para compararla)
+ * - USER: Un total por usuario
+ * - CATEGORY: Un total por categoría de la tarea
+ * - DAY: Un total por día (según la fecha de inicio del periodo)
+ */
+export enum TimeReportGroup {
+  /**
+   * TASK - Agrupar por tarea (valor por defecto)
+   */
+  TASK = 'task',
+
+  /**
+   * USER - Agrupar por usuario
+   */
+  USER = 'user',
+
+  /**
+   * CATEGORY - Agrupar por categoría
+   */
+  CATEGORY = 'category',
+
+  /**
+   * DAY - Agrupar por día
+   */
+  DAY = 'day',
+}
@@ -0,0 +1,183 @@
+// Importa decoradores y tipos de NestJS para el controlador
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+  Query,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+
+// Importa el servicio de registros de tiempo
+import { TimeEntriesService } from './time-entries.service';
+
+// Importa los DTOs de los registros de tiempo
+import { CreateTimeEntryDto } from './dto/create-time-entry.dto';
+import { GetTimeReportDto } from './dto/get-time-report.dto';
+
+// Importa los guards de autenticación, de pertenencia al espacio de trabajo y de roles
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { WorkspaceMemberGuard } from '../workspaces/guards/workspace-member.guard';
+import { RolesGuard } from '../auth/roles/roles.guard';
+
+// Importa el decorador de roles y el enum de roles
+import { Roles } from '../auth/roles/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+
+// Importa el tipo de la petición autenticada (req.user y req.workspaceRole)
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+
+/**
+ * Decorador que marca esta clase como un controlador de NestJS
+ * Define la ruta base para todos los endpoints: /workspaces/:wid
+ * Combina las rutas anidadas en /tasks/:taskId con el informe /time-entries/report del espacio de trabajo
+ */
+@Controller('workspaces/:wid')
+/**
+ * Decorador que protege todas las rutas de este controlador con autenticación JWT
+ * WorkspaceMemberGuard exige ser miembro del espacio de trabajo y que la tarea pertenezca a él
+ */
+@UseGuards(JwtAuthGuard, WorkspaceMemberGuard, RolesGuard)
+
+/**
+ * TimeEntriesController - Controlador que gestiona el tiempo dedicado a las tareas
+ * Todas las rutas requieren autenticación JWT
+ */
+export class TimeEntriesController {
+  /**
+   * Constructor que recibe el servicio de registros de tiempo mediante inyección de dependencias
+   * @param timeEntriesService - Servicio con la lógica de los registros de tiempo
+   */
+  constructor(private readonly timeEntriesService: TimeEntriesService) {}
+
+  /**
+   * Endpoint GET /workspaces/:wid/time-entries/report
+   * Obtiene el tiempo total registrado en las tareas del espacio de trabajo
+   * agrupado por tarea, usuario, categoría o día
+   * Con group_by=task incluye la estimación inicial de cada tarea para compararla
+   *
+   * @param workspaceId - ID del espacio de trabajo (parámetro de la URL)
+   * @param getTimeReportDto - Filtros (from, to, task_id, user_id, category_id) y group_by
+   * @returns Promise<TimeReport> - Totales por grupo y total general (en segundos)
+   */
+  @Get('time-entries/report')
+  @UsePipes(new ValidationPipe({ transform: true })) // Valida y convierte los query parameters
+  report(
+    @Param('wid') workspaceId: string,
+    @Query() getTimeReportDto: GetTimeReportDto,
+  ) {
+    return this.timeEntriesService.report(getTimeReportDto, workspaceId);
+  }
+
+  /**
+   * Endpoint POST /workspaces/:wid/tasks/:taskId/timer/start
+   * Pone en marcha el temporizador del usuario autenticado en la tarea
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @returns Promise<TimeEntry> - El periodo de trabajo en marcha
+   * @throws NotFoundException - Si la tarea no existe
+   * @throws ConflictException - Si el usuario ya tiene un temporizador en marcha
+   */
+  @Post('tasks/:taskId/timer/start')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  startTimer(
+    @Param('taskId') taskId: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.timeEntriesService.startTimer(taskId, userId);
+  }
+
+  /**
+   * Endpoint POST /workspaces/:wid/tasks/:taskId/timer/stop
+   * Detiene el temporizador del usuario autenticado en la tarea
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @returns Promise<TimeEntry> - El periodo de trabajo terminado, con su duración
+   * @throws NotFoundException - Si el usuario no tiene un temporizador en marcha en la tarea
+   */
+  @Post('tasks/:taskId/timer/stop')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  stopTimer(
+    @Param('taskId') taskId: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.timeEntriesService.stopTimer(taskId, userId);
+  }
+
+  /**
+   * Endpoint POST /workspaces/:wid/tasks/:taskId/time-entries
+   * Registra a mano un periodo de trabajo ya terminado
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param createTimeEntryDto - Inicio, fin y nota del periodo
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @returns Promise<TimeEntry> - El periodo de trabajo creado
+   * @throws NotFoundException - Si la tarea no existe
+   * @throws BadRequestException - Si las fechas no son válidas
+   */
+  @Post('tasks/:taskId/time-entries')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UsePipes(new ValidationPipe()) // Valida los datos del DTO antes de procesarlos
+  create(
+    @Param('taskId') taskId: string,
+    @Body() createTimeEntryDto: CreateTimeEntryDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.timeEntriesService.create(taskId, createTimeEntryDto, userId);
+  }
+
+  /**
+   * Endpoint GET /workspaces/:wid/tasks/:taskId/time-entries
+   * Obtiene el tiempo registrado en la tarea frente a su estimación inicial
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @returns Promise<TaskTimeSummary> - Estimación, tiempo total y periodos de trabajo
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  @Get('tasks/:taskId/time-entries')
+  findByTask(@Param('taskId') taskId: string) {
+    return this.timeEntriesService.findByTask(taskId);
+  }
+
+  /**
+   * Endpoint DELETE /workspaces/:wid/tasks/:taskId/time-entries/:id
+   * Elimina un periodo de trabajo de la tarea (solo quien lo registró o un administrador)
+   *
+   * @param taskId - ID de la tarea (parámetro de la URL)
+   * @param id - ID del periodo de trabajo (parámetro de la URL)
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @throws NotFoundException - Si el periodo no existe
+   * @throws ForbiddenException - Si el periodo es de otro usuario
+   */
+  @Delete('tasks/:taskId/time-entries/:id')
+  @Roles(Role.ADMIN, Role.MEMBER)
+  remove(
+    @Param('taskId') taskId: string,
+    @Param('id') id: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Extraer userId del token JWT para comprobar quién registró el periodo
+    const userId = req.user.userId;
+
+    // Los administradores (globales o del espacio de trabajo) pueden eliminar cualquier periodo
+    const isAdmin = req.workspaceRole === Role.ADMIN;
+
+    return this.timeEntriesService.remove(taskId, id, userId, isAdmin);
+  }
+}
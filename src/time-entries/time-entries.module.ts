@@ -0,0 +1,38 @@
+// Importa decoradores de NestJS
+import { Module } from '@nestjs/common';
+
+// Importa TypeOrmModule para registrar las entidades
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+// Importa los componentes del módulo de registros de tiempo
+import { TimeEntriesService } from './time-entries.service';
+import { TimeEntriesController } from './time-entries.controller';
+
+// Importa las entidades necesarias
+import { TimeEntry } from './entities/time-entry.entity';
+import { Task } from '../task/entities/task.entity';
+
+// Importa WorkspacesModule para proteger las rutas con WorkspaceMemberGuard
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+
+/**
+ * TimeEntriesModule: Módulo de registro de tiempo (temporizadores, registros manuales e informes)
+ */
+@Module({
+  /**
+   * Registra TimeEntry, y Task para validar las tareas y leer su estimación
+   * WorkspacesModule: Provee el guard que resuelve el espacio de trabajo de la ruta
+   */
+  imports: [TypeOrmModule.forFeature([TimeEntry, Task]), WorkspacesModule],
+
+  /**
+   * Controlador que expone los temporizadores, los registros de tiempo y el informe
+   */
+  controllers: [TimeEntriesController],
+
+  /**
+   * Servicio que contiene la lógica del registro de tiempo
+   */
+  providers: [TimeEntriesService],
+})
+export class TimeEntriesModule {}
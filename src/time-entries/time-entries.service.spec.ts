@@ -0,0 +1,222 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { QueryFailedError } from 'typeorm';
+import { TimeEntriesService } from './time-entries.service';
+import { TimeEntry } from './entities/time-entry.entity';
+import { Task } from '../task/entities/task.entity';
+import { TimeReportGroup } from './enums/time-report-group.enum';
+
+describe('TimeEntriesService', () => {
+  let timeEntriesService: TimeEntriesService;
+  let timeEntriesRepository: {
+    findOne: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+    delete: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T10:00:00Z') });
+
+    timeEntriesRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn((data: Partial<TimeEntry>) => data),
+      save: jest.fn((entry: Partial<TimeEntry>) => Promise.resolve(entry)),
+      delete: jest.fn(),
+      createQueryBuilder: jest.fn(),
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        TimeEntriesService,
+        {
+          provide: getRepositoryToken(TimeEntry),
+          useValue: timeEntriesRepository,
+        },
+        {
+          provide: getRepositoryToken(Task),
+          useValue: { findOne: jest.fn().mockResolvedValue({ id: 'task-1' }) },
+        },
+      ],
+    }).compile();
+
+    timeEntriesService = app.get<TimeEntriesService>(TimeEntriesService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('startTimer', () => {
+    it('should allow only one running timer per user', async () => {
+      timeEntriesRepository.findOne.mockResolvedValue({ task_id: 'task-2' });
+
+      await expect(
+        timeEntriesService.startTimer('task-1', 'user-a'),
+      ).rejects.toThrow(
+        new ConflictException(
+          'Ya tienes un temporizador en marcha en otra tarea',
+        ),
+      );
+      expect(timeEntriesRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should answer 409 when a concurrent start hits the running timer index', async () => {
+      // La otra petición guardó su temporizador entre la comprobación y el INSERT
+      timeEntriesRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ task_id: 'task-1' });
+      timeEntriesRepository.save.mockRejectedValue(
+        new QueryFailedError('INSERT INTO "time_entries"', [], {
+          code: '23505',
+        } as unknown as Error),
+      );
+
+      await expect(
+        timeEntriesService.startTimer('task-1', 'user-a'),
+      ).rejects.toThrow(
+        new ConflictException(
+          'El temporizador de esta tarea ya está en marcha',
+        ),
+      );
+    });
+  });
+
+  describe('stopTimer', () => {
+    it('should store the duration of the period', async () => {
+      timeEntriesRepository.findOne.mockResolvedValue({
+        task_id: 'task-1',
+        startedAt: new Date('2026-10-19T09:15:00Z'),
+        endedAt: null,
+      });
+
+      const entry = await timeEntriesService.stopTimer('task-1', 'user-a');
+
+      expect(entry.endedAt).toEqual(new Date('2026-10-19T10:00:00Z'));
+      expect(entry.durationSeconds).toBe(45 * 60);
+    });
+  });
+
+  describe('create', () => {
+    it('should reject a period that ends before it starts', async () => {
+      await expect(
+        timeEntriesService.create(
+          'task-1',
+          {
+            startedAt: '2026-10-19T09:00:00Z',
+            endedAt: '2026-10-19T08:00:00Z',
+          },
+          'user-a',
+        ),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('should reject time that has not passed yet', async () => {
+      await expect(
+        timeEntriesService.create(
+          'task-1',
+          {
+            startedAt: '2026-10-19T09:00:00Z',
+            endedAt: '2026-10-19T11:00:00Z',
+          },
+          'user-a',
+        ),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('remove', () => {
+    beforeEach(() => {
+      timeEntriesRepository.findOne.mockResolvedValue({
+        id: 'entry-1',
+        task_id: 'task-1',
+        user_id: 'user-a',
+      });
+    });
+
+    it('should not let a member delete the time logged by someone else', async () => {
+      await expect(
+        timeEntriesService.remove('task-1', 'entry-1', 'user-b', false),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(timeEntriesRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should let the author or an admin delete the period', async () => {
+      await timeEntriesService.remove('task-1', 'entry-1', 'user-a', false);
+      await timeEntriesService.remove('task-1', 'entry-1', 'user-b', true);
+
+      expect(timeEntriesRepository.delete).toHaveBeenCalledTimes(2);
+      expect(timeEntriesRepository.delete).toHaveBeenCalledWith({
+        id: 'entry-1',
+      });
+    });
+  });
+
+  describe('report', () => {
+    it('should compare the time of each task with its estimate', async () => {
+      const queryBuilder = {
+        innerJoin: jest.fn(),
+        leftJoin: jest.fn(),
+        select: jest.fn(),
+        addSelect: jest.fn(),
+        where: jest.fn(),
+        andWhere: jest.fn(),
+        groupBy: jest.fn(),
+        orderBy: jest.fn(),
+        getRawMany: jest.fn().mockResolvedValue([
+          {
+            key: 'task-1',
+            label: 'Deploy',
+            total_seconds: '5400',
+            entries: '2',
+            original_estimate: 60,
+          },
+          {
+            key: 'task-2',
+            label: 'Docs',
+            total_seconds: '600',
+            entries: '1',
+            original_estimate: null,
+          },
+        ]),
+      };
+      for (const method of Object.values(queryBuilder)) {
+        if (method !== queryBuilder.getRawMany) {
+          method.mockReturnValue(queryBuilder);
+        }
+      }
+      timeEntriesRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      const report = await timeEntriesService.report({}, 'workspace-1');
+
+      expect(report).toEqual({
+        groupBy: TimeReportGroup.TASK,
+        totalSeconds: 6000,
+        rows: [
+          {
+            key: 'task-1',
+            label: 'Deploy',
+            totalSeconds: 5400,
+            entries: 2,
+            originalEstimate: 60,
+            varianceSeconds: 1800,
+          },
+          {
+            key: 'task-2',
+            label: 'Docs',
+            totalSeconds: 600,
+            entries: 1,
+            originalEstimate: null,
+            varianceSeconds: null,
+          },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,422 @@
+// Importa decoradores y excepciones de NestJS
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+
+// Importa decoradores y tipos de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, QueryFailedError, Repository } from 'typeorm';
+
+// Importa las entidades necesarias
+import { TimeEntry } from './entities/time-entry.entity';
+import { Task } from '../task/entities/task.entity';
+
+// Importa los DTOs de los registros de tiempo
+import { CreateTimeEntryDto } from './dto/create-time-entry.dto';
+import { GetTimeReportDto } from './dto/get-time-report.dto';
+
+// Importa el enum TimeReportGroup para agrupar el informe
+import { TimeReportGroup } from './enums/time-report-group.enum';
+
+/**
+ * TaskTimeSummary - Tiempo registrado en una tarea frente a su estimación
+ * - originalEstimate: Estimación inicial de la tarea en minutos (null si no tiene)
+ * - totalSeconds: Tiempo registrado en periodos terminados, en segundos
+ * - entries: Periodos de trabajo de la tarea (incluido el temporizador en marcha)
+ */
+export interface TaskTimeSummary {
+  originalEstimate: number | null;
+  totalSeconds: number;
+  entries: TimeEntry[];
+}
+
+/**
+ * TimeReportRow - Total de tiempo de un grupo del informe
+ * - key: ID de la tarea, usuario o categoría, o el día (YYYY-MM-DD); null para las tareas sin categoría
+ * - label: Nombre de la tarea, usuario o categoría (el día en la agrupación por día)
+ * - totalSeconds: Tiempo registrado en el grupo, en segundos
+ * - entries: Número de periodos de trabajo del grupo
+ * - originalEstimate: Solo al agrupar por tarea, la estimación inicial en minutos
+ * - varianceSeconds: Solo al agrupar por tarea, tiempo registrado menos el estimado (positivo = excedido)
+ */
+export interface TimeReportRow {
+  key: string | null;
+  label: string | null;
+  totalSeconds: number;
+  entries: number;
+  originalEstimate?: number | null;
+  varianceSeconds?: number | null;
+}
+
+/**
+ * TimeReport - Informe de tiempo registrado
+ * - groupBy: Agrupación usada
+ * - totalSeconds: Suma del tiempo de todos los grupos, en segundos
+ * - rows: Totales por grupo
+ */
+export interface TimeReport {
+  groupBy: TimeReportGroup;
+  totalSeconds: number;
+  rows: TimeReportRow[];
+}
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * TimeEntriesService - Servicio que gestiona el tiempo dedicado a las tareas
+ * El tiempo se registra con un temporizador (start/stop) o a mano después de trabajar
+ * Cada usuario puede tener como máximo un temporizador en marcha
+ */
+export class TimeEntriesService {
+  /**
+   * Constructor que recibe los repositorios mediante inyección de dependencias
+   * @param timeEntriesRepository - Repositorio de TypeORM para la tabla time_entries
+   * @param tasksRepository - Repositorio de Task para validar que la tarea existe
+   */
+  constructor(
+    @InjectRepository(TimeEntry)
+    private timeEntriesRepository: Repository<TimeEntry>,
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+  ) {}
+
+  /**
+   * Pone en marcha un temporizador del usuario en una tarea
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @param userId - ID del usuario autenticado (extraído del token JWT)
+   * @returns Promise<TimeEntry> - El periodo de trabajo en marcha
+   * @throws NotFoundException - Si la tarea no existe
+   * @throws ConflictException - Si el usuario ya tiene un temporizador en marcha
+   */
+  async startTimer(taskId: string, userId: string): Promise<TimeEntry> {
+    await this.findTask(taskId);
+
+    // Solo se permite un temporizador en marcha por usuario
+    const running = await this.findRunningTimer(userId);
+    if (running) {
+      throw this.runningTimerConflict(running, taskId);
+    }
+
+    const entry = this.timeEntriesRepository.create({
+      task_id: taskId,
+      user_id: userId,
+      startedAt: new Date(),
+    });
+
+    try {
+      return await this.timeEntriesRepository.save(entry);
+    } catch (error) {
+      // Dos peticiones simultáneas pueden pasar la comprobación anterior: el índice único
+      // IDX_time_entries_running_timer rechaza la segunda (23505 = unique_violation)
+      if (
+        error instanceof QueryFailedError &&
+        (error.driverError as { code?: string }).code === '23505'
+      ) {
+        throw this.runningTimerConflict(
+          await this.findRunningTimer(userId),
+          taskId,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Detiene el temporizador del usuario en una tarea y calcula la duración del periodo
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @param userId - ID del usuario autenticado (extraído del token JWT)
+   * @returns Promise<TimeEntry> - El periodo de trabajo terminado
+   * @throws NotFoundException - Si el usuario no tiene un temporizador en marcha en la tarea
+   */
+  async stopTimer(taskId: string, userId: string): Promise<TimeEntry> {
+    const entry = await this.timeEntriesRepository.findOne({
+      where: { task_id: taskId, user_id: userId, endedAt: IsNull() },
+    });
+    if (!entry) {
+      throw new NotFoundException(
+        'No tienes un temporizador en marcha en esta tarea',
+      );
+    }
+
+    entry.endedAt = new Date();
+    entry.durationSeconds = this.durationSeconds(
+      entry.startedAt,
+      entry.endedAt,
+    );
+
+    return await this.timeEntriesRepository.save(entry);
+  }
+
+  /**
+   * Registra a mano un periodo de trabajo ya terminado
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @param createTimeEntryDto - Inicio, fin y nota del periodo
+   * @param userId - ID del usuario autenticado (extraído del token JWT)
+   * @returns Promise<TimeEntry> - El periodo de trabajo creado
+   * @throws NotFoundException - Si la tarea no existe
+   * @throws BadRequestException - Si el fin no es posterior al inicio o está en el futuro
+   */
+  async create(
+    taskId: string,
+    createTimeEntryDto: CreateTimeEntryDto,
+    userId: string,
+  ): Promise<TimeEntry> {
+    await this.findTask(taskId);
+
+    const startedAt = new Date(createTimeEntryDto.startedAt);
+    const endedAt = new Date(createTimeEntryDto.endedAt);
+
+    if (endedAt <= startedAt) {
+      throw new BadRequestException(
+        'La fecha de fin debe ser posterior a la de inicio',
+      );
+    }
+    if (endedAt > new Date()) {
+      throw new BadRequestException(
+        'No se puede registrar tiempo que todavía no ha transcurrido',
+      );
+    }
+
+    const entry = this.timeEntriesRepository.create({
+      task_id: taskId,
+      user_id: userId,
+      startedAt,
+      endedAt,
+      durationSeconds: this.durationSeconds(startedAt, endedAt),
+      manual: true,
+      note: createTimeEntryDto.note ?? null,
+    });
+
+    return await this.timeEntriesRepository.save(entry);
+  }
+
+  /**
+   * Obtiene el tiempo registrado en una tarea junto con su estimación inicial
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @returns Promise<TaskTimeSummary> - Estimación, tiempo total y periodos de trabajo
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  async findByTask(taskId: string): Promise<TaskTimeSummary> {
+    const task = await this.findTask(taskId);
+
+    const entries = await this.timeEntriesRepository.find({
+      where: { task_id: taskId },
+      relations: ['user'],
+      order: { startedAt: 'DESC' },
+    });
+
+    // Los temporizadores en marcha todavía no tienen duración
+    const totalSeconds = entries.reduce(
+      (total, entry) => total + (entry.durationSeconds ?? 0),
+      0,
+    );
+
+    return { originalEstimate: task.originalEstimate, totalSeconds, entries };
+  }
+
+  /**
+   * Elimina un periodo de trabajo de una tarea
+   * Solo puede eliminarlo el usuario que lo registró o un administrador
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @param id - ID del periodo de trabajo (UUID)
+   * @param userId - ID del usuario autenticado (extraído del token JWT)
+   * @param isAdmin - true si el usuario es administrador (global o del espacio de trabajo)
+   * @throws NotFoundException - Si el periodo no existe o no pertenece a la tarea
+   * @throws ForbiddenException - Si el periodo es de otro usuario y no es administrador
+   */
+  async remove(
+    taskId: string,
+    id: string,
+    userId: string,
+    isAdmin: boolean,
+  ): Promise<void> {
+    const entry = await this.timeEntriesRepository.findOne({
+      where: { id, task_id: taskId },
+    });
+    if (!entry) {
+      throw new NotFoundException('Registro de tiempo no encontrado');
+    }
+
+    if (entry.user_id !== userId && !isAdmin) {
+      throw new ForbiddenException(
+        'Solo puedes eliminar tus propios registros de tiempo',
+      );
+    }
+
+    await this.timeEntriesRepository.delete({ id: entry.id });
+  }
+
+  /**
+   * Obtiene el tiempo total registrado agrupado por tarea, usuario, categoría o día
+   * Admite filtrar por rango de fechas, tarea, usuario y categoría
+   * Solo cuenta los periodos terminados de tareas del espacio de trabajo que no están en la papelera
+   *
+   * @param getTimeReportDto - Filtros y agrupación del informe
+   * @param workspaceId - ID del espacio de trabajo activo
+   * @returns Promise<TimeReport> - Totales por grupo y total general
+   */
+  async report(
+    getTimeReportDto: GetTimeReportDto,
+    workspaceId: string,
+  ): Promise<TimeReport> {
+    const groupBy = getTimeReportDto.group_by ?? TimeReportGroup.TASK;
+
+    // innerJoin con la tarea: excluye automáticamente las tareas de la papelera
+    const queryBuilder = this.timeEntriesRepository
+      .createQueryBuilder('entry')
+      .innerJoin('entry.task', 'task')
+      .leftJoin('task.category', 'category')
+      .innerJoin('entry.user', 'worker')
+      .select('SUM(entry.durationSeconds)', 'total_seconds')
+      .addSelect('COUNT(*)', 'entries')
+      .where('entry.endedAt IS NOT NULL')
+      .andWhere('task.workspace_id = :workspaceId', { workspaceId });
+
+    // Aplicar los filtros
+    if (getTimeReportDto.from) {
+      queryBuilder.andWhere('entry.startedAt >= :from', {
+        from: new Date(getTimeReportDto.from),
+      });
+    }
+    if (getTimeReportDto.to) {
+      queryBuilder.andWhere('entry.startedAt < :to', {
+        to: new Date(getTimeReportDto.to),
+      });
+    }
+    if (getTimeReportDto.task_id) {
+      queryBuilder.andWhere('entry.task_id = :task_id', {
+        task_id: getTimeReportDto.task_id,
+      });
+    }
+    if (getTimeReportDto.user_id) {
+      queryBuilder.andWhere('entry.user_id = :user_id', {
+        user_id: getTimeReportDto.user_id,
+      });
+    }
+    if (getTimeReportDto.category_id) {
+      queryBuilder.andWhere('task.category_id = :category_id', {
+        category_id: getTimeReportDto.category_id,
+      });
+    }
+
+    // Elegir la clave y el nombre de cada grupo
+    switch (groupBy) {
+      case TimeReportGroup.USER:
+        queryBuilder
+          .addSelect('worker.id', 'key')
+          .addSelect('worker.fullName', 'label')
+          .groupBy('worker.id')
+          .orderBy('total_seconds', 'DESC');
+        break;
+      case TimeReportGroup.CATEGORY:
+        queryBuilder
+          .addSelect('category.id', 'key')
+          .addSelect('category.name', 'label')
+          .groupBy('category.id')
+          .orderBy('total_seconds', 'DESC');
+        break;
+      case TimeReportGroup.DAY:
+        queryBuilder
+          .addSelect(`TO_CHAR("entry"."started_at", 'YYYY-MM-DD')`, 'key')
+          .groupBy('key')
+          .orderBy('key', 'ASC');
+        break;
+      default:
+        queryBuilder
+          .addSelect('task.id', 'key')
+          .addSelect('task.name', 'label')
+          .addSelect('task.originalEstimate', 'original_estimate')
+          .groupBy('task.id')
+          .orderBy('total_seconds', 'DESC');
+    }
+
+    const raw: {
+      key: string | null;
+      label?: string | null;
+      total_seconds: string;
+      entries: string;
+      original_estimate?: number | null;
+    }[] = await queryBuilder.getRawMany();
+
+    // PostgreSQL devuelve SUM y COUNT como texto: convertir a número
+    const rows = raw.map((row) => {
+      const totalSeconds = Number(row.total_seconds);
+      const result: TimeReportRow = {
+        key: row.key,
+        label: groupBy === TimeReportGroup.DAY ? row.key : (row.label ?? null),
+        totalSeconds,
+        entries: Number(row.entries),
+      };
+
+      // Al agrupar por tarea se compara lo registrado con lo estimado
+      if (groupBy === TimeReportGroup.TASK) {
+        const estimate = row.original_estimate ?? null;
+        result.originalEstimate = estimate;
+        result.varianceSeconds =
+          estimate === null ? null : totalSeconds - estimate * 60;
+      }
+
+      return result;
+    });
+
+    return {
+      groupBy,
+      totalSeconds: rows.reduce((total, row) => total + row.totalSeconds, 0),
+      rows,
+    };
+  }
+
+  /**
+   * Busca una tarea activa
+   * @throws NotFoundException - Si la tarea no existe
+   */
+  private async findTask(taskId: string): Promise<Task> {
+    const task = await this.tasksRepository.findOne({ where: { id: taskId } });
+    if (!task) {
+      throw new NotFoundException('Tarea no encontrada');
+    }
+    return task;
+  }
+
+  /**
+   * Busca el temporizador en marcha del usuario (null si no tiene ninguno)
+   */
+  private async findRunningTimer(userId: string): Promise<TimeEntry | null> {
+    return await this.timeEntriesRepository.findOne({
+      where: { user_id: userId, endedAt: IsNull() },
+    });
+  }
+
+  /**
+   * Error 409 al poner en marcha un temporizador teniendo otro en marcha
+   */
+  private runningTimerConflict(
+    running: TimeEntry | null,
+    taskId: string,
+  ): ConflictException {
+    return new ConflictException(
+      running?.task_id === taskId
+        ? 'El temporizador de esta tarea ya está en marcha'
+        : 'Ya tienes un temporizador en marcha en otra tarea',
+    );
+  }
+
+  /**
+   * Duración en segundos entre dos fechas
+   */
+  private durationSeconds(startedAt: Date, endedAt: Date): number {
+    return Math.round((endedAt.getTime() - startedAt.getTime()) / 1000);
+  }
+}
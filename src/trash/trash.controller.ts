@@ -0,0 +1,38 @@
+// Importa decoradores de NestJS para el controlador
+import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+
+// Importa el servicio de la papelera
+import { TrashService } from './trash.service';
+
+// Importa los guards de autenticación y de pertenencia al espacio de trabajo
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { WorkspaceMemberGuard } from '../workspaces/guards/workspace-member.guard';
+
+/**
+ * TrashController - Controlador de la papelera de un espacio de trabajo
+ * Define la ruta base /workspaces/:wid/trash
+ * Los elementos se restauran desde su propio recurso (bajo /workspaces/:wid):
+ * POST /tasks/:taskId/restore, POST /categories/:id/restore y POST /tasks/:taskId/comments/:commentId/restore
+ * Todas las rutas requieren autenticación JWT y pertenecer al espacio de trabajo
+ */
+@Controller('workspaces/:wid/trash')
+@UseGuards(JwtAuthGuard, WorkspaceMemberGuard) // Autenticación JWT y pertenencia al espacio de trabajo
+export class TrashController {
+  /**
+   * Constructor que recibe el servicio de la papelera mediante inyección de dependencias
+   * @param trashService - Servicio que lista y purga los elementos eliminados
+   */
+  constructor(private readonly trashService: TrashService) {}
+
+  /**
+   * Endpoint GET /workspaces/:wid/trash
+   * Obtiene las tareas, categorías y comentarios del espacio de trabajo que están en la papelera
+   *
+   * @param workspaceId - ID del espacio de trabajo (parámetro de la URL)
+   * @returns Promise<TrashContents> - Elementos eliminados y días de retención
+   */
+  @Get()
+  findAll(@Param('wid') workspaceId: string) {
+    return this.trashService.findAll(workspaceId);
+  }
+}
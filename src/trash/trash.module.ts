@@ -0,0 +1,47 @@
+// Importa decoradores de NestJS
+import { Module } from '@nestjs/common';
+
+// Importa TypeOrmModule para registrar las entidades
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+// Importa los componentes del módulo de la papelera
+import { TrashService } from './trash.service';
+import { TrashController } from './trash.controller';
+
+// Importa las entidades que admiten borrado lógico
+import { Task } from '../task/entities/task.entity';
+import { Category } from '../categories/entities/category.entity';
+import { Comment } from '../comments/entities/comment.entity';
+
+// Importa AttachmentsModule para eliminar los archivos de los elementos purgados
+import { AttachmentsModule } from '../attachments/attachments.module';
+
+// Importa WorkspacesModule para proteger las rutas con WorkspaceMemberGuard
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+
+/**
+ * TrashModule: Módulo de la papelera (tareas, categorías y comentarios eliminados)
+ */
+@Module({
+  /**
+   * Registra las entidades para poder consultar y purgar los registros eliminados
+   * AttachmentsModule: Provee AttachmentsService para eliminar los adjuntos purgados
+   * WorkspacesModule: Provee el guard que resuelve el espacio de trabajo de la ruta
+   */
+  imports: [
+    TypeOrmModule.forFeature([Task, Category, Comment]),
+    AttachmentsModule,
+    WorkspacesModule,
+  ],
+
+  /**
+   * Controlador que expone el endpoint GET /workspaces/:wid/trash
+   */
+  controllers: [TrashController],
+
+  /**
+   * Servicio que lista la papelera y la purga al terminar el periodo de retención
+   */
+  providers: [TrashService],
+})
+export class TrashModule {}
@@ -0,0 +1,218 @@
+// Importa decoradores de NestJS
+import { Injectable } from '@nestjs/common';
+
+// Importa ConfigService para leer el periodo de retención de la papelera
+import { ConfigService } from '@nestjs/config';
+
+// Importa los decoradores de tareas programadas
+import { Cron, CronExpression } from '@nestjs/schedule';
+
+// Importa decoradores y tipos de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, LessThan, Not, Repository } from 'typeorm';
+
+// Importa las entidades que admiten borrado lógico
+import { Task } from '../task/entities/task.entity';
+import { Category } from '../categories/entities/category.entity';
+import { Comment } from '../comments/entities/comment.entity';
+
+// Importa el servicio de adjuntos para eliminar los archivos de los elementos purgados
+import { AttachmentsService } from '../attachments/attachments.service';
+
+/**
+ * Días que se conservan los elementos en la papelera si no se configura TRASH_RETENTION_DAYS
+ */
+const DEFAULT_RETENTION_DAYS = 30;
+
+/**
+ * TrashContents - Contenido de la papelera
+ * - retentionDays: Días que se conservan los elementos antes de purgarlos
+ * - tasks: Tareas eliminadas
+ * - categories: Categorías eliminadas
+ * - comments: Comentarios eliminados de tareas que no están en la papelera
+ *   (los de las tareas eliminadas se restauran junto con su tarea)
+ */
+export interface TrashContents {
+  retentionDays: number;
+  tasks: Task[];
+  categories: Category[];
+  comments: Comment[];
+}
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * TrashService - Servicio de la papelera
+ * Lista las tareas, categorías y comentarios eliminados (borrado lógico con deletedAt)
+ * y los elimina definitivamente cuando termina el periodo de retención
+ * La restauración de cada elemento la hace el servicio de su módulo
+ */
+export class TrashService {
+  /**
+   * Constructor que recibe los repositorios y la configuración mediante inyección de dependencias
+   * @param tasksRepository - Repositorio de Task
+   * @param categoriesRepository - Repositorio de Category
+   * @param commentsRepository - Repositorio de Comment
+   * @param configService - Configuración de la aplicación (TRASH_RETENTION_DAYS)
+   * @param attachmentsService - Servicio de adjuntos (elimina los archivos de lo purgado)
+   */
+  constructor(
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+    @InjectRepository(Category)
+    private categoriesRepository: Repository<Category>,
+    @InjectRepository(Comment)
+    private commentsRepository: Repository<Comment>,
+    private configService: ConfigService,
+    private attachmentsService: AttachmentsService,
+  ) {}
+
+  /**
+   * Obtiene el contenido de la papelera del espacio de trabajo,
+   * con los elementos eliminados más recientemente primero
+   *
+   * @param workspaceId - ID del espacio de trabajo activo
+   * @returns Promise<TrashContents> - Tareas, categorías y comentarios eliminados
+   */
+  async findAll(workspaceId: string): Promise<TrashContents> {
+    // withDeleted: incluir los registros eliminados, que TypeORM excluye por defecto
+    const tasks = await this.tasksRepository.find({
+      where: { deletedAt: Not(IsNull()), workspace_id: workspaceId },
+      withDeleted: true,
+      relations: ['category', 'createdBy', 'assignedTo'],
+      order: { deletedAt: 'DESC' },
+    });
+
+    const categories = await this.categoriesRepository.find({
+      where: { deletedAt: Not(IsNull()), workspace_id: workspaceId },
+      withDeleted: true,
+      order: { deletedAt: 'DESC' },
+    });
+
+    // Solo los comentarios cuya tarea sigue activa
+    const comments = await this.commentsRepository
+      .createQueryBuilder('comment')
+      .withDeleted()
+      .innerJoin('comment.task', 'task')
+      .leftJoinAndSelect('comment.author', 'author')
+      .where('comment.deletedAt IS NOT NULL')
+      .andWhere('task.deletedAt IS NULL')
+      .andWhere('task.workspace_id = :workspaceId', { workspaceId })
+      .orderBy('comment.deletedAt', 'DESC')
+      .getMany();
+
+    return {
+      retentionDays: this.getRetentionDays(),
+      tasks,
+      categories,
+      comments,
+    };
+  }
+
+  /**
+   * Tarea programada (cada día a las 3:00)
+   * Elimina definitivamente los elementos que llevan en la papelera más que el periodo de retención
+   * Los comentarios de las tareas purgadas se eliminan con ellas
+   * Los comentarios principales con respuestas activas se conservan (son el marcador del hilo);
+   * al purgar un principal se eliminan también sus respuestas
+   * Los adjuntos de las tareas y comentarios purgados se eliminan junto con sus archivos
+   *
+   * @returns Número de tareas, categorías y comentarios eliminados definitivamente
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purge(): Promise<{
+    tasks: number;
+    categories: number;
+    comments: number;
+  }> {
+    const cutoff = new Date(
+      Date.now() - this.getRetentionDays() * 24 * 60 * 60 * 1000,
+    );
+
+    // Tareas caducadas: primero se eliminan sus comentarios (la clave foránea no es en cascada)
+    const expiredTasks = await this.tasksRepository.find({
+      select: { id: true },
+      where: { deletedAt: LessThan(cutoff) },
+      withDeleted: true,
+    });
+    const taskIds = expiredTasks.map((task) => task.id);
+
+    let comments = 0;
+    if (taskIds.length > 0) {
+      await this.attachmentsService.removeForTasks(taskIds);
+      const result = await this.commentsRepository.delete({
+        which_todo: In(taskIds),
+      });
+      comments += result.affected ?? 0;
+      await this.tasksRepository.delete({ id: In(taskIds) });
+    }
+
+    // Comentarios caducados de tareas que siguen existiendo (salvo los marcadores de hilo)
+    const expiredComments = await this.commentsRepository
+      .createQueryBuilder('comment')
+      .withDeleted()
+      .select('comment.id')
+      .where('comment.deletedAt < :cutoff', { cutoff })
+      .andWhere(
+        `NOT EXISTS (
+          SELECT 1 FROM comments reply
+          WHERE reply.parent_id = comment.id AND reply."deletedAt" IS NULL
+        )`,
+      )
+      .getMany();
+    const commentIds = expiredComments.map((comment) => comment.id);
+
+    // Las respuestas (ya eliminadas) de los principales purgados se eliminan con ellos
+    if (commentIds.length > 0) {
+      const replies = await this.commentsRepository.find({
+        select: { id: true },
+        where: { parent_id: In(commentIds) },
+        withDeleted: true,
+      });
+      for (const reply of replies) {
+        if (!commentIds.includes(reply.id)) {
+          commentIds.push(reply.id);
+        }
+      }
+    }
+
+    if (commentIds.length > 0) {
+      await this.attachmentsService.removeForComments(commentIds);
+      await this.commentsRepository.delete({ id: In(commentIds) });
+      comments += commentIds.length;
+    }
+
+    // Categorías caducadas: las tareas que aún las referencian se quedan sin categoría
+    const expiredCategories = await this.categoriesRepository.find({
+      select: { id: true },
+      where: { deletedAt: LessThan(cutoff) },
+      withDeleted: true,
+    });
+    const categoryIds = expiredCategories.map((category) => category.id);
+
+    if (categoryIds.length > 0) {
+      await this.tasksRepository.update(
+        { category_id: In(categoryIds) },
+        { category_id: () => 'NULL' },
+      );
+      await this.categoriesRepository.delete({ id: In(categoryIds) });
+    }
+
+    return {
+      tasks: taskIds.length,
+      categories: categoryIds.length,
+      comments,
+    };
+  }
+
+  /**
+   * Días que se conservan los elementos en la papelera (variable TRASH_RETENTION_DAYS)
+   */
+  private getRetentionDays(): number {
+    const days = Number(this.configService.get('TRASH_RETENTION_DAYS'));
+    return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+  }
+}
@@ -1,4 +1,11 @@
-import { IsEmail, IsString, MinLength, IsNotEmpty } from 'class-validator';
+import {
+  IsEmail,
+  IsString,
+  MinLength,
+  IsNotEmpty,
+  IsOptional,
+  Matches,
+} from 'class-validator';
 
 /**
  * DTO (Data Transfer Object) para crear un nuevo usuario
@@ -28,6 +35,19 @@ export class CreateUserDto {
   @IsEmail({}, { message: 'El email no es válido' })
   email: string;
 
+  /**
+   * Alias del usuario para las menciones en comentarios (@alias)
+   * Validaciones:
+   * - @IsOptional(): El campo es opcional
+   * - @Matches(): De 3 a 30 letras, números, '_', '.' o '-', empezando y terminando en letra, número o '_'
+   */
+  @IsOptional()
+  @Matches(/^[A-Za-z0-9_][A-Za-z0-9_.-]{1,28}[A-Za-z0-9_]$/, {
+    message:
+      'El alias debe tener entre 3 y 30 letras, números, guiones, puntos o guiones bajos',
+  })
+  handle?: string;
+
   /**
    * Contraseña del usuario (se hasheará antes de guardar)
    * Validaciones:
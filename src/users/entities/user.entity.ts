@@ -6,6 +6,9 @@ import {
   UpdateDateColumn,
 } from 'typeorm';
 
+// Importa el enum de roles
+import { Role } from '../../auth/enums/role.enum';
+
 /**
  * Entidad User - Representa un usuario en la base de datos
  * Define la estructura de la tabla 'users' en PostgreSQL
@@ -34,6 +37,25 @@ export class User {
   @Column({ type: 'varchar', length: 255, unique: true })
   email: string;
 
+  /**
+   * Alias del usuario para mencionarlo en los comentarios (@alias)
+   * Opcional y único; se compara sin distinguir mayúsculas
+   * Tipo: varchar(30) con restricción UNIQUE
+   */
+  @Column({ type: 'varchar', length: 30, unique: true, nullable: true })
+  handle: string | null;
+
+  /**
+   * Rol global del usuario (ADMIN, MEMBER o VIEWER)
+   * Los administradores pueden editar y eliminar tareas y comentarios de otros usuarios
+   * y acceder a cualquier espacio de trabajo
+   * Se asigna directamente en la base de datos: POST /users rechaza el campo role
+   * y UsersService.create solo copia los campos del registro, así que todo usuario nuevo es MEMBER
+   * Por defecto: MEMBER
+   */
+  @Column({ type: 'enum', enum: Role, default: Role.MEMBER })
+  role: Role;
+
   /**
    * Contraseña hasheada del usuario
    * select: false - No se devuelve en consultas por defecto (seguridad)
@@ -1,11 +1,25 @@
-import { Controller, Get, Post, Body, Param, UsePipes, ValidationPipe } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
 import { UsersService } from './users.service';
 import { CreateUserDto } from './dto/create-user.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles/roles.guard';
+import { Roles } from '../auth/roles/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
 
 /**
  * Controlador de Usuarios
  * Maneja las peticiones HTTP relacionadas con la gestión de usuarios
  * Define los endpoints REST para operaciones CRUD de usuarios
+ * El registro (POST /users) es público; las consultas requieren autenticación
  */
 @Controller('users')
 export class UsersController {
@@ -15,12 +29,13 @@ export class UsersController {
    * POST /users
    * Endpoint para crear un nuevo usuario
    * Valida los datos recibidos con ValidationPipe antes de procesarlos
-   * 
+   * Rechaza los campos que no están en CreateUserDto (ej: role)
+   *
    * @param createUserDto - Datos del usuario a crear (nombre, email, password)
    * @returns Usuario creado (sin contraseña)
    */
   @Post()
-  @UsePipes(new ValidationPipe())
+  @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
   create(@Body() createUserDto: CreateUserDto) {
     return this.usersService.create(createUserDto);
   }
@@ -29,10 +44,13 @@ export class UsersController {
    * GET /users
    * Endpoint para obtener todos los usuarios del sistema
    * No incluye contraseñas en los resultados por seguridad
-   * 
+   * Solo los administradores pueden listar los usuarios
+   *
    * @returns Array de usuarios
    */
   @Get()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
   findAll() {
     return this.usersService.findAll();
   }
@@ -41,11 +59,12 @@ export class UsersController {
    * GET /users/:id
    * Endpoint para obtener un usuario específico por su ID
    * El ID es un UUID (string), no un número
-   * 
+   *
    * @param id - UUID del usuario a buscar
    * @returns Usuario encontrado (sin contraseña)
    */
   @Get(':id')
+  @UseGuards(JwtAuthGuard)
   findOne(@Param('id') id: string) {
     return this.usersService.findOne(id);
   }
@@ -0,0 +1,62 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { UsersService } from './users.service';
+import { User } from './entities/user.entity';
+import { CreateUserDto } from './dto/create-user.dto';
+import { Role } from '../auth/enums/role.enum';
+
+describe('UsersService', () => {
+  let usersService: UsersService;
+  let usersRepository: {
+    findOne: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    usersRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      // Simula los valores por defecto de la base de datos (role: MEMBER)
+      create: jest.fn((data: Partial<User>) => ({
+        role: Role.MEMBER,
+        ...data,
+      })),
+      save: jest.fn((user: User) => Promise.resolve(user)),
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsersService,
+        { provide: getRepositoryToken(User), useValue: usersRepository },
+      ],
+    }).compile();
+
+    usersService = app.get<UsersService>(UsersService);
+  });
+
+  describe('create', () => {
+    it('should ignore a role sent at registration', async () => {
+      const user = await usersService.create({
+        fullName: 'Eve Example',
+        email: 'eve@example.com',
+        password: 'secret123',
+        role: Role.ADMIN,
+      } as CreateUserDto);
+
+      expect(user.role).toBe(Role.MEMBER);
+      const [data] = usersRepository.create.mock.calls[0] as [Partial<User>];
+      expect(data).not.toHaveProperty('role');
+    });
+
+    it('should store the password hashed', async () => {
+      const user = await usersService.create({
+        fullName: 'Eve Example',
+        email: 'eve@example.com',
+        password: 'secret123',
+      });
+
+      expect(user.password).not.toBe('secret123');
+      expect(user.password).toMatch(/^\$2[aby]\$/);
+    });
+  });
+});
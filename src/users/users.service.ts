@@ -1,6 +1,10 @@
-import { Injectable, ConflictException, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { EntityManager, Repository } from 'typeorm';
 import * as bcrypt from 'bcrypt';
 import { User } from './entities/user.entity';
 import { CreateUserDto } from './dto/create-user.dto';
@@ -24,13 +28,13 @@ export class UsersService {
   /**
    * Crea un nuevo usuario en el sistema
    * Proceso:
-   * 1. Verifica que el email no esté ya registrado
+   * 1. Verifica que el email y el alias no estén ya registrados
    * 2. Hashea la contraseña usando bcrypt antes de guardarla
    * 3. Guarda el usuario en la base de datos
-   * 
+   *
    * @param createUserDto - Datos del usuario a crear (nombre, email, password)
    * @returns Usuario creado (sin incluir la contraseña)
-   * @throws ConflictException si el email ya está registrado
+   * @throws ConflictException si el email o el alias ya están registrados
    */
   async create(createUserDto: CreateUserDto): Promise<User> {
     // Verificar si el email ya existe en la base de datos
@@ -44,6 +48,20 @@ export class UsersService {
       throw new ConflictException('El email ya está registrado');
     }
 
+    // Verificar que el alias (si se indica) no lo use otro usuario
+    if (createUserDto.handle) {
+      const existingHandle = await this.usersRepository
+        .createQueryBuilder('user')
+        .where('LOWER(user.handle) = LOWER(:handle)', {
+          handle: createUserDto.handle,
+        })
+        .getOne();
+
+      if (existingHandle) {
+        throw new ConflictException('El alias ya está en uso');
+      }
+    }
+
     // Hashear la contraseña antes de guardarla
     // bcrypt.genSalt(10): Genera un salt con factor de coste 10 (balance entre seguridad y performance)
     // bcrypt.hash(): Aplica el algoritmo de hashing a la contraseña con el salt
@@ -51,10 +69,13 @@ export class UsersService {
     const salt = await bcrypt.genSalt(10);
     const hashedPassword = await bcrypt.hash(createUserDto.password, salt);
 
-    // Crear una nueva instancia de usuario con los datos recibidos
+    // Crear una nueva instancia de usuario solo con los campos del registro
+    // Se copian uno a uno para que el cliente no pueda asignar otros (ej: role)
     // Reemplazar la contraseña en texto plano con la versión hasheada
     const user = this.usersRepository.create({
-      ...createUserDto,
+      fullName: createUserDto.fullName,
+      email: createUserDto.email,
+      handle: createUserDto.handle ?? null,
       password: hashedPassword,
     });
 
@@ -65,20 +86,28 @@ export class UsersService {
   /**
    * Obtiene todos los usuarios del sistema
    * No incluye la contraseña en los resultados por seguridad
-   * 
+   *
    * @returns Array de usuarios (sin contraseñas)
    */
   async findAll(): Promise<User[]> {
     return await this.usersRepository.find({
       // Especificar explícitamente los campos a retornar, excluyendo password
       // Esto garantiza que nunca se exponga información sensible
-      select: ['id', 'email', 'fullName', 'createdAt', 'updatedAt'],
+      select: [
+        'id',
+        'email',
+        'fullName',
+        'handle',
+        'role',
+        'createdAt',
+        'updatedAt',
+      ],
     });
   }
 
   /**
    * Busca un usuario por su ID
-   * 
+   *
    * @param id - UUID del usuario a buscar
    * @returns Usuario encontrado (sin contraseña)
    */
@@ -86,7 +115,15 @@ export class UsersService {
     const user = await this.usersRepository.findOne({
       where: { id },
       // Excluir password del resultado por seguridad
-      select: ['id', 'email', 'fullName', 'createdAt', 'updatedAt'],
+      select: [
+        'id',
+        'email',
+        'fullName',
+        'handle',
+        'role',
+        'createdAt',
+        'updatedAt',
+      ],
     });
 
     // Si el usuario no existe, lanzar una excepción
@@ -101,7 +138,7 @@ export class UsersService {
    * Busca un usuario por su email
    * IMPORTANTE: Este método SÍ incluye el password porque se usa para validación de login
    * Solo debe usarse en contextos seguros (ej: módulo de autenticación)
-   * 
+   *
    * @param email - Email del usuario a buscar
    * @returns Usuario encontrado (incluyendo password hasheado) o null si no existe
    */
@@ -109,7 +146,40 @@ export class UsersService {
     return await this.usersRepository.findOne({
       where: { email },
       // Incluir password porque se necesita para comparar con bcrypt en el login
-      select: ['id', 'email', 'password', 'fullName', 'createdAt'],
+      select: ['id', 'email', 'password', 'fullName', 'role', 'createdAt'],
+    });
+  }
+
+  /**
+   * Busca un usuario por su ID incluyendo el password hasheado
+   * Solo debe usarse en contextos seguros (ej: comprobar la contraseña actual antes de cambiarla)
+   *
+   * @param id - UUID del usuario a buscar
+   * @returns Usuario encontrado (incluyendo password hasheado) o null si no existe
+   */
+  async findByIdWithPassword(id: string): Promise<User | null> {
+    return await this.usersRepository.findOne({
+      where: { id },
+      select: ['id', 'email', 'password'],
     });
   }
+
+  /**
+   * Cambia la contraseña de un usuario
+   * La contraseña se hashea con bcrypt igual que al registrarse
+   *
+   * @param id - UUID del usuario
+   * @param password - Nueva contraseña en texto plano
+   * @param manager - EntityManager de la transacción en curso (opcional)
+   */
+  async updatePassword(
+    id: string,
+    password: string,
+    manager: EntityManager = this.usersRepository.manager,
+  ): Promise<void> {
+    const salt = await bcrypt.genSalt(10);
+    const hashedPassword = await bcrypt.hash(password, salt);
+
+    await manager.update(User, id, { password: hashedPassword });
+  }
 }
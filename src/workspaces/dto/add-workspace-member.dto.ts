@@ -0,0 +1,29 @@
+// Importa validadores de class-validator para validar los datos de entrada
+import { IsEnum, IsNotEmpty, IsOptional, IsUUID } from 'class-validator';
+
+// Importa el enum de roles
+import { Role } from '../../auth/enums/role.enum';
+
+/**
+ * AddWorkspaceMemberDto: Data Transfer Object para añadir un miembro a un espacio de trabajo
+ * Se usa en POST /workspaces/:wid/members
+ */
+export class AddWorkspaceMemberDto {
+  /**
+   * user_id - ID del usuario que se añade como miembro
+   * Campo obligatorio
+   * Debe ser un UUID válido
+   */
+  @IsNotEmpty({ message: 'El ID del usuario es obligatorio' })
+  @IsUUID('4', { message: 'El ID del usuario debe ser un UUID válido' })
+  user_id: string;
+
+  /**
+   * role - Rol del nuevo miembro en el espacio de trabajo
+   * Campo opcional (por defecto: MEMBER)
+   * Valores permitidos: ADMIN, MEMBER, VIEWER
+   */
+  @IsOptional()
+  @IsEnum(Role, { message: 'El rol debe ser ADMIN, MEMBER o VIEWER' })
+  role?: Role;
+}
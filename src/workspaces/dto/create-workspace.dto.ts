@@ -0,0 +1,19 @@
+// Importa validadores de class-validator para validar los datos de entrada
+import { IsNotEmpty, IsString, MaxLength, MinLength } from 'class-validator';
+
+/**
+ * CreateWorkspaceDto: Data Transfer Object para crear un espacio de trabajo
+ * El usuario que lo crea pasa a ser su primer miembro
+ */
+export class CreateWorkspaceDto {
+  /**
+   * name - Nombre del espacio de trabajo
+   * @IsNotEmpty() - Valida que el campo no esté vacío
+   * @MinLength(2) / @MaxLength(100) - Entre 2 y 100 caracteres
+   */
+  @IsNotEmpty()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  name: string;
+}
@@ -0,0 +1,20 @@
+// Importa validadores de class-validator para validar los datos de entrada
+import { IsEnum, IsNotEmpty } from 'class-validator';
+
+// Importa el enum de roles
+import { Role } from '../../auth/enums/role.enum';
+
+/**
+ * UpdateWorkspaceMemberDto: Data Transfer Object para cambiar el rol de un miembro
+ * Se usa en PATCH /workspaces/:wid/members/:userId
+ */
+export class UpdateWorkspaceMemberDto {
+  /**
+   * role - Nuevo rol del miembro en el espacio de trabajo
+   * Campo obligatorio
+   * Valores permitidos: ADMIN, MEMBER, VIEWER
+   */
+  @IsNotEmpty({ message: 'El rol es obligatorio' })
+  @IsEnum(Role, { message: 'El rol debe ser ADMIN, MEMBER o VIEWER' })
+  role: Role;
+}
@@ -0,0 +1,71 @@
+// Importa decoradores y tipos de TypeORM para definir la entidad
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+
+// Importa la entidad Workspace para la relación ManyToOne (workspace_id)
+import { Workspace } from './workspace.entity';
+
+// Importa la entidad User para la relación ManyToOne (user_id)
+import { User } from '../../users/entities/user.entity';
+
+// Importa el enum de roles
+import { Role } from '../../auth/enums/role.enum';
+
+/**
+ * Entidad WorkspaceMember - Representa a un usuario que pertenece a un espacio de trabajo
+ * - workspace_id (PK, FK) - Espacio de trabajo
+ * - user_id (PK, FK) - Usuario miembro
+ * - role - Rol del usuario en el espacio de trabajo
+ */
+@Entity('workspace_members')
+export class WorkspaceMember {
+  /**
+   * workspace_id - Espacio de trabajo (parte de la clave primaria)
+   */
+  @PrimaryColumn({ name: 'workspace_id' })
+  workspace_id: string;
+
+  /**
+   * user_id - Usuario miembro (parte de la clave primaria)
+   */
+  @PrimaryColumn({ name: 'user_id' })
+  user_id: string;
+
+  /**
+   * Relación ManyToOne con Workspace
+   * onDelete: 'CASCADE' - Si se elimina el espacio de trabajo, se eliminan sus miembros
+   */
+  @ManyToOne(() => Workspace, (workspace) => workspace.members, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'workspace_id' })
+  workspace: Workspace;
+
+  /**
+   * Relación ManyToOne con User
+   * onDelete: 'CASCADE' - Si se elimina el usuario, deja de ser miembro
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /**
+   * role - Rol del usuario en este espacio de trabajo (ADMIN, MEMBER o VIEWER)
+   * El creador del espacio de trabajo es ADMIN
+   * Por defecto: MEMBER
+   */
+  @Column({ type: 'enum', enum: Role, default: Role.MEMBER })
+  role: Role;
+
+  /**
+   * Fecha en la que el usuario se unió al espacio de trabajo
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,77 @@
+// Importa decoradores y tipos de TypeORM para definir la entidad
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  OneToMany,
+} from 'typeorm';
+
+// Importa la entidad User para la relación ManyToOne (created_by)
+import { User } from '../../users/entities/user.entity';
+
+// Importa la entidad WorkspaceMember para la relación OneToMany
+import { WorkspaceMember } from './workspace-member.entity';
+
+/**
+ * Entidad Workspace - Representa un espacio de trabajo (equipo o proyecto)
+ * - id (PK) - Identificador único (UUID)
+ * - name - Nombre del espacio de trabajo
+ * - created_by (FK) - Usuario que lo creó (opcional)
+ *
+ * Las tareas y las categorías pertenecen a un espacio de trabajo,
+ * y solo sus miembros pueden acceder a ellas
+ */
+@Entity('workspaces')
+export class Workspace {
+  /**
+   * id - ID único del espacio de trabajo (UUID)
+   * Se genera automáticamente por la base de datos
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * name - Nombre del espacio de trabajo
+   * Tipo: varchar(100) en la base de datos
+   */
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  /**
+   * Relación ManyToOne con User (creador del espacio de trabajo)
+   * onDelete: 'SET NULL' - Si se elimina el usuario, el espacio de trabajo se conserva
+   */
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by' })
+  createdBy: User;
+
+  /**
+   * created_by - Clave foránea que referencia al creador
+   * Campo opcional: el espacio creado al migrar los datos existentes no tiene creador
+   */
+  @Column({ nullable: true, name: 'created_by' })
+  created_by: string | null;
+
+  /**
+   * Relación OneToMany con WorkspaceMember
+   * Permite acceder a los miembros del espacio de trabajo
+   */
+  @OneToMany(() => WorkspaceMember, (member) => member.workspace)
+  members: WorkspaceMember[];
+
+  /**
+   * Fecha de creación del registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * Fecha de última actualización del registro
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
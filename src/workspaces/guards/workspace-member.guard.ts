@@ -0,0 +1,63 @@
+// Importa decoradores e interfaces de NestJS
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+
+// Importa el servicio de espacios de trabajo
+import { WorkspacesService } from '../workspaces.service';
+
+// Importa el tipo del usuario autenticado
+import { AuthenticatedUser } from '../../auth/interfaces/authenticated-user.interface';
+
+// Importa el enum de roles
+import { Role } from '../../auth/enums/role.enum';
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * WorkspaceMemberGuard: Guard que resuelve el espacio de trabajo activo desde la ruta (:wid)
+ * Debe ejecutarse después de JwtAuthGuard (necesita req.user)
+ * - Rechaza la petición si el espacio de trabajo no existe (404) o el usuario no es miembro (403)
+ * - Deja en req.workspaceRole el rol del usuario en el espacio de trabajo (lo usa RolesGuard)
+ * - Si la ruta incluye :taskId, comprueba que la tarea pertenece al espacio de trabajo (404)
+ * - Si la ruta incluye :commentId, comprueba que el comentario pertenece a esa tarea (404)
+ */
+export class WorkspaceMemberGuard implements CanActivate {
+  /**
+   * Constructor que recibe el servicio de espacios de trabajo mediante inyección de dependencias
+   * @param workspacesService - Comprueba la pertenencia al espacio de trabajo
+   */
+  constructor(private workspacesService: WorkspacesService) {}
+
+  /**
+   * Comprueba el acceso al espacio de trabajo de la ruta y, si los hay, a su tarea y a su comentario
+   *
+   * @param context - Contexto de ejecución de la petición
+   * @returns Promise<boolean> - true si el usuario puede acceder
+   * @throws NotFoundException - Si el espacio de trabajo, la tarea o el comentario no existen
+   * @throws ForbiddenException - Si el usuario no es miembro del espacio de trabajo
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<{
+      user: AuthenticatedUser;
+      params: Record<string, string>;
+      workspaceRole?: Role;
+    }>();
+    const { wid, taskId, commentId } = request.params;
+
+    request.workspaceRole = await this.workspacesService.assertAccess(
+      wid,
+      request.user,
+    );
+
+    if (taskId) {
+      await this.workspacesService.assertTaskInWorkspace(taskId, wid);
+    }
+    if (taskId && commentId) {
+      await this.workspacesService.assertCommentInTask(commentId, taskId);
+    }
+
+    return true;
+  }
+}
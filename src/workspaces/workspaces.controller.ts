@@ -0,0 +1,190 @@
+// Importa decoradores y tipos de NestJS para el controlador
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+
+// Importa el servicio de espacios de trabajo
+import { WorkspacesService } from './workspaces.service';
+
+// Importa los DTOs de espacios de trabajo
+import { CreateWorkspaceDto } from './dto/create-workspace.dto';
+import { AddWorkspaceMemberDto } from './dto/add-workspace-member.dto';
+import { UpdateWorkspaceMemberDto } from './dto/update-workspace-member.dto';
+
+// Importa los guards de autenticación, de pertenencia al espacio de trabajo y de roles
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { WorkspaceMemberGuard } from './guards/workspace-member.guard';
+import { RolesGuard } from '../auth/roles/roles.guard';
+
+// Importa el decorador de roles y el enum de roles
+import { Roles } from '../auth/roles/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+
+// Importa el tipo de la petición autenticada (req.user y req.workspaceRole)
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+
+/**
+ * Decorador que marca esta clase como un controlador de NestJS
+ * Define la ruta base para todos los endpoints: /workspaces
+ */
+@Controller('workspaces')
+/**
+ * Decorador que protege todas las rutas de este controlador con autenticación JWT
+ */
+@UseGuards(JwtAuthGuard)
+
+/**
+ * WorkspacesController - Controlador que gestiona los espacios de trabajo y sus miembros
+ * Las rutas con :wid solo son accesibles para los miembros del espacio de trabajo
+ * Solo los administradores del espacio de trabajo pueden añadir miembros o cambiar su rol
+ */
+export class WorkspacesController {
+  /**
+   * Constructor que recibe el servicio de espacios de trabajo mediante inyección de dependencias
+   * @param workspacesService - Servicio con la lógica de los espacios de trabajo
+   */
+  constructor(private readonly workspacesService: WorkspacesService) {}
+
+  /**
+   * Endpoint POST /workspaces
+   * Crea un espacio de trabajo del que el usuario autenticado es el primer miembro (ADMIN)
+   * Los usuarios con rol global VIEWER no pueden crear espacios de trabajo
+   *
+   * @param createWorkspaceDto - Nombre del espacio de trabajo
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @returns Promise<Workspace> - Espacio de trabajo creado
+   * @throws ForbiddenException - Si el rol del usuario no lo permite
+   */
+  @Post()
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN, Role.MEMBER)
+  @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true })) // Valida el DTO y rechaza los campos que no declara (ej: id)
+  create(
+    @Body() createWorkspaceDto: CreateWorkspaceDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.workspacesService.create(createWorkspaceDto, userId);
+  }
+
+  /**
+   * Endpoint GET /workspaces
+   * Obtiene los espacios de trabajo del usuario autenticado
+   *
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @returns Promise<Workspace[]> - Espacios de trabajo de los que es miembro
+   */
+  @Get()
+  findMine(@Request() req: AuthenticatedRequest) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.workspacesService.findMine(userId);
+  }
+
+  /**
+   * Endpoint GET /workspaces/:wid
+   * Obtiene un espacio de trabajo con sus miembros
+   *
+   * @param wid - ID del espacio de trabajo (parámetro de la URL)
+   * @returns Promise<Workspace> - Espacio de trabajo con sus miembros
+   * @throws NotFoundException - Si el espacio de trabajo no existe
+   * @throws ForbiddenException - Si el usuario no es miembro
+   */
+  @Get(':wid')
+  @UseGuards(WorkspaceMemberGuard)
+  findOne(@Param('wid') wid: string) {
+    return this.workspacesService.findOne(wid);
+  }
+
+  /**
+   * Endpoint POST /workspaces/:wid/members
+   * Añade un usuario como miembro del espacio de trabajo
+   *
+   * @param wid - ID del espacio de trabajo (parámetro de la URL)
+   * @param addWorkspaceMemberDto - ID del usuario que se añade y su rol
+   * @returns Promise<Workspace> - Espacio de trabajo con sus miembros
+   * @throws NotFoundException - Si el usuario no existe
+   * @throws ConflictException - Si el usuario ya es miembro
+   * @throws ForbiddenException - Si el usuario autenticado no es administrador del espacio de trabajo
+   */
+  @Post(':wid/members')
+  @UseGuards(WorkspaceMemberGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true })) // Valida el DTO y rechaza los campos que no declara (ej: id)
+  addMember(
+    @Param('wid') wid: string,
+    @Body() addWorkspaceMemberDto: AddWorkspaceMemberDto,
+  ) {
+    return this.workspacesService.addMember(wid, addWorkspaceMemberDto);
+  }
+
+  /**
+   * Endpoint PATCH /workspaces/:wid/members/:userId
+   * Cambia el rol de un miembro del espacio de trabajo
+   *
+   * @param wid - ID del espacio de trabajo (parámetro de la URL)
+   * @param memberId - ID del miembro (parámetro de la URL)
+   * @param updateWorkspaceMemberDto - Nuevo rol
+   * @returns Promise<Workspace> - Espacio de trabajo con sus miembros
+   * @throws NotFoundException - Si el usuario no es miembro
+   * @throws ForbiddenException - Si el usuario autenticado no es administrador del espacio de trabajo
+   * @throws BadRequestException - Si el espacio de trabajo se queda sin administradores
+   */
+  @Patch(':wid/members/:userId')
+  @UseGuards(WorkspaceMemberGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true })) // Valida el DTO y rechaza los campos que no declara (ej: id)
+  updateMember(
+    @Param('wid') wid: string,
+    @Param('userId') memberId: string,
+    @Body() updateWorkspaceMemberDto: UpdateWorkspaceMemberDto,
+  ) {
+    return this.workspacesService.updateMember(
+      wid,
+      memberId,
+      updateWorkspaceMemberDto,
+    );
+  }
+
+  /**
+   * Endpoint DELETE /workspaces/:wid/members/:userId
+   * Quita a un miembro del espacio de trabajo (o el usuario autenticado sale de él)
+   *
+   * @param wid - ID del espacio de trabajo (parámetro de la URL)
+   * @param memberId - ID del miembro que se quita (parámetro de la URL)
+   * @param req - Request que contiene el usuario autenticado (req.user)
+   * @throws NotFoundException - Si el usuario no es miembro
+   * @throws ForbiddenException - Si el usuario autenticado no puede quitar a ese miembro
+   * @throws BadRequestException - Si se quita al último administrador
+   */
+  @Delete(':wid/members/:userId')
+  @UseGuards(WorkspaceMemberGuard)
+  removeMember(
+    @Param('wid') wid: string,
+    @Param('userId') memberId: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    // Obtener el ID del usuario autenticado desde el token JWT
+    const userId = req.user.userId;
+
+    return this.workspacesService.removeMember(
+      wid,
+      memberId,
+      userId,
+      req.workspaceRole,
+    );
+  }
+}
@@ -0,0 +1,58 @@
+// Importa decoradores de NestJS
+import { Module } from '@nestjs/common';
+
+// Importa TypeOrmModule para registrar las entidades
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+// Importa los componentes del módulo de espacios de trabajo
+import { WorkspacesService } from './workspaces.service';
+import { WorkspacesController } from './workspaces.controller';
+import { WorkspaceMemberGuard } from './guards/workspace-member.guard';
+
+// Importa las entidades necesarias
+import { Workspace } from './entities/workspace.entity';
+import { WorkspaceMember } from './entities/workspace-member.entity';
+import { Task } from '../task/entities/task.entity';
+import { Category } from '../categories/entities/category.entity';
+import { Label } from '../labels/entities/label.entity';
+import { Comment } from '../comments/entities/comment.entity';
+import { User } from '../users/entities/user.entity';
+
+/**
+ * WorkspacesModule: Módulo de espacios de trabajo y de sus miembros
+ */
+@Module({
+  /**
+   * Registra Workspace y WorkspaceMember, Task, Category y Comment para comprobar a qué
+   * espacio (o tarea) pertenecen, Label para repartir las etiquetas existentes
+   * y User para validar los nuevos miembros
+   */
+  imports: [
+    TypeOrmModule.forFeature([
+      Workspace,
+      WorkspaceMember,
+      Task,
+      Category,
+      Label,
+      Comment,
+      User,
+    ]),
+  ],
+
+  /**
+   * Controlador que expone los endpoints de espacios de trabajo y miembros
+   */
+  controllers: [WorkspacesController],
+
+  /**
+   * WorkspacesService: Lógica de los espacios de trabajo
+   * WorkspaceMemberGuard: Resuelve el espacio de trabajo activo desde la ruta (:wid)
+   */
+  providers: [WorkspacesService, WorkspaceMemberGuard],
+
+  /**
+   * Exporta el servicio y el guard para que los módulos con rutas /workspaces/:wid los usen
+   */
+  exports: [WorkspacesService, WorkspaceMemberGuard],
+})
+export class WorkspacesModule {}
@@ -0,0 +1,135 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { WorkspacesService } from './workspaces.service';
+import { Workspace } from './entities/workspace.entity';
+import { WorkspaceMember } from './entities/workspace-member.entity';
+import { Task } from '../task/entities/task.entity';
+import { Category } from '../categories/entities/category.entity';
+import { Label } from '../labels/entities/label.entity';
+import { Comment } from '../comments/entities/comment.entity';
+import { User } from '../users/entities/user.entity';
+import { TimeEntry } from '../time-entries/entities/time-entry.entity';
+import { CreateWorkspaceDto } from './dto/create-workspace.dto';
+import { Role } from '../auth/enums/role.enum';
+
+describe('WorkspacesService', () => {
+  let workspacesService: WorkspacesService;
+  let manager: {
+    create: jest.Mock;
+    save: jest.Mock;
+    insert: jest.Mock;
+    delete: jest.Mock;
+    query: jest.Mock;
+    find: jest.Mock;
+  };
+
+  // Espacio de trabajo con un administrador y un miembro
+  const workspace = {
+    id: 'workspace-1',
+    members: [
+      { workspace_id: 'workspace-1', user_id: 'user-a', role: Role.ADMIN },
+      { workspace_id: 'workspace-1', user_id: 'user-b', role: Role.MEMBER },
+    ],
+  } as Workspace;
+
+  beforeEach(async () => {
+    manager = {
+      create: jest.fn((_: unknown, data: Partial<Workspace>) => data),
+      save: jest.fn((workspace: Partial<Workspace>) =>
+        Promise.resolve({ ...workspace, id: 'workspace-new' }),
+      ),
+      insert: jest.fn(),
+      delete: jest.fn(),
+      query: jest.fn(),
+      find: jest.fn().mockResolvedValue([]),
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkspacesService,
+        {
+          provide: getRepositoryToken(Workspace),
+          useValue: {
+            findOne: jest.fn().mockResolvedValue(workspace),
+            manager: {
+              transaction: (work: (m: typeof manager) => Promise<unknown>) =>
+                work(manager),
+            },
+          },
+        },
+        ...[WorkspaceMember, Task, Category, Label, Comment, User].map(
+          (entity) => ({ provide: getRepositoryToken(entity), useValue: {} }),
+        ),
+      ],
+    }).compile();
+
+    workspacesService = app.get<WorkspacesService>(WorkspacesService);
+  });
+
+  describe('create', () => {
+    it('should create a new workspace even if the body carries an id', async () => {
+      const body = {
+        name: 'Equipo',
+        id: 'workspace-of-someone-else',
+      } as CreateWorkspaceDto;
+
+      const workspace = await workspacesService.create(body, 'user-a');
+
+      const [, data] = manager.create.mock.calls[0] as [
+        unknown,
+        Partial<Workspace>,
+      ];
+      expect(data).toEqual({ name: 'Equipo', created_by: 'user-a' });
+      expect(manager.insert).toHaveBeenCalledWith(WorkspaceMember, {
+        workspace_id: 'workspace-new',
+        user_id: 'user-a',
+        role: Role.ADMIN,
+      });
+      expect(workspace.id).toBe('workspace-new');
+    });
+  });
+
+  describe('removeMember', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2026-10-19T10:00:00Z') });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should drop the watchers and stop the running timers of the removed member', async () => {
+      const timer = {
+        id: 'entry-1',
+        task_id: 'task-1',
+        user_id: 'user-b',
+        startedAt: new Date('2026-10-19T09:30:00Z'),
+        endedAt: null,
+        durationSeconds: null,
+      } as TimeEntry;
+      manager.find.mockResolvedValue([timer]);
+
+      await workspacesService.removeMember(
+        'workspace-1',
+        'user-b',
+        'user-a',
+        Role.ADMIN,
+      );
+
+      expect(manager.delete).toHaveBeenCalledWith(WorkspaceMember, {
+        workspace_id: 'workspace-1',
+        user_id: 'user-b',
+      });
+      const [sql, params] = manager.query.mock.calls[0] as [string, string[]];
+      expect(sql).toContain('DELETE FROM "task_watchers"');
+      expect(params).toEqual(['user-b', 'workspace-1']);
+      expect(manager.save).toHaveBeenCalledWith([
+        expect.objectContaining({
+          id: 'entry-1',
+          endedAt: new Date('2026-10-19T10:00:00Z'),
+          durationSeconds: 1800,
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,535 @@
+// Importa decoradores, interfaces y excepciones de NestJS
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+
+// Importa decoradores y tipos de TypeORM para trabajar con repositorios
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, IsNull, Repository } from 'typeorm';
+
+// Importa las entidades de espacios de trabajo y miembros
+import { Workspace } from './entities/workspace.entity';
+import { WorkspaceMember } from './entities/workspace-member.entity';
+
+// Importa las entidades que pertenecen a un espacio de trabajo y la de usuarios
+import { Task } from '../task/entities/task.entity';
+import { Category } from '../categories/entities/category.entity';
+import { Label } from '../labels/entities/label.entity';
+import { Comment } from '../comments/entities/comment.entity';
+import { User } from '../users/entities/user.entity';
+
+// Importa la entidad de los periodos de trabajo (temporizadores)
+import { TimeEntry } from '../time-entries/entities/time-entry.entity';
+
+// Importa los DTOs de espacios de trabajo
+import { CreateWorkspaceDto } from './dto/create-workspace.dto';
+import { AddWorkspaceMemberDto } from './dto/add-workspace-member.dto';
+import { UpdateWorkspaceMemberDto } from './dto/update-workspace-member.dto';
+
+// Importa el tipo del usuario autenticado y el enum de roles
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { Role } from '../auth/enums/role.enum';
+
+/**
+ * Nombre del espacio de trabajo que recibe las tareas y categorías creadas antes de existir los espacios
+ */
+const DEFAULT_WORKSPACE_NAME = 'General';
+
+/**
+ * Decorador que marca esta clase como un proveedor inyectable de NestJS
+ */
+@Injectable()
+
+/**
+ * WorkspacesService - Servicio que gestiona los espacios de trabajo y sus miembros
+ * También comprueba el acceso a un espacio de trabajo para WorkspaceMemberGuard
+ */
+export class WorkspacesService implements OnModuleInit {
+  /**
+   * Constructor que recibe los repositorios mediante inyección de dependencias
+   * @param workspacesRepository - Repositorio de TypeORM para los espacios de trabajo
+   * @param membersRepository - Repositorio de TypeORM para los miembros
+   * @param tasksRepository - Repositorio de Task para comprobar a qué espacio pertenece una tarea
+   * @param categoriesRepository - Repositorio de Category para asignar las categorías existentes
+   * @param labelsRepository - Repositorio de Label para repartir las etiquetas existentes
+   * @param commentsRepository - Repositorio de Comment para comprobar a qué tarea pertenece un comentario
+   * @param usersRepository - Repositorio de User para validar los nuevos miembros
+   */
+  constructor(
+    @InjectRepository(Workspace)
+    private workspacesRepository: Repository<Workspace>,
+    @InjectRepository(WorkspaceMember)
+    private membersRepository: Repository<WorkspaceMember>,
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+    @InjectRepository(Category)
+    private categoriesRepository: Repository<Category>,
+    @InjectRepository(Label)
+    private labelsRepository: Repository<Label>,
+    @InjectRepository(Comment)
+    private commentsRepository: Repository<Comment>,
+    @InjectRepository(User)
+    private usersRepository: Repository<User>,
+  ) {}
+
+  /**
+   * Se ejecuta al iniciar el módulo
+   * Las tareas y categorías creadas antes de existir los espacios de trabajo no tienen espacio:
+   * se mueven a un espacio "General" del que pasan a ser miembros todos los usuarios existentes
+   * (los administradores globales como ADMIN y el resto como MEMBER)
+   * Las etiquetas creadas cuando eran globales se copian a cada espacio de trabajo
+   */
+  async onModuleInit(): Promise<void> {
+    const [orphanTasks, orphanCategories, orphanLabels] = await Promise.all([
+      this.tasksRepository.count({
+        where: { workspace_id: IsNull() },
+        withDeleted: true,
+      }),
+      this.categoriesRepository.count({
+        where: { workspace_id: IsNull() },
+        withDeleted: true,
+      }),
+      this.labelsRepository.count({ where: { workspace_id: IsNull() } }),
+    ]);
+    if (orphanTasks === 0 && orphanCategories === 0 && orphanLabels === 0) {
+      return;
+    }
+
+    await this.workspacesRepository.manager.transaction(async (manager) => {
+      if (orphanTasks > 0 || orphanCategories > 0) {
+        await this.createDefaultWorkspace(manager);
+      }
+      if (orphanLabels > 0) {
+        await this.distributeOrphanLabels(manager);
+      }
+    });
+  }
+
+  /**
+   * Crea el espacio "General" con todos los usuarios existentes como miembros
+   * y le asigna las tareas y categorías que no tienen espacio de trabajo
+   */
+  private async createDefaultWorkspace(manager: EntityManager): Promise<void> {
+    const workspace = await manager.save(
+      manager.create(Workspace, { name: DEFAULT_WORKSPACE_NAME }),
+    );
+
+    const users = await manager.find(User, {
+      select: { id: true, role: true },
+    });
+    await manager.insert(
+      WorkspaceMember,
+      users.map((user) => ({
+        workspace_id: workspace.id,
+        user_id: user.id,
+        role: user.role === Role.ADMIN ? Role.ADMIN : Role.MEMBER,
+      })),
+    );
+
+    // update() no filtra los registros de la papelera: también se mueven
+    await manager.update(
+      Task,
+      { workspace_id: IsNull() },
+      { workspace_id: workspace.id },
+    );
+    await manager.update(
+      Category,
+      { workspace_id: IsNull() },
+      { workspace_id: workspace.id },
+    );
+  }
+
+  /**
+   * Reparte las etiquetas que no tienen espacio de trabajo (eran visibles en todos):
+   * cada etiqueta se queda en el primer espacio de trabajo y se copia a los demás,
+   * y las tareas de cada espacio pasan a usar la copia de su espacio de trabajo
+   */
+  private async distributeOrphanLabels(manager: EntityManager): Promise<void> {
+    const workspaces = await manager.find(Workspace, {
+      select: { id: true },
+      order: { createdAt: 'ASC' },
+    });
+    if (workspaces.length === 0) {
+      return;
+    }
+
+    const [first, ...others] = workspaces;
+    const labels = await manager.find(Label, {
+      where: { workspace_id: IsNull() },
+    });
+
+    for (const label of labels) {
+      await manager.update(Label, label.id, { workspace_id: first.id });
+
+      for (const workspace of others) {
+        const copy = await manager.save(
+          manager.create(Label, {
+            name: label.name,
+            color: label.color,
+            workspace_id: workspace.id,
+          }),
+        );
+        await manager.query(
+          `UPDATE "task_labels" SET "label_id" = $1
+           WHERE "label_id" = $2
+             AND "task_id" IN (SELECT "id" FROM "tasks" WHERE "workspace_id" = $3)`,
+          [copy.id, label.id, workspace.id],
+        );
+      }
+    }
+  }
+
+  /**
+   * Crea un espacio de trabajo; el usuario que lo crea pasa a ser su primer miembro (ADMIN)
+   * Solo se copia el nombre: con un id del body, save() actualizaría un espacio de trabajo existente
+   *
+   * @param createWorkspaceDto - Nombre del espacio de trabajo
+   * @param userId - ID del usuario autenticado (extraído del token JWT)
+   * @returns Promise<Workspace> - Espacio de trabajo creado
+   */
+  async create(
+    createWorkspaceDto: CreateWorkspaceDto,
+    userId: string,
+  ): Promise<Workspace> {
+    return await this.workspacesRepository.manager.transaction(
+      async (manager) => {
+        const workspace = await manager.save(
+          manager.create(Workspace, {
+            name: createWorkspaceDto.name,
+            created_by: userId,
+          }),
+        );
+        await manager.insert(WorkspaceMember, {
+          workspace_id: workspace.id,
+          user_id: userId,
+          role: Role.ADMIN,
+        });
+
+        return workspace;
+      },
+    );
+  }
+
+  /**
+   * Obtiene los espacios de trabajo de los que el usuario es miembro
+   *
+   * @param userId - ID del usuario autenticado (extraído del token JWT)
+   * @returns Promise<Workspace[]> - Espacios de trabajo ordenados por nombre
+   */
+  async findMine(userId: string): Promise<Workspace[]> {
+    return await this.workspacesRepository
+      .createQueryBuilder('workspace')
+      .innerJoin('workspace.members', 'member', 'member.user_id = :userId', {
+        userId,
+      })
+      .orderBy('workspace.name', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Obtiene el rol del usuario en cada uno de sus espacios de trabajo
+   * Se incluye en el payload del token JWT al iniciar sesión
+   *
+   * @param userId - ID del usuario
+   * @returns Promise<Record<string, Role>> - Rol del usuario por ID de espacio de trabajo
+   */
+  async findRoles(userId: string): Promise<Record<string, Role>> {
+    const memberships = await this.membersRepository.find({
+      where: { user_id: userId },
+      select: { workspace_id: true, role: true },
+    });
+
+    return Object.fromEntries(
+      memberships.map((member) => [member.workspace_id, member.role]),
+    );
+  }
+
+  /**
+   * Obtiene un espacio de trabajo con sus miembros
+   *
+   * @param id - ID del espacio de trabajo (UUID)
+   * @returns Promise<Workspace> - Espacio de trabajo con sus miembros y sus datos de usuario
+   * @throws NotFoundException - Si el espacio de trabajo no existe
+   */
+  async findOne(id: string): Promise<Workspace> {
+    const workspace = await this.workspacesRepository.findOne({
+      where: { id },
+      relations: ['members', 'members.user'],
+      order: { members: { createdAt: 'ASC' } },
+    });
+
+    if (!workspace) {
+      throw new NotFoundException('Espacio de trabajo no encontrado');
+    }
+
+    return workspace;
+  }
+
+  /**
+   * Añade un usuario como miembro del espacio de trabajo
+   * Solo los administradores del espacio de trabajo pueden hacerlo (@Roles en el controlador)
+   *
+   * @param workspaceId - ID del espacio de trabajo (UUID)
+   * @param addWorkspaceMemberDto - ID del usuario que se añade y su rol (por defecto: MEMBER)
+   * @returns Promise<Workspace> - Espacio de trabajo con sus miembros
+   * @throws NotFoundException - Si el usuario no existe
+   * @throws ConflictException - Si el usuario ya es miembro
+   */
+  async addMember(
+    workspaceId: string,
+    addWorkspaceMemberDto: AddWorkspaceMemberDto,
+  ): Promise<Workspace> {
+    const userId = addWorkspaceMemberDto.user_id;
+
+    if (!(await this.usersRepository.existsBy({ id: userId }))) {
+      throw new NotFoundException('Usuario no encontrado');
+    }
+    if (await this.isMember(workspaceId, userId)) {
+      throw new ConflictException(
+        'El usuario ya es miembro del espacio de trabajo',
+      );
+    }
+
+    await this.membersRepository.insert({
+      workspace_id: workspaceId,
+      user_id: userId,
+      role: addWorkspaceMemberDto.role ?? Role.MEMBER,
+    });
+
+    return await this.findOne(workspaceId);
+  }
+
+  /**
+   * Cambia el rol de un miembro del espacio de trabajo
+   * Solo los administradores del espacio de trabajo pueden hacerlo (@Roles en el controlador)
+   *
+   * @param workspaceId - ID del espacio de trabajo (UUID)
+   * @param memberId - ID del usuario miembro
+   * @param updateWorkspaceMemberDto - Nuevo rol
+   * @returns Promise<Workspace> - Espacio de trabajo con sus miembros
+   * @throws NotFoundException - Si el usuario no es miembro
+   * @throws BadRequestException - Si se deja el espacio de trabajo sin administradores
+   */
+  async updateMember(
+    workspaceId: string,
+    memberId: string,
+    updateWorkspaceMemberDto: UpdateWorkspaceMemberDto,
+  ): Promise<Workspace> {
+    const workspace = await this.findOne(workspaceId);
+    const member = this.findMember(workspace, memberId);
+
+    if (updateWorkspaceMemberDto.role !== Role.ADMIN) {
+      this.assertKeepsAdmin(workspace, member);
+    }
+
+    await this.membersRepository.update(
+      { workspace_id: workspaceId, user_id: memberId },
+      { role: updateWorkspaceMemberDto.role },
+    );
+
+    return await this.findOne(workspaceId);
+  }
+
+  /**
+   * Quita a un miembro del espacio de trabajo
+   * Cada miembro puede salir por sí mismo; solo los administradores pueden quitar a otros
+   * El último administrador no puede dejar el espacio de trabajo
+   * En la misma transacción el usuario deja de seguir las tareas del espacio de trabajo
+   * y se detienen sus temporizadores en marcha en ellas
+   *
+   * @param workspaceId - ID del espacio de trabajo (UUID)
+   * @param memberId - ID del usuario que deja de ser miembro
+   * @param userId - ID del usuario autenticado
+   * @param workspaceRole - Rol del usuario autenticado en el espacio de trabajo (ADMIN para los administradores globales)
+   * @throws NotFoundException - Si el usuario no es miembro
+   * @throws ForbiddenException - Si el usuario autenticado no puede quitar a ese miembro
+   * @throws BadRequestException - Si se quita al último administrador
+   */
+  async removeMember(
+    workspaceId: string,
+    memberId: string,
+    userId: string,
+    workspaceRole?: Role,
+  ): Promise<void> {
+    const workspace = await this.findOne(workspaceId);
+    const member = this.findMember(workspace, memberId);
+
+    if (memberId !== userId && workspaceRole !== Role.ADMIN) {
+      throw new ForbiddenException(
+        'Solo los administradores del espacio de trabajo pueden quitar a otros miembros',
+      );
+    }
+    this.assertKeepsAdmin(workspace, member);
+
+    await this.workspacesRepository.manager.transaction(async (manager) => {
+      await manager.delete(WorkspaceMember, {
+        workspace_id: workspaceId,
+        user_id: memberId,
+      });
+
+      // Sin acceso al espacio de trabajo no debe recibir avisos de sus tareas
+      await manager.query(
+        `DELETE FROM "task_watchers"
+         WHERE "user_id" = $1
+           AND "task_id" IN (SELECT "id" FROM "tasks" WHERE "workspace_id" = $2)`,
+        [memberId, workspaceId],
+      );
+
+      // Los temporizadores en marcha se cierran ahora (incluidos los de tareas en la papelera)
+      const runningTimers = await manager.find(TimeEntry, {
+        where: {
+          user_id: memberId,
+          endedAt: IsNull(),
+          task: { workspace_id: workspaceId },
+        },
+        withDeleted: true,
+      });
+      const endedAt = new Date();
+      for (const entry of runningTimers) {
+        entry.endedAt = endedAt;
+        entry.durationSeconds = Math.round(
+          (endedAt.getTime() - entry.startedAt.getTime()) / 1000,
+        );
+      }
+      await manager.save(runningTimers);
+    });
+  }
+
+  /**
+   * Indica si un usuario es miembro de un espacio de trabajo
+   *
+   * @param workspaceId - ID del espacio de trabajo (UUID)
+   * @param userId - ID del usuario
+   * @returns Promise<boolean> - true si el usuario es miembro
+   */
+  async isMember(workspaceId: string, userId: string): Promise<boolean> {
+    return await this.membersRepository.existsBy({
+      workspace_id: workspaceId,
+      user_id: userId,
+    });
+  }
+
+  /**
+   * Comprueba que el usuario puede acceder al espacio de trabajo y obtiene su rol en él
+   * Los administradores globales pueden acceder a cualquier espacio de trabajo (como ADMIN)
+   *
+   * @param workspaceId - ID del espacio de trabajo (UUID)
+   * @param user - Usuario autenticado
+   * @returns Promise<Role> - Rol del usuario en el espacio de trabajo
+   * @throws NotFoundException - Si el espacio de trabajo no existe
+   * @throws ForbiddenException - Si el usuario no es miembro
+   */
+  async assertAccess(
+    workspaceId: string,
+    user: AuthenticatedUser,
+  ): Promise<Role> {
+    if (!(await this.workspacesRepository.existsBy({ id: workspaceId }))) {
+      throw new NotFoundException('Espacio de trabajo no encontrado');
+    }
+    if (user.role === Role.ADMIN) {
+      return Role.ADMIN;
+    }
+
+    const member = await this.membersRepository.findOneBy({
+      workspace_id: workspaceId,
+      user_id: user.userId,
+    });
+    if (!member) {
+      throw new ForbiddenException(
+        'No eres miembro de este espacio de trabajo',
+      );
+    }
+
+    return member.role;
+  }
+
+  /**
+   * Comprueba que la tarea pertenece al espacio de trabajo
+   * Incluye las tareas de la papelera (para poder restaurarlas)
+   *
+   * @param taskId - ID de la tarea (UUID)
+   * @param workspaceId - ID del espacio de trabajo (UUID)
+   * @throws NotFoundException - Si la tarea no existe en el espacio de trabajo
+   */
+  async assertTaskInWorkspace(
+    taskId: string,
+    workspaceId: string,
+  ): Promise<void> {
+    const exists = await this.tasksRepository.exists({
+      where: { id: taskId, workspace_id: workspaceId },
+      withDeleted: true,
+    });
+
+    if (!exists) {
+      throw new NotFoundException('Tarea no encontrada');
+    }
+  }
+
+  /**
+   * Comprueba que el comentario pertenece a la tarea
+   * Incluye los comentarios de la papelera (para poder restaurarlos)
+   *
+   * @param commentId - ID del comentario (UUID)
+   * @param taskId - ID de la tarea (UUID)
+   * @throws NotFoundException - Si el comentario no existe en la tarea
+   */
+  async assertCommentInTask(commentId: string, taskId: string): Promise<void> {
+    const exists = await this.commentsRepository.exists({
+      where: { id: commentId, which_todo: taskId },
+      withDeleted: true,
+    });
+
+    if (!exists) {
+      throw new NotFoundException('Comentario no encontrado');
+    }
+  }
+
+  /**
+   * Busca un miembro entre los miembros ya cargados del espacio de trabajo
+   *
+   * @param workspace - Espacio de trabajo con sus miembros
+   * @param memberId - ID del usuario miembro
+   * @returns WorkspaceMember - Miembro encontrado
+   * @throws NotFoundException - Si el usuario no es miembro
+   */
+  private findMember(workspace: Workspace, memberId: string): WorkspaceMember {
+    const member = workspace.members.find(
+      (candidate) => candidate.user_id === memberId,
+    );
+
+    if (!member) {
+      throw new NotFoundException(
+        'El usuario no es miembro del espacio de trabajo',
+      );
+    }
+
+    return member;
+  }
+
+  /**
+   * Comprueba que el espacio de trabajo conserva algún administrador si el miembro deja de serlo
+   *
+   * @param workspace - Espacio de trabajo con sus miembros
+   * @param member - Miembro que deja de ser administrador (o de ser miembro)
+   * @throws BadRequestException - Si es el último administrador
+   */
+  private assertKeepsAdmin(
+    workspace: Workspace,
+    member: WorkspaceMember,
+  ): void {
+    const admins = workspace.members.filter(
+      (candidate) => candidate.role === Role.ADMIN,
+    );
+
+    if (member.role === Role.ADMIN && admins.length === 1) {
+      throw new BadRequestException(
+        'El espacio de trabajo debe tener al menos un administrador',
+      );
+    }
+  }
+}